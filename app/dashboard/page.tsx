@@ -5,14 +5,30 @@ import { useRouter } from 'next/navigation'
 import { createClient } from '@/lib/supabase'
 import DashboardLayout, { BackgroundSettings, Effect, EffectType } from '@/components/DashboardLayout'
 import dynamic from 'next/dynamic'
-import { TimelineProvider, useTimeline, useTimelineActions } from '@/lib/timeline-store'
+import { TimelineProvider, getContentDuration, useTimeline, useTimelineActions } from '@/lib/timeline-store'
 import { sampleTimeline } from '@/lib/timeline'
+import { hexToColor } from '@/lib/color'
+import { isParticleEffect } from '@/lib/particles'
+import { getAncestorIds } from '@/lib/scene-evaluator'
+import { AudioPlayer, createAudioTrack, renderAudioMix } from '@/lib/audio'
+import { createPrecomp, getUsedPrecompIds, loadPrecompLibrary, savePrecompLibrary } from '@/lib/precomp'
+import type { Precomp } from '@/lib/precomp'
 import type { TemplateId } from '@/lib/presets'
 import { rollDurationForDistance, jumpHeightForDuration } from '@/lib/presets'
 import ConfirmDialog from '@/components/ConfirmDialog'
 import { HistoryManager, type HistorySnapshot } from '@/lib/history-manager'
 import { debounce } from '@/lib/utils'
 import { chaikinSmooth, calculatePathLength } from '@/lib/path-smoothing'
+import { serializeProject, parseProject, PROJECT_FILE_EXTENSION } from '@/lib/project-file'
+import { downloadBlob } from '@/lib/frame-export'
+import type { FrameSource } from '@/lib/frame-export'
+import { exportVideo } from '@/lib/video-export'
+import { exportAnimatedImage } from '@/lib/animated-image-export'
+import { exportImageSequence } from '@/lib/image-sequence-export'
+import { exportLottie } from '@/lib/lottie-export'
+import { exportAnimatedSvg, exportCssAnimation } from '@/lib/svg-export'
+import { isVectorFormat } from '@/components/ExportDialog'
+import type { ExportSettings, ExportRunOptions } from '@/components/ExportDialog'
 
 // Dynamically import MotionCanvas to avoid SSR issues with Pixi.js
 const MotionCanvas = dynamic(() => import('@/components/MotionCanvas'), { 
@@ -35,7 +51,9 @@ type ShapeKind =
 
 interface Layer {
   id: string
-  type: 'shape' | 'image' | 'svg' | 'text'
+  type: 'shape' | 'image' | 'svg' | 'text' | 'group' | 'precomp'
+  parentId?: string  // Layer (usually a group) whose transform this layer inherits
+  parentOrigin?: { x: number; y: number }  // Parent position when linked
   shapeKind: ShapeKind
   x: number
   y: number
@@ -44,6 +62,8 @@ interface Layer {
   scale: number
   rotation?: number
   fillColor: number
+  strokeColor?: number
+  strokeWidth?: number
   effects?: Effect[]
   imageUrl?: string  // Base64 data URL for imported images
   svgUrl?: string    // URL to SVG (from Iconify or local)
@@ -58,6 +78,29 @@ interface Layer {
   counterStart?: number   // Starting number
   counterEnd?: number     // Ending number
   counterPrefix?: string  // Currency prefix (e.g. "$")
+  // Pre-comp properties
+  precompId?: string      // Saved composition this layer places
+  timeOffset?: number     // ms after the bar start where the inner timeline begins
+  timeStretch?: number    // Playback length factor (2 = half speed)
+  loop?: boolean          // Repeat the inner timeline
+}
+
+// Detach from the current parent and link to `parentId`. The parent's move since
+// linking is baked into the position so the layer stays put (its scale and
+// rotation are not undone).
+function relinkLayer(layer: Layer, all: Layer[], parentId: string | null): Layer {
+  const oldParent = all.find((l) => l.id === layer.parentId)
+  const origin = layer.parentOrigin ?? oldParent
+  const x = layer.x + (oldParent && origin ? oldParent.x - origin.x : 0)
+  const y = layer.y + (oldParent && origin ? oldParent.y - origin.y : 0)
+  const newParent = all.find((l) => l.id === parentId)
+  return {
+    ...layer,
+    x,
+    y,
+    parentId: newParent?.id,
+    parentOrigin: newParent ? { x: newParent.x, y: newParent.y } : undefined,
+  }
 }
 
 export default function DashboardPage() {
@@ -102,6 +145,8 @@ function DashboardContent() {
     to: '#0b1223',
     opacity: 1,
   })
+  // Saved pre-comps, shared by every project in this browser
+  const [precomps, setPrecomps] = useState<Precomp[]>(() => (typeof window === 'undefined' ? [] : loadPrecompLibrary()))
   const timeline = useTimelineActions()
   const playhead = useTimeline((s) => s.currentTime)
   const templateSpeed = useTimeline((s) => s.templateSpeed)
@@ -155,6 +200,20 @@ function DashboardContent() {
       setPathVersion(v => v + 1)
     }
   }, [selectedClipId, templateClips])
+
+  // Audio tracks follow play/pause, seeking, looping and the playback rate
+  useEffect(() => {
+    const player = new AudioPlayer()
+    const unsubscribe = timeline.subscribe(() => {
+      const state = timeline.getState()
+      player.sync(state, state.audioTracks)
+    })
+    return () => {
+      unsubscribe()
+      player.dispose()
+    }
+  }, [timeline])
+
   useEffect(() => {
     const checkUser = async () => {
       const supabase = createClient()
@@ -172,6 +231,7 @@ function DashboardContent() {
 
   // History Manager
   const historyManagerRef = useRef(new HistoryManager())
+  const frameSourceRef = useRef<FrameSource | null>(null)
   const [canUndo, setCanUndo] = useState(false)
   const [canRedo, setCanRedo] = useState(false)
 
@@ -641,8 +701,7 @@ function DashboardContent() {
            if (effectId === 'blur') defaultParams = { strength: 4 }
            if (effectId === 'glitch') defaultParams = { slices: 5, offset: 10 }
            if (effectId === 'pixelate') defaultParams = { size: 10 }
-           if (effectId === 'sparkles') defaultParams = { density: 0.5, speed: 1 }
-           if (effectId === 'confetti') defaultParams = { density: 0.5, speed: 1 }
+           if (isParticleEffect(effectId)) defaultParams = { density: 0.5, speed: 1 }
            
            newEffects = [...effects, { id: crypto.randomUUID(), type: effectId as EffectType, isEnabled: true, params: defaultParams }]
         } else {
@@ -987,6 +1046,139 @@ function DashboardContent() {
     setTemplateVersion((v) => v + 1)
   }
 
+  // Handle adding a Group (draws nothing, its transform carries the layers parented to it)
+  const handleAddGroup = () => {
+    const selected = layers.find((l) => l.id === selectedLayerId)
+    const newLayer: Layer = {
+      id: crypto.randomUUID(),
+      type: 'group',
+      shapeKind: 'square', // Placeholder, not used for groups
+      x: selected?.x ?? 0.5,
+      y: selected?.y ?? 0.5,
+      width: selected?.width ?? 100,
+      height: selected?.height ?? 100,
+      scale: 1,
+      fillColor: 0xffffff,
+      rotation: 0,
+      // The group takes the selected layer's place in the hierarchy and adopts it
+      parentId: selected?.parentId,
+      parentOrigin: selected?.parentOrigin,
+    }
+
+    setLayers((prev) => [
+      ...prev.map((layer) =>
+        layer.id === selected?.id
+          ? { ...layer, parentId: newLayer.id, parentOrigin: { x: newLayer.x, y: newLayer.y } }
+          : layer
+      ),
+      newLayer,
+    ])
+    setSelectedLayerId(newLayer.id)
+    pushSnapshot()
+    timeline.ensureTrack(newLayer.id, {
+      position: { x: newLayer.x, y: newLayer.y },
+      scale: newLayer.scale,
+      rotation: 0,
+      opacity: 1,
+    })
+    lastLayerBaseRef.current[newLayer.id] = { x: newLayer.x, y: newLayer.y, scale: newLayer.scale }
+    setLayerOrder((prev) => [...prev, newLayer.id])
+    setSelectedTemplate('')
+    setTemplateVersion((v) => v + 1)
+  }
+
+  const updatePrecomps = (next: Precomp[]) => {
+    setPrecomps(next)
+    savePrecompLibrary(next)
+  }
+
+  // Pre-comps placed by this project, directly or inside other pre-comps
+  const usedPrecompIds = useMemo(() => getUsedPrecompIds(layers, precomps), [layers, precomps])
+
+  // Save the selected layer (with its children) or, with nothing selected, every layer
+  const handleSavePrecomp = (name: string) => {
+    if (layers.length === 0) return
+    const ids = layers.some((l) => l.id === selectedLayerId) ? [selectedLayerId] : layers.map((l) => l.id)
+    const { tracks, templateClips, effectClips } = timeline.getState()
+    updatePrecomps([...precomps, createPrecomp(name, ids, { layers, layerOrder, tracks, templateClips, effectClips })])
+  }
+
+  const handleDeletePrecomp = (precompId: string) => {
+    if (usedPrecompIds.includes(precompId)) return
+    updatePrecomps(precomps.filter((p) => p.id !== precompId))
+  }
+
+  // Place a saved pre-comp as a single layer whose bar covers one pass of it
+  const handleInsertPrecomp = (precompId: string) => {
+    const precomp = precomps.find((p) => p.id === precompId)
+    if (!precomp) return
+    const newLayer: Layer = {
+      id: crypto.randomUUID(),
+      type: 'precomp',
+      shapeKind: 'square', // Placeholder, not used for pre-comps
+      x: 0.5,
+      y: 0.5,
+      width: 100,
+      height: 100,
+      scale: 1,
+      fillColor: 0xffffff,
+      rotation: 0,
+      precompId,
+      timeOffset: 0,
+      timeStretch: 1,
+      loop: false,
+    }
+
+    setLayers((prev) => [...prev, newLayer])
+    setSelectedLayerId(newLayer.id)
+    pushSnapshot()
+    timeline.ensureTrack(newLayer.id, {
+      position: { x: newLayer.x, y: newLayer.y },
+      scale: newLayer.scale,
+      rotation: 0,
+      opacity: 1,
+    })
+    timeline.updateLayer(newLayer.id, { duration: Math.max(100, precomp.duration) })
+    lastLayerBaseRef.current[newLayer.id] = { x: newLayer.x, y: newLayer.y, scale: newLayer.scale }
+    setLayerOrder((prev) => [...prev, newLayer.id])
+    setSelectedTemplate('')
+    setTemplateVersion((v) => v + 1)
+  }
+
+  // Decode an audio file and place it at the playhead
+  const handleImportAudio = async (file: File) => {
+    try {
+      timeline.addAudioTrack(await createAudioTrack(file, timeline.getState().currentTime))
+    } catch (error) {
+      console.error('Failed to import audio', error)
+      alert('Could not decode this audio file.')
+    }
+  }
+
+  const handleUpdatePrecompTiming = (
+    id: string,
+    timing: { timeOffset?: number; timeStretch?: number; loop?: boolean }
+  ) => {
+    setLayers((prev) =>
+      prev.map((layer) =>
+        layer.id === id
+          ? { ...layer, ...timing }
+          : layer
+      )
+    )
+  }
+
+  const handleSetLayerParent = (id: string, parentId: string | null) => {
+    // Parenting a layer to itself or to one of its own children would loop
+    if (parentId && (parentId === id || getAncestorIds(layers, parentId).includes(id))) return
+    const layer = layers.find((l) => l.id === id)
+    if (!layer) return
+    const next = relinkLayer(layer, layers, parentId)
+    setLayers((prev) => prev.map((l) => (l.id === id ? next : l)))
+    lastLayerBaseRef.current[id] = { x: next.x, y: next.y, scale: next.scale }
+    pushSnapshot()
+  }
+
   const handleUpdateLayerPosition = (id: string, x: number, y: number) => {
     const nx = Math.max(0, Math.min(1, x))
     const ny = Math.max(0, Math.min(1, y))
@@ -997,9 +1189,14 @@ function DashboardContent() {
           : layer
       )
     )
-    const currentScale = layers.find((l) => l.id === id)?.scale ?? 1
-    lastLayerBaseRef.current[id] = { x: nx, y: ny, scale: currentScale }
+    const layer = layers.find((l) => l.id === id)
+    lastLayerBaseRef.current[id] = { x: nx, y: ny, scale: layer?.scale ?? 1 }
     timeline.ensureTrack(id)
+    // Record mode turns canvas moves into position keyframes at the playhead
+    const { isRecording, isPlaying, currentTime } = timeline.getState()
+    if (isRecording && !isPlaying) {
+      timeline.recordPositionKeyframe(id, currentTime, { x: nx, y: ny }, { x: layer?.x ?? nx, y: layer?.y ?? ny })
+    }
   }
 
   const handleUpdateLayerScale = (id: string, scale: number) => {
@@ -1062,6 +1259,14 @@ function DashboardContent() {
     )
   }
 
+  // Once a color track has keyframes, editing that color keys it at the playhead
+  const keyAnimatedColor = (id: string, key: 'fillColor' | 'strokeColor', color: number) => {
+    const { tracks, currentTime } = timeline.getState()
+    if (tracks.find((t) => t.layerId === id)?.[key]?.length) {
+      timeline.setColorKeyframe(id, key, { time: Math.round(currentTime), value: color })
+    }
+  }
+
   const handleUpdateLayerColor = (id: string, color: number) => {
     setLayers((prev) =>
       prev.map((layer) =>
@@ -1070,6 +1275,33 @@ function DashboardContent() {
           : layer
       )
     )
+    keyAnimatedColor(id, 'fillColor', color)
+  }
+
+  const handleUpdateLayerStroke = (id: string, stroke: { color?: number; width?: number }) => {
+    setLayers((prev) =>
+      prev.map((layer) =>
+        layer.id === id
+          ? {
+              ...layer,
+              ...(stroke.color !== undefined && { strokeColor: stroke.color }),
+              ...(stroke.width !== undefined && { strokeWidth: Math.max(0, stroke.width) }),
+            }
+          : layer
+      )
+    )
+    if (stroke.color !== undefined) keyAnimatedColor(id, 'strokeColor', stroke.color)
+  }
+
+  // Same auto-keying for the background colors
+  const handleBackgroundChange = (next: BackgroundSettings) => {
+    const { backgroundTracks, currentTime } = timeline.getState()
+    ;(['solid', 'from', 'to'] as const).forEach((key) => {
+      if (backgroundTracks[key]?.length && next[key] !== background[key]) {
+        timeline.setBackgroundKeyframe(key, { time: Math.round(currentTime), value: hexToColor(next[key]) })
+      }
+    })
+    setBackground(next)
   }
 
   const handleUpdateLayerFontFamily = (id: string, fontFamily: string) => {
@@ -1547,6 +1779,158 @@ function DashboardContent() {
     pushSnapshot()
   }
 
+  // Save the whole composition as a versioned project file
+  const handleSaveProject = (canvas: { width: number; height: number }) => {
+    const state = timeline.getState()
+    const json = serializeProject({
+      canvas,
+      background,
+      layers,
+      layerOrder,
+      precomps: precomps.filter((p) => usedPrecompIds.includes(p.id)),
+      timeline: {
+        duration: state.duration,
+        loop: state.loop,
+        playbackRate: state.playbackRate,
+        fps: state.fps,
+        quantizeToFrames: state.quantizeToFrames,
+        tracks: state.tracks,
+        backgroundTracks: state.backgroundTracks,
+        templateClips: state.templateClips,
+        effectClips: state.effectClips,
+        clickMarkers: state.clickMarkers,
+        audioTracks: state.audioTracks,
+        audioDrivers: state.audioDrivers,
+      },
+    })
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `motionshapes-${new Date().toISOString().slice(0, 10)}${PROJECT_FILE_EXTENSION}`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  // Open a project file, replacing the current composition
+  // Returns the saved canvas size so the layout can restore the viewport
+  const handleOpenProject = async (file: File) => {
+    try {
+      const project = parseProject(await file.text())
+      timeline.loadComposition(project.timeline)
+      setLayers(project.layers)
+      setLayerOrder(project.layerOrder)
+      setBackground(project.background)
+      // Pre-comps embedded in the file join (and refresh) the library
+      const embedded = project.precomps ?? []
+      if (embedded.length > 0) {
+        updatePrecomps([...precomps.filter((p) => !embedded.some((e) => e.id === p.id)), ...embedded])
+      }
+      lastLayerBaseRef.current = Object.fromEntries(
+        project.layers.map((l) => [l.id, { x: l.x, y: l.y, scale: l.scale }])
+      )
+      setSelectedLayerId('')
+      setSelectedClipId('')
+      setSelectedTemplate('')
+      setActivePathPoints([])
+      setTemplateVersion((v) => v + 1)
+      setTimeout(() => pushSnapshot(), 0)
+      return project.canvas
+    } catch (error) {
+      console.error('Failed to open project', error)
+      alert(error instanceof Error ? error.message : 'Failed to open project file.')
+      return null
+    }
+  }
+
+  // Render the timeline frame by frame through the canvas and download the result.
+  // Resolves with warnings when a vector format had to drop features.
+  const handleExport = async (settings: ExportSettings, run: ExportRunOptions): Promise<string[] | void> => {
+    const state = timeline.getState()
+    const name = `motionshapes-${new Date().toISOString().slice(0, 10)}`
+    const startTime = settings.range?.start ?? 0
+    const duration = settings.range ? settings.range.end - settings.range.start : getContentDuration(state)
+
+    // Vector formats are converted from the data, no rendering needed
+    if (isVectorFormat(settings.format)) {
+      const composition = {
+        canvas: { width: settings.width, height: settings.height },
+        background,
+        layers,
+        layerOrder,
+        timeline: {
+          duration: state.duration,
+          loop: state.loop,
+          playbackRate: state.playbackRate,
+          tracks: state.tracks,
+          backgroundTracks: state.backgroundTracks,
+          templateClips: state.templateClips,
+          effectClips: state.effectClips,
+          clickMarkers: state.clickMarkers,
+          audioDrivers: state.audioDrivers,
+        },
+      }
+      const vectorOptions = { fps: settings.fps, startTime, duration, name }
+      if (settings.format === 'lottie') {
+        const { animation, warnings } = exportLottie(composition, vectorOptions)
+        downloadBlob(new Blob([JSON.stringify(animation)], { type: 'application/json' }), `${name}.lottie.json`)
+        return warnings
+      }
+      if (settings.format === 'svg') {
+        const { markup, warnings } = exportAnimatedSvg(composition, vectorOptions)
+        downloadBlob(new Blob([markup], { type: 'image/svg+xml' }), `${name}.svg`)
+        return warnings
+      }
+      const { markup, warnings } = exportCssAnimation(composition, vectorOptions)
+      downloadBlob(new Blob([markup], { type: 'text/html' }), `${name}.html`)
+      return warnings
+    }
+
+    const source = frameSourceRef.current
+    if (!source) throw new Error('Canvas is not ready for export')
+    const restoreTime = state.currentTime
+    timeline.setPlaying(false)
+    const frameOptions = {
+      fps: settings.fps,
+      width: settings.width,
+      height: settings.height,
+      startTime,
+      duration,
+      background: settings.transparent ? undefined : background,
+      backgroundTracks: state.backgroundTracks,
+      source,
+      signal: run.signal,
+      onProgress: run.onProgress,
+    }
+    try {
+      if (settings.format === 'gif' || settings.format === 'apng') {
+        const blob = await exportAnimatedImage({
+          ...frameOptions,
+          format: settings.format,
+          colors: settings.colors,
+          dither: settings.dither,
+          loopCount: settings.loopCount,
+          frameSkip: settings.frameSkip,
+        })
+        downloadBlob(blob, `${name}.${settings.format === 'apng' ? 'png' : 'gif'}`)
+      } else if (settings.format === 'png' || settings.format === 'spritesheet') {
+        const blob = await exportImageSequence({
+          ...frameOptions,
+          layout: settings.format === 'png' ? 'sequence' : 'spritesheet',
+          name,
+        })
+        downloadBlob(blob, `${name}-${settings.format === 'png' ? 'frames' : 'spritesheet'}.zip`)
+      } else {
+        const audio = state.audioTracks.some((t) => !t.muted)
+          ? await renderAudioMix(state.audioTracks, startTime, duration)
+          : undefined
+        const blob = await exportVideo({ ...frameOptions, format: settings.format, audio })
+        downloadBlob(blob, `${name}.${settings.format}`)
+      }
+    } finally {
+      timeline.setCurrentTime(restoreTime)
+    }
+  }
+
   const handleDeleteClip = useCallback((clipId: string) => {
     const layer = layers.find((l) => l.id === selectedLayerId)
     const layerBase = layer
@@ -1581,9 +1965,17 @@ function DashboardContent() {
     // Remove all clips for this layer
     const layerClips = templateClips.filter(c => c.layerId === layerId)
     layerClips.forEach(clip => timeline.removeTemplateClip(clip.id))
+    timeline
+      .getState()
+      .audioDrivers.filter(d => d.layerId === layerId)
+      .forEach(driver => timeline.removeAudioDriver(driver.id))
     
-    // Remove layer from state
-    setLayers(prev => prev.filter(l => l.id !== layerId))
+    // Remove layer from state, its children move up to the top level
+    setLayers(prev =>
+      prev
+        .filter(l => l.id !== layerId)
+        .map(l => (l.parentId === layerId ? relinkLayer(l, prev, null) : l))
+    )
     
     // Remove from layer order
     setLayerOrder(prev => prev.filter(id => id !== layerId))
@@ -1608,6 +2000,21 @@ function DashboardContent() {
         return
       }
 
+      // Arrow keys step the playhead one frame at the project fps (Shift: one second)
+      if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+        e.preventDefault()
+        const frames = e.shiftKey ? Math.round(timeline.getState().fps) : 1
+        timeline.stepFrames(e.key === 'ArrowLeft' ? -frames : frames)
+        return
+      }
+
+      // I / O set the work area's in and out points at the playhead
+      if ((e.key === 'i' || e.key === 'o') && !e.metaKey && !e.ctrlKey) {
+        e.preventDefault()
+        timeline.setWorkAreaPoint(e.key === 'i' ? 'in' : 'out', timeline.getState().currentTime)
+        return
+      }
+
       if (e.key === 'Delete' || e.key === 'Backspace') {
         e.preventDefault()
         
@@ -1628,7 +2035,12 @@ function DashboardContent() {
               }
             : undefined
 
-          timeline.removeTemplateClip(currentSelectedClipId, layerBase)
+          // Shift+Delete ripples: later content on the layer moves back over the gap
+          if (e.shiftKey) {
+            timeline.rippleRemoveTemplateClip(currentSelectedClipId, layerBase)
+          } else {
+            timeline.removeTemplateClip(currentSelectedClipId, layerBase)
+          }
           setSelectedClipId('')
           setSelectedTemplate('')
           timeline.selectClip?.(currentSelectedClipId)
@@ -1664,8 +2076,19 @@ function DashboardContent() {
         onAddShape={handleAddShape}
         onAddSvg={handleAddSvg}
         onAddText={handleAddText}
+        onAddGroup={handleAddGroup}
+        precomps={precomps}
+        usedPrecompIds={usedPrecompIds}
+        onSavePrecomp={handleSavePrecomp}
+        onInsertPrecomp={handleInsertPrecomp}
+        onImportAudio={handleImportAudio}
+        onDeletePrecomp={handleDeletePrecomp}
+        onUpdatePrecompTiming={handleUpdatePrecompTiming}
         onAddCounter={handleAddCounter}
         onImportImage={handleImportImage}
+        onSaveProject={handleSaveProject}
+        onOpenProject={handleOpenProject}
+        onExport={handleExport}
         onStartDrawPath={handleStartDrawPath}
         onStartDrawLine={handleStartDrawLine}
         showSelectShapeHint={showSelectShapeHint}
@@ -1679,7 +2102,7 @@ function DashboardContent() {
         onCancelPath={handleCancelPath}
         pathPointCount={pathPoints.length}
         background={background}
-        onBackgroundChange={setBackground}
+        onBackgroundChange={handleBackgroundChange}
         templateSpeed={templateSpeed}
         rollDistance={rollDistance}
         jumpHeight={jumpHeight}
@@ -1718,6 +2141,8 @@ function DashboardContent() {
         onUpdateLayerText={handleUpdateLayerText}
         onUpdateLayerFontSize={handleUpdateLayerFontSize}
         onUpdateLayerColor={handleUpdateLayerColor}
+        onUpdateLayerStroke={handleUpdateLayerStroke}
+        onSetLayerParent={handleSetLayerParent}
         onUpdateLayerFontFamily={handleUpdateLayerFontFamily}
         onUpdateCounterStart={handleUpdateLayerCounterStart}
         onUpdateCounterEnd={handleUpdateLayerCounterEnd}
@@ -2104,8 +2529,10 @@ function DashboardContent() {
         <MotionCanvas 
           template={selectedTemplate} 
           templateVersion={templateVersion} 
+          frameSourceRef={frameSourceRef}
           layers={layers}
           layerOrder={layerOrder}
+          precomps={precomps}
           onUpdateLayerPosition={handleUpdateLayerPosition}
           onUpdateLayerScale={handleUpdateLayerScale}
           onUpdateLayerSize={handleUpdateLayerSize}
@@ -0,0 +1,163 @@
+'use client'
+
+import { Plus, X } from 'lucide-react'
+import { AUDIO_BANDS, DRIVER_PROPERTIES } from '@/lib/audio'
+import type { AudioBand, AudioDriver, DriverProperty } from '@/lib/audio'
+import { useTimeline, useTimelineActions } from '@/lib/timeline-store'
+
+interface AudioDriverPanelProps {
+  layerId: string
+}
+
+interface SliderProps {
+  label: string
+  value: number
+  min: number
+  max: number
+  step: number
+  format?: (value: number) => string
+  onChange: (value: number) => void
+}
+
+function Slider({ label, value, min, max, step, format, onChange }: SliderProps) {
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-[10px] uppercase text-neutral-500">{label}</span>
+        <span className="text-[10px] text-neutral-400">{format ? format(value) : value}</span>
+      </div>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-full accent-violet-500"
+      />
+    </div>
+  )
+}
+
+/**
+ * Audio-reactive drivers of one layer: which track and band, which property,
+ * and how the level maps onto it
+ */
+export default function AudioDriverPanel({ layerId }: AudioDriverPanelProps) {
+  const timeline = useTimelineActions()
+  const audioTracks = useTimeline((s) => s.audioTracks)
+  const allDrivers = useTimeline((s) => s.audioDrivers)
+  const drivers = allDrivers.filter((d) => d.layerId === layerId)
+
+  const update = (driver: AudioDriver, updates: Partial<Omit<AudioDriver, 'id' | 'layerId'>>) =>
+    timeline.updateAudioDriver(driver.id, updates)
+
+  return (
+    <div className="mb-6 space-y-4 rounded-xl border border-neutral-800 bg-neutral-900/50 p-4">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium text-neutral-400">Audio Reactive</span>
+        <button
+          onClick={() => audioTracks[0] && timeline.addAudioDriver(layerId, audioTracks[0].id)}
+          disabled={audioTracks.length === 0}
+          className="inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-[10px] text-neutral-400 hover:bg-white/5 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent"
+          title={audioTracks.length ? 'Drive a property from audio' : 'Import audio first'}
+        >
+          <Plus className="h-3 w-3" />
+          Driver
+        </button>
+      </div>
+
+      {drivers.length === 0 && (
+        <p className="text-[11px] text-neutral-500">
+          {audioTracks.length ? 'Map an audio track\'s level to scale, opacity, rotation, glow or pulse.' : 'Import audio to drive properties from sound.'}
+        </p>
+      )}
+
+      {drivers.map((driver) => {
+        const property = DRIVER_PROPERTIES.find((p) => p.key === driver.property) ?? DRIVER_PROPERTIES[0]
+        return (
+          <div key={driver.id} className="space-y-3 rounded-lg border border-neutral-800 p-3">
+            <div className="flex items-center gap-2">
+              <select
+                value={driver.property}
+                onChange={(e) => update(driver, { property: e.target.value as DriverProperty })}
+                className="min-w-0 flex-1 rounded bg-neutral-800 px-2 py-1 text-xs text-white focus:outline-none focus:ring-1 focus:ring-purple-500"
+              >
+                {DRIVER_PROPERTIES.map((p) => (
+                  <option key={p.key} value={p.key}>
+                    {p.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => timeline.removeAudioDriver(driver.id)}
+                className="flex-shrink-0 text-neutral-600 hover:text-rose-400 transition-colors"
+                title="Remove driver"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+            <div className="flex items-center gap-2">
+              <select
+                value={driver.audioTrackId}
+                onChange={(e) => update(driver, { audioTrackId: e.target.value })}
+                className="min-w-0 flex-1 rounded bg-neutral-800 px-2 py-1 text-xs text-white focus:outline-none focus:ring-1 focus:ring-purple-500"
+              >
+                {audioTracks.map((track) => (
+                  <option key={track.id} value={track.id}>
+                    {track.name}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={driver.band}
+                onChange={(e) => update(driver, { band: e.target.value as AudioBand })}
+                className="rounded bg-neutral-800 px-2 py-1 text-xs text-white focus:outline-none focus:ring-1 focus:ring-purple-500"
+              >
+                {AUDIO_BANDS.map((band) => (
+                  <option key={band.key} value={band.key}>
+                    {band.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <Slider
+              label="Gain"
+              value={driver.gain}
+              min={0}
+              max={8}
+              step={0.1}
+              format={(v) => `${v.toFixed(1)}x`}
+              onChange={(gain) => update(driver, { gain })}
+            />
+            <Slider
+              label="Smoothing"
+              value={driver.smoothing}
+              min={0}
+              max={0.99}
+              step={0.01}
+              format={(v) => `${Math.round(v * 100)}%`}
+              onChange={(smoothing) => update(driver, { smoothing })}
+            />
+            <Slider
+              label="At silence"
+              value={driver.min}
+              min={property.min}
+              max={property.max}
+              step={property.step}
+              onChange={(min) => update(driver, { min })}
+            />
+            <Slider
+              label="At full level"
+              value={driver.max}
+              min={property.min}
+              max={property.max}
+              step={property.step}
+              onChange={(max) => update(driver, { max })}
+            />
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,159 @@
+'use client'
+
+import { X } from 'lucide-react'
+import { useRef } from 'react'
+import { applyEasing, EASING_PRESETS, getCubicBezier } from '@/lib/timeline'
+import type { Bezier, Easing } from '@/lib/timeline'
+
+interface CurveEditorProps {
+  easing?: Easing
+  title?: string
+  onChange: (easing: Easing) => void
+  onClose: () => void
+}
+
+// Plot geometry: the unit square plus room above and below for overshoot
+const SIZE = 120
+const PAD = 10
+const OVERSHOOT = 0.4
+const WIDTH = SIZE + PAD * 2
+const HEIGHT = SIZE * (1 + OVERSHOOT * 2) + PAD * 2
+
+const toX = (t: number) => PAD + t * SIZE
+const toY = (v: number) => PAD + (1 + OVERSHOOT - v) * SIZE
+
+const formatPreset = (preset: string) =>
+  preset === 'linear' ? 'Linear' : preset.replace(/^ease/, '').replace(/([a-z])([A-Z])/g, '$1 $2')
+
+export default function CurveEditor({ easing = 'linear', title = 'Easing', onChange, onClose }: CurveEditorProps) {
+  const svgRef = useRef<SVGSVGElement>(null)
+  const mode = typeof easing === 'string' ? 'preset' : easing.type
+  const bezier = getCubicBezier(easing)
+
+  const curve = Array.from({ length: 81 }, (_, i) => {
+    const t = i / 80
+    return `${i === 0 ? 'M' : 'L'}${toX(t).toFixed(1)} ${toY(applyEasing(t, easing)).toFixed(1)}`
+  }).join(' ')
+
+  // Dragging a handle turns any bezier-shaped easing into a custom curve
+  const startHandleDrag = (e: React.PointerEvent, handle: 1 | 2) => {
+    if (!bezier) return
+    e.preventDefault()
+    e.stopPropagation()
+    const rect = svgRef.current?.getBoundingClientRect()
+    if (!rect) return
+    const scale = rect.width / WIDTH
+    let current: Bezier = [...bezier]
+
+    const onMove = (ev: PointerEvent) => {
+      const x = Math.min(1, Math.max(0, ((ev.clientX - rect.left) / scale - PAD) / SIZE))
+      const y = Math.min(1 + OVERSHOOT, Math.max(-OVERSHOOT, 1 + OVERSHOOT - ((ev.clientY - rect.top) / scale - PAD) / SIZE))
+      current = handle === 1 ? [x, y, current[2], current[3]] : [current[0], current[1], x, y]
+      const [x1, y1, x2, y2] = current.map((v) => Math.round(v * 100) / 100)
+      onChange({ type: 'cubicBezier', x1, y1, x2, y2 })
+    }
+
+    const onUp = () => {
+      window.removeEventListener('pointermove', onMove)
+      window.removeEventListener('pointerup', onUp)
+    }
+
+    window.addEventListener('pointermove', onMove)
+    window.addEventListener('pointerup', onUp)
+  }
+
+  const handleModeChange = (value: string) => {
+    if (value === 'cubicBezier') {
+      const [x1, y1, x2, y2] = bezier ?? [0.25, 0.1, 0.25, 1]
+      onChange({ type: 'cubicBezier', x1, y1, x2, y2 })
+    } else if (value === 'steps') {
+      onChange({ type: 'steps', count: 4, position: 'end' })
+    } else {
+      onChange(value as Easing)
+    }
+  }
+
+  return (
+    <div className="w-[200px] rounded-lg border border-white/10 bg-[#111] p-3 shadow-xl shadow-black/50">
+      <div className="mb-2 flex items-center justify-between">
+        <span className="text-[10px] font-bold tracking-widest text-neutral-500 uppercase truncate">{title}</span>
+        <button onClick={onClose} className="text-neutral-500 hover:text-white transition-colors">
+          <X className="h-3 w-3" />
+        </button>
+      </div>
+
+      <select
+        value={mode === 'preset' ? (easing as string) : mode}
+        onChange={(e) => handleModeChange(e.target.value)}
+        className="mb-2 w-full rounded border border-white/10 bg-white/[0.04] px-2 py-1 text-[11px] text-neutral-200 outline-none focus:border-violet-500/50"
+      >
+        {EASING_PRESETS.map((preset) => (
+          <option key={preset} value={preset} className="bg-[#111]">
+            {formatPreset(preset)}
+          </option>
+        ))}
+        <option value="cubicBezier" className="bg-[#111]">Custom bezier</option>
+        <option value="steps" className="bg-[#111]">Steps</option>
+      </select>
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full rounded bg-black/40 touch-none select-none"
+      >
+        <rect x={toX(0)} y={toY(1)} width={SIZE} height={SIZE} fill="none" stroke="rgba(255,255,255,0.1)" />
+        <line x1={toX(0)} y1={toY(0)} x2={toX(1)} y2={toY(1)} stroke="rgba(255,255,255,0.08)" strokeDasharray="3 3" />
+        {bezier && (
+          <>
+            <line x1={toX(0)} y1={toY(0)} x2={toX(bezier[0])} y2={toY(bezier[1])} stroke="rgba(167,139,250,0.6)" />
+            <line x1={toX(1)} y1={toY(1)} x2={toX(bezier[2])} y2={toY(bezier[3])} stroke="rgba(167,139,250,0.6)" />
+          </>
+        )}
+        <path d={curve} fill="none" stroke="#e879f9" strokeWidth={2} />
+        {bezier && (
+          <>
+            <circle
+              cx={toX(bezier[0])}
+              cy={toY(bezier[1])}
+              r={5}
+              className="fill-violet-400 stroke-white cursor-grab active:cursor-grabbing"
+              onPointerDown={(e) => startHandleDrag(e, 1)}
+            />
+            <circle
+              cx={toX(bezier[2])}
+              cy={toY(bezier[3])}
+              r={5}
+              className="fill-violet-400 stroke-white cursor-grab active:cursor-grabbing"
+              onPointerDown={(e) => startHandleDrag(e, 2)}
+            />
+          </>
+        )}
+      </svg>
+
+      {bezier ? (
+        <div className="mt-2 font-mono text-[10px] text-neutral-400">cubic-bezier({bezier.join(', ')})</div>
+      ) : typeof easing !== 'string' && easing.type === 'steps' ? (
+        <div className="mt-2 flex items-center gap-2">
+          <input
+            type="number"
+            min={1}
+            max={60}
+            value={easing.count}
+            onChange={(e) => onChange({ ...easing, count: Math.max(1, Math.min(60, Math.round(Number(e.target.value) || 1))) })}
+            className="w-14 rounded border border-white/10 bg-white/[0.04] px-2 py-1 text-[11px] text-neutral-200 outline-none focus:border-violet-500/50"
+          />
+          <select
+            value={easing.position}
+            onChange={(e) => onChange({ ...easing, position: e.target.value as 'start' | 'end' })}
+            className="flex-1 rounded border border-white/10 bg-white/[0.04] px-2 py-1 text-[11px] text-neutral-200 outline-none"
+          >
+            <option value="start" className="bg-[#111]">Jump start</option>
+            <option value="end" className="bg-[#111]">Jump end</option>
+          </select>
+        </div>
+      ) : (
+        <div className="mt-2 text-[10px] text-neutral-500">Drag handles are available for bezier curves only</div>
+      )}
+    </div>
+  )
+}
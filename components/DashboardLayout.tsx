@@ -37,7 +37,14 @@ import {
   Undo,
   Redo,
   Type,
-  Sparkles
+  Sparkles,
+  Save,
+  FolderOpen,
+  Film,
+  Diamond,
+  Group,
+  Music,
+  X
 } from 'lucide-react'
 import { createClient } from '@/lib/supabase'
 import { cn } from '@/lib/utils'
@@ -47,7 +54,19 @@ import { TemplatePreview } from '@/components/TemplatePreview'
 import TimelinePanel from '@/components/TimelinePanel'
 import FontPicker from '@/components/FontPicker'
 import { ExploreShapesModal } from '@/components/ExploreShapesModal'
+import AudioDriverPanel from '@/components/AudioDriverPanel'
+import ParticleSourcePanel from '@/components/ParticleSourcePanel'
+import EffectStackPanel, { EffectParamRow } from '@/components/EffectStackPanel'
+import ExportDialog from '@/components/ExportDialog'
+import type { ExportSettings, ExportRunOptions } from '@/components/ExportDialog'
 import { useTimeline, useTimelineActions } from '@/lib/timeline-store'
+import { COLOR_SPACES, hexToColor } from '@/lib/color'
+import type { ColorSpace } from '@/lib/color'
+import { evaluateBackground, getAncestorIds } from '@/lib/scene-evaluator'
+import { DEFAULT_LAYER_STATE, sampleLayerTracks } from '@/lib/timeline'
+import { EFFECT_PARAMS, isEffectEnabled } from '@/lib/effects'
+import { isParticleEffect } from '@/lib/particles'
+import type { ParticleEffectType } from '@/lib/particles'
 
 export type BackgroundSettings = {
   mode: 'solid' | 'gradient'
@@ -57,7 +76,22 @@ export type BackgroundSettings = {
   opacity: number
 }
 
-export type EffectType = 'glow' | 'dropShadow' | 'blur' | 'glitch' | 'pixelate' | 'sparkles' | 'confetti'
+export type EffectType =
+  | 'glow'
+  | 'dropShadow'
+  | 'blur'
+  | 'glitch'
+  | 'pixelate'
+  | 'colorAdjust'
+  | 'rgbSplit'
+  | 'zoomBlur'
+  | 'motionBlur'
+  | 'noise'
+  | 'outline'
+  | 'bloom'
+  | 'shockwave'
+  | 'crt'
+  | ParticleEffectType
 
 export interface Effect {
   id: string
@@ -86,14 +120,28 @@ interface DashboardLayoutProps {
   onAddShape?: (shapeKind?: ShapeKind) => void
   onAddSvg?: (iconName: string, svgUrl: string) => void
   onAddText?: () => void
+  onAddGroup?: () => void
+  // Pre-comps
+  precomps?: Array<{ id: string; name: string; duration: number }>
+  usedPrecompIds?: string[]
+  onSavePrecomp?: (name: string) => void
+  onInsertPrecomp?: (precompId: string) => void
+  onDeletePrecomp?: (precompId: string) => void
+  onUpdatePrecompTiming?: (id: string, timing: { timeOffset?: number; timeStretch?: number; loop?: boolean }) => void
   onImportImage?: (file: File) => void
+  onImportAudio?: (file: File) => void
+  // Project files
+  onSaveProject?: (canvas: { width: number; height: number }) => void
+  onOpenProject?: (file: File) => Promise<{ width: number; height: number } | null>
+  onExport?: (settings: ExportSettings, run: ExportRunOptions) => Promise<string[] | void>
   onStartDrawPath?: () => void
   onStartDrawLine?: () => void
   showSelectShapeHint?: boolean
   layers: Array<{ 
     id: string; 
     shapeKind: ShapeKind; 
-    type?: 'shape' | 'image' | 'svg' | 'text'; 
+    type?: 'shape' | 'image' | 'svg' | 'text' | 'group' | 'precomp'; 
+    parentId?: string;
     x: number; 
     y: number; 
     width: number; 
@@ -103,12 +151,19 @@ interface DashboardLayoutProps {
     text?: string;
     fontSize?: number;
     fillColor?: number;
+    strokeColor?: number;
+    strokeWidth?: number;
     fontFamily?: string;
     // Counter properties
     isCounter?: boolean;
     counterStart?: number;
     counterEnd?: number;
     counterPrefix?: string;
+    // Pre-comp properties
+    precompId?: string;
+    timeOffset?: number;
+    timeStretch?: number;
+    loop?: boolean;
   }>
   layerOrder?: string[]
   onReorderLayers?: (order: string[]) => void
@@ -179,6 +234,8 @@ interface DashboardLayoutProps {
   onUpdateLayerText?: (id: string, text: string) => void
   onUpdateLayerFontSize?: (id: string, fontSize: number) => void
   onUpdateLayerColor?: (id: string, color: number) => void
+  onUpdateLayerStroke?: (id: string, stroke: { color?: number; width?: number }) => void
+  onSetLayerParent?: (id: string, parentId: string | null) => void
   onUpdateLayerFontFamily?: (id: string, fontFamily: string) => void
   onRedo?: () => void
   onSelectLayer?: (layerId: string) => void
@@ -201,6 +258,58 @@ interface DashboardLayoutProps {
   onAddTransition?: (fromLayerId: string, toLayerId: string, transitionType: 'fade' | 'slide' | 'zoom' | 'blur') => void
 }
 
+// Transform tracks that only exist as keyframes, edited at the playhead
+const KEYED_TRANSFORMS = [
+  { key: 'scaleX', label: 'Scale X', unit: '%', factor: 100 },
+  { key: 'scaleY', label: 'Scale Y', unit: '%', factor: 100 },
+  { key: 'skewX', label: 'Skew X', unit: '°', factor: 180 / Math.PI },
+  { key: 'skewY', label: 'Skew Y', unit: '°', factor: 180 / Math.PI },
+] as const
+
+const ANCHOR_POINTS = [0, 0.5, 1].flatMap((y) => [0, 0.5, 1].map((x) => ({ x, y })))
+
+interface ColorKeyButtonProps {
+  animated: boolean
+  onKey: () => void
+  onClear: () => void
+}
+
+// Keys a color at the playhead; Alt+click removes the color's animation
+function ColorKeyButton({ animated, onKey, onClear }: ColorKeyButtonProps) {
+  return (
+    <button
+      type="button"
+      onClick={(e) => (e.altKey && animated ? onClear() : onKey())}
+      className={cn('flex-shrink-0 transition-colors', animated ? 'text-fuchsia-400' : 'text-neutral-600 hover:text-neutral-300')}
+      title={animated ? 'Add color keyframe at playhead (Alt+click removes the animation)' : 'Animate color'}
+    >
+      <Diamond className={cn('h-3 w-3', animated && 'fill-current')} />
+    </button>
+  )
+}
+
+interface ColorSpaceSelectProps {
+  value?: ColorSpace
+  onChange: (value: ColorSpace) => void
+}
+
+function ColorSpaceSelect({ value = 'oklab', onChange }: ColorSpaceSelectProps) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as ColorSpace)}
+      className="rounded bg-neutral-800 px-1.5 py-0.5 text-[10px] text-neutral-300 focus:outline-none"
+      title="Color blending"
+    >
+      {COLOR_SPACES.map((space) => (
+        <option key={space} value={space}>
+          {space === 'oklab' ? 'OKLab' : space.toUpperCase()}
+        </option>
+      ))}
+    </select>
+  )
+}
+
 export default function DashboardLayout({ 
   children, 
   selectedTemplate, 
@@ -208,7 +317,18 @@ export default function DashboardLayout({
   onAddShape,
   onAddSvg,
   onAddText,
+  onAddGroup,
+  precomps = [],
+  usedPrecompIds = [],
+  onSavePrecomp,
+  onInsertPrecomp,
+  onDeletePrecomp,
+  onUpdatePrecompTiming,
   onImportImage, 
+  onImportAudio,
+  onSaveProject,
+  onOpenProject,
+  onExport,
   onStartDrawPath, 
   onStartDrawLine,
   showSelectShapeHint, 
@@ -278,6 +398,8 @@ export default function DashboardLayout({
   onUpdateLayerText,
   onUpdateLayerFontSize,
   onUpdateLayerColor,
+  onUpdateLayerStroke,
+  onSetLayerParent,
   onUpdateLayerFontFamily,
   onSelectLayer,
 
@@ -301,17 +423,23 @@ export default function DashboardLayout({
   const router = useRouter()
   const supabase = createClient()
   const templateClips = useTimeline((s) => s.templateClips)
+  const timelineTracks = useTimeline((s) => s.tracks)
+  const backgroundTracks = useTimeline((s) => s.backgroundTracks)
+  const currentTime = useTimeline((s) => s.currentTime)
+  const effectClips = useTimeline((s) => s.effectClips)
   const timeline = useTimelineActions()
   const [showBackgroundPanel, setShowBackgroundPanel] = useState(false)
   const [activeTab, setActiveTab] = useState<'templates' | 'shapes' | 'effects' | 'animations' | 'transitions'>('shapes')
   const [animationType, setAnimationType] = useState<'in' | 'out' | 'custom'>('in')
   const [showExploreModal, setShowExploreModal] = useState(false)
+  const [showExportDialog, setShowExportDialog] = useState(false)
 
   const [showTextColorPicker, setShowTextColorPicker] = useState(false)
   
   // AI State
   const [showAIModal, setShowAIModal] = useState(false)
   const [aiPrompt, setAiPrompt] = useState('')
+  const [precompName, setPrecompName] = useState('')
   const [isGeneratingAI, setIsGeneratingAI] = useState(false)
   const [aiMode, setAiMode] = useState<'generate' | 'edit'>('generate')
   const [aiEditLayerId, setAiEditLayerId] = useState<string | null>(null)
@@ -460,6 +588,8 @@ export default function DashboardLayout({
 
   const canvasContainerRef = useRef<HTMLDivElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const projectInputRef = useRef<HTMLInputElement>(null)
+  const audioInputRef = useRef<HTMLInputElement>(null)
 
   // Handle mouse wheel for panning or zooming (pinch)
   // Attached via ref to support non-passive listener
@@ -588,14 +718,108 @@ export default function DashboardLayout({
     { id: 'blur', name: 'Blur', icon: Wand2 },
     { id: 'glitch', name: 'Glitch', icon: Wand2 },
     { id: 'pixelate', name: 'Pixelate', icon: Wand2 },
+    { id: 'colorAdjust', name: 'Color Grade', icon: Wand2 },
+    { id: 'rgbSplit', name: 'RGB Split', icon: Wand2 },
+    { id: 'zoomBlur', name: 'Zoom Blur', icon: Wand2 },
+    { id: 'motionBlur', name: 'Motion Blur', icon: Wand2 },
+    { id: 'noise', name: 'Film Grain', icon: Wand2 },
+    { id: 'outline', name: 'Outline', icon: Wand2 },
+    { id: 'bloom', name: 'Bloom', icon: Wand2 },
+    { id: 'shockwave', name: 'Shockwave', icon: Wand2 },
+    { id: 'crt', name: 'CRT', icon: Wand2 },
     { id: 'sparkles', name: 'Sparkles', icon: Wand2 },
     { id: 'confetti', name: 'Confetti', icon: Wand2 },
+    { id: 'snow', name: 'Snow', icon: Wand2 },
+    { id: 'smoke', name: 'Smoke', icon: Wand2 },
+    { id: 'fireworks', name: 'Fireworks', icon: Wand2 },
+    { id: 'hearts', name: 'Hearts', icon: Wand2 },
+    { id: 'bubbles', name: 'Bubbles', icon: Wand2 },
+  ]
+
+  // Effects whose settings edit the selected layer's latest effect clip of that type
+  const clipSettingsEffects: EffectType[] = [
+    'colorAdjust',
+    'rgbSplit',
+    'zoomBlur',
+    'motionBlur',
+    'noise',
+    'outline',
+    'bloom',
+    'shockwave',
+    'crt',
   ]
+  const hasClipSettings = clipSettingsEffects.includes(activeEffectId as EffectType)
+  const activeEffectClip = hasClipSettings
+    ? effectClips.findLast((c) => c.layerId === selectedLayerId && c.effectType === activeEffectId)
+    : undefined
 
   const updateBackground = (patch: Partial<BackgroundSettings>) => {
     onBackgroundChange({ ...background, ...patch })
   }
 
+  // Background as shown at the playhead, with animated colors sampled in
+  const liveBackground = evaluateBackground(background, backgroundTracks, currentTime)
+  const isBackgroundAnimated = (['solid', 'from', 'to'] as const).some((key) => backgroundTracks[key]?.length)
+
+  const renderBackgroundKey = (key: 'solid' | 'from' | 'to') => (
+    <ColorKeyButton
+      animated={!!backgroundTracks[key]?.length}
+      onKey={() =>
+        timeline.setBackgroundKeyframe(key, {
+          time: Math.round(timeline.getState().currentTime),
+          value: hexToColor(background[key]),
+        })
+      }
+      onClear={() => timeline.clearBackgroundTrack(key)}
+    />
+  )
+
+  const selectedTrack = timelineTracks.find((t) => t.layerId === selectedLayerId)
+  const selectedTransform = selectedTrack ? sampleLayerTracks(selectedTrack, currentTime) : DEFAULT_LAYER_STATE
+
+  // Anything but the layer itself and the layers inside it can become its parent
+  const parentOptions = selectedLayerId
+    ? layers.filter((l) => l.id !== selectedLayerId && !getAncestorIds(layers, l.id).includes(selectedLayerId))
+    : []
+  const layerLabel = (layer: (typeof layers)[number]) =>
+    layer.type === 'group'
+      ? 'Group'
+      : layer.type === 'precomp'
+        ? precomps.find((p) => p.id === layer.precompId)?.name ?? 'Composition'
+        : layer.type === 'text'
+          ? `Text "${(layer.text ?? '').slice(0, 16)}"`
+          : layer.type === 'shape'
+            ? layer.shapeKind
+            : layer.type ?? layer.shapeKind
+
+  const commitKeyedTransform = (key: (typeof KEYED_TRANSFORMS)[number]['key'], value: number) => {
+    if (!selectedLayerId || !Number.isFinite(value) || value === selectedTransform[key]) return
+    const frame = { time: Math.round(timeline.getState().currentTime), value }
+    if (key === 'scaleX' || key === 'scaleY') timeline.setScaleXYKeyframe(selectedLayerId, key, frame)
+    else timeline.setSkewKeyframe(selectedLayerId, key, frame)
+  }
+  const isLayerColorAnimated = !!(selectedTrack?.fillColor?.length || selectedTrack?.strokeColor?.length)
+
+  const renderLayerColorKey = (key: 'fillColor' | 'strokeColor') => {
+    const frames = selectedTrack?.[key] ?? []
+    return (
+      <ColorKeyButton
+        animated={frames.length > 0}
+        onKey={() => {
+          const layer = layers.find((l) => l.id === selectedLayerId)
+          if (!layer) return
+          timeline.setColorKeyframe(layer.id, key, {
+            time: Math.round(timeline.getState().currentTime),
+            value: (key === 'fillColor' ? layer.fillColor : layer.strokeColor) ?? 0xffffff,
+          })
+        }}
+        onClear={() =>
+          timeline.removeKeyframes(frames.map((kf) => ({ layerId: selectedLayerId ?? '', property: key, time: kf.time })))
+        }
+      />
+    )
+  }
+
   const normalizeHex = (value: string) => {
     if (!value) return '#000000'
     const trimmed = value.trim().replace(/[^#a-fA-F0-9]/g, '')
@@ -1035,6 +1259,80 @@ export default function DashboardLayout({
                 <Upload className="h-3.5 w-3.5" />
                 <span className="hidden sm:inline">Import</span>
             </Button>
+            {/* Hidden file input for audio import */}
+            <input
+              ref={audioInputRef}
+              type="file"
+              accept="audio/*"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                e.target.value = ''
+                if (file && onImportAudio) onImportAudio(file)
+              }}
+            />
+            <Button 
+                onClick={() => audioInputRef.current?.click()}
+                variant="ghost"
+                size="sm"
+                className="h-8 gap-2 text-neutral-400 hover:text-white hover:bg-white/5 text-xs"
+                title="Import audio"
+            >
+                <Music className="h-3.5 w-3.5" />
+                <span className="hidden sm:inline">Audio</span>
+            </Button>
+            {/* Hidden file input for opening project files */}
+            <input
+              ref={projectInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={async (e) => {
+                const file = e.target.files?.[0]
+                e.target.value = ''
+                if (!file || !onOpenProject) return
+                const canvas = await onOpenProject(file)
+                if (canvas) {
+                  const width = Math.max(MIN_CANVAS_WIDTH, Math.round(canvas.width))
+                  const height = Math.max(MIN_CANVAS_HEIGHT, Math.round(canvas.height))
+                  setCanvasWidth(width)
+                  setCanvasHeight(height)
+                  localStorage.setItem('canvasWidth', width.toString())
+                  localStorage.setItem('canvasHeight', height.toString())
+                }
+              }}
+            />
+            <Button 
+                onClick={() => projectInputRef.current?.click()}
+                variant="ghost"
+                size="sm"
+                className="h-8 gap-2 text-neutral-400 hover:text-white hover:bg-white/5 text-xs"
+                title="Open project"
+            >
+                <FolderOpen className="h-3.5 w-3.5" />
+                <span className="hidden sm:inline">Open</span>
+            </Button>
+            <Button 
+                onClick={() => onSaveProject?.({ width: canvasWidth, height: canvasHeight })}
+                variant="ghost"
+                size="sm"
+                className="h-8 gap-2 text-neutral-400 hover:text-white hover:bg-white/5 text-xs"
+                title="Save project"
+            >
+                <Save className="h-3.5 w-3.5" />
+                <span className="hidden sm:inline">Save</span>
+            </Button>
+            <Button 
+                onClick={() => setShowExportDialog(true)}
+                disabled={!onExport}
+                variant="ghost"
+                size="sm"
+                className="h-8 gap-2 text-neutral-400 hover:text-white hover:bg-white/5 text-xs"
+                title="Export animation"
+            >
+                <Film className="h-3.5 w-3.5" />
+                <span className="hidden sm:inline">Export</span>
+            </Button>
             <Button 
                 onClick={handleLogout}
                 variant="ghost"
@@ -1504,6 +1802,7 @@ export default function DashboardLayout({
                       onClick={() => {
                         // Add effect clip to timeline instead of toggle
                         if (!selectedLayerId) return
+                        onSelectEffect?.(effect.id)
                         timeline.addEffectClip(
                           selectedLayerId,
                           effect.id as any, // Cast to effect type
@@ -1573,6 +1872,10 @@ export default function DashboardLayout({
                     <Type className="mr-2 h-4 w-4 text-neutral-500" />
                     Text
                   </Button>
+                  <Button onClick={() => onAddGroup?.()} variant="ghost" className="justify-start text-neutral-400 hover:text-white hover:bg-white/5 h-9 px-2">
+                    <Group className="mr-2 h-4 w-4 text-neutral-500" />
+                    Group
+                  </Button>
                   <Button onClick={() => onAddShape?.('circle')} variant="ghost" className="justify-start text-neutral-400 hover:text-white hover:bg-white/5 h-9 px-2">
                     <Circle className="mr-2 h-4 w-4 text-neutral-500" />
                     Circle
@@ -1620,6 +1923,60 @@ export default function DashboardLayout({
                     Cursor
                   </Button>
                 </div>
+
+                {/* Compositions: save the selected layer (or everything) and place saved ones as one layer */}
+                <h2 className="mt-6 mb-3 text-[10px] font-bold uppercase tracking-widest text-neutral-600 px-2">
+                  Compositions
+                </h2>
+                <div className="px-2 space-y-2">
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={precompName}
+                      placeholder={selectedLayerId ? 'Name (selected layer)' : 'Name (all layers)'}
+                      onChange={(e) => setPrecompName(e.target.value)}
+                      className="min-w-0 flex-1 rounded bg-neutral-800 px-2 py-1.5 text-xs text-white placeholder-neutral-500 focus:outline-none focus:ring-1 focus:ring-purple-500"
+                    />
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={layers.length === 0}
+                      onClick={() => {
+                        onSavePrecomp?.(precompName)
+                        setPrecompName('')
+                      }}
+                      className="h-8 px-2 text-neutral-400 hover:text-white hover:bg-white/5"
+                    >
+                      <Save className="mr-1 h-3.5 w-3.5" />
+                      Save
+                    </Button>
+                  </div>
+                  {precomps.map((precomp) => {
+                    const inUse = usedPrecompIds.includes(precomp.id)
+                    return (
+                      <div key={precomp.id} className="group flex items-center gap-2 rounded-md px-2 py-1.5 hover:bg-white/5">
+                        <Film className="h-3.5 w-3.5 flex-shrink-0 text-neutral-500" />
+                        <span className="flex-1 truncate text-xs text-neutral-300">{precomp.name}</span>
+                        <span className="text-[10px] text-neutral-600">{(precomp.duration / 1000).toFixed(1)}s</span>
+                        <button
+                          onClick={() => onInsertPrecomp?.(precomp.id)}
+                          className="text-neutral-500 hover:text-white transition-colors"
+                          title="Add to composition"
+                        >
+                          <Plus className="h-3.5 w-3.5" />
+                        </button>
+                        <button
+                          onClick={() => onDeletePrecomp?.(precomp.id)}
+                          disabled={inUse}
+                          className="text-neutral-600 hover:text-red-400 disabled:opacity-30 disabled:hover:text-neutral-600 transition-colors"
+                          title={inUse ? 'Used in this project' : 'Remove from library'}
+                        >
+                          <X className="h-3.5 w-3.5" />
+                        </button>
+                      </div>
+                    )
+                  })}
+                </div>
             </div>
           )}
 
@@ -1790,7 +2147,7 @@ export default function DashboardLayout({
                 </div>
 
                 {background.mode === 'solid' ? (
-                  <div className="grid grid-cols-[auto,1fr] items-center gap-3">
+                  <div className="grid grid-cols-[auto,1fr,auto] items-center gap-3">
                     <input
                       type="color"
                       value={background.solid}
@@ -1805,10 +2162,11 @@ export default function DashboardLayout({
                       className="h-10 rounded-md border border-white/10 bg-white/5 px-3 text-sm text-white outline-none transition-colors placeholder:text-neutral-500 focus:border-white/30"
                       placeholder="#0f0f0f"
                     />
+                    {renderBackgroundKey('solid')}
                   </div>
                 ) : (
                   <div className="grid gap-3">
-                    <div className="grid grid-cols-[auto,1fr] items-center gap-3">
+                    <div className="grid grid-cols-[auto,1fr,auto] items-center gap-3">
                       <input
                         type="color"
                         value={background.from}
@@ -1823,8 +2181,9 @@ export default function DashboardLayout({
                         className="h-10 rounded-md border border-white/10 bg-white/5 px-3 text-sm text-white outline-none transition-colors placeholder:text-neutral-500 focus:border-white/30"
                         placeholder="#0f172a"
                       />
+                      {renderBackgroundKey('from')}
                     </div>
-                    <div className="grid grid-cols-[auto,1fr] items-center gap-3">
+                    <div className="grid grid-cols-[auto,1fr,auto] items-center gap-3">
                       <input
                         type="color"
                         value={background.to}
@@ -1840,10 +2199,18 @@ export default function DashboardLayout({
                         placeholder="#0b1223"
                         
                       />
+                      {renderBackgroundKey('to')}
                     </div>
                   </div>
                 )}
 
+                {isBackgroundAnimated && (
+                  <div className="mt-3 flex items-center justify-between text-xs text-neutral-400">
+                    <span>Color blending</span>
+                    <ColorSpaceSelect value={backgroundTracks.colorSpace} onChange={timeline.setBackgroundColorSpace} />
+                  </div>
+                )}
+
                 <div className="mt-4 space-y-2">
                   <div className="flex items-center justify-between text-xs text-neutral-400">
                     <span>Opacity</span>
@@ -1929,9 +2296,9 @@ export default function DashboardLayout({
                     left: `calc(50% + ${canvasX}px)`,
                     top: `calc(50% + ${canvasY}px)`,
                     transform: 'translate(-50%, -50%)',
-                    ...(background.mode === 'gradient'
-                      ? { backgroundImage: `linear-gradient(135deg, ${background.from}, ${background.to})` }
-                      : { backgroundColor: background.solid }),
+                    ...(liveBackground.mode === 'gradient'
+                      ? { backgroundImage: `linear-gradient(135deg, ${liveBackground.from}, ${liveBackground.to})` }
+                      : { backgroundColor: liveBackground.solid }),
                     opacity: Math.max(0, Math.min(1, background.opacity ?? 1)),
                     zIndex: 0,
                   }}
@@ -2144,9 +2511,119 @@ export default function DashboardLayout({
                 </div>
               </div>
 
+              {/* Squash, skew and anchor (keyed at the playhead) */}
+              <div className="grid grid-cols-2 gap-2">
+                {KEYED_TRANSFORMS.map(({ key, label, unit, factor }) => {
+                  const shown = Math.round(selectedTransform[key] * factor)
+                  return (
+                    <div key={key} className="space-y-1">
+                      <span className="text-[10px] uppercase text-neutral-500">{label}</span>
+                      <div className="relative">
+                        <input
+                          type="text"
+                          inputMode="numeric"
+                          key={`${key}-${selectedLayerId}-${shown}`}
+                          defaultValue={String(shown)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') e.currentTarget.blur()
+                          }}
+                          onBlur={(e) => commitKeyedTransform(key, parseFloat(e.currentTarget.value) / factor)}
+                          className="w-full rounded bg-neutral-800 pl-2 pr-6 py-1.5 text-left text-xs text-white focus:outline-none focus:ring-1 focus:ring-purple-500"
+                        />
+                        <span className="absolute right-2 top-1/2 -translate-y-1/2 text-[10px] text-neutral-500 font-bold">{unit}</span>
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] uppercase text-neutral-500">Anchor</span>
+                <div className="grid grid-cols-3 gap-1">
+                  {ANCHOR_POINTS.map((point) => {
+                    const isActive =
+                      Math.abs(selectedTransform.anchor.x - point.x) < 0.01 && Math.abs(selectedTransform.anchor.y - point.y) < 0.01
+                    return (
+                      <button
+                        key={`${point.x}-${point.y}`}
+                        type="button"
+                        onClick={() => {
+                          if (!selectedLayerId) return
+                          timeline.setAnchorKeyframe(selectedLayerId, {
+                            time: Math.round(timeline.getState().currentTime),
+                            value: point,
+                          })
+                        }}
+                        className={cn(
+                          'h-3 w-3 rounded-sm border transition-colors',
+                          isActive ? 'border-purple-400 bg-purple-500' : 'border-neutral-600 bg-neutral-800 hover:border-neutral-400'
+                        )}
+                        title={`Anchor ${Math.round(point.x * 100)}%, ${Math.round(point.y * 100)}%`}
+                      />
+                    )
+                  })}
+                </div>
+              </div>
+
+              {/* Parent (children inherit its move, scale, rotation and opacity) */}
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-[10px] uppercase text-neutral-500">Parent</span>
+                <select
+                  value={selectedLayer?.parentId ?? ''}
+                  onChange={(e) => selectedLayerId && onSetLayerParent?.(selectedLayerId, e.target.value || null)}
+                  className="min-w-0 flex-1 rounded bg-neutral-800 px-2 py-1 text-xs text-white focus:outline-none focus:ring-1 focus:ring-purple-500"
+                >
+                  <option value="">None</option>
+                  {parentOptions.map((layer) => (
+                    <option key={layer.id} value={layer.id}>
+                      {layerLabel(layer)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Pre-comp timing */}
+              {selectedLayer?.type === 'precomp' && selectedLayerId && (
+                <div className="space-y-2">
+                  <span className="text-[10px] uppercase text-neutral-500">Time</span>
+                  <div className="flex gap-2">
+                    <BufferedInput
+                      value={selectedLayer.timeOffset ?? 0}
+                      onCommit={(val) => onUpdatePrecompTiming?.(selectedLayerId, { timeOffset: val })}
+                      label="ms"
+                    />
+                    <BufferedInput
+                      value={Math.round((selectedLayer.timeStretch ?? 1) * 100)}
+                      onCommit={(val) => val > 0 && onUpdatePrecompTiming?.(selectedLayerId, { timeStretch: val / 100 })}
+                      label="%"
+                    />
+                  </div>
+                  <label className="flex items-center gap-2 text-xs text-neutral-400">
+                    <input
+                      type="checkbox"
+                      checked={!!selectedLayer.loop}
+                      onChange={(e) => onUpdatePrecompTiming?.(selectedLayerId, { loop: e.target.checked })}
+                      className="accent-purple-500"
+                    />
+                    Loop
+                  </label>
+                </div>
+              )}
+
               {/* Color */}
               <div className="space-y-2">
-                <span className="text-[10px] uppercase text-neutral-500">Color</span>
+                <div className="flex items-center gap-2">
+                  <span className="text-[10px] uppercase text-neutral-500">Color</span>
+                  {renderLayerColorKey('fillColor')}
+                  {isLayerColorAnimated && selectedLayerId && (
+                    <div className="ml-auto">
+                      <ColorSpaceSelect
+                        value={selectedTrack?.colorSpace}
+                        onChange={(space) => timeline.setColorSpace(selectedLayerId, space)}
+                      />
+                    </div>
+                  )}
+                </div>
                 <div className="flex items-center gap-2 w-full">
                   <input
                     type="text"
@@ -2188,9 +2665,47 @@ export default function DashboardLayout({
                   />
                 </div>
               </div>
+
+              {/* Stroke (drawn shapes and text only) */}
+              {selectedLayer?.type !== 'image' && selectedLayer?.type !== 'svg' && selectedLayer?.type !== 'group' && (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-[10px] uppercase text-neutral-500">Stroke</span>
+                    {renderLayerColorKey('strokeColor')}
+                  </div>
+                  <div className="flex items-center gap-2 w-full">
+                    <BufferedInput
+                      value={selectedLayer?.strokeWidth ?? 0}
+                      onCommit={(val) => {
+                        if (!selectedLayerId) return
+                        onUpdateLayerStroke?.(selectedLayerId, { width: val })
+                      }}
+                      label="W"
+                    />
+                    <input
+                      type="color"
+                      value={`#${(selectedLayer?.strokeColor ?? 0xffffff).toString(16).padStart(6, '0')}`}
+                      onChange={(e) => {
+                        if (!selectedLayerId) return
+                        onUpdateLayerStroke?.(selectedLayerId, { color: hexToColor(e.target.value) })
+                      }}
+                      className="w-10 h-10 rounded border-2 border-neutral-600 hover:border-purple-500 cursor-pointer transition-colors flex-shrink-0 p-0 bg-transparent"
+                    />
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
+          {/* Audio-reactive drivers for the selected layer */}
+          {selectedLayerId && selectedLayer?.type !== 'group' && <AudioDriverPanel layerId={selectedLayerId} />}
+
+          {/* Order, bypass, blend and keyframe the selected layer's effects */}
+          {selectedLayerId && <EffectStackPanel layerId={selectedLayerId} />}
+
+          {/* What the selected layer's particle effects emit */}
+          {selectedLayerId && <ParticleSourcePanel layerId={selectedLayerId} layers={layers} />}
+
           {/* Text Controls - Only show for regular text layers (NOT counters) */}
           {selectedLayerId && layers.find(l => l.id === selectedLayerId)?.type === 'text' && !layers.find(l => l.id === selectedLayerId)?.isCounter && (
             <div className="mb-6 space-y-4 rounded-xl border border-neutral-800 bg-neutral-900/50 p-4">
@@ -2252,7 +2767,18 @@ export default function DashboardLayout({
 
               {/* Font Color */}
               <div className="space-y-2">
-                <span className="text-[10px] uppercase text-neutral-500">Color</span>
+                <div className="flex items-center gap-2">
+                  <span className="text-[10px] uppercase text-neutral-500">Color</span>
+                  {renderLayerColorKey('fillColor')}
+                  {isLayerColorAnimated && selectedLayerId && (
+                    <div className="ml-auto">
+                      <ColorSpaceSelect
+                        value={selectedTrack?.colorSpace}
+                        onChange={(space) => timeline.setColorSpace(selectedLayerId, space)}
+                      />
+                    </div>
+                  )}
+                </div>
                 {/* Hex Input + Color Picker Swatch side by side */}
                 <div className="flex items-center gap-2 w-full">
                   <input
@@ -3201,8 +3727,16 @@ export default function DashboardLayout({
                     <input
                       type="checkbox"
                       className="peer sr-only"
-                      checked={layerEffects.find(e => e.type === activeEffectId)?.isEnabled ?? false}
-                      onChange={(e) => onToggleEffect?.(activeEffectId, e.target.checked)}
+                      checked={
+                        hasClipSettings
+                          ? !!activeEffectClip && isEffectEnabled(activeEffectClip)
+                          : (layerEffects.find(e => e.type === activeEffectId)?.isEnabled ?? false)
+                      }
+                      onChange={(e) =>
+                        hasClipSettings
+                          ? activeEffectClip && timeline.updateEffectClip(activeEffectClip.id, { enabled: e.target.checked })
+                          : onToggleEffect?.(activeEffectId, e.target.checked)
+                      }
                     />
                     <div className="peer h-4 w-7 rounded-full bg-neutral-700 peer-checked:bg-violet-500 transition-colors" />
                     <div className="absolute left-0.5 top-0.5 h-3 w-3 rounded-full bg-white transition-transform peer-checked:translate-x-3" />
@@ -3369,8 +3903,40 @@ export default function DashboardLayout({
                   </div>
                 )}
 
-                {/* Sparkles/Confetti Controls */}
-                {(activeEffectId === 'sparkles' || activeEffectId === 'confetti') && (
+                {/* Effect clip controls (color grade, RGB split, blurs, grain, outline, bloom, shockwave, CRT) */}
+                {hasClipSettings && !activeEffectClip && (
+                  <p className="px-2 text-[11px] text-neutral-500">Add this effect to the selected layer to adjust it.</p>
+                )}
+                {hasClipSettings && activeEffectClip && (
+                  <div className="space-y-3 px-2">
+                    {EFFECT_PARAMS[activeEffectClip.effectType].map((spec) => (
+                      <EffectParamRow
+                        key={spec.key}
+                        clip={activeEffectClip}
+                        spec={spec}
+                        localTime={Math.max(0, Math.min(activeEffectClip.duration, currentTime - activeEffectClip.start))}
+                      />
+                    ))}
+                    {activeEffectClip.effectType === 'outline' && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-[10px] uppercase text-neutral-500">Color</span>
+                        <input
+                          type="color"
+                          value={`#${(activeEffectClip.params.outlineColor ?? 0xffffff).toString(16).padStart(6, '0')}`}
+                          onChange={(e) =>
+                            timeline.updateEffectClip(activeEffectClip.id, {
+                              params: { outlineColor: parseInt(e.target.value.slice(1), 16) },
+                            })
+                          }
+                          className="h-6 w-6 cursor-pointer rounded border border-neutral-700 bg-transparent p-0"
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Particle Controls */}
+                {isParticleEffect(activeEffectId) && (
                   <>
                     <div>
                       <div className="flex items-center justify-between mb-2">
@@ -3460,6 +4026,15 @@ export default function DashboardLayout({
         }}
       />
 
+      {/* Export Dialog */}
+      <ExportDialog
+        isOpen={showExportDialog}
+        canvasWidth={canvasWidth}
+        canvasHeight={canvasHeight}
+        onClose={() => setShowExportDialog(false)}
+        onExport={async (settings, run) => onExport?.(settings, run)}
+      />
+
       {/* AI Prompt Modal */}
       <AnimatePresence>
         {showAIModal && (
@@ -121,6 +121,174 @@ export const EffectPreview: React.FC<EffectPreviewProps> = ({
             />
           </motion.div>
         )
+      case 'colorAdjust':
+        return (
+          <motion.div
+            className="h-6 w-6 rounded-full bg-gradient-to-br from-rose-400 via-amber-300 to-sky-400"
+            animate={{
+              filter: [
+                'saturate(1) contrast(1)',
+                'saturate(2) contrast(1.3)',
+                'saturate(0) contrast(0.9)',
+                'saturate(1) contrast(1)',
+              ],
+            }}
+            transition={{
+              duration: 3,
+              repeat: Infinity,
+              ease: "easeInOut",
+            }}
+          />
+        )
+      case 'rgbSplit':
+        return (
+          <div className="relative h-6 w-6">
+            <motion.div
+              className="absolute inset-0 rounded-full bg-red-500/70 mix-blend-screen"
+              animate={{ x: [0, -3, 0] }}
+              transition={{ duration: 1.5, repeat: Infinity, ease: "easeInOut" }}
+            />
+            <div className="absolute inset-0 rounded-full bg-green-500/70 mix-blend-screen" />
+            <motion.div
+              className="absolute inset-0 rounded-full bg-blue-500/70 mix-blend-screen"
+              animate={{ x: [0, 3, 0] }}
+              transition={{ duration: 1.5, repeat: Infinity, ease: "easeInOut" }}
+            />
+          </div>
+        )
+      case 'zoomBlur':
+        return (
+          <div className="relative h-6 w-6">
+            {[0, 1, 2].map((i) => (
+              <motion.div
+                key={i}
+                className={cn(baseClass, "absolute inset-0")}
+                animate={{
+                  scale: [1, 1 + (i + 1) * 0.15, 1],
+                  opacity: [i === 0 ? 1 : 0, 0.35, i === 0 ? 1 : 0],
+                }}
+                transition={{
+                  duration: 1.8,
+                  repeat: Infinity,
+                  ease: "easeInOut",
+                }}
+              />
+            ))}
+          </div>
+        )
+      case 'motionBlur':
+        return (
+          <div className="relative h-6 w-6">
+            {[0, 1, 2].map((i) => (
+              <motion.div
+                key={i}
+                className={cn(baseClass, "absolute inset-0")}
+                style={{ opacity: 1 - i * 0.35 }}
+                animate={{ x: [-6 + i * 3, 6 - i * 3, -6 + i * 3] }}
+                transition={{
+                  duration: 1.2,
+                  repeat: Infinity,
+                  ease: "easeInOut",
+                  delay: i * 0.05,
+                }}
+              />
+            ))}
+          </div>
+        )
+      case 'noise':
+        return (
+          <div className="relative h-6 w-6 overflow-hidden rounded-full">
+            <div className={cn(baseClass, "absolute inset-0")} />
+            {[0, 1, 2, 3, 4, 5].map((i) => (
+              <motion.div
+                key={i}
+                className="absolute h-0.5 w-0.5 bg-white"
+                style={{
+                  top: `${(i * 37) % 90}%`,
+                  left: `${(i * 53) % 90}%`,
+                }}
+                animate={{ opacity: [0, 1, 0] }}
+                transition={{
+                  duration: 0.3,
+                  repeat: Infinity,
+                  delay: i * 0.05,
+                  ease: "linear",
+                }}
+              />
+            ))}
+          </div>
+        )
+      case 'outline':
+        return (
+          <motion.div
+            className={baseClass}
+            animate={{
+              boxShadow: [
+                '0 0 0 0px rgba(255, 255, 255, 0.9)',
+                '0 0 0 3px rgba(255, 255, 255, 0.9)',
+                '0 0 0 0px rgba(255, 255, 255, 0.9)',
+              ],
+            }}
+            transition={{
+              duration: 2,
+              repeat: Infinity,
+              ease: "easeInOut",
+            }}
+          />
+        )
+      case 'bloom':
+        return (
+          <motion.div
+            className={baseClass}
+            animate={{
+              filter: ['brightness(1)', 'brightness(1.6)', 'brightness(1)'],
+              boxShadow: [
+                '0 0 0px rgba(255, 244, 214, 0)',
+                '0 0 14px rgba(255, 244, 214, 0.9)',
+                '0 0 0px rgba(255, 244, 214, 0)',
+              ],
+            }}
+            transition={{
+              duration: 2,
+              repeat: Infinity,
+              ease: "easeInOut",
+            }}
+          />
+        )
+      case 'shockwave':
+        return (
+          <div className="relative h-6 w-6">
+            <div className={cn(baseClass, "absolute inset-0")} />
+            <motion.div
+              className="absolute inset-0 rounded-full border-2 border-white/70"
+              animate={{ scale: [0.2, 1.8], opacity: [1, 0] }}
+              transition={{
+                duration: 1.4,
+                repeat: Infinity,
+                ease: "easeOut",
+              }}
+            />
+          </div>
+        )
+      case 'crt':
+        return (
+          <div className="relative h-6 w-6 overflow-hidden rounded-md">
+            <div className="absolute inset-0 bg-gradient-to-br from-emerald-300 to-emerald-600" />
+            <motion.div
+              className="absolute inset-x-0 h-full"
+              style={{
+                backgroundImage: 'repeating-linear-gradient(0deg, rgba(0, 0, 0, 0.45) 0px, rgba(0, 0, 0, 0.45) 1px, transparent 1px, transparent 3px)',
+              }}
+              animate={{ y: [0, 3] }}
+              transition={{
+                duration: 0.4,
+                repeat: Infinity,
+                ease: "linear",
+              }}
+            />
+            <div className="absolute inset-0 rounded-md shadow-[inset_0_0_6px_rgba(0,0,0,0.8)]" />
+          </div>
+        )
       case 'sparkles':
         return (
           <div className="relative h-6 w-6">
@@ -178,6 +346,146 @@ export const EffectPreview: React.FC<EffectPreviewProps> = ({
             ))}
           </div>
         )
+      case 'snow':
+        return (
+          <div className="relative h-6 w-6">
+            <div className={cn(baseClass, "absolute inset-0")} />
+            {[0, 1, 2, 3].map((i) => (
+              <motion.div
+                key={i}
+                className="absolute h-1 w-1 rounded-full bg-white"
+                style={{
+                  top: 0,
+                  left: `${15 + i * 22}%`,
+                }}
+                animate={{
+                  y: [-6, 26],
+                  x: [0, 3, -2, 0],
+                  opacity: [0, 1, 1, 0],
+                }}
+                transition={{
+                  duration: 2.5,
+                  repeat: Infinity,
+                  delay: i * 0.6,
+                  ease: "linear",
+                }}
+              />
+            ))}
+          </div>
+        )
+      case 'smoke':
+        return (
+          <div className="relative h-6 w-6">
+            <div className={cn(baseClass, "absolute inset-0")} />
+            {[0, 1, 2].map((i) => (
+              <motion.div
+                key={i}
+                className="absolute h-2 w-2 rounded-full bg-neutral-400 blur-[2px]"
+                style={{
+                  top: '40%',
+                  left: '35%',
+                }}
+                animate={{
+                  y: [0, -18],
+                  x: [0, 4],
+                  scale: [0.6, 2],
+                  opacity: [0, 0.6, 0],
+                }}
+                transition={{
+                  duration: 2,
+                  repeat: Infinity,
+                  delay: i * 0.65,
+                  ease: "easeOut",
+                }}
+              />
+            ))}
+          </div>
+        )
+      case 'fireworks':
+        return (
+          <div className="relative h-6 w-6">
+            <div className={cn(baseClass, "absolute inset-0")} />
+            {[0, 1, 2, 3, 4, 5, 6, 7].map((i) => (
+              <motion.div
+                key={i}
+                className="absolute h-1 w-1 rounded-full"
+                style={{
+                  top: '50%',
+                  left: '50%',
+                  backgroundColor: i % 2 === 0 ? '#fb923c' : '#f472b6',
+                }}
+                animate={{
+                  x: [0, Math.cos((i * Math.PI) / 4) * 14],
+                  y: [0, Math.sin((i * Math.PI) / 4) * 14 + 4],
+                  opacity: [0, 1, 0],
+                }}
+                transition={{
+                  duration: 1.2,
+                  repeat: Infinity,
+                  repeatDelay: 0.4,
+                  ease: "easeOut",
+                }}
+              />
+            ))}
+          </div>
+        )
+      case 'hearts':
+        return (
+          <div className="relative h-6 w-6">
+            <div className={cn(baseClass, "absolute inset-0")} />
+            {[0, 1, 2].map((i) => (
+              <motion.div
+                key={i}
+                className="absolute text-[8px] leading-none text-rose-400"
+                style={{
+                  top: '50%',
+                  left: `${20 + i * 25}%`,
+                }}
+                animate={{
+                  y: [0, -18],
+                  scale: [0.5, 1.1],
+                  opacity: [0, 1, 0],
+                }}
+                transition={{
+                  duration: 1.8,
+                  repeat: Infinity,
+                  delay: i * 0.5,
+                  ease: "easeOut",
+                }}
+              >
+                ♥
+              </motion.div>
+            ))}
+          </div>
+        )
+      case 'bubbles':
+        return (
+          <div className="relative h-6 w-6">
+            <div className={cn(baseClass, "absolute inset-0")} />
+            {[0, 1, 2].map((i) => (
+              <motion.div
+                key={i}
+                className="absolute h-2 w-2 rounded-full border border-sky-200"
+                style={{
+                  bottom: 0,
+                  left: `${15 + i * 25}%`,
+                }}
+                animate={{
+                  y: [4, -22],
+                  x: [0, 2, -2, 0],
+                  scale: [0.5, 1.2],
+                  opacity: [0, 0.9, 0],
+                }}
+                transition={{
+                  duration: 2.2,
+                  repeat: Infinity,
+                  delay: i * 0.7,
+                  ease: "easeOut",
+                }}
+              />
+            ))}
+          </div>
+        )
       default:
         return <Icon className="h-6 w-6 text-neutral-400" />
     }
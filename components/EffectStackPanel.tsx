@@ -0,0 +1,186 @@
+'use client'
+
+import { useState } from 'react'
+import { ChevronDown, ChevronRight, Diamond, Eye, EyeOff, X } from 'lucide-react'
+import { EFFECT_BLEND_MODES, EFFECT_PARAMS, getLayerEffectStack, isEffectEnabled, sampleEffectParam } from '@/lib/effects'
+import type { EffectBlendMode, EffectParamSpec } from '@/lib/effects'
+import { useTimeline, useTimelineActions } from '@/lib/timeline-store'
+import type { TimelineState } from '@/lib/timeline-store'
+import { cn } from '@/lib/utils'
+
+type EffectClip = TimelineState['effectClips'][number]
+
+interface EffectStackPanelProps {
+  layerId: string
+}
+
+interface EffectParamRowProps {
+  clip: EffectClip
+  spec: EffectParamSpec
+  localTime: number // ms into the clip, clamped to it
+}
+
+// One param: a slider that edits the static value, or keys the playhead once the param is animated
+export function EffectParamRow({ clip, spec, localTime }: EffectParamRowProps) {
+  const timeline = useTimelineActions()
+  const frames = clip.keyframes?.[spec.key] ?? []
+  const value = sampleEffectParam(clip, spec.key, localTime)
+  // Keyframe under the playhead (times are whole ms, the playhead may sit between)
+  const keyed = frames.find((f) => Math.abs(f.time - localTime) < 1)
+
+  const setValue = (next: number) => {
+    if (frames.length) timeline.setEffectKeyframe(clip.id, spec.key, localTime, next)
+    else timeline.updateEffectClip(clip.id, { params: { [spec.key]: next } })
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-[10px] uppercase text-neutral-500">{spec.label}</span>
+        <div className="flex items-center gap-1.5">
+          {frames.length > 0 && (
+            <button
+              onClick={() => timeline.clearEffectKeyframes(clip.id, spec.key)}
+              className="text-[10px] text-neutral-600 hover:text-rose-400"
+              title="Remove all keyframes"
+            >
+              {frames.length} keys
+            </button>
+          )}
+          <span className="text-[10px] text-neutral-400">{Number(value.toFixed(2))}</span>
+          <button
+            onClick={() =>
+              keyed
+                ? timeline.removeEffectKeyframe(clip.id, spec.key, keyed.time)
+                : timeline.setEffectKeyframe(clip.id, spec.key, localTime, value)
+            }
+            className={cn('transition-colors', keyed ? 'text-amber-400' : frames.length ? 'text-amber-400/50' : 'text-neutral-600 hover:text-neutral-300')}
+            title={keyed ? 'Remove keyframe at playhead' : 'Add keyframe at playhead'}
+          >
+            <Diamond className={cn('h-3 w-3', keyed && 'fill-current')} />
+          </button>
+        </div>
+      </div>
+      <input
+        type="range"
+        min={spec.min}
+        max={spec.max}
+        step={spec.step}
+        value={value}
+        onChange={(e) => setValue(Number(e.target.value))}
+        className="w-full accent-violet-500"
+      />
+    </div>
+  )
+}
+
+/**
+ * The selected layer's effect stack: drag to reorder (top applies first),
+ * bypass, blend and keyframe each effect clip
+ */
+export default function EffectStackPanel({ layerId }: EffectStackPanelProps) {
+  const timeline = useTimelineActions()
+  const effectClips = useTimeline((s) => s.effectClips)
+  const currentTime = useTimeline((s) => s.currentTime)
+  const stack = getLayerEffectStack(effectClips, layerId)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+
+  if (stack.length === 0) return null
+
+  const moveBefore = (sourceId: string, targetId: string) => {
+    const ids = stack.map((c) => c.id).filter((id) => id !== sourceId)
+    ids.splice(ids.indexOf(targetId), 0, sourceId)
+    timeline.reorderEffectClips(layerId, ids)
+  }
+
+  return (
+    <div className="mb-6 space-y-3 rounded-xl border border-neutral-800 bg-neutral-900/50 p-4">
+      <span className="text-xs font-medium text-neutral-400">Effect Stack</span>
+
+      {stack.map((clip) => {
+        const enabled = isEffectEnabled(clip)
+        const expanded = expandedId === clip.id
+        const params = EFFECT_PARAMS[clip.effectType]
+        const localTime = Math.max(0, Math.min(clip.duration, currentTime - clip.start))
+        return (
+          <div
+            key={clip.id}
+            className={cn('rounded-lg border border-neutral-800', draggingId === clip.id && 'opacity-50')}
+            onDragOver={(e) => {
+              if (!draggingId || draggingId === clip.id) return
+              e.preventDefault()
+            }}
+            onDrop={(e) => {
+              e.preventDefault()
+              if (!draggingId || draggingId === clip.id) return
+              moveBefore(draggingId, clip.id)
+              setDraggingId(null)
+            }}
+          >
+            <div className="flex items-center gap-2 px-2 py-1.5">
+              <div
+                draggable
+                onDragStart={() => setDraggingId(clip.id)}
+                onDragEnd={() => setDraggingId(null)}
+                className="flex-shrink-0 cursor-grab text-neutral-600 hover:text-neutral-400 active:cursor-grabbing"
+                title="Drag to reorder"
+              >
+                <svg width="12" height="12" viewBox="0 0 12 12" fill="currentColor">
+                  <circle cx="3" cy="3" r="1" />
+                  <circle cx="3" cy="6" r="1" />
+                  <circle cx="3" cy="9" r="1" />
+                  <circle cx="6" cy="3" r="1" />
+                  <circle cx="6" cy="6" r="1" />
+                  <circle cx="6" cy="9" r="1" />
+                </svg>
+              </div>
+              <button
+                onClick={() => timeline.updateEffectClip(clip.id, { enabled: !enabled })}
+                className="flex-shrink-0 text-neutral-500 hover:text-white transition-colors"
+                title={enabled ? 'Bypass effect' : 'Enable effect'}
+              >
+                {enabled ? <Eye className="h-3 w-3" /> : <EyeOff className="h-3 w-3" />}
+              </button>
+              <button
+                onClick={() => setExpandedId(expanded ? null : clip.id)}
+                className={cn('flex min-w-0 flex-1 items-center gap-1 text-left text-[11px] capitalize', enabled ? 'text-neutral-200' : 'text-neutral-500 line-through')}
+              >
+                {expanded ? <ChevronDown className="h-3 w-3 flex-shrink-0" /> : <ChevronRight className="h-3 w-3 flex-shrink-0" />}
+                <span className="truncate">{clip.effectType}</span>
+                <span className="normal-case text-neutral-500">@ {(clip.start / 1000).toFixed(2)}s</span>
+              </button>
+              <select
+                value={clip.blendMode ?? 'normal'}
+                onChange={(e) => timeline.updateEffectClip(clip.id, { blendMode: e.target.value as EffectBlendMode })}
+                className="rounded bg-neutral-800 px-1 py-0.5 text-[10px] capitalize text-white focus:outline-none focus:ring-1 focus:ring-purple-500"
+                title="Blend mode"
+              >
+                {EFFECT_BLEND_MODES.map((mode) => (
+                  <option key={mode} value={mode}>
+                    {mode}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => timeline.removeEffectClip(clip.id)}
+                className="flex-shrink-0 text-neutral-600 hover:text-rose-400 transition-colors"
+                title="Remove effect"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+
+            {expanded && (
+              <div className="space-y-3 border-t border-neutral-800 p-3">
+                {params.map((spec) => (
+                  <EffectParamRow key={spec.key} clip={clip} spec={spec} localTime={localTime} />
+                ))}
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,446 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { X, Download, Loader2, AlertTriangle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { getContentDuration, useTimeline } from '@/lib/timeline-store'
+import { EXPORT_CANCELLED_MESSAGE } from '@/lib/frame-export'
+import { FRAME_RATES } from '@/lib/timeline'
+import type { ExportProgress } from '@/lib/frame-export'
+import { getSupportedVideoFormats } from '@/lib/video-export'
+import type { VideoFormat } from '@/lib/video-export'
+import { PALETTE_SIZES, estimateAnimatedImageSize } from '@/lib/animated-image-export'
+import type { AnimatedImageFormat } from '@/lib/animated-image-export'
+import type { DitherMode } from '@/lib/color-quantizer'
+import { isApngSupported } from '@/lib/apng-encoder'
+
+export type ExportFormat = VideoFormat | AnimatedImageFormat | 'png' | 'spritesheet' | VectorFormat
+
+// Formats written from the composition data instead of rendered frames
+export type VectorFormat = 'lottie' | 'svg' | 'html'
+
+export interface ExportSettings {
+  format: ExportFormat
+  fps: number
+  width: number
+  height: number
+  // Span to render; null = the whole composition
+  range: { start: number; end: number } | null
+  // Skip BackgroundSettings and keep alpha (image formats only)
+  transparent: boolean
+  // GIF / APNG only
+  colors: number | null
+  dither: DitherMode
+  loopCount: number
+  frameSkip: number
+}
+
+export interface ExportRunOptions {
+  signal: AbortSignal
+  onProgress: (progress: ExportProgress) => void
+}
+
+interface ExportDialogProps {
+  isOpen: boolean
+  canvasWidth: number
+  canvasHeight: number
+  onClose: () => void
+  // Resolves with warnings for anything the format could not represent
+  onExport: (settings: ExportSettings, run: ExportRunOptions) => Promise<string[] | void>
+}
+
+const FORMAT_OPTIONS: Array<{ id: ExportFormat; label: string }> = [
+  { id: 'webm', label: 'WebM' },
+  { id: 'mp4', label: 'MP4' },
+  { id: 'gif', label: 'GIF' },
+  { id: 'apng', label: 'APNG' },
+  { id: 'png', label: 'PNG seq.' },
+  { id: 'spritesheet', label: 'Sprites' },
+  { id: 'lottie', label: 'Lottie' },
+  { id: 'svg', label: 'SVG' },
+  { id: 'html', label: 'HTML/CSS' },
+]
+const SCALE_OPTIONS = [0.5, 1, 2]
+const DITHER_OPTIONS: Array<{ id: DitherMode; label: string }> = [
+  { id: 'none', label: 'None' },
+  { id: 'floyd-steinberg', label: 'Diffusion' },
+  { id: 'ordered', label: 'Ordered' },
+]
+const LOOP_OPTIONS = [
+  { id: 0, label: 'Forever' },
+  { id: 1, label: 'Once' },
+  { id: 2, label: '2×' },
+  { id: 3, label: '3×' },
+]
+const FRAME_SKIP_OPTIONS = [
+  { id: 0, label: 'None' },
+  { id: 1, label: 'Every 2nd' },
+  { id: 2, label: 'Every 3rd' },
+]
+
+const isAnimatedImage = (format: ExportFormat): format is AnimatedImageFormat =>
+  format === 'gif' || format === 'apng'
+
+// Formats that can keep an alpha channel
+const supportsTransparency = (format: ExportFormat) =>
+  isAnimatedImage(format) || format === 'png' || format === 'spritesheet'
+
+// Vector formats keep the canvas size, scaling happens in the player
+export const isVectorFormat = (format: ExportFormat): format is VectorFormat =>
+  format === 'lottie' || format === 'svg' || format === 'html'
+
+// Video encoders want even dimensions
+const toEven = (value: number) => Math.max(2, Math.round(value / 2) * 2)
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`
+
+function OptionRow<T extends string | number | null>({
+  label,
+  options,
+  value,
+  disabled,
+  isSupported,
+  onChange,
+}: {
+  label: string
+  options: Array<{ id: T; label: string }>
+  value: T
+  disabled?: boolean
+  isSupported?: (id: T) => boolean
+  onChange: (id: T) => void
+}) {
+  return (
+    <div className="space-y-2">
+      <label className="text-xs font-medium text-neutral-400">{label}</label>
+      <div className="flex flex-wrap gap-2">
+        {options.map((option) => {
+          const supported = isSupported ? isSupported(option.id) : true
+          return (
+            <button
+              key={String(option.id)}
+              disabled={disabled || !supported}
+              onClick={() => onChange(option.id)}
+              title={supported ? undefined : 'Not supported by this browser'}
+              className={cn(
+                'flex-1 min-w-[64px] rounded-md border px-3 py-2 text-sm transition-colors',
+                value === option.id
+                  ? 'bg-white/10 text-white border-white/30'
+                  : 'border-white/10 text-neutral-400 hover:text-white',
+                !supported && 'opacity-40 cursor-not-allowed'
+              )}
+            >
+              {option.label}
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+export default function ExportDialog({ isOpen, canvasWidth, canvasHeight, onClose, onExport }: ExportDialogProps) {
+  const loop = useTimeline((s) => s.loop)
+  const tracks = useTimeline((s) => s.tracks)
+  const templateClips = useTimeline((s) => s.templateClips)
+  const clickMarkers = useTimeline((s) => s.clickMarkers)
+  const workArea = useTimeline((s) => s.workArea)
+  const audioTracks = useTimeline((s) => s.audioTracks)
+  const projectFps = useTimeline((s) => s.fps)
+  const [format, setFormat] = useState<ExportFormat>('webm')
+  const [fps, setFps] = useState(30)
+  const [scale, setScale] = useState(1)
+  const [colors, setColors] = useState<number | null>(256)
+  const [dither, setDither] = useState<DitherMode>('floyd-steinberg')
+  const [loopCount, setLoopCount] = useState(0)
+  const [frameSkip, setFrameSkip] = useState(0)
+  const [transparent, setTransparent] = useState(false)
+  const [useRange, setUseRange] = useState(true)
+  const [supportedFormats, setSupportedFormats] = useState<ExportFormat[]>([])
+  const [progress, setProgress] = useState<ExportProgress | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [warnings, setWarnings] = useState<string[]>([])
+  const abortRef = useRef<AbortController | null>(null)
+  const isExporting = progress !== null
+  const [wasOpen, setWasOpen] = useState(false)
+
+  // Loop count and frame rate follow the timeline until changed here; a work area is rendered by default.
+  // Only reset as the dialog opens, so timeline changes don't wipe settings being edited.
+  if (isOpen !== wasOpen) {
+    setWasOpen(isOpen)
+    if (isOpen) {
+      setLoopCount(loop ? 0 : 1)
+      setFps(projectFps)
+      setUseRange(true)
+      setError(null)
+      setWarnings([])
+    }
+  }
+
+  const width = isVectorFormat(format) ? canvasWidth : toEven(canvasWidth * scale)
+  const height = isVectorFormat(format) ? canvasHeight : toEven(canvasHeight * scale)
+
+  useEffect(() => {
+    if (!isOpen) return
+    const formats: ExportFormat[] = [...getSupportedVideoFormats(), 'gif']
+    if (isApngSupported()) formats.push('apng')
+    formats.push('png', 'spritesheet', 'lottie', 'svg', 'html')
+    setSupportedFormats(formats)
+    setFormat((current) => (formats.includes(current) ? current : formats[0]))
+  }, [isOpen])
+
+  useEffect(() => {
+    if (!isOpen || isExporting) return
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleEscape)
+    return () => window.removeEventListener('keydown', handleEscape)
+  }, [isOpen, isExporting, onClose])
+
+  if (!isOpen) return null
+
+  const animated = isAnimatedImage(format)
+  // GIF is always palette based
+  const effectiveColors = format === 'gif' ? colors ?? 256 : colors
+  const range = useRange ? workArea : null
+  const fullDuration = getContentDuration({ tracks, templateClips, clickMarkers, audioTracks })
+  const estimatedSize = animated
+    ? estimateAnimatedImageSize({
+        format,
+        width,
+        height,
+        fps,
+        duration: range ? range.end - range.start : fullDuration,
+        colors: effectiveColors,
+        dither,
+        loopCount,
+        frameSkip,
+      })
+    : null
+
+  const handleExport = async () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setError(null)
+    setWarnings([])
+    setProgress({ frame: 0, totalFrames: 1 })
+    try {
+      const result = await onExport(
+        {
+          format,
+          fps,
+          width,
+          height,
+          range,
+          transparent: transparent && supportsTransparency(format),
+          colors: effectiveColors,
+          dither,
+          loopCount,
+          frameSkip,
+        },
+        { signal: controller.signal, onProgress: setProgress }
+      )
+      // Keep the dialog open so the user sees what was dropped
+      if (result && result.length > 0) setWarnings(result)
+      else onClose()
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error('Export failed', err)
+        setError(err instanceof Error ? err.message : 'Export failed')
+      }
+    } finally {
+      abortRef.current = null
+      setProgress(null)
+    }
+  }
+
+  const handleCancel = () => {
+    abortRef.current?.abort()
+  }
+
+  const percent = progress ? Math.round((progress.frame / Math.max(1, progress.totalFrames)) * 100) : 0
+  const paletteOptions: Array<{ id: number | null; label: string }> = [
+    ...(format === 'apng' ? [{ id: null, label: 'Full' }] : []),
+    ...PALETTE_SIZES.map((size) => ({ id: size, label: String(size) })),
+  ]
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+        onClick={isExporting ? undefined : onClose}
+      />
+
+      {/* Dialog */}
+      <div className="relative w-full max-w-md mx-4 bg-[#1a1a1a] border border-white/10 rounded-lg shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-white/10">
+          <h3 className="text-lg font-semibold text-white">Export</h3>
+          {!isExporting && (
+            <button
+              onClick={onClose}
+              className="text-neutral-400 hover:text-white transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          )}
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-5 max-h-[70vh] overflow-y-auto">
+          <OptionRow
+            label="Format"
+            options={FORMAT_OPTIONS}
+            value={format}
+            disabled={isExporting}
+            isSupported={(id) => supportedFormats.includes(id)}
+            onChange={setFormat}
+          />
+          <OptionRow
+            label="Frame rate"
+            options={FRAME_RATES.map((id) => ({ id, label: `${id} fps` }))}
+            value={fps}
+            disabled={isExporting}
+            onChange={setFps}
+          />
+          {!isVectorFormat(format) && (
+            <div className="space-y-2">
+              <OptionRow
+                label="Resolution"
+                options={SCALE_OPTIONS.map((id) => ({ id, label: `${id}x` }))}
+                value={scale}
+                disabled={isExporting}
+                onChange={setScale}
+              />
+              <p className="text-xs text-neutral-500">{width} × {height} px</p>
+            </div>
+          )}
+
+          {workArea && (
+            <OptionRow
+              label="Range"
+              options={[
+                { id: 'full', label: `Full (${(fullDuration / 1000).toFixed(2)}s)` },
+                {
+                  id: 'workArea',
+                  label: `Work area ${(workArea.start / 1000).toFixed(2)}s – ${(workArea.end / 1000).toFixed(2)}s`,
+                },
+              ]}
+              value={useRange ? 'workArea' : 'full'}
+              disabled={isExporting}
+              onChange={(id) => setUseRange(id === 'workArea')}
+            />
+          )}
+
+          {supportsTransparency(format) && (
+            <OptionRow
+              label="Background"
+              options={[
+                { id: 'project', label: 'Project' },
+                { id: 'transparent', label: 'Transparent' },
+              ]}
+              value={transparent ? 'transparent' : 'project'}
+              disabled={isExporting}
+              onChange={(id) => setTransparent(id === 'transparent')}
+            />
+          )}
+
+          {animated && (
+            <>
+              <OptionRow
+                label="Colors"
+                options={paletteOptions}
+                value={effectiveColors}
+                disabled={isExporting}
+                onChange={setColors}
+              />
+              <OptionRow
+                label="Dithering"
+                options={DITHER_OPTIONS}
+                value={dither}
+                disabled={isExporting || effectiveColors === null}
+                onChange={setDither}
+              />
+              <OptionRow
+                label="Loop"
+                options={LOOP_OPTIONS}
+                value={loopCount}
+                disabled={isExporting}
+                onChange={setLoopCount}
+              />
+              <OptionRow
+                label="Frame skip"
+                options={FRAME_SKIP_OPTIONS}
+                value={frameSkip}
+                disabled={isExporting}
+                onChange={setFrameSkip}
+              />
+              {estimatedSize !== null && (
+                <p className="text-xs text-neutral-500">Estimated size: ~{formatBytes(estimatedSize)}</p>
+              )}
+            </>
+          )}
+
+          {isExporting && (
+            <div className="space-y-2">
+              <div className="h-2 w-full overflow-hidden rounded-full bg-white/10">
+                <div className="h-full bg-purple-500 transition-[width]" style={{ width: `${percent}%` }} />
+              </div>
+              <p className="flex items-center gap-2 text-xs text-neutral-400">
+                <Loader2 className="h-3 w-3 animate-spin" />
+                Rendering frame {progress.frame} of {progress.totalFrames} ({percent}%)
+              </p>
+            </div>
+          )}
+
+          {error && error !== EXPORT_CANCELLED_MESSAGE && <p className="text-sm text-red-400">{error}</p>}
+
+          {warnings.length > 0 && (
+            <div className="space-y-2 rounded-md border border-amber-500/30 bg-amber-500/10 p-3">
+              <p className="flex items-center gap-2 text-sm font-medium text-amber-300">
+                <AlertTriangle className="h-4 w-4" />
+                Exported with {warnings.length} warning{warnings.length === 1 ? '' : 's'}
+              </p>
+              <ul className="list-disc space-y-1 pl-5 text-xs text-amber-200/80">
+                {warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center justify-end gap-3 p-4 border-t border-white/10 bg-white/[0.02]">
+          {isExporting ? (
+            <button
+              onClick={handleCancel}
+              className="px-4 py-2 text-sm font-medium text-neutral-300 hover:text-white bg-white/5 hover:bg-white/10 rounded-md transition-colors"
+            >
+              Cancel
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-neutral-300 hover:text-white bg-white/5 hover:bg-white/10 rounded-md transition-colors"
+              >
+                Close
+              </button>
+              <button
+                onClick={handleExport}
+                disabled={!supportedFormats.includes(format)}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-md transition-colors bg-purple-600 hover:bg-purple-700 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <Download className="h-4 w-4" />
+                Export
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
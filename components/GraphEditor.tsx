@@ -0,0 +1,330 @@
+'use client'
+
+import { Maximize } from 'lucide-react'
+import { useEffect, useRef, useState } from 'react'
+import { useTimeline, useTimelineActions } from '@/lib/timeline-store'
+import { getCubicBezier, sampleNumberTrack } from '@/lib/timeline'
+import type { LayerTracks, TimelineKeyframe, Vec2 } from '@/lib/timeline'
+
+interface GraphEditorProps {
+  layerId?: string
+}
+
+interface GraphChannel {
+  id: string
+  label: string
+  color: string
+  property: 'position' | 'scale' | 'scaleX' | 'scaleY' | 'rotation' | 'skewX' | 'skewY' | 'anchor' | 'opacity' | 'maskScale'
+  axis?: 'x' | 'y'
+  factor?: number // stored value -> displayed value
+}
+
+// Vector x / y share one keyframe (and easing) per time, so editing one axis' handles bends both
+const CHANNELS: GraphChannel[] = [
+  { id: 'position.x', label: 'Position X', color: '#f87171', property: 'position', axis: 'x' },
+  { id: 'position.y', label: 'Position Y', color: '#4ade80', property: 'position', axis: 'y' },
+  { id: 'scale', label: 'Scale', color: '#60a5fa', property: 'scale' },
+  { id: 'scaleX', label: 'Scale X', color: '#818cf8', property: 'scaleX' },
+  { id: 'scaleY', label: 'Scale Y', color: '#a78bfa', property: 'scaleY' },
+  { id: 'rotation', label: 'Rotation (°)', color: '#facc15', property: 'rotation', factor: 180 / Math.PI },
+  { id: 'skewX', label: 'Skew X (°)', color: '#fb923c', property: 'skewX', factor: 180 / Math.PI },
+  { id: 'skewY', label: 'Skew Y (°)', color: '#fdba74', property: 'skewY', factor: 180 / Math.PI },
+  { id: 'anchor.x', label: 'Anchor X', color: '#2dd4bf', property: 'anchor', axis: 'x' },
+  { id: 'anchor.y', label: 'Anchor Y', color: '#5eead4', property: 'anchor', axis: 'y' },
+  { id: 'opacity', label: 'Opacity', color: '#e879f9', property: 'opacity' },
+  { id: 'maskScale', label: 'Mask Scale', color: '#22d3ee', property: 'maskScale' },
+]
+
+interface GraphView {
+  t0: number // ms
+  t1: number
+  v0: number // bottom of the plot
+  v1: number // top of the plot
+}
+
+type GraphMode = 'value' | 'speed'
+
+const PLOT_PAD = 12
+
+// Displayed keyframes of one channel (a single axis for position, degrees for rotation)
+const getChannelFrames = (track: LayerTracks | undefined, channel: GraphChannel): TimelineKeyframe<number>[] => {
+  const frames = track?.[channel.property] ?? []
+  const factor = channel.factor ?? 1
+  return channel.axis
+    ? (frames as TimelineKeyframe<Vec2>[]).map((f) => ({ ...f, value: f.value[channel.axis!] * factor }))
+    : (frames as TimelineKeyframe<number>[]).map((f) => ({ ...f, value: f.value * factor }))
+}
+
+// Value, or speed in units per second (central difference)
+const sampleChannel = (frames: TimelineKeyframe<number>[], time: number, mode: GraphMode) => {
+  if (mode === 'value') return sampleNumberTrack(frames, time, 0)
+  const h = 1
+  return ((sampleNumberTrack(frames, time + h, 0) - sampleNumberTrack(frames, time - h, 0)) / (2 * h)) * 1000
+}
+
+/**
+ * View that fits every keyframe of the visible channels, with some headroom for overshoot
+ */
+const fitView = (channels: Array<{ frames: TimelineKeyframe<number>[] }>, mode: GraphMode): GraphView => {
+  const times = channels.flatMap((c) => c.frames.map((f) => f.time))
+  let t0 = times.length > 0 ? Math.min(...times) : 0
+  let t1 = times.length > 0 ? Math.max(...times) : 1000
+  if (t1 - t0 < 100) {
+    t0 = Math.max(0, t0 - 500)
+    t1 = t0 + 1000
+  }
+
+  let min = Infinity
+  let max = -Infinity
+  channels.forEach(({ frames }) => {
+    if (frames.length === 0) return
+    for (let i = 0; i <= 200; i++) {
+      const v = sampleChannel(frames, t0 + ((t1 - t0) * i) / 200, mode)
+      min = Math.min(min, v)
+      max = Math.max(max, v)
+    }
+  })
+  if (!Number.isFinite(min)) {
+    min = 0
+    max = 1
+  }
+  if (max - min < 1e-3) {
+    min -= 0.5
+    max += 0.5
+  }
+  const pad = (max - min) * 0.1
+  return { t0, t1, v0: min - pad, v1: max + pad }
+}
+
+const formatValue = (v: number) => (Math.abs(v) >= 100 ? v.toFixed(0) : Math.abs(v) >= 10 ? v.toFixed(1) : v.toFixed(2))
+
+export default function GraphEditor({ layerId }: GraphEditorProps) {
+  const tracks = useTimeline((s) => s.tracks)
+  const currentTime = useTimeline((s) => s.currentTime)
+  const timeline = useTimelineActions()
+  const plotRef = useRef<HTMLDivElement>(null)
+  const [size, setSize] = useState({ width: 0, height: 0 })
+  const [mode, setMode] = useState<GraphMode>('value')
+  const [hidden, setHidden] = useState<Record<string, boolean>>({})
+  // null = fit to view, recomputed as keyframes change
+  const [view, setView] = useState<GraphView | null>(null)
+
+  useEffect(() => {
+    const el = plotRef.current
+    if (!el) return
+    const updateSize = () => setSize({ width: el.clientWidth, height: el.clientHeight })
+    updateSize()
+    const observer = new ResizeObserver(updateSize)
+    observer.observe(el)
+    return () => observer.disconnect()
+  }, [])
+
+  const track = tracks.find((t) => t.layerId === layerId)
+  const channels = CHANNELS.map((channel) => ({ channel, frames: getChannelFrames(track, channel) })).filter(
+    ({ frames }) => frames.length > 0
+  )
+  const visible = channels.filter(({ channel }) => !hidden[channel.id])
+  const activeView = view ?? fitView(visible, mode)
+
+  const { width, height } = size
+  const plotW = Math.max(1, width - PLOT_PAD * 2)
+  const plotH = Math.max(1, height - PLOT_PAD * 2)
+  const toX = (t: number) => PLOT_PAD + ((t - activeView.t0) / (activeView.t1 - activeView.t0)) * plotW
+  const toY = (v: number) => PLOT_PAD + (1 - (v - activeView.v0) / (activeView.v1 - activeView.v0)) * plotH
+  const fromX = (x: number) => activeView.t0 + ((x - PLOT_PAD) / plotW) * (activeView.t1 - activeView.t0)
+  const fromY = (y: number) => activeView.v0 + (1 - (y - PLOT_PAD) / plotH) * (activeView.v1 - activeView.v0)
+
+  // Wheel zooms time around the pointer, alt+wheel zooms values
+  const handleWheel = (e: React.WheelEvent) => {
+    const rect = plotRef.current?.getBoundingClientRect()
+    if (!rect) return
+    const factor = e.deltaY > 0 ? 1.15 : 1 / 1.15
+    if (e.altKey) {
+      const anchor = fromY(e.clientY - rect.top)
+      setView({ ...activeView, v0: anchor + (activeView.v0 - anchor) * factor, v1: anchor + (activeView.v1 - anchor) * factor })
+    } else {
+      const anchor = fromX(e.clientX - rect.left)
+      setView({ ...activeView, t0: anchor + (activeView.t0 - anchor) * factor, t1: anchor + (activeView.t1 - anchor) * factor })
+    }
+  }
+
+  // Dragging the empty plot pans the view
+  const handlePanStart = (e: React.PointerEvent) => {
+    const startX = e.clientX
+    const startY = e.clientY
+    const base = activeView
+    const msPerPx = (base.t1 - base.t0) / plotW
+    const unitsPerPx = (base.v1 - base.v0) / plotH
+
+    const onMove = (ev: PointerEvent) => {
+      const dt = (ev.clientX - startX) * msPerPx
+      const dv = (ev.clientY - startY) * unitsPerPx
+      setView({ t0: base.t0 - dt, t1: base.t1 - dt, v0: base.v0 + dv, v1: base.v1 + dv })
+    }
+
+    const onUp = () => {
+      window.removeEventListener('pointermove', onMove)
+      window.removeEventListener('pointerup', onUp)
+    }
+
+    window.addEventListener('pointermove', onMove)
+    window.addEventListener('pointerup', onUp)
+  }
+
+  /**
+   * Drag one bezier handle of the segment ending at `to`. The handle position
+   * is converted back into the segment's 0-1 easing space and stored as a
+   * custom cubic-bezier on that keyframe.
+   */
+  const startHandleDrag = (
+    e: React.PointerEvent,
+    channel: GraphChannel,
+    from: TimelineKeyframe<number>,
+    to: TimelineKeyframe<number>,
+    handle: 1 | 2
+  ) => {
+    e.preventDefault()
+    e.stopPropagation()
+    if (!layerId) return
+    const rect = plotRef.current?.getBoundingClientRect()
+    const bezier = getCubicBezier(to.easing)
+    if (!rect || !bezier) return
+    let current = [...bezier]
+    const dt = to.time - from.time
+    const dv = to.value - from.value
+    const round = (v: number) => Math.round(v * 1000) / 1000
+
+    const onMove = (ev: PointerEvent) => {
+      const x = Math.min(1, Math.max(0, (fromX(ev.clientX - rect.left) - from.time) / dt))
+      const idx = handle === 1 ? 0 : 2
+      // A flat segment has no value range to map onto, so only its timing can change
+      const y = Math.abs(dv) > 1e-9 ? (fromY(ev.clientY - rect.top) - from.value) / dv : current[idx + 1]
+      current = handle === 1 ? [x, y, current[2], current[3]] : [current[0], current[1], x, y]
+      const [x1, y1, x2, y2] = current.map(round)
+      timeline.setKeyframeEasing(layerId, channel.property, to.time, { type: 'cubicBezier', x1, y1, x2, y2 })
+    }
+
+    const onUp = () => {
+      window.removeEventListener('pointermove', onMove)
+      window.removeEventListener('pointerup', onUp)
+    }
+
+    window.addEventListener('pointermove', onMove)
+    window.addEventListener('pointerup', onUp)
+  }
+
+  const valueTicks = Array.from({ length: 5 }, (_, i) => activeView.v0 + ((activeView.v1 - activeView.v0) * i) / 4)
+  const secondStep = Math.max(1, Math.ceil((activeView.t1 - activeView.t0) / 1000 / 10))
+  const timeTicks: number[] = []
+  for (let s = Math.ceil(activeView.t0 / 1000 / secondStep) * secondStep; s * 1000 <= activeView.t1; s += secondStep) {
+    timeTicks.push(s * 1000)
+  }
+
+  return (
+    <div className="flex h-full min-h-0">
+      <div className="w-[200px] shrink-0 border-r border-white/5 p-2 flex flex-col gap-2 overflow-y-auto">
+        <div className="flex rounded-full border border-white/10 bg-white/[0.04] p-0.5 text-[10px]">
+          {(['value', 'speed'] as const).map((m) => (
+            <button
+              key={m}
+              onClick={() => {
+                setMode(m)
+                setView(null)
+              }}
+              className={`flex-1 rounded-full px-2 py-0.5 capitalize transition-colors ${mode === m ? 'bg-violet-500/30 text-white' : 'text-neutral-400 hover:text-neutral-200'}`}
+            >
+              {m}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => setView(null)}
+          className="inline-flex items-center justify-center gap-1 rounded-full border border-white/10 bg-white/[0.04] px-2 py-1 text-[10px] text-neutral-300 hover:bg-white/[0.1] transition-colors"
+          title="Fit to view"
+        >
+          <Maximize className="h-3 w-3" />
+          <span>Fit to view</span>
+        </button>
+        {channels.length === 0 && (
+          <span className="text-[10px] text-neutral-500">{layerId ? 'This layer has no keyframes.' : 'Select a layer to edit its curves.'}</span>
+        )}
+        {channels.map(({ channel }) => (
+          <label key={channel.id} className="flex items-center gap-2 text-[10px] text-neutral-300 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={!hidden[channel.id]}
+              onChange={() => setHidden((prev) => ({ ...prev, [channel.id]: !prev[channel.id] }))}
+              className="accent-violet-500"
+            />
+            <span className="h-2 w-2 rounded-full" style={{ backgroundColor: channel.color }} />
+            <span className="truncate">{channel.label}</span>
+          </label>
+        ))}
+      </div>
+
+      <div ref={plotRef} className="flex-1 relative min-w-0 overflow-hidden" onWheel={handleWheel}>
+        {width > 0 && height > 0 && (
+          <svg width={width} height={height} className="absolute inset-0 select-none touch-none" onPointerDown={handlePanStart}>
+            {valueTicks.map((v) => (
+              <g key={`v${v}`}>
+                <line x1={0} x2={width} y1={toY(v)} y2={toY(v)} stroke="rgba(255,255,255,0.05)" />
+                <text x={4} y={toY(v) - 2} fontSize={9} fill="rgba(255,255,255,0.35)">{formatValue(v)}</text>
+              </g>
+            ))}
+            {timeTicks.map((t) => (
+              <g key={`t${t}`}>
+                <line x1={toX(t)} x2={toX(t)} y1={0} y2={height} stroke="rgba(255,255,255,0.05)" />
+                <text x={toX(t) + 3} y={height - 4} fontSize={9} fill="rgba(255,255,255,0.35)">{t / 1000}s</text>
+              </g>
+            ))}
+            <line x1={toX(currentTime)} x2={toX(currentTime)} y1={0} y2={height} stroke="#f43f5e" strokeWidth={1.5} />
+
+            {visible.map(({ channel, frames }) => {
+              const steps = Math.max(2, Math.floor(plotW / 2))
+              const d = Array.from({ length: steps + 1 }, (_, i) => {
+                const t = activeView.t0 + ((activeView.t1 - activeView.t0) * i) / steps
+                return `${i === 0 ? 'M' : 'L'}${toX(t).toFixed(1)} ${toY(sampleChannel(frames, t, mode)).toFixed(1)}`
+              }).join(' ')
+              return (
+                <g key={channel.id}>
+                  <path d={d} fill="none" stroke={channel.color} strokeWidth={1.5} />
+                  {mode === 'value' &&
+                    frames.slice(1).map((to, i) => {
+                      const from = frames[i]
+                      const bezier = getCubicBezier(to.easing)
+                      if (!bezier) return null
+                      const dt = to.time - from.time
+                      const dv = to.value - from.value
+                      const h1 = { x: toX(from.time + bezier[0] * dt), y: toY(from.value + bezier[1] * dv) }
+                      const h2 = { x: toX(from.time + bezier[2] * dt), y: toY(from.value + bezier[3] * dv) }
+                      return (
+                        <g key={to.time}>
+                          <line x1={toX(from.time)} y1={toY(from.value)} x2={h1.x} y2={h1.y} stroke={channel.color} strokeOpacity={0.4} />
+                          <line x1={toX(to.time)} y1={toY(to.value)} x2={h2.x} y2={h2.y} stroke={channel.color} strokeOpacity={0.4} />
+                          <circle cx={h1.x} cy={h1.y} r={3.5} fill="#0a0a0a" stroke={channel.color} className="cursor-grab" onPointerDown={(e) => startHandleDrag(e, channel, from, to, 1)} />
+                          <circle cx={h2.x} cy={h2.y} r={3.5} fill="#0a0a0a" stroke={channel.color} className="cursor-grab" onPointerDown={(e) => startHandleDrag(e, channel, from, to, 2)} />
+                        </g>
+                      )
+                    })}
+                  {mode === 'value' &&
+                    frames.map((frame) => (
+                      <rect
+                        key={frame.time}
+                        x={toX(frame.time) - 3.5}
+                        y={toY(frame.value) - 3.5}
+                        width={7}
+                        height={7}
+                        fill={channel.color}
+                        transform={`rotate(45 ${toX(frame.time)} ${toY(frame.value)})`}
+                        className="pointer-events-none"
+                      />
+                    ))}
+                </g>
+              )
+            })}
+          </svg>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -6,13 +6,41 @@ import * as PIXI from 'pixi.js'
 import 'pixi.js/app' // ensure Application plugins (ticker/resize) are registered
 import 'pixi.js/events' // enable pointer events
 import { sampleTimeline } from '@/lib/timeline'
+import {
+  collectFilters,
+  evaluateCounter,
+  evaluateLayer,
+  evaluateLetters,
+  evaluatePrecomp,
+  evaluateTypewriter,
+  flattenPrecompLayers,
+  getParentTransform,
+  toParentSpace,
+} from '@/lib/scene-evaluator'
+import type { FilterDescriptor, LayerFrame, ParentTransform, SceneInput } from '@/lib/scene-evaluator'
+import { toScenePrecomps } from '@/lib/precomp'
+import type { Precomp } from '@/lib/precomp'
+import type { FrameSource } from '@/lib/frame-export'
+import { getShapeOutline, tracePathOutline } from '@/lib/shape-geometry'
+import type { PathOutline } from '@/lib/shape-geometry'
 import { useTimeline, useTimelineActions } from '@/lib/timeline-store'
 import { GlowFilter } from 'pixi-filters'
 import { DropShadowFilter } from 'pixi-filters'
 import { GlitchFilter } from 'pixi-filters'
 import { PixelateFilter } from 'pixi-filters'
 import { AdjustmentFilter } from 'pixi-filters'
-import { SimpleParticleEmitter } from '@/lib/particle-emitter'
+import { RGBSplitFilter } from 'pixi-filters'
+import { ZoomBlurFilter } from 'pixi-filters'
+import { MotionBlurFilter } from 'pixi-filters'
+import { OutlineFilter } from 'pixi-filters'
+import { AdvancedBloomFilter } from 'pixi-filters'
+import { ShockwaveFilter } from 'pixi-filters'
+import { CRTFilter } from 'pixi-filters'
+import { ParticleEmitter, createParticleTexture, createTextParticleTexture } from '@/lib/particle-emitter'
+import type { SourceTexture } from '@/lib/particle-emitter'
+import { PARTICLE_PRESETS, getParticleTexture } from '@/lib/particles'
+import type { ParticleSource } from '@/lib/particles'
+import { getSvgUrl } from '@/lib/iconify'
 import { PanZoomRegionOverlay, PanZoomRegion } from '@/components/PanZoomRegionOverlay'
 
 interface MotionCanvasProps {
@@ -20,7 +48,13 @@ interface MotionCanvasProps {
   templateVersion: number
   layers?: Array<{
     id: string
-    type?: 'shape' | 'image' | 'svg' | 'text'
+    type?: 'shape' | 'image' | 'svg' | 'text' | 'group' | 'precomp'
+    parentId?: string
+    parentOrigin?: { x: number; y: number }
+    precompId?: string
+    timeOffset?: number
+    timeStretch?: number
+    loop?: boolean
     shapeKind: 'circle' | 'square' | 'heart' | 'star' | 'triangle' | 'pill' | 'like' | 'comment' | 'share' | 'cursor' | 'counter'
     x: number
     y: number
@@ -29,6 +63,8 @@ interface MotionCanvasProps {
     scale?: number
     rotation?: number
     fillColor: number
+    strokeColor?: number
+    strokeWidth?: number
     imageUrl?: string
     svgUrl?: string
     // Text properties
@@ -48,6 +84,7 @@ interface MotionCanvasProps {
       params: Record<string, any>
     }>
   }>
+  precomps?: Precomp[]
   onUpdateLayerPosition?: (id: string, x: number, y: number) => void
   onTemplateComplete?: () => void
   isDrawingPath?: boolean
@@ -81,25 +118,117 @@ interface MotionCanvasProps {
   // Pan/Zoom region editing
   selectedClipId?: string
   onUpdatePanZoomRegions?: (clipId: string, targetRegion: PanZoomRegion) => void
+  // Filled in with a frame source for the exporters once the stage is ready
+  frameSourceRef?: React.MutableRefObject<FrameSource | null>
 }
 
 const ICON_SHAPE_KINDS = ['like', 'comment', 'share', 'cursor'] as const
 // Extract the item type from the array, handling the fact that 'layers' might be undefined
 type LayerItem = NonNullable<MotionCanvasProps['layers']>[number]
+const NO_PRECOMPS: Precomp[] = []
 const isIconShapeKind = (kind?: LayerItem['shapeKind']) =>
   !!kind && ICON_SHAPE_KINDS.includes(kind as any)
 
 // Shared heart path so resizing keeps the shape consistent
 const drawHeartPath = (g: PIXI.Graphics, width: number, height: number) => {
-  const w = width
-  const h = height
-  const topCurveHeight = h * 0.3
-  g.moveTo(0, -h / 2 + h * 0.25)
-  g.bezierCurveTo(0, -h / 2, -w / 2, -h / 2, -w / 2, -h / 2 + topCurveHeight)
-  g.bezierCurveTo(-w / 2, h * 0.05, 0, h / 2, 0, h / 2)
-  g.bezierCurveTo(0, h / 2, w / 2, h * 0.05, w / 2, -h / 2 + topCurveHeight)
-  g.bezierCurveTo(w / 2, -h / 2, 0, -h / 2, 0, -h / 2 + h * 0.25)
-  g.closePath()
+  tracePathOutline(g, getShapeOutline('heart', width, height) as PathOutline)
+}
+
+// Build the Pixi filter for an evaluated effect descriptor
+const createFilter = (desc: FilterDescriptor): PIXI.Filter => {
+  switch (desc.type) {
+    case 'glow':
+      return new GlowFilter({
+        distance: desc.distance,
+        outerStrength: desc.outerStrength,
+        innerStrength: 0,
+        color: desc.color,
+        quality: 0.1,
+        knockout: false,
+      })
+    case 'dropShadow':
+      return new DropShadowFilter({
+        distance: desc.distance,
+        blur: desc.blur,
+        rotation: desc.rotation,
+        alpha: desc.alpha,
+        color: desc.color,
+      } as any)
+    case 'blur': {
+      const f = new PIXI.BlurFilter()
+      f.blur = desc.strength
+      return f
+    }
+    case 'glitch':
+      return new GlitchFilter({
+        slices: desc.slices,
+        offset: desc.offset,
+        direction: 0,
+        fillMode: 0,
+        average: false,
+        seed: desc.seed,
+      })
+    case 'pixelate':
+      return new PixelateFilter(desc.size)
+    case 'colorAdjust':
+      return new AdjustmentFilter({
+        gamma: desc.gamma,
+        saturation: desc.saturation,
+        contrast: desc.contrast,
+        brightness: desc.brightness,
+        red: desc.red,
+        green: desc.green,
+        blue: desc.blue,
+      })
+    case 'rgbSplit': {
+      // Red and blue pull apart along the angle, green stays put
+      const rad = (desc.angle * Math.PI) / 180
+      const dx = Math.cos(rad) * desc.amount
+      const dy = Math.sin(rad) * desc.amount
+      return new RGBSplitFilter({ red: { x: -dx, y: -dy }, green: { x: 0, y: 0 }, blue: { x: dx, y: dy } })
+    }
+    case 'zoomBlur':
+      // Center is set per frame from the layer bounds, see applyFrame
+      return new ZoomBlurFilter({ strength: desc.strength, innerRadius: desc.innerRadius })
+    case 'motionBlur': {
+      const rad = (desc.angle * Math.PI) / 180
+      return new MotionBlurFilter({
+        velocity: { x: Math.cos(rad) * desc.amount, y: Math.sin(rad) * desc.amount },
+        kernelSize: 15,
+      })
+    }
+    case 'noise':
+      return new PIXI.NoiseFilter({ noise: desc.amount, seed: desc.seed })
+    case 'outline':
+      return new OutlineFilter({ thickness: desc.thickness, color: desc.color, alpha: desc.alpha, quality: 0.1 })
+    case 'bloom':
+      return new AdvancedBloomFilter({
+        threshold: desc.threshold,
+        bloomScale: desc.scale,
+        brightness: desc.brightness,
+        blur: desc.blur,
+        quality: 4,
+      })
+    case 'shockwave':
+      return new ShockwaveFilter({
+        amplitude: desc.amplitude,
+        wavelength: desc.wavelength,
+        speed: desc.speed,
+        brightness: desc.brightness,
+        radius: -1,
+        time: desc.time,
+      })
+    case 'crt':
+      return new CRTFilter({
+        curvature: desc.curvature,
+        lineWidth: desc.lineWidth,
+        lineContrast: desc.lineContrast,
+        noise: desc.noise,
+        vignetting: desc.vignetting,
+        seed: desc.seed,
+        time: desc.time,
+      })
+  }
 }
 
 type LineOverlayProps = {
@@ -234,7 +363,7 @@ function LineOverlay({
   )
 }
 
-export default function MotionCanvas({ template, templateVersion, layers = [], layerOrder = [], onUpdateLayerPosition, onUpdateLayerSize, onTemplateComplete, isDrawingPath = false, isDrawingLine = false, pathPoints = [], onAddPathPoint, onFinishPath, onSelectLayer, selectedLayerId, activePathPoints = [], pathVersion = 0, pathLayerId, onPathPlaybackComplete, onUpdateActivePathPoint, onClearPath, onInsertPathPoint, background: _background, offsetX = 0, offsetY = 0, popReappear = false, onCanvasBackgroundClick, selectedClipId, onUpdatePanZoomRegions }: MotionCanvasProps) {
+export default function MotionCanvas({ template, templateVersion, layers = [], layerOrder = [], precomps = NO_PRECOMPS, onUpdateLayerPosition, onUpdateLayerSize, onTemplateComplete, isDrawingPath = false, isDrawingLine = false, pathPoints = [], onAddPathPoint, onFinishPath, onSelectLayer, selectedLayerId, activePathPoints = [], pathVersion = 0, pathLayerId, onPathPlaybackComplete, onUpdateActivePathPoint, onClearPath, onInsertPathPoint, background: _background, offsetX = 0, offsetY = 0, popReappear = false, onCanvasBackgroundClick, selectedClipId, onUpdatePanZoomRegions, frameSourceRef }: MotionCanvasProps) {
   const containerRef = useRef<HTMLDivElement>(null)
   const appRef = useRef<PIXI.Application | null>(null)
   const [isReady, setIsReady] = useState(false)
@@ -249,19 +378,28 @@ export default function MotionCanvas({ template, templateVersion, layers = [], l
 
   // ... (rest of component)
   const dragRef = useRef<{ id: string; offsetX: number; offsetY: number } | null>(null)
+  // Last applied parent transform per child layer, so drags can be stored in the parent's space
+  const parentTransformsRef = useRef<Record<string, ParentTransform | null>>({})
   const graphicsByIdRef = useRef<Record<string, PIXI.Graphics>>({})
   const maskGraphicsByIdRef = useRef<Record<string, PIXI.Graphics>>({})
   const outlinesByIdRef = useRef<Record<string, PIXI.Graphics>>({})
-  const filtersByLayerIdRef = useRef<Record<string, PIXI.Filter[]>>({})
-  const emittersByLayerIdRef = useRef<Record<string, SimpleParticleEmitter[]>>({})
+  // Filters on each layer with the descriptor they were built from, so unchanged ones are reused
+  const filtersByLayerIdRef = useRef<Record<string, { key: string; filter: PIXI.Filter }[]>>({})
+  // One emitter per effect clip, keyed by `${layerId}:${clipId}`
+  const emittersRef = useRef<Map<string, { layerId: string; emitter: ParticleEmitter; container: PIXI.Container }>>(new Map())
   const iconTextureCacheRef = useRef<Record<string, PIXI.Texture>>({})
+  // Particle source textures by source key; null while an image or icon loads
+  const particleTexturesRef = useRef<Record<string, PIXI.Texture | null>>({})
+  const [particleTexturesLoaded, setParticleTexturesLoaded] = useState(0)
   const spritesByIdRef = useRef<Record<string, PIXI.Sprite>>({})
   const textsByIdRef = useRef<Record<string, { text: PIXI.Text; fullText: string; layerId: string; hasTypewriter: boolean; parts?: PIXI.Text[]; originalChars?: string[] }>>({})
   const resizeHandlesRef = useRef<Record<string, PIXI.Graphics[]>>({})
   const handlesByIdRef = useRef<Record<string, PIXI.Graphics[]>>({}) // For text layer resize handles
   const spotlightOverlayRef = useRef<PIXI.Graphics | null>(null) // For pan_zoom spotlight blur effect
   // Track layer dimensions, color, and rotation to detect changes from control panel
-  const layerDimensionsRef = useRef<Record<string, { width: number; height: number; fillColor: number; rotation: number }>>({})
+  const layerDimensionsRef = useRef<
+    Record<string, { width: number; height: number; fillColor: number; strokeColor: number; strokeWidth: number; rotation: number }>
+  >({})
   const resizeStateRef = useRef<{
     layerId: string
     handle: 'tl' | 'tr' | 'br' | 'bl' | 't' | 'r' | 'b' | 'l'
@@ -283,7 +421,12 @@ export default function MotionCanvas({ template, templateVersion, layers = [], l
       return aIdx - bIdx
     })
   }, [layers, layerOrder])
-  const renderLayers = orderedLayers
+  const scenePrecomps = useMemo(() => toScenePrecomps(precomps), [precomps])
+  // Inner layers of pre-comps get graphics of their own, placed by evaluatePrecomp
+  const renderLayers = useMemo(
+    () => flattenPrecompLayers<LayerItem>(orderedLayers, Object.fromEntries(precomps.map((p) => [p.id, p]))),
+    [orderedLayers, precomps]
+  )
   const layersRef = useRef(renderLayers)
   const pathTraceActiveRef = useRef(false)
   const lastPathPointRef = useRef<{ x: number; y: number } | null>(null)
@@ -297,6 +440,8 @@ export default function MotionCanvas({ template, templateVersion, layers = [], l
   const clickMarkers = useTimeline((s) => s.clickMarkers)
   const templateClips = useTimeline((s) => s.templateClips)
   const effectClips = useTimeline((s) => s.effectClips)
+  const audioTracks = useTimeline((s) => s.audioTracks)
+  const audioDrivers = useTimeline((s) => s.audioDrivers)
   const sampledTimeline = useMemo(() => sampleTimeline(timelineTracks, playhead), [timelineTracks, playhead])
   const timelineActions = useTimelineActions()
   const isPlaying = useTimeline((s) => s.isPlaying)
@@ -572,445 +717,266 @@ export default function MotionCanvas({ template, templateVersion, layers = [], l
     }
   }, [])
 
-  // Apply timeline-sampled transforms onto Pixi graphics so playhead/scrub reflects on-canvas
-  // Helper to update graphics from timeline state
-  const updateGraphicsFromTimeline = () => {
-    if (!containerRef.current) return
-    const bounds = containerRef.current.getBoundingClientRect()
-    const screenWidth = bounds.width || 1
-    const screenHeight = bounds.height || 1
-    
-    renderLayers.forEach((layer, idx) => {
-      const { id } = layer
-      const state = sampledTimeline[id]
-      if (!state) return
-      const g = graphicsByIdRef.current[id]
-      if (!g) return
-      // Set zIndex: top of timeline (idx=0) = back (low z), bottom (high idx) = front (high z)
-      g.zIndex = idx
-      if (appRef.current?.stage && appRef.current.stage.sortableChildren !== true) {
-        appRef.current.stage.sortableChildren = true
-      }
-      const shapeSize = (g as PIXI.Graphics & { __shapeSize?: { width?: number; height?: number } })?.__shapeSize
-      const halfW = shapeSize?.width ? (shapeSize.width * state.scale) / 2 : 0
-      const halfH = shapeSize?.height ? (shapeSize.height * state.scale) / 2 : 0
-      
-      const layerData = layersRef.current.find(l => l.id === id)
-      const layerScale = layerData?.scale ?? 1
-      
-      // Check if track has specific animations
-      const track = timelineTracks.find(t => t.layerId === id)
-      const baseLayerPos = { x: layer?.x ?? 0.5, y: layer?.y ?? 0.5 }
-      const positionFrames = track?.position ?? []
-      // Treat position as animated only if there is a keyframe beyond time 0,
-      // multiple frames, or an active path.
-      const hasPositionAnim =
-        positionFrames.some((kf) => kf.time > 0) ||
-        positionFrames.length > 1 ||
-        (track?.paths?.length ?? 0) > 0
-      
-      const hasRotationAnim = (track?.rotation?.length ?? 0) > 1
-      const scaleFrames = track?.scale ?? []
-      const hasScaleAnim =
-        scaleFrames.length > 1 ||
-        scaleFrames.some((kf) => kf.time !== 0 || Math.abs(kf.value - 1) > 1e-4)
-      const hasOpacityAnim = (track?.opacity?.length ?? 0) > 1
-
-      // Calculate final transform values
-      // For scale: always multiply layer.scale by animation scale (which defaults to 1)
-      // This allows "Grow In" (0->1) to become (0 -> layerScale)
-      const scaleMultiplier = hasScaleAnim ? state.scale : 1
-      const finalScale = scaleMultiplier * layerScale
-      
-      // For position: if animated, use timeline value. If not, use layer static position.
-      // pan_zoom stores offsets relative to the base position, so add base back in that case.
-      const hasPanZoom = templateClips.some(c => c.layerId === id && c.template === 'pan_zoom')
-      const rawPos = hasPositionAnim
-        ? hasPanZoom
-          ? { x: baseLayerPos.x + state.position.x, y: baseLayerPos.y + state.position.y }
-          : state.position
-        : baseLayerPos
-      
+  // Write one evaluated frame onto its Pixi object (transform, filters, mask)
+  const applyFrame = (g: PIXI.Graphics, frame: LayerFrame) => {
+    const id = frame.layerId
+    // Set zIndex: top of timeline (idx=0) = back (low z), bottom (high idx) = front (high z)
+    g.zIndex = frame.zIndex
+    if (appRef.current?.stage && appRef.current.stage.sortableChildren !== true) {
+      appRef.current.stage.sortableChildren = true
+    }
 
-      
-      // Allow values up to 4 (400% screen size) to be treated as normalized coordinates
-      const posX = rawPos.x <= 4 ? rawPos.x * screenWidth : rawPos.x
-      const posY = rawPos.y <= 4 ? rawPos.y * screenHeight : rawPos.y
-      
-      // No canvas offset needed - using 1x canvas
-      const canvasPosX = posX
-      const canvasPosY = posY
-      
-      // Check if shape is outside the visible canvas bounds
-      const isOffCanvas = posX < 0 || posX > screenWidth || posY < 0 || posY > screenHeight
-      
-      if (g && Number.isFinite(canvasPosX)) g.x = canvasPosX
-      if (g && Number.isFinite(canvasPosY)) g.y = canvasPosY
-      if (g && g.scale) g.scale.set(finalScale)
-      
-      // Calculate strict visibility based on timeline clips
-      // If playhead < startTime or playhead > startTime + duration, alpha = 0
-      const trackStartTime = track?.startTime ?? 0
-      const trackDuration = track?.duration ?? 2000
-      const isVisibleInTime = playhead >= trackStartTime && playhead <= trackStartTime + trackDuration
-      
-      let finalOpacity = state.opacity
-      let transitionScale = 1
-      let slideOffsetY: number | null = null // null = no slide, -1 to 1 = normalized Y offset
-      
-      if (!isVisibleInTime) {
-        finalOpacity = 0
-      } else {
-        // Check for unified transition clips that affect this layer
-        // A transition clip can affect this layer as either:
-        // 1. The "from" layer (layerId matches - gets fade OUT)
-        // 2. The "to" layer (transitionToLayerId matches - gets fade IN)
-        
-        const transitionTemplates = ['transition_fade', 'transition_slide', 'transition_zoom', 'transition_blur']
-        
-        templateClips.forEach(clip => {
-          if (!transitionTemplates.includes(clip.template)) return
-          
-          const clipStart = clip.start ?? 0
-          const clipEnd = clipStart + (clip.duration ?? 1000)
-          
-          // Only process if playhead is within this transition
-          if (playhead < clipStart || playhead > clipEnd) return
-          
-          const clipDuration = clip.duration ?? 1000
-          const progress = Math.min(1, Math.max(0, (playhead - clipStart) / clipDuration))
-          
-          // Check if this layer is the "from" layer (fades OUT)
-          if (clip.layerId === id) {
-            // Apply fade OUT effect (1 -> 0)
-            if (clip.template === 'transition_fade') {
-              finalOpacity *= (1 - progress)
-            } else if (clip.template === 'transition_zoom') {
-              transitionScale *= (1 - progress * 0.5) // Scale down to 0.5
-              finalOpacity *= (1 - progress)
-            } else if (clip.template === 'transition_slide') {
-              // Slide out - push up off screen (0 -> -1 screen height)
-              slideOffsetY = -progress // -1 means moved up by full layer height
-            } else if (clip.template === 'transition_blur') {
-              // Blur out - apply blur filter that increases, opacity fades
-              const blurStrength = progress * 15 // 0 to 15 blur
-              const blurFilter = new PIXI.BlurFilter({ strength: blurStrength })
-              if (!g.filters) g.filters = []
-              // Add blur filter for this frame (will be cleared next frame)
-              const existingFilters = Array.isArray(g.filters) ? g.filters.filter(f => !(f instanceof PIXI.BlurFilter)) : []
-              g.filters = [...existingFilters, blurFilter]
-              finalOpacity *= (1 - progress)
-            }
-          }
-          
-          // Check if this layer is the "to" layer (fades IN)
-          if (clip.parameters?.transitionToLayerId === id) {
-            // Apply fade IN effect (0 -> 1)
-            if (clip.template === 'transition_fade') {
-              finalOpacity *= progress
-            } else if (clip.template === 'transition_zoom') {
-              transitionScale *= (0.5 + progress * 0.5) // Scale from 0.5 to 1
-              finalOpacity *= progress
-            } else if (clip.template === 'transition_slide') {
-              // Slide in - push up from below (1 -> 0, starts at bottom)
-              slideOffsetY = 1 - progress // 1 means below, 0 means in place
-            } else if (clip.template === 'transition_blur') {
-              // Blur in - start blurred and become clear
-              const blurStrength = (1 - progress) * 15 // 15 to 0 blur
-              const blurFilter = new PIXI.BlurFilter({ strength: blurStrength })
-              if (!g.filters) g.filters = []
-              const existingFilters = Array.isArray(g.filters) ? g.filters.filter(f => !(f instanceof PIXI.BlurFilter)) : []
-              g.filters = [...existingFilters, blurFilter]
-              finalOpacity *= progress
-            }
-          }
-        })
+    if (Number.isFinite(frame.x)) g.x = frame.x
+    if (Number.isFinite(frame.y)) g.y = frame.y
+    if (g.scale) g.scale.set(frame.scaleX, frame.scaleY)
+    g.skew.set(frame.skewX, frame.skewY)
+    g.alpha = frame.opacity
+    g.rotation = frame.rotation
+
+    // Apply filters (Effects + Transition Blur + Off-canvas Blur), as evaluated for this frame
+    const hasPanZoom = templateClips.some(c => c.layerId === id && c.template === 'pan_zoom')
+    const previousFilters = filtersByLayerIdRef.current[id] || []
+    const nextFilters: { key: string; filter: PIXI.Filter }[] = []
+    collectFilters(frame).forEach((desc, i) => {
+      const key = JSON.stringify(desc)
+      if (previousFilters[i]?.key === key) {
+        nextFilters.push(previousFilters[i])
+        return
       }
-      
-      // Apply transition scale if modified
-      if (transitionScale !== 1) {
-        g.scale.set(finalScale * transitionScale)
+      try {
+        const filter = createFilter(desc)
+        // Composites this step of the effect stack over what lies beneath
+        if (desc.blendMode) filter.blendMode = desc.blendMode
+        nextFilters.push({ key, filter })
+      } catch (e) {
+        console.error('Failed to create filter', desc.type, e)
       }
-      
-      g.alpha = hasOpacityAnim ? finalOpacity : (isVisibleInTime ? (finalOpacity < 1 ? finalOpacity : 1) : 0)
+    })
+    filtersByLayerIdRef.current[id] = nextFilters
+    const activeFilters = nextFilters.map(entry => entry.filter)
+
+    // Shockwave and zoom blur centers are in pixels of the filter input (layer bounds plus padding)
+    if (activeFilters.some(f => f instanceof ShockwaveFilter || f instanceof ZoomBlurFilter)) {
+      const bounds = g.getBounds()
+      activeFilters.forEach(f => {
+        if (f instanceof ShockwaveFilter || f instanceof ZoomBlurFilter) {
+          f.center = { x: bounds.width / 2 + f.padding, y: bounds.height / 2 + f.padding }
+        }
+      })
+    }
 
-      // Sync rotation
-      // For rotation: layer.rotation is the base, animation rotation is additive
-      const baseRotationRad = ((layerData?.rotation ?? 0) * Math.PI) / 180
-      const animRotation = hasRotationAnim ? state.rotation : 0
-      if (g) g.rotation = baseRotationRad + animRotation
-      
-      // Apply filters (Effects + Off-canvas Blur + Pan/Zoom Focus Blur)
-      if (g) {
-        const layerEffects = filtersByLayerIdRef.current[id] || []
-        let activeFilters = [...layerEffects]
+    // Hide any leftover spotlight overlay (from previous implementation)
+    if (hasPanZoom && spotlightOverlayRef.current) {
+      spotlightOverlayRef.current.visible = false
+    }
 
-        // Hide any leftover spotlight overlay (from previous implementation)
-        if (hasPanZoom && spotlightOverlayRef.current) {
-          spotlightOverlayRef.current.visible = false
-        }
+    g.filters = activeFilters.length > 0 ? activeFilters : null
+    // Replaced filters hold GPU resources (bloom and CRT especially), free them
+    previousFilters.forEach(entry => {
+      if (!nextFilters.includes(entry)) entry.filter.destroy()
+    })
 
-        if (isOffCanvas) {
-          // Add blur if off-canvas
-          const blurFilter = new PIXI.BlurFilter()
-          blurFilter.blur = 4
-          activeFilters.push(blurFilter)
-        }
-        
-        g.filters = activeFilters.length > 0 ? activeFilters : null
+    // Handle Masking (mask_center and mask_top)
+    if (frame.mask) {
+      let mask = maskGraphicsByIdRef.current[id]
+      if (!mask) {
+        mask = new PIXI.Graphics()
+        maskGraphicsByIdRef.current[id] = mask
+        if (g.parent) g.parent.addChild(mask)
+      } else if (g.parent && mask.parent !== g.parent) {
+        g.parent.addChild(mask)
       }
-      // Handle Masking (mask_center and mask_top)
-      const maskScale = state.maskScale
-      if (typeof maskScale === 'number') {
-        let mask = maskGraphicsByIdRef.current[id]
-        if (!mask) {
-          mask = new PIXI.Graphics()
-          maskGraphicsByIdRef.current[id] = mask
-          if (g?.parent) g.parent.addChild(mask)
-        } else if (g?.parent && mask.parent !== g.parent) {
-             g.parent.addChild(mask)
-        }
 
-        if (g) {
-          // Check which mask type is active (include both IN and OUT versions)
-          const maskCenterClip = templateClips.find(c => c.layerId === id && (c.template === 'mask_center' || c.template === 'mask_center_out'))
-          const maskTopClip = templateClips.find(c => c.layerId === id && (c.template === 'mask_top' || c.template === 'mask_top_out'))
-          const activeClip = maskCenterClip || maskTopClip
-          const isMaskTop = !!maskTopClip
-          
-          const maskAngle = activeClip?.parameters?.maskAngle ?? 0
-          
-          // Use layer dimensions instead of getLocalBounds() to avoid issues with unloaded images
-          const layerWidth = layer.width || 100
-          const layerHeight = layer.height || 100
-          
-          // For diagonal angles (like 45°), the mask needs to be larger to cover corners
-          // At 45°, we need √2 (≈1.414) times the size to ensure full coverage
-          const angleRad = (maskAngle * Math.PI / 180)
-          const rotationFactor = Math.abs(Math.cos(angleRad)) + Math.abs(Math.sin(angleRad))
-          
-          const maskWidth = layerWidth * 1.2 * rotationFactor
-          const maskHeight = layerHeight * 1.2 * rotationFactor
+      const { width: maskWidth, height: maskHeight } = frame.mask
+      mask.clear()
+      mask.rect(-maskWidth / 2, -maskHeight / 2, maskWidth, maskHeight).fill(0xffffff)
+      // mask_top pivots on the top edge so scaleY=0 collapses onto it
+      mask.pivot.set(0, frame.mask.pivotY)
+      mask.position.set(frame.mask.x, frame.mask.y)
+      mask.rotation = frame.mask.rotation
+      mask.scale.set(frame.mask.scaleX, frame.mask.scaleY)
+      g.mask = mask
+    } else {
+      const mask = maskGraphicsByIdRef.current[id]
+      if (mask) {
+        if (g.mask === mask) g.mask = null
+        mask.destroy()
+        delete maskGraphicsByIdRef.current[id]
+      }
+    }
+  }
 
-          mask.clear()
-          
-          if (isMaskTop) {
-            // Mask Top: reveals from one edge
-            // Draw rect centered, but use pivot to control which edge is the "reveal origin"
-            mask.rect(-maskWidth / 2, -maskHeight / 2, maskWidth, maskHeight).fill(0xffffff)
-            
-            // Set pivot so the top edge is the origin for scaling
-            // When scaleY=0, the mask collapses to a line at the top edge
-            mask.pivot.set(0, -maskHeight / 2)
-            
-            // Position at top edge of shape (accounting for pivot offset)
-            // For diagonal angles, offset more to ensure mask edge is outside the corner
-            const offsetAmount = (layerHeight / 2) * state.scale * rotationFactor
-            // Calculate offset in rotated direction
-            const offsetX = Math.sin(angleRad) * offsetAmount
-            const offsetY = -Math.cos(angleRad) * offsetAmount
-            mask.position.set(g.position.x + offsetX, g.position.y + offsetY)
-          } else {
-            // Mask Center: draw rect centered, expands from center
-            mask.rect(-maskWidth / 2, -maskHeight / 2, maskWidth, maskHeight).fill(0xffffff)
-            mask.pivot.set(0, 0) // Center pivot
-            mask.position.copyFrom(g.position)
-          }
-          
-          // Apply layer rotation + mask angle (convert degrees to radians)
-          mask.rotation = g.rotation + angleRad
-          
-          // Non-uniform scale: X stays full, Y animates from 0 to full
-          const fullScale = state.scale
-          mask.scale.set(fullScale, maskScale * fullScale)
-          
-          g.mask = mask
-        }
+  // Textures for a clip's particle sources; images and icons load in the
+  // background and re-render once ready. `scope` is the pre-comp instance the
+  // emitting layer lives in, so sources resolve against its inner layers.
+  const resolveParticleSources = (sources: ParticleSource[], scope: string): SourceTexture[] => {
+    const app = appRef.current
+    if (!app) return []
+    const resolved: SourceTexture[] = []
+    sources.forEach(source => {
+      const sourceLayerId = source.kind === 'image' || source.kind === 'glyph' ? (scope ? `${scope}/${source.layerId}` : source.layerId) : undefined
+      const sourceLayer = sourceLayerId ? renderLayers.find(l => l.id === sourceLayerId) : undefined
+      let key: string
+      let load: (() => Promise<PIXI.Texture>) | null = null
+      let create: (() => PIXI.Texture) | null = null
+      if (source.kind === 'image') {
+        const url = sourceLayer?.imageUrl
+        if (!url) return
+        key = `image:${url}`
+        load = () => PIXI.Assets.load(url)
+      } else if (source.kind === 'icon') {
+        if (!source.icon.includes(':')) return
+        const url = getSvgUrl(source.icon, source.color)
+        key = `icon:${url}`
+        load = () => PIXI.Assets.load(url)
+      } else if (source.kind === 'emoji') {
+        if (!source.emoji) return
+        key = `emoji:${source.emoji}`
+        create = () => createTextParticleTexture(app.renderer, source.emoji)
       } else {
-        const mask = maskGraphicsByIdRef.current[id]
-        if (mask) {
-          if (g && g.mask === mask) g.mask = null
-          mask.destroy()
-          delete maskGraphicsByIdRef.current[id]
-        }
+        if (!sourceLayer || !source.letter) return
+        const style = { fontFamily: sourceLayer.fontFamily || 'Inter', fontWeight: sourceLayer.fontWeight || 600, fill: sourceLayer.fillColor ?? 0xffffff }
+        key = `glyph:${source.letter}:${style.fontFamily}:${style.fontWeight}:${style.fill}`
+        create = () => createTextParticleTexture(app.renderer, source.letter, style)
       }
-      
-      // Handle Slide Transition (position-based push effect)
-      if (slideOffsetY !== null && g) {
-        // Apply vertical position offset based on slideOffsetY
-        // slideOffsetY: -1 = moved up by layer height, 0 = in place, 1 = below by layer height
-        const layerHeight = layerData?.height || 100
-        const positionOffset = slideOffsetY * layerHeight * state.scale
-        g.position.y += positionOffset
+
+      if (!(key in particleTexturesRef.current)) {
+        if (create) {
+          particleTexturesRef.current[key] = create()
+        } else if (load) {
+          particleTexturesRef.current[key] = null
+          load()
+            .then(texture => {
+              particleTexturesRef.current[key] = texture
+              setParticleTexturesLoaded(n => n + 1)
+            })
+            .catch(err => console.error('Failed to load particle source', key, err))
+        }
       }
+      const texture = particleTexturesRef.current[key]
+      if (texture) resolved.push({ texture, weight: source.weight })
     })
-    appRef.current?.render()
+    return resolved
   }
 
-  // Update filters based on effect clips timing (not layer.effects toggle)
-  useEffect(() => {
-    layers.forEach(layer => {
-      // Check if the parent layer is visible at current playhead
-      const layerTrack = timelineTracks.find(t => t.layerId === layer.id)
-      const layerStart = layerTrack?.startTime ?? 0
-      const layerDuration = layerTrack?.duration ?? 2000
-      const isLayerVisible = playhead >= layerStart && playhead <= layerStart + layerDuration
-      
-      // Get effect clips for this layer that are currently active 
-      // (playhead within clip duration AND parent layer is visible)
-      const activeEffectClips = effectClips.filter(clip => 
-        clip.layerId === layer.id &&
-        isLayerVisible &&
-        playhead >= clip.start &&
-        playhead <= clip.start + clip.duration
-      )
-      
-      const filters: PIXI.Filter[] = []
-      
-      activeEffectClips.forEach(clip => {
-        try {
-          if (clip.effectType === 'glow') {
-            filters.push(new GlowFilter({ 
-              distance: clip.params.glowDistance ?? 15, 
-              outerStrength: clip.params.glowIntensity ?? 2,
-              innerStrength: 0,
-              color: clip.params.glowColor ?? 0xffffff,
-              quality: 0.1,
-              knockout: false,
-            }))
-          } else if (clip.effectType === 'dropShadow') {
-            filters.push(new DropShadowFilter({
-              distance: 5,
-              blur: 2,
-              rotation: 45,
-              alpha: 0.5,
-              color: 0x000000
-            } as any))
-          } else if (clip.effectType === 'blur') {
-            const f = new PIXI.BlurFilter()
-            f.blur = clip.params.blurStrength ?? 4
-            filters.push(f)
-          } else if (clip.effectType === 'glitch') {
-            filters.push(new GlitchFilter({
-              slices: 5,
-              offset: 10,
-              direction: 0,
-              fillMode: 0,
-              average: false,
-              seed: Math.random()
-            }))
-          } else if (clip.effectType === 'pixelate') {
-            const pixelSize = 10
-            filters.push(new PixelateFilter(pixelSize))
-          }
-        } catch (e) {
-          console.error('Failed to create filter', clip.effectType, e)
+  // Particles (sparkles, snow, fireworks...) for every evaluated frame, pre-comp
+  // inner layers included: one seeked emitter per effect clip, the rest dropped
+  const syncEmitters = (frames: LayerFrame[]) => {
+    const app = appRef.current
+    if (!app) return
+    const activeKeys = new Set<string>()
+
+    frames.forEach(frame => {
+      const scope = frame.layerId.includes('/') ? frame.layerId.slice(0, frame.layerId.lastIndexOf('/')) : ''
+
+      frame.emitters.forEach(clip => {
+        const key = `${frame.layerId}:${clip.clipId}`
+        activeKeys.add(key)
+
+        // One emitter per clip: its seed and start time define what it shows
+        let entry = emittersRef.current.get(key)
+        if (!entry) {
+          const container = new PIXI.Container()
+          app.stage.addChild(container)
+
+          const config = PARTICLE_PRESETS[clip.effectType]
+          const texture = createParticleTexture(app.renderer, getParticleTexture(config))
+
+          entry = { layerId: frame.layerId, emitter: new ParticleEmitter(container, config, texture, clip.seed), container }
+          emittersRef.current.set(key, entry)
         }
-      })
-      
-      filtersByLayerIdRef.current[layer.id] = filters
-      
-      // Handle Particles (sparkles, confetti) - also based on effect clips timing
-      const currentEmitters = emittersByLayerIdRef.current[layer.id] || []
-      const activeEffectTypes = new Set<string>()
-      
-      activeEffectClips.forEach(clip => {
-        if (clip.effectType !== 'sparkles' && clip.effectType !== 'confetti') return
-        
-        activeEffectTypes.add(clip.effectType)
-        
-        let emitter = currentEmitters.find(e => (e as any)._effectType === clip.effectType)
-        
-        if (!emitter) {
-           const container = new PIXI.Container()
-           if (appRef.current) {
-             appRef.current.stage.addChild(container)
-             
-             // Create a simple circle texture for particles
-             const graphics = new PIXI.Graphics()
-             graphics.circle(0, 0, 4)
-             graphics.fill(0xffffff)
-             const texture = appRef.current.renderer.generateTexture(graphics)
-             
-             emitter = new SimpleParticleEmitter(
-               container,
-               clip.effectType as 'sparkles' | 'confetti',
-               texture
-             )
-             ;(emitter as any)._effectType = clip.effectType
-             ;(emitter as any)._container = container
-             
-             currentEmitters.push(emitter)
-             emittersByLayerIdRef.current[layer.id] = currentEmitters
-           }
+
+        const { emitter, container } = entry
+        if (!container.parent) {
+          app.stage.addChild(container)
         }
-        
-        if (emitter) {
-           const container = (emitter as any)._container
-           if (container && !container.parent && appRef.current) {
-              appRef.current.stage.addChild(container)
-           }
-
-           if (clip.params.particleSpeed !== undefined) {
-             emitter.speedMultiplier = clip.params.particleSpeed
-           }
-           
-           const g = graphicsByIdRef.current[layer.id]
-           if (g) {
-              emitter.updateOwnerPos(g.x, g.y)
-           }
+        if (clip.particleSpeed !== undefined) {
+          emitter.speedMultiplier = clip.particleSpeed
         }
+        emitter.updateOwnerPos(frame.x, frame.y)
+        container.blendMode = clip.blendMode ?? 'normal'
+        emitter.setSources(resolveParticleSources(clip.sources, scope))
+        emitter.seek(clip.localTime / 1000)
       })
-      
-      // Cleanup emitters for effects that are no longer active
-      const emittersToRemove = currentEmitters.filter(e => !activeEffectTypes.has((e as any)._effectType))
-      if (emittersToRemove.length > 0) {
-        emittersToRemove.forEach(e => {
-           e.destroy()
-           if ((e as any)._container) {
-              (e as any)._container.destroy()
-           }
-        })
-        emittersByLayerIdRef.current[layer.id] = currentEmitters.filter(e => activeEffectTypes.has((e as any)._effectType))
-      }
+    })
+
+    // Cleanup emitters for effects that are no longer active
+    emittersRef.current.forEach(({ emitter, container }, key) => {
+      if (activeKeys.has(key)) return
+      emitter.destroy()
+      container.destroy()
+      emittersRef.current.delete(key)
+    })
+  }
+
+  // Apply timeline-sampled transforms onto Pixi graphics so playhead/scrub reflects on-canvas
+  // Helper to update graphics from timeline state
+  const updateGraphicsFromTimeline = () => {
+    if (!containerRef.current) return
+    const bounds = containerRef.current.getBoundingClientRect()
+    const sceneInput: SceneInput = {
+      layers: renderLayers,
+      tracks: timelineTracks,
+      templateClips,
+      effectClips,
+      viewport: { width: bounds.width || 1, height: bounds.height || 1 },
+      precomps: scenePrecomps,
+      audioTracks,
+      audioDrivers,
+    }
+    const frames: LayerFrame[] = []
 
-      // Apply filters
+    renderLayers.forEach((layer, idx) => {
       const g = graphicsByIdRef.current[layer.id]
-      if (g) {
-         g.filters = filters.length > 0 ? filters : null
-      }
+      if (!g) return
+      const frame = evaluateLayer(layer, idx, sceneInput, playhead, sampledTimeline)
+      if (!frame) return
+      parentTransformsRef.current[layer.id] = getParentTransform(layer, sceneInput, playhead, sampledTimeline)
+      applyFrame(g, frame)
+      frames.push(frame)
     })
-  }, [layers, effectClips, playhead, timelineTracks])
 
-  // Update particles loop
+    // Pre-comp layers draw nothing themselves; their inner layers follow them and can't be picked
+    renderLayers.forEach((layer, idx) => {
+      if (layer.type !== 'precomp') return
+      evaluatePrecomp(layer, idx, sceneInput, playhead, sampledTimeline).forEach((frame) => {
+        const g = graphicsByIdRef.current[frame.layerId]
+        if (!g) return
+        g.eventMode = 'none'
+        applyFrame(g, frame)
+        frames.push(frame)
+      })
+    })
+
+    // Free the filters of layers that no longer have a frame
+    const frameIds = new Set(frames.map(frame => frame.layerId))
+    Object.entries(filtersByLayerIdRef.current).forEach(([layerId, entries]) => {
+      if (frameIds.has(layerId)) return
+      const g = graphicsByIdRef.current[layerId]
+      if (g && !g.destroyed) g.filters = null
+      entries.forEach(entry => entry.filter.destroy())
+      delete filtersByLayerIdRef.current[layerId]
+    })
+
+    syncEmitters(frames)
+    appRef.current?.render()
+  }
+
+  // Keep particle emitters on their shapes between playhead changes (e.g. while
+  // dragging a layer); the particles themselves are placed by seek() above
   useEffect(() => {
     const app = appRef.current
     if (!app) return
     
-    let lastTime = Date.now()
-    
     const update = () => {
-       const now = Date.now()
-       const dt = (now - lastTime) / 1000
-       lastTime = now
-       
        let hasParticles = false
-       // Update particle positions to follow shapes
-       Object.entries(emittersByLayerIdRef.current).forEach(([layerId, emitters]) => {
+       emittersRef.current.forEach(({ layerId, emitter }) => {
+          if (emitter.destroyed) return
           const g = graphicsByIdRef.current[layerId]
-          emitters.forEach(emitter => {
-             if (!emitter || emitter.destroyed) return
-             try {
-               // Update emitter position to match shape
-               if (g) {
-                 emitter.updateOwnerPos(g.x, g.y)
-               }
-               emitter.update(dt)
-               hasParticles = true
-             } catch (e) {
-               console.warn('Particle update failed', e)
-             }
-          })
+          if (g) {
+            emitter.updateOwnerPos(g.x, g.y)
+          }
+          hasParticles = true
        })
        
        if (hasParticles) {
@@ -1027,7 +993,7 @@ export default function MotionCanvas({ template, templateVersion, layers = [], l
   // Apply timeline-sampled transforms onto Pixi graphics so playhead/scrub reflects on-canvas
   useEffect(() => {
     updateGraphicsFromTimeline()
-  }, [sampledTimeline, isReady])
+  }, [sampledTimeline, isReady, effectClips, audioDrivers, audioTracks, particleTexturesLoaded])
 
   // Re-apply transforms when layer props or selection changes (e.g., scale/position/rotation updates without timeline changes)
   useEffect(() => {
@@ -1129,13 +1095,8 @@ export default function MotionCanvas({ template, templateVersion, layers = [], l
     
     // Re-add particle containers if they exist
     // This is critical because stage.removeChildren() wipes them out
-    Object.values(emittersByLayerIdRef.current).forEach(emitters => {
-      emitters.forEach(emitter => {
-        const container = (emitter as any)._container
-        if (container) {
-          stage.addChild(container)
-        }
-      })
+    emittersRef.current.forEach(({ container }) => {
+      stage.addChild(container)
     })
     
     // We need to define the ticker callback variable so we can remove it later
@@ -1344,9 +1305,11 @@ export default function MotionCanvas({ template, templateVersion, layers = [], l
           g.filters = null
         }
       }
-      // Convert from canvas coordinates back to normalized
-      const nx = screenWidth > 0 ? newX / screenWidth : 0
-      const ny = screenHeight > 0 ? newY / screenHeight : 0
+      // Convert from canvas coordinates back to normalized (in the parent's space for children)
+      const parent = parentTransformsRef.current[id]
+      const local = parent ? toParentSpace(parent, newX, newY) : { x: newX, y: newY }
+      const nx = screenWidth > 0 ? local.x / screenWidth : 0
+      const ny = screenHeight > 0 ? local.y / screenHeight : 0
       onUpdateLayerPosition?.(id, nx, ny)
   }
 
@@ -1378,34 +1341,11 @@ export default function MotionCanvas({ template, templateVersion, layers = [], l
       }
 
       const drawStar = (g: PIXI.Graphics, width: number, height: number) => {
-        const spikes = 5
-        const rx = width / 2
-        const ry = height / 2
-        const innerRx = rx * 0.5
-        const innerRy = ry * 0.5
-        let rotation = Math.PI / 2 * 3
-        const cx = 0
-        const cy = 0
-        g.moveTo(cx, cy - ry)
-        for (let i = 0; i < spikes; i++) {
-          const x = cx + Math.cos(rotation) * rx
-          const y = cy + Math.sin(rotation) * ry
-          g.lineTo(x, y)
-          rotation += Math.PI / spikes
-
-          const xInner = cx + Math.cos(rotation) * innerRx
-          const yInner = cy + Math.sin(rotation) * innerRy
-          g.lineTo(xInner, yInner)
-          rotation += Math.PI / spikes
-        }
-        g.closePath()
+        tracePathOutline(g, getShapeOutline('star', width, height) as PathOutline)
       }
 
       const drawTriangle = (g: PIXI.Graphics, width: number, height: number) => {
-        g.moveTo(-width / 2, height / 2)
-        g.lineTo(width / 2, height / 2)
-        g.lineTo(0, -height / 2)
-        g.closePath()
+        tracePathOutline(g, getShapeOutline('triangle', width, height) as PathOutline)
       }
 
       const drawPill = (g: PIXI.Graphics, width: number, height: number) => {
@@ -1497,6 +1437,10 @@ export default function MotionCanvas({ template, templateVersion, layers = [], l
       const totalLayers = renderLayers.length
       
       renderLayers.forEach(async (layer, layerIndex) => {
+        // Groups only carry a transform for their children and pre-comps place
+        // their inner layers (flattened into renderLayers), nothing to draw
+        if (layer.type === 'group' || layer.type === 'precomp') return
+
         // Handle image layers
         if (layer.type === 'image' && layer.imageUrl) {
           try {
@@ -1784,59 +1728,14 @@ export default function MotionCanvas({ template, templateVersion, layers = [], l
           let initialText = layer.text
           if (layer.isCounter) {
             const track = timelineTracks.find(t => t.layerId === layer.id)
-            const startTime = track?.startTime ?? 0
-            const duration = track?.duration ?? 2000
-            const startValue = layer.counterStart ?? 0
-            const endValue = layer.counterEnd ?? 100
-            const prefix = layer.counterPrefix ?? ''
-            
-            if (playhead >= startTime && playhead <= startTime + duration) {
-              const rawProgress = (playhead - startTime) / duration
-              const k = 4.5
-              const t = rawProgress * 3.6
-              const easedProgress = 1 - (1 + k * t / 5) * Math.exp(-k * t / 2)
-              const clampedProgress = Math.min(1, Math.max(0, easedProgress))
-              const currentValue = startValue + (endValue - startValue) * clampedProgress
-              initialText = `${prefix}${Math.round(currentValue)}`
-            } else if (playhead < startTime) {
-              initialText = `${prefix}${startValue}`
-            } else {
-              initialText = `${prefix}${endValue}`
-            }
+            initialText = `${layer.counterPrefix ?? ''}${evaluateCounter(layer, track, playhead)}`
           }
           
           // Check for typewriter animation
           const typewriterClip = templateClips.find(
             c => c.layerId === layer.id && c.template === 'typewriter'
           )
-          
-          let displayText = initialText
-          let showCursor = false
-          
-          if (typewriterClip) {
-            const clipStart = typewriterClip.start ?? 0
-            const clipDuration = typewriterClip.duration ?? 2000
-            const clipEnd = clipStart + clipDuration
-            const fullText = initialText
-            const totalChars = fullText.length
-            
-            if (playhead < clipStart) {
-              // Before clip starts - show nothing
-              displayText = ''
-            } else if (playhead >= clipEnd) {
-              // After clip ends - show full text
-              displayText = fullText
-            } else {
-              // During clip - reveal characters progressively
-              const progress = (playhead - clipStart) / clipDuration
-              const charsToShow = Math.floor(progress * totalChars)
-              displayText = fullText.substring(0, charsToShow)
-              showCursor = typewriterClip.parameters?.showCursor !== false
-            }
-          }
-          
-          // Add cursor if typewriter is active
-          const finalText = showCursor ? displayText + '|' : displayText
+          const finalText = typewriterClip ? evaluateTypewriter(initialText ?? '', typewriterClip, playhead) : initialText
           
           console.log('[TEXT_CREATE] Creating PIXI.Text with finalText:', finalText, 'playhead:', playhead, 'hasTypewriter:', !!typewriterClip)
           
@@ -2567,6 +2466,11 @@ export default function MotionCanvas({ template, templateVersion, layers = [], l
       const g = graphicsByIdRef.current[layer.id]
       if (!g) return
       const isIconShape = isIconShapeKind(layer.shapeKind)
+      // Color tracks override the layer's static colors while they have keyframes
+      const sampled = sampledTimeline[layer.id]
+      const fillColor = sampled?.fillColor ?? layer.fillColor ?? 0xffffff
+      const strokeColor = sampled?.strokeColor ?? layer.strokeColor ?? 0xffffff
+      const strokeWidth = layer.strokeWidth ?? 0
       
       // For text layers, ALWAYS check for text/fontSize/width changes
       if (layer.type === 'text') {
@@ -2577,228 +2481,38 @@ export default function MotionCanvas({ template, templateVersion, layers = [], l
           if (textObj && 'text' in textObj) {
             let textChanged = false
             
-            // Check if this is a counter layer (uses visibility bar for animation)
+            // Counter and typewriter text come from the scene evaluator so the
+            // canvas and exports agree on what is shown at this playhead
+            const track = timelineTracks.find(t => t.layerId === layer.id)
+            const typewriterClip = templateClips.find(
+              c => c.layerId === layer.id && c.template === 'typewriter'
+            )
+            let nextText: string | undefined = layer.text
             if (layer.isCounter) {
-              // Get track for this layer to find visibility bar timing
-              // Duration is controlled by resizing the purple bar
-              const track = timelineTracks.find(t => t.layerId === layer.id)
-              const startTime = track?.startTime ?? 0
-              const duration = track?.duration ?? 2000
-              
-              // Check if playhead is within the visibility bar
-              if (playhead >= startTime && playhead <= startTime + duration) {
-                // Calculate progress within the visibility bar (0 to 1)
-                const rawProgress = (playhead - startTime) / duration
-                
-                // Spring physics easing (like React Bits CountUp / Framer Motion useSpring)
-                // Based on: damping = 20 + 40 * (1 / duration), stiffness = 100 * (1 / duration)
-                // This creates a critically damped spring that settles smoothly without bounce
-                // Approximated using exponential decay: 1 - (1 + k*t) * e^(-k*t)
-                const k = 4.5 // decay factor (lower = slower settle, was 5)
-                const t = rawProgress * 3.6 // scale time for spring response (was 4)
-                const easedProgress = 1 - (1 + k * t / 5) * Math.exp(-k * t / 2)
-                
-                // Clamp to 0-1 range
-                const clampedProgress = Math.min(1, Math.max(0, easedProgress))
-                
-                // Get counter parameters from layer
-                const startValue = layer.counterStart ?? 0
-                const endValue = layer.counterEnd ?? 100
-                const prefix = layer.counterPrefix ?? ''
-                
-                // Calculate current value (handles count up AND count down)
-                const currentValue = startValue + (endValue - startValue) * clampedProgress
-                
-                // Format the number (integers)
-                const formattedValue = Math.round(currentValue).toString()
-                const counterText = `${prefix}${formattedValue}`
-                
-                if (textObj.text !== counterText) {
-                  textObj.text = counterText
-                  textChanged = true
-                  needsRender = true
-                }
-              } else if (playhead < startTime) {
-                // Before animation: show start value
-                const counterText = `${layer.counterPrefix ?? ''}${layer.counterStart ?? 0}`
-                if (textObj.text !== counterText) {
-                  textObj.text = counterText
-                  textChanged = true
-                  needsRender = true
-                }
-              } else {
-                // After animation: show end value
-                const counterText = `${layer.counterPrefix ?? ''}${layer.counterEnd ?? 100}`
-                if (textObj.text !== counterText) {
-                  textObj.text = counterText
-                  textChanged = true
-                  needsRender = true
-                }
-              }
-            } else {
-              // Check for typewriter animation
-              const typewriterClip = templateClips.find(
-                c => c.layerId === layer.id && c.template === 'typewriter'
-              )
-              
-              if (typewriterClip) {
-                // Typewriter animation - reveal characters progressively
-                const clipStart = typewriterClip.start ?? 0
-                const clipDuration = typewriterClip.duration ?? 2000
-                const clipEnd = clipStart + clipDuration
-                const fullText = layer.text || ''
-                const totalChars = fullText.length
-                
-                let displayText: string
-                let showCursor = false
-                
-                if (playhead < clipStart) {
-                  displayText = ''
-                } else if (playhead >= clipEnd) {
-                  displayText = fullText
-                } else {
-                  const progress = (playhead - clipStart) / clipDuration
-                  const charsToShow = Math.floor(progress * totalChars)
-                  displayText = fullText.substring(0, charsToShow)
-                  showCursor = typewriterClip.parameters?.showCursor !== false
-                }
-                
-                // Add blinking cursor
-                const cursorChar = Math.floor(playhead / 500) % 2 === 0 && showCursor ? '|' : ''
-                const typewriterText = displayText + cursorChar
-                
-                if (textObj.text !== typewriterText) {
-                  textObj.text = typewriterText
-                  textChanged = true
-                  needsRender = true
-                }
-              } else {
-                // Regular text layer - update text content
-                if (layer.text !== undefined && textObj.text !== layer.text) {
-                  textObj.text = layer.text
-                  textChanged = true
-                  needsRender = true
-                }
-              }
+              nextText = `${layer.counterPrefix ?? ''}${evaluateCounter(layer, track, playhead)}`
+            } else if (typewriterClip) {
+              nextText = evaluateTypewriter(layer.text || '', typewriterClip, playhead)
+            }
+            if (nextText !== undefined && textObj.text !== nextText) {
+              textObj.text = nextText
+              textChanged = true
+              needsRender = true
+            }
 
-              // Update bounce_in/out/scramble parts animation
-              const bounceInClip = templateClips.find(c => c.layerId === layer.id && c.template === 'bounce_in')
-              const bounceOutClip = templateClips.find(c => c.layerId === layer.id && c.template === 'bounce_out')
-              const scrambleClip = templateClips.find(c => c.layerId === layer.id && c.template === 'scramble')
-              
-              if ((bounceInClip || bounceOutClip || scrambleClip) && textWrapper?.parts) {
-                const stagger = 80 // ms per letter
-                const letterDuration = 1000 
-                const c4 = (2 * Math.PI) / 3
-                
-                // Scramble character pool
-                const scrambleChars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!@#$%&*<>?'
-                const scrambleStagger = 100 // ms between each letter settling
-                const scrambleSpeed = 50 // ms between random character changes
-                
-                // Get stored originalChars
-                const originalChars = (textWrapper.parts as any).originalChars as string[] | undefined
-                
+            // Update bounce_in/out/scramble parts animation
+            if (!layer.isCounter && textWrapper?.parts) {
+              // Get stored originalChars
+              const originalChars =
+                ((textWrapper.parts as any).originalChars as string[] | undefined) ??
+                textWrapper.parts.map((part: PIXI.Text) => part.text)
+              const letters = evaluateLetters(originalChars, layer.id, templateClips, playhead)
+              if (letters) {
                 textWrapper.parts.forEach((part: PIXI.Text, i: number) => {
-                   let scale = 1
-                   let alpha = 1
-                   
-                   // Get the original character for this position
-                   const originalChar = originalChars?.[i] ?? ''
-
-                   // Bounce In
-                   if (bounceInClip) {
-                      const start = bounceInClip.start ?? 0
-                      const letterStart = start + i * stagger
-                      const relativeTime = playhead - letterStart
-                      const progress = Math.max(0, Math.min(1, relativeTime / letterDuration))
-
-                      if (relativeTime < 0) {
-                         scale *= 0
-                         alpha *= 0
-                      } else {
-                         const x = progress
-                         const ease = x === 0 ? 0 : x === 1 ? 1 : Math.pow(2, -10 * x) * Math.sin((x * 10 - 0.75) * c4) + 1
-                         scale *= ease
-                         // Opacity fades in over 10%
-                         alpha *= Math.min(1, progress * 10)
-                      }
-                   }
-
-                   // Bounce Out
-                   if (bounceOutClip) {
-                      const start = bounceOutClip.start ?? 0
-                      const letterStart = start + i * stagger
-                      const relativeTime = playhead - letterStart
-                      const progress = Math.max(0, Math.min(1, relativeTime / letterDuration))
-                      
-                      if (relativeTime < 0) {
-                        // Before exit starts: no impact (multiplier 1)
-                      } else if (progress >= 1) {
-                         scale *= 0
-                         alpha *= 0
-                      } else {
-                         // Use 1 - ElasticOut(progress) for immediate action "Bounce Drop"
-                         // This creates a bounce that diminishes towards 0
-                         const x = progress
-                         const ease = x === 0 ? 0 : x === 1 ? 1 : Math.pow(2, -10 * x) * Math.sin((x * 10 - 0.75) * c4) + 1
-                         
-                         // 1 - ease goes 1 -> 0. 
-                         // Use Math.abs to handle negative overshoot (prevents flipping)
-                         scale *= Math.abs(1 - ease)
-                         
-                         // Simple linear fade out
-                         alpha *= (1 - progress)
-                      }
-                   }
-                   
-                   // Scramble animation (reveal with scrambling)
-                   if (scrambleClip) {
-                      const start = scrambleClip.start ?? 0
-                      const clipDuration = scrambleClip.duration ?? 2000
-                      const numParts = textWrapper.parts?.length ?? 1
-                      
-                      // Calculate timing based on clip duration
-                      // Last letter should settle exactly at clip end
-                      // Add initial delay so animation starts from nothing
-                      const initialDelay = Math.max(50, clipDuration * 0.05) // 5% initial "nothing" delay
-                      const availableTime = clipDuration - initialDelay
-                      
-                      const scrambleRatio = 0.25 // 25% of time spent on each letter scrambling
-                      
-                      // For N letters: last letter settles at: start + initialDelay + (N-1)*stagger + scrambleDuration = start + clipDuration
-                      const dynamicScrambleDuration = Math.max(80, availableTime * scrambleRatio / Math.max(1, numParts))
-                      const dynamicStagger = numParts > 1 
-                        ? (availableTime - dynamicScrambleDuration) / (numParts - 1)
-                        : availableTime - dynamicScrambleDuration
-                      
-                      // Each letter starts scrambling at a staggered time (with initial delay)
-                      const letterStartTime = start + initialDelay + i * dynamicStagger
-                      const letterSettleTime = letterStartTime + dynamicScrambleDuration
-                      
-                      // Scramble speed also scales with duration (slower when stretched)
-                      const dynamicScrambleSpeed = Math.max(30, dynamicScrambleDuration / 6)
-                      
-                      if (playhead < letterStartTime) {
-                         // Before this letter starts - hide it
-                         alpha *= 0
-                         scale *= 0
-                      } else if (playhead >= letterSettleTime) {
-                         // This letter has settled - show correct character
-                         part.text = originalChar
-                         // alpha and scale stay at 1 (visible)
-                      } else {
-                         // Currently scrambling this letter
-                         // Show random character cycling
-                         const cycleIndex = Math.floor(playhead / dynamicScrambleSpeed)
-                         const charIndex = (cycleIndex + i * 7) % scrambleChars.length
-                         part.text = scrambleChars[charIndex]
-                         // Visible during scramble
-                      }
-                   }
-                   
-                   part.scale.set(scale)
-                   part.alpha = alpha
+                  const letter = letters[i]
+                  if (!letter) return
+                  if (part.text !== letter.char) part.text = letter.char
+                  part.scale.set(letter.scale)
+                  part.alpha = letter.alpha
                 })
                 needsRender = true
               }
@@ -2809,9 +2523,10 @@ export default function MotionCanvas({ template, templateVersion, layers = [], l
               textChanged = true
               needsRender = true
             }
-            // Update fill color
-            if (layer.fillColor !== undefined && textObj.style) {
-              textObj.style.fill = layer.fillColor
+            // Update fill and stroke color
+            if (textObj.style) {
+              textObj.style.fill = fillColor
+              textObj.style.stroke = { color: strokeColor, width: strokeWidth }
               needsRender = true
             }
             // Update font family
@@ -2896,12 +2611,26 @@ export default function MotionCanvas({ template, templateVersion, layers = [], l
       
       const prevDims = layerDimensionsRef.current[layer.id]
       const layerRotation = layer.rotation ?? 0
-      const hasChanged = !prevDims || prevDims.width !== layer.width || prevDims.height !== layer.height || prevDims.fillColor !== layer.fillColor || prevDims.rotation !== layerRotation
+      const hasChanged =
+        !prevDims ||
+        prevDims.width !== layer.width ||
+        prevDims.height !== layer.height ||
+        prevDims.fillColor !== fillColor ||
+        prevDims.strokeColor !== strokeColor ||
+        prevDims.strokeWidth !== strokeWidth ||
+        prevDims.rotation !== layerRotation
       
       if (!hasChanged) return
       
-      // Update tracked dimensions, color, and rotation
-      layerDimensionsRef.current[layer.id] = { width: layer.width, height: layer.height, fillColor: layer.fillColor, rotation: layerRotation }
+      // Update tracked dimensions, colors, and rotation
+      layerDimensionsRef.current[layer.id] = {
+        width: layer.width,
+        height: layer.height,
+        fillColor,
+        strokeColor,
+        strokeWidth,
+        rotation: layerRotation,
+      }
       needsRender = true
       
       // NOTE: Rotation is handled by updateGraphicsFromTimeline to combine base + animation
@@ -2911,7 +2640,7 @@ export default function MotionCanvas({ template, templateVersion, layers = [], l
       if (sprite) {
         sprite.width = layer.width
         sprite.height = layer.height
-        sprite.tint = layer.fillColor ?? 0xffffff
+        sprite.tint = fillColor
         if (g instanceof PIXI.Graphics) {
           g.clear() // remove any fallback geometry so only the sprite shows
         }
@@ -2922,14 +2651,13 @@ export default function MotionCanvas({ template, templateVersion, layers = [], l
         if (childSprite) {
           childSprite.width = layer.width
           childSprite.height = layer.height
-          childSprite.tint = layer.fillColor ?? 0xffffff
+          childSprite.tint = fillColor
         }
       }
       
       // For shapes only (not images or SVGs which use containers), redraw the graphics
       if (layer.shapeKind && layer.type !== 'image' && layer.type !== 'svg' && !isIconShape) {
         g.clear()
-        const fillColor = layer.fillColor ?? 0xffffff
         switch (layer.shapeKind) {
           case 'square':
             g.rect(-layer.width / 2, -layer.height / 2, layer.width, layer.height)
@@ -2978,6 +2706,7 @@ export default function MotionCanvas({ template, templateVersion, layers = [], l
             break
         }
         g.fill(fillColor)
+        if (strokeWidth > 0) g.stroke({ width: strokeWidth, color: strokeColor })
       }
       
       // Update hit area
@@ -3079,7 +2808,65 @@ export default function MotionCanvas({ template, templateVersion, layers = [], l
     if (needsRender) {
       appRef.current?.render()
     }
-  }, [renderLayers, isReady, layers, playhead, timelineTracks])
+  }, [renderLayers, isReady, layers, playhead, timelineTracks, sampledTimeline])
+
+  // Export frame source: seeks resolve from the effect below, after every
+  // playhead-driven effect above has applied the new time to the stage
+  const pendingSeeksRef = useRef<Array<{ time: number; resolve: () => void }>>([])
+  useEffect(() => {
+    pendingSeeksRef.current = pendingSeeksRef.current.filter((seek) => {
+      if (seek.time !== playhead) return true
+      seek.resolve()
+      return false
+    })
+  }, [playhead, isReady])
+
+  useEffect(() => {
+    if (!frameSourceRef) return
+    frameSourceRef.current = {
+      seek: (time) =>
+        new Promise<void>((resolve) => {
+          const before = timelineActions.getState().currentTime
+          timelineActions.setCurrentTime(time)
+          const target = timelineActions.getState().currentTime
+          if (target === before) {
+            resolve()
+            return
+          }
+          pendingSeeksRef.current.push({ time: target, resolve })
+        }),
+      capture: (width, height) => {
+        const app = appRef.current
+        const bounds = containerRef.current?.getBoundingClientRect()
+        if (!app || !bounds) throw new Error('Canvas is not ready for export')
+
+        // Hide editor chrome (selection outlines and resize handles) for the capture
+        const chrome = [
+          ...Object.values(outlinesByIdRef.current),
+          ...Object.values(resizeHandlesRef.current).flat(),
+          ...Object.values(handlesByIdRef.current).flat(),
+        ].filter((item) => item.visible)
+        chrome.forEach((item) => { item.visible = false })
+
+        const target = PIXI.RenderTexture.create({ width, height })
+        try {
+          app.renderer.render({
+            container: app.stage,
+            target,
+            clear: true,
+            transform: new PIXI.Matrix().scale(width / (bounds.width || 1), height / (bounds.height || 1)),
+          })
+          return app.renderer.extract.canvas(target) as HTMLCanvasElement
+        } finally {
+          target.destroy(true)
+          chrome.forEach((item) => { item.visible = true })
+        }
+      },
+    }
+    return () => {
+      frameSourceRef.current = null
+    }
+  }, [frameSourceRef, timelineActions])
 
   return (
     <div className="relative h-full w-full overflow-visible rounded-lg" onPointerDown={handleCanvasPointerDown}>
@@ -0,0 +1,195 @@
+'use client'
+
+import { Plus, X } from 'lucide-react'
+import { PARTICLE_SOURCE_KINDS, isParticleEffect } from '@/lib/particles'
+import type { ParticleSource, ParticleSourceKind } from '@/lib/particles'
+import { getSvgUrl } from '@/lib/iconify'
+import { useTimeline, useTimelineActions } from '@/lib/timeline-store'
+
+// The bits of a layer a source can point at
+interface SourceLayer {
+  id: string
+  type?: 'shape' | 'image' | 'svg' | 'text' | 'group' | 'precomp'
+  text?: string
+  isCounter?: boolean
+}
+
+interface ParticleSourcePanelProps {
+  layerId: string
+  layers: SourceLayer[]
+}
+
+const inputClass =
+  'min-w-0 flex-1 rounded bg-neutral-800 px-2 py-1 text-xs text-white focus:outline-none focus:ring-1 focus:ring-purple-500'
+
+/**
+ * What the particle effect clips of one layer emit: the preset's own sprite,
+ * or a weighted mix of images, icons, emoji and letters
+ */
+export default function ParticleSourcePanel({ layerId, layers }: ParticleSourcePanelProps) {
+  const timeline = useTimelineActions()
+  const effectClips = useTimeline((s) => s.effectClips)
+  const clips = effectClips.filter((c) => c.layerId === layerId && isParticleEffect(c.effectType))
+  const imageLayers = layers.filter((l) => l.type === 'image')
+  const textLayers = layers.filter((l) => l.type === 'text' && !l.isCounter)
+
+  if (clips.length === 0) return null
+
+  // A new source of `kind`, filled in from the first layer that can supply it
+  const createSource = (kind: ParticleSourceKind): ParticleSource => {
+    switch (kind) {
+      case 'image':
+        return { kind, layerId: imageLayers[0]?.id ?? '', weight: 1 }
+      case 'icon':
+        return { kind, icon: 'mdi:heart', color: 'f43f5e', weight: 1 }
+      case 'emoji':
+        return { kind, emoji: '❤️', weight: 1 }
+      case 'glyph':
+        return { kind, layerId: textLayers[0]?.id ?? '', letter: textLayers[0]?.text?.trim()[0] ?? 'A', weight: 1 }
+    }
+  }
+
+  return (
+    <div className="mb-6 space-y-4 rounded-xl border border-neutral-800 bg-neutral-900/50 p-4">
+      <span className="text-xs font-medium text-neutral-400">Particle Sources</span>
+
+      {clips.map((clip) => {
+        const sources = clip.params.particleSources ?? []
+        const setSources = (particleSources: ParticleSource[]) =>
+          timeline.updateEffectClip(clip.id, { params: { particleSources } })
+        const updateSource = (index: number, source: ParticleSource) =>
+          setSources(sources.map((s, i) => (i === index ? source : s)))
+
+        return (
+          <div key={clip.id} className="space-y-3 rounded-lg border border-neutral-800 p-3">
+            <div className="flex items-center justify-between">
+              <span className="text-[11px] capitalize text-neutral-300">
+                ✨ {clip.effectType} <span className="text-neutral-500">@ {(clip.start / 1000).toFixed(2)}s</span>
+              </span>
+              <button
+                onClick={() => setSources([...sources, createSource('emoji')])}
+                className="inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-[10px] text-neutral-400 hover:bg-white/5 hover:text-white"
+                title="Emit an image, icon, emoji or letter"
+              >
+                <Plus className="h-3 w-3" />
+                Source
+              </button>
+            </div>
+
+            {sources.length === 0 && <p className="text-[11px] text-neutral-500">Uses the effect&apos;s built-in sprite.</p>}
+
+            {sources.map((source, index) => (
+              <div key={index} className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <select
+                    value={source.kind}
+                    onChange={(e) => updateSource(index, { ...createSource(e.target.value as ParticleSourceKind), weight: source.weight })}
+                    className="rounded bg-neutral-800 px-2 py-1 text-xs text-white focus:outline-none focus:ring-1 focus:ring-purple-500"
+                  >
+                    {PARTICLE_SOURCE_KINDS.map((kind) => (
+                      <option key={kind.key} value={kind.key}>
+                        {kind.label}
+                      </option>
+                    ))}
+                  </select>
+
+                  {source.kind === 'image' && (
+                    <select
+                      value={source.layerId}
+                      onChange={(e) => updateSource(index, { ...source, layerId: e.target.value })}
+                      className={inputClass}
+                    >
+                      {imageLayers.length === 0 && <option value="">No image layers</option>}
+                      {imageLayers.map((layer, i) => (
+                        <option key={layer.id} value={layer.id}>
+                          Image {i + 1}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+
+                  {source.kind === 'icon' && (
+                    <>
+                      {source.icon.includes(':') && (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img src={getSvgUrl(source.icon, source.color)} alt="" className="h-5 w-5 flex-shrink-0" />
+                      )}
+                      <input
+                        value={source.icon}
+                        onChange={(e) => updateSource(index, { ...source, icon: e.target.value.trim() })}
+                        placeholder="mdi:heart"
+                        className={inputClass}
+                      />
+                      <input
+                        type="color"
+                        value={`#${source.color ?? 'ffffff'}`}
+                        onChange={(e) => updateSource(index, { ...source, color: e.target.value.slice(1) })}
+                        className="h-6 w-6 flex-shrink-0 cursor-pointer rounded border border-neutral-700 bg-transparent p-0"
+                      />
+                    </>
+                  )}
+
+                  {source.kind === 'emoji' && (
+                    <input
+                      value={source.emoji}
+                      onChange={(e) => updateSource(index, { ...source, emoji: e.target.value })}
+                      placeholder="❤️"
+                      className={inputClass}
+                    />
+                  )}
+
+                  {source.kind === 'glyph' && (
+                    <>
+                      <select
+                        value={source.layerId}
+                        onChange={(e) => updateSource(index, { ...source, layerId: e.target.value })}
+                        className={inputClass}
+                      >
+                        {textLayers.length === 0 && <option value="">No text layers</option>}
+                        {textLayers.map((layer) => (
+                          <option key={layer.id} value={layer.id}>
+                            Text &quot;{(layer.text ?? '').slice(0, 16)}&quot;
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        value={source.letter}
+                        maxLength={2}
+                        onChange={(e) => updateSource(index, { ...source, letter: e.target.value })}
+                        className="w-10 rounded bg-neutral-800 px-2 py-1 text-center text-xs text-white focus:outline-none focus:ring-1 focus:ring-purple-500"
+                      />
+                    </>
+                  )}
+
+                  <button
+                    onClick={() => setSources(sources.filter((_, i) => i !== index))}
+                    className="flex-shrink-0 text-neutral-600 hover:text-rose-400 transition-colors"
+                    title="Remove source"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+
+                {sources.length > 1 && (
+                  <div className="flex items-center gap-2">
+                    <span className="text-[10px] uppercase text-neutral-500">Weight</span>
+                    <input
+                      type="range"
+                      min={0.1}
+                      max={5}
+                      step={0.1}
+                      value={source.weight}
+                      onChange={(e) => updateSource(index, { ...source, weight: Number(e.target.value) })}
+                      className="flex-1 accent-violet-500"
+                    />
+                    <span className="w-8 text-right text-[10px] text-neutral-400">{source.weight.toFixed(1)}</span>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -1,10 +1,17 @@
-import { Pause, Play, Repeat, SlidersHorizontal, ChevronRight, ChevronDown } from 'lucide-react'
+import { Pause, Play, Repeat, SlidersHorizontal, ChevronRight, ChevronDown, Circle, Diamond, ChartSpline, Folder, FolderOpen, Magnet, BetweenHorizontalStart, Music, Volume2, VolumeX, X, ZoomIn, ZoomOut, Film } from 'lucide-react'
 import { useMemo, useState, useRef, useEffect } from 'react'
-import { useTimeline, useTimelineActions } from '@/lib/timeline-store'
-import { sampleTimeline } from '@/lib/timeline'
+import { getPlaybackRange, useTimeline, useTimelineActions } from '@/lib/timeline-store'
+import type { KeyframeProperty, KeyframeRef } from '@/lib/timeline-store'
+import { FRAME_RATES, placeKeyframeTime, sampleTimeline, snapToFrame } from '@/lib/timeline'
+import { getDragSnap, snapSpan, snapTime } from '@/lib/timeline-snap'
+import { formatTimecode, getRulerTicks } from '@/lib/timeline-ruler'
+import { getEffectKeyframeTimes, isEffectEnabled } from '@/lib/effects'
+import type { Easing, TimelineKeyframe } from '@/lib/timeline'
+import CurveEditor from './CurveEditor'
+import GraphEditor from './GraphEditor'
 
 interface TimelinePanelProps {
-  layers: Array<{ id: string; shapeKind: string; type?: 'shape' | 'image' | 'svg' | 'text' }>
+  layers: Array<{ id: string; shapeKind: string; type?: 'shape' | 'image' | 'svg' | 'text' | 'group' | 'precomp'; parentId?: string }>
   layerOrder?: string[]
   onReorderLayers?: (order: string[]) => void
   selectedLayerId?: string
@@ -18,6 +25,26 @@ interface TimelinePanelProps {
   onSelectLayer?: (layerId: string) => void
 }
 
+const KEYFRAME_PROPERTIES: Array<{ key: KeyframeProperty; label: string }> = [
+  { key: 'position', label: 'Position' },
+  { key: 'scale', label: 'Scale' },
+  { key: 'scaleX', label: 'Scale X' },
+  { key: 'scaleY', label: 'Scale Y' },
+  { key: 'rotation', label: 'Rotation' },
+  { key: 'skewX', label: 'Skew X' },
+  { key: 'skewY', label: 'Skew Y' },
+  { key: 'anchor', label: 'Anchor' },
+  { key: 'opacity', label: 'Opacity' },
+  { key: 'fillColor', label: 'Fill' },
+  { key: 'strokeColor', label: 'Stroke' },
+]
+
+const RIPPLE_GAP = 1000 // ms opened by a ripple insert
+const MIN_VIEW_MS = 250 // narrowest window the timeline zooms in to
+
+const formatEasing = (easing: Easing = 'linear') =>
+  typeof easing === 'string' ? easing : easing.type === 'steps' ? `steps(${easing.count})` : 'custom'
+
 const formatTime = (ms: number) => {
   const clamped = Math.max(0, Math.floor(ms))
   const totalSeconds = Math.floor(clamped / 1000)
@@ -45,6 +72,11 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
   const templateClips = useTimeline((s) => s.templateClips)
   const clickMarkers = useTimeline((s) => s.clickMarkers)
   const effectClips = useTimeline((s) => s.effectClips)
+  const audioTracks = useTimeline((s) => s.audioTracks)
+  const fps = useTimeline((s) => s.fps)
+  const quantizeToFrames = useTimeline((s) => s.quantizeToFrames)
+  const workArea = useTimeline((s) => s.workArea)
+  const isRecording = useTimeline((s) => s.isRecording)
   const timeline = useTimelineActions()
   const MIN_TIMELINE_MS = 5000 // 5 seconds minimum for free playhead movement
   const safeDuration = Math.max(MIN_TIMELINE_MS, Number.isFinite(duration) ? duration : MIN_TIMELINE_MS)
@@ -59,6 +91,31 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
     return saved ? Math.max(MIN_HEIGHT, Math.min(MAX_HEIGHT, parseInt(saved))) : DEFAULT_HEIGHT
   })
   const [draggingLayerId, setDraggingLayerId] = useState<string | null>(null)
+  // Keyframe editing: open property rows, selected diamonds, in-flight drag offset and the copy buffer
+  const [keyframeRowsOpen, setKeyframeRowsOpen] = useState<Record<string, boolean>>({})
+  const [selectedKeyframes, setSelectedKeyframes] = useState<KeyframeRef[]>([])
+  const [isCurveEditorOpen, setIsCurveEditorOpen] = useState(false)
+  const [keyframeDragDelta, setKeyframeDragDelta] = useState<number | null>(null)
+  const [isGraphMode, setIsGraphMode] = useState(false)
+  // Magnetic snapping while dragging (hold Alt to drag freely) and the optional frame grid
+  const [snapEnabled, setSnapEnabled] = useState(true)
+  const [frameGrid, setFrameGrid] = useState(false)
+  // Zoom: the window [viewLeft, viewLeft + viewSpan] fills the track area; the ruler counts seconds or frames
+  const [zoom, setZoom] = useState(1)
+  const [viewStart, setViewStart] = useState(0)
+  const [showFrames, setShowFrames] = useState(false)
+  const [areaWidth, setAreaWidth] = useState(0)
+  const maxZoom = Math.max(1, safeDuration / MIN_VIEW_MS)
+  const viewSpan = safeDuration / Math.min(zoom, maxZoom)
+  const viewLeft = Math.max(0, Math.min(safeDuration - viewSpan, viewStart))
+  const toPercent = (time: number) => ((time - viewLeft) / viewSpan) * 100
+  const spanPercent = (ms: number) => (ms / viewSpan) * 100
+  const rulerTicks = useMemo(
+    () => getRulerTicks(viewLeft, viewSpan, areaWidth, showFrames ? fps : 0),
+    [viewLeft, viewSpan, areaWidth, showFrames, fps]
+  )
+  const formatTimecodeOrTime = (ms: number) => (showFrames ? formatTimecode(ms, fps) : formatTime(ms))
+  const keyframeClipboardRef = useRef<{ layerId: string; entries: Array<{ property: KeyframeProperty; frame: TimelineKeyframe<unknown> }> } | null>(null)
   
   const [isResizing, setIsResizing] = useState(false)
   const resizeStartRef = useRef<{ startY: number; startHeight: number } | null>(null)
@@ -121,6 +178,25 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
     })
   }, [layers, layerOrder])
 
+  const [collapsedGroups, setCollapsedGroups] = useState<Record<string, boolean>>({})
+
+  // Rows as a tree: children right below their parent (in layer order), hidden while it's collapsed
+  const layerRows = useMemo(() => {
+    const ids = new Set(orderedLayers.map((l) => l.id))
+    const rows: Array<{ layer: (typeof orderedLayers)[number]; index: number; depth: number; hasChildren: boolean }> = []
+    const visit = (parentId: string | undefined, depth: number) => {
+      orderedLayers.forEach((layer, index) => {
+        const isRoot = !layer.parentId || !ids.has(layer.parentId)
+        if (parentId ? layer.parentId !== parentId : !isRoot) return
+        const hasChildren = orderedLayers.some((l) => l.parentId === layer.id)
+        rows.push({ layer, index, depth, hasChildren })
+        if (hasChildren && !collapsedGroups[layer.id]) visit(layer.id, depth + 1)
+      })
+    }
+    visit(undefined, 0)
+    return rows
+  }, [orderedLayers, collapsedGroups])
+
   const reorderLayerOrder = (sourceId: string, targetId: string) => {
     if (!onReorderLayers) return
     const currentOrder = layerOrder && layerOrder.length ? [...layerOrder] : layers.map((l) => l.id)
@@ -147,45 +223,82 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
       return
     }
     
-    // Starting playback - check if we need to reset from end
-    const clipsEnd = templateClips.reduce((max, c) => Math.max(max, (c.start ?? 0) + (c.duration ?? 0)), 0)
-    
-    const getTrackEnd = (track: any) => {
-      const times: number[] = []
-      if (track.position?.length) times.push(track.position[track.position.length - 1].time)
-      if (track.scale?.length) times.push(track.scale[track.scale.length - 1].time)
-      if (track.rotation?.length) times.push(track.rotation[track.rotation.length - 1].time)
-      if (track.opacity?.length) times.push(track.opacity[track.opacity.length - 1].time)
-      return times.length ? Math.max(...times) : 0
-    }
-    const tracksEnd = tracks.reduce((max, t) => Math.max(max, getTrackEnd(t)), 0)
-    
-    // Also check paths
-    let pathsEnd = 0
-    tracks.forEach((t) => {
-      (t.paths ?? []).forEach((p) => {
-        pathsEnd = Math.max(pathsEnd, p.startTime + p.duration)
-      })
-    })
-    
-    // Also check click markers
-    const clickMarkersEnd = clickMarkers.reduce((max, m) => Math.max(max, m.time), 0)
-
-    const hasClips = templateClips.length > 0 || tracksEnd > 0 || pathsEnd > 0
-    const contentDuration = hasClips 
-      ? Math.max(100, tracksEnd, clipsEnd, pathsEnd, clickMarkersEnd) 
-      : Math.max(5000, clickMarkersEnd + 500)
-
-    // Only reset to beginning if at or near the end
-    if (currentTime >= contentDuration - 50) {
-      timeline.setCurrentTime(0)
+    // Starting playback - restart from the beginning of the work area (or content) if at or near the end
+    const { start, end } = getPlaybackRange({ tracks, templateClips, clickMarkers, workArea, audioTracks })
+    if (currentTime >= end - 50 || (workArea && currentTime < start)) {
+      timeline.setCurrentTime(start)
     }
     timeline.togglePlay()
   }
   const [showTemplateControls] = useState(true)
   const templateControlsVisible = true
   const timelineAreaRef = useRef<HTMLDivElement>(null)
+  const tracksViewportRef = useRef<HTMLDivElement>(null)
+
+  // Zoom to `nextZoom` keeping `anchor` (ms) at the same spot on screen
+  const zoomAround = (nextZoom: number, anchor: number) => {
+    const clamped = Math.max(1, Math.min(maxZoom, nextZoom))
+    const nextSpan = safeDuration / clamped
+    const fraction = (anchor - viewLeft) / viewSpan
+    setZoom(clamped)
+    setViewStart(Math.max(0, Math.min(safeDuration - nextSpan, anchor - fraction * nextSpan)))
+  }
+
+  const panBy = (ms: number) => setViewStart(Math.max(0, Math.min(safeDuration - viewSpan, viewLeft + ms)))
+
+  // Zoom anchored on the playhead when it's in view, else on the middle
+  const zoomFromControls = (nextZoom: number) => {
+    const inView = currentTime >= viewLeft && currentTime <= viewLeft + viewSpan
+    zoomAround(nextZoom, inView ? currentTime : viewLeft + viewSpan / 2)
+  }
+
+  useEffect(() => {
+    const area = timelineAreaRef.current
+    if (!area) return
+    const observer = new ResizeObserver(([entry]) => setAreaWidth(entry.contentRect.width))
+    observer.observe(area)
+    return () => observer.disconnect()
+  }, [])
+
+  // Ctrl/Cmd+wheel zooms around the pointer, Shift+wheel or a sideways swipe scrolls.
+  // Non-passive so the browser's own page zoom doesn't kick in.
+  useEffect(() => {
+    const viewport = tracksViewportRef.current
+    if (!viewport) return
+    const handleWheel = (e: WheelEvent) => {
+      const rect = timelineAreaRef.current?.getBoundingClientRect()
+      if (!rect || rect.width <= 0) return
+      if (e.ctrlKey || e.metaKey) {
+        e.preventDefault()
+        const fraction = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width))
+        zoomAround(zoom * Math.exp(-e.deltaY * 0.002), viewLeft + fraction * viewSpan)
+        return
+      }
+      const sideways = e.shiftKey ? e.deltaY || e.deltaX : Math.abs(e.deltaX) > Math.abs(e.deltaY) ? e.deltaX : 0
+      if (!sideways || zoom <= 1) return
+      e.preventDefault()
+      panBy((sideways / rect.width) * viewSpan)
+    }
+    viewport.addEventListener('wheel', handleWheel, { passive: false })
+    return () => viewport.removeEventListener('wheel', handleWheel)
+  })
+
+  // Page along with the playhead while playing
+  useEffect(() => {
+    if (zoom <= 1) return
+    const unsubscribe = timeline.subscribe(() => {
+      const { isPlaying: playing, currentTime: time } = timeline.getState()
+      if (playing && (time < viewLeft || time > viewLeft + viewSpan)) {
+        setViewStart(Math.max(0, Math.min(safeDuration - viewSpan, time)))
+      }
+    })
+    return () => {
+      unsubscribe()
+    }
+  }, [timeline, zoom, viewLeft, viewSpan, safeDuration])
   const [isScrubbing, setIsScrubbing] = useState(false)
+  const [isSelectingRange, setIsSelectingRange] = useState(false)
+  const rangeAnchorRef = useRef<number | null>(null)
   const [scrubTarget, setScrubTarget] = useState<boolean>(false)
   const [isResizingClip, setIsResizingClip] = useState(false)
   const [isMovingClip, setIsMovingClip] = useState(false)
@@ -264,17 +377,50 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
   const applyScrub = (clientX: number) => {
     const rect = timelineAreaRef.current?.getBoundingClientRect()
     if (!rect) return
-    const t = ((clientX - rect.left) / rect.width) * safeDuration
+    const t = viewLeft + ((clientX - rect.left) / rect.width) * viewSpan
     timeline.setCurrentTime(Math.max(0, Math.min(safeDuration, t)))
   }
 
+  const timeFromClientX = (clientX: number) => {
+    const rect = timelineAreaRef.current?.getBoundingClientRect()
+    if (!rect) return 0
+    return Math.max(0, Math.min(safeDuration, viewLeft + ((clientX - rect.left) / rect.width) * viewSpan))
+  }
+
   const handleScrubStart = (e: React.PointerEvent<HTMLDivElement>) => {
     if (isResizingClip || isMovingClip) return
+    // Shift+drag on the ruler draws the work area instead of scrubbing
+    if (e.shiftKey) {
+      const anchor = timeFromClientX(e.clientX)
+      rangeAnchorRef.current = anchor
+      timeline.setWorkArea(null)
+      setIsSelectingRange(true)
+      return
+    }
     setIsScrubbing(true)
     setScrubTarget(true)
     applyScrub(e.clientX)
   }
 
+  useEffect(() => {
+    if (!isSelectingRange) return
+    const move = (e: PointerEvent) => {
+      const anchor = rangeAnchorRef.current
+      if (anchor === null) return
+      timeline.setWorkArea({ start: anchor, end: timeFromClientX(e.clientX) })
+    }
+    const up = () => {
+      rangeAnchorRef.current = null
+      setIsSelectingRange(false)
+    }
+    window.addEventListener('pointermove', move)
+    window.addEventListener('pointerup', up)
+    return () => {
+      window.removeEventListener('pointermove', move)
+      window.removeEventListener('pointerup', up)
+    }
+  }, [isSelectingRange])
+
   useEffect(() => {
     if (!isScrubbing || !scrubTarget) return
     const move = (e: PointerEvent) => applyScrub(e.clientX)
@@ -328,19 +474,23 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
       const rect = timelineAreaRef.current?.getBoundingClientRect()
       if (!state || !rect) return
 
-      const pxPerMs = rect.width / safeDuration
+      const pxPerMs = rect.width / viewSpan
       const deltaMs = (ev.clientX - state.startX) / pxPerMs
 
       let nextStart = state.baseStart
       let nextDuration = state.baseDuration
 
+      const snap = getDragSnap(timeline.getState(), pxPerMs, { magnetic: snapEnabled && !ev.altKey, frameGrid }, { clipId: state.clipId })
+
       if (state.edge === 'left') {
         nextStart = Math.max(0, state.baseStart + deltaMs)
+        if (snap) nextStart = snapTime(nextStart, snap)
         const maxStart = state.baseStart + state.baseDuration - MIN_CLIP_DURATION
         nextStart = Math.min(nextStart, maxStart)
         nextDuration = Math.max(MIN_CLIP_DURATION, state.baseDuration - (nextStart - state.baseStart))
       } else {
-        nextDuration = Math.max(MIN_CLIP_DURATION, state.baseDuration + deltaMs)
+        const end = state.baseStart + state.baseDuration + deltaMs
+        nextDuration = Math.max(MIN_CLIP_DURATION, (snap ? snapTime(end, snap) : end) - state.baseStart)
       }
 
       state.currentStart = Math.round(nextStart)
@@ -372,7 +522,7 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
       window.removeEventListener('pointermove', handleMove)
       window.removeEventListener('pointerup', handleUp)
     }
-  }, [isResizingClip, safeDuration, timeline])
+  }, [isResizingClip, viewSpan, timeline, snapEnabled, frameGrid])
 
   useEffect(() => {
     if (!isMovingClip) return
@@ -380,43 +530,13 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
       const state = moveStateRef.current
       const rect = timelineAreaRef.current?.getBoundingClientRect()
       if (!state || !rect) return
-      const pxPerMs = rect.width / safeDuration
+      const pxPerMs = rect.width / viewSpan
       const deltaMs = (ev.clientX - state.startX) / pxPerMs
       let nextStart = Math.max(0, Math.round(state.baseStart + deltaMs))
-      const clipEnd = nextStart + state.duration
-      
-      // Magnetic snap threshold (50ms)
-      const SNAP_THRESHOLD = 50
-      
-      // Collect all snap points from layers and other clips
-      const snapPoints: number[] = []
-      
-      // Add layer start/end points
-      tracks.forEach(track => {
-        snapPoints.push(track.startTime ?? 0)
-        snapPoints.push((track.startTime ?? 0) + (track.duration ?? 2000))
-      })
-      
-      // Add other template clip start/end points
-      templateClips.forEach(clip => {
-        if (clip.id !== state.clipId) {
-          snapPoints.push(clip.start ?? 0)
-          snapPoints.push((clip.start ?? 0) + (clip.duration ?? 1000))
-        }
-      })
-      
-      // Try to snap clip start
-      for (const snapPoint of snapPoints) {
-        if (Math.abs(nextStart - snapPoint) <= SNAP_THRESHOLD) {
-          nextStart = snapPoint
-          break
-        }
-        // Try to snap clip end
-        if (Math.abs(clipEnd - snapPoint) <= SNAP_THRESHOLD) {
-          nextStart = snapPoint - state.duration
-          break
-        }
-      }
+
+      // Magnetic snap to the playhead, other clips, layer bars, markers, beats and the frame grid
+      const snap = getDragSnap(timeline.getState(), pxPerMs, { magnetic: snapEnabled && !ev.altKey, frameGrid }, { clipId: state.clipId })
+      if (snap) nextStart = snapSpan(nextStart, state.duration, snap)
       
       state.currentStart = Math.max(0, nextStart)
       
@@ -444,7 +564,7 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
       window.removeEventListener('pointermove', handleMove)
       window.removeEventListener('pointerup', handleUp)
     }
-  }, [isMovingClip, safeDuration, timeline])
+  }, [isMovingClip, viewSpan, timeline, snapEnabled, frameGrid])
 
   // Effect for Moving Layer visibility bar
   useEffect(() => {
@@ -454,43 +574,16 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
       const rect = timelineAreaRef.current?.getBoundingClientRect()
       if (!state || !rect) return
       
-      const pxPerMs = rect.width / safeDuration
+      const pxPerMs = rect.width / viewSpan
       const deltaMs = (ev.clientX - state.startX) / pxPerMs
       let nextStart = Math.max(0, Math.round(state.baseStart + deltaMs))
       
       const track = tracks.find(t => t.layerId === state.layerId)
       const duration = track?.duration ?? 2000
-      const layerEnd = nextStart + duration
-      
-      // Magnetic snap threshold (50ms)
-      const SNAP_THRESHOLD = 50
-      
-      // Collect snap points from other layers AND template clips
-      const snapPoints: number[] = []
-      tracks.forEach(t => {
-        if (t.layerId !== state.layerId) {
-          snapPoints.push(t.startTime ?? 0)
-          snapPoints.push((t.startTime ?? 0) + (t.duration ?? 2000))
-        }
-      })
-      
-      // Add template clip edges (including transition clips)
-      templateClips.forEach(clip => {
-        snapPoints.push(clip.start ?? 0)
-        snapPoints.push((clip.start ?? 0) + (clip.duration ?? 1000))
-      })
-      
-      // Try to snap layer start or end
-      for (const snapPoint of snapPoints) {
-        if (Math.abs(nextStart - snapPoint) <= SNAP_THRESHOLD) {
-          nextStart = snapPoint
-          break
-        }
-        if (Math.abs(layerEnd - snapPoint) <= SNAP_THRESHOLD) {
-          nextStart = snapPoint - duration
-          break
-        }
-      }
+
+      // Magnetic snap; the layer's own clips and markers travel with the bar
+      const snap = getDragSnap(timeline.getState(), pxPerMs, { magnetic: snapEnabled && !ev.altKey, frameGrid }, { layerId: state.layerId })
+      if (snap) nextStart = snapSpan(nextStart, duration, snap)
       
       state.currentStart = Math.max(0, nextStart)
 
@@ -540,7 +633,7 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
       window.removeEventListener('pointermove', handleMove)
       window.removeEventListener('pointerup', handleUp)
     }
-  }, [isMovingLayer, safeDuration, timeline, tracks])
+  }, [isMovingLayer, viewSpan, timeline, tracks, snapEnabled, frameGrid])
 
   // Effect for Resizing Layer visibility bar
   useEffect(() => {
@@ -550,7 +643,7 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
       const rect = timelineAreaRef.current?.getBoundingClientRect()
       if (!state || !rect) return
 
-      const pxPerMs = rect.width / safeDuration
+      const pxPerMs = rect.width / viewSpan
       const deltaMs = (ev.clientX - state.startX) / pxPerMs
       
       const track = tracks.find(t => t.layerId === state.layerId)
@@ -566,52 +659,11 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
       
       let newDuration = Math.max(minDuration, Math.round(state.baseDuration + deltaMs))
       
-      // Snap logic: snap to template clip edges and other shapes' bars (50ms threshold)
-      const SNAP_THRESHOLD = 50
-      const newEndTime = startTime + newDuration
-      let snapped = false
-      
-      // 1. Snap to own template clips
-      for (const clip of layerClips) {
-        if (snapped) break
-        const clipStart = clip.start ?? 0
-        const clipEnd = clipStart + (clip.duration ?? 0)
-        
-        // Snap to clip end
-        if (Math.abs(newEndTime - clipEnd) <= SNAP_THRESHOLD) {
-          newDuration = clipEnd - startTime
-          snapped = true
-          break
-        }
-        // Snap to clip start
-        if (Math.abs(newEndTime - clipStart) <= SNAP_THRESHOLD) {
-          newDuration = clipStart - startTime
-          if (newDuration < minDuration) newDuration = minDuration
-          snapped = true
-          break
-        }
-      }
-      
-      // 2. Snap to other shapes' visibility bars
-      if (!snapped) {
-        for (const otherTrack of tracks) {
-          if (snapped) break
-          if (otherTrack.layerId === state.layerId) continue // Skip self
-          
-          const otherStart = otherTrack.startTime ?? 0
-          const otherEnd = otherStart + (otherTrack.duration ?? 0)
-          
-          // Snap to other shape's start
-          if (Math.abs(newEndTime - otherStart) <= SNAP_THRESHOLD) {
-            newDuration = otherStart - startTime
-            if (newDuration >= minDuration) snapped = true
-          }
-          // Snap to other shape's end
-          if (!snapped && Math.abs(newEndTime - otherEnd) <= SNAP_THRESHOLD) {
-            newDuration = otherEnd - startTime
-            if (newDuration >= minDuration) snapped = true
-          }
-        }
+      // Magnetic snap for the bar's end; its own clips stay put while it is resized
+      const snap = getDragSnap(timeline.getState(), pxPerMs, { magnetic: snapEnabled && !ev.altKey, frameGrid }, { layerId: state.layerId })
+      if (snap) {
+        if (snap.threshold > 0) layerClips.forEach((c) => snap.points.push(c.start, c.start + c.duration))
+        newDuration = Math.max(minDuration, snapTime(startTime + newDuration, snap) - startTime)
       }
       
       state.currentDuration = newDuration
@@ -641,10 +693,109 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
       window.removeEventListener('pointermove', handleMove)
       window.removeEventListener('pointerup', handleUp)
     }
-  }, [isResizingLayer, safeDuration, timeline, tracks])
+  }, [isResizingLayer, viewSpan, timeline, tracks, snapEnabled, frameGrid])
 
   const [collapsedLayers, setCollapsedLayers] = useState<Record<string, boolean>>({})
 
+  const isKeyframeSelected = (layerId: string, property: KeyframeProperty, time: number) =>
+    selectedKeyframes.some((ref) => ref.layerId === layerId && ref.property === property && ref.time === time)
+
+  // Easing shown in the curve editor: the first selected keyframe's (it eases the segment ending there)
+  const curveEditorFrame = selectedKeyframes.length > 0
+    ? (tracks.find((t) => t.layerId === selectedKeyframes[0].layerId)?.[selectedKeyframes[0].property] as TimelineKeyframe<unknown>[] | undefined)
+        ?.find((frame) => frame.time === selectedKeyframes[0].time)
+    : undefined
+
+  const handleKeyframePointerDown = (e: React.PointerEvent, ref: KeyframeRef) => {
+    e.stopPropagation()
+    const selected = isKeyframeSelected(ref.layerId, ref.property, ref.time)
+    if (e.shiftKey || e.metaKey || e.ctrlKey) {
+      // Toggle in the multi-selection, no drag
+      setSelectedKeyframes((prev) =>
+        selected
+          ? prev.filter((r) => !(r.layerId === ref.layerId && r.property === ref.property && r.time === ref.time))
+          : [...prev, ref]
+      )
+      return
+    }
+
+    const selection = selected ? selectedKeyframes : [ref]
+    setSelectedKeyframes(selection)
+    const rect = e.currentTarget.parentElement?.getBoundingClientRect()
+    if (!rect) return
+    const startX = e.clientX
+    const minDelta = -Math.min(...selection.map((r) => r.time))
+    let delta = 0
+
+    // Dragged keyframes move by whole frames while quantizing
+    const { quantizeToFrames: quantize, fps: frameRate } = timeline.getState()
+
+    const onMove = (ev: PointerEvent) => {
+      const pxPerMs = rect.width / viewSpan
+      const raw = Math.max(minDelta, (ev.clientX - startX) / pxPerMs)
+      delta = quantize ? Math.max(minDelta, snapToFrame(raw, frameRate)) : raw
+      setKeyframeDragDelta(delta)
+    }
+
+    const onUp = () => {
+      window.removeEventListener('pointermove', onMove)
+      window.removeEventListener('pointerup', onUp)
+      setKeyframeDragDelta(null)
+      if (Math.round(delta) === 0) return
+      timeline.moveKeyframes(selection, delta)
+      setSelectedKeyframes(selection.map((r) => ({ ...r, time: placeKeyframeTime(r.time + delta, frameRate, quantize) })))
+    }
+
+    window.addEventListener('pointermove', onMove)
+    window.addEventListener('pointerup', onUp)
+  }
+
+  // Delete / copy / paste selected keyframes. Runs in the capture phase so it
+  // wins over the dashboard's Delete shortcut (which removes the layer).
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable) {
+        return
+      }
+      const cmdOrCtrl = e.metaKey || e.ctrlKey
+
+      if ((e.key === 'Delete' || e.key === 'Backspace') && selectedKeyframes.length > 0) {
+        e.preventDefault()
+        e.stopImmediatePropagation()
+        timeline.removeKeyframes(selectedKeyframes)
+        setSelectedKeyframes([])
+      } else if (e.key === 'Escape' && selectedKeyframes.length > 0) {
+        setSelectedKeyframes([])
+        setIsCurveEditorOpen(false)
+      } else if (cmdOrCtrl && e.key === 'c' && selectedKeyframes.length > 0) {
+        e.preventDefault()
+        const { tracks: currentTracks } = timeline.getState()
+        const earliest = Math.min(...selectedKeyframes.map((ref) => ref.time))
+        const entries = selectedKeyframes.flatMap((ref) => {
+          const frames = (currentTracks.find((t) => t.layerId === ref.layerId)?.[ref.property] ?? []) as TimelineKeyframe<unknown>[]
+          const frame = frames.find((f) => f.time === ref.time)
+          // Copies are plain keyframes, no longer owned by a template clip
+          return frame ? [{ property: ref.property, frame: { ...frame, time: frame.time - earliest, clipId: undefined } }] : []
+        })
+        keyframeClipboardRef.current = { layerId: selectedKeyframes[0].layerId, entries }
+      } else if (cmdOrCtrl && e.key === 'v' && keyframeClipboardRef.current) {
+        // Paste at the playhead onto the selected layer (or back onto the source layer)
+        e.preventDefault()
+        const { layerId: sourceLayerId, entries } = keyframeClipboardRef.current
+        const layerId = selectedLayerId || sourceLayerId
+        const at = Math.round(timeline.getState().currentTime)
+        const pasted = entries.map(({ property, frame }) => ({ property, frame: { ...frame, time: frame.time + at } }))
+        timeline.insertKeyframes(layerId, pasted)
+        setKeyframeRowsOpen((prev) => ({ ...prev, [layerId]: true }))
+        setSelectedKeyframes(pasted.map(({ property, frame }) => ({ layerId, property, time: frame.time })))
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown, true)
+    return () => window.removeEventListener('keydown', handleKeyDown, true)
+  }, [selectedKeyframes, selectedLayerId, timeline])
+
   const toggleLayer = (layerId: string) => {
     setCollapsedLayers(prev => ({
       ...prev,
@@ -683,7 +834,7 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
           <span className="text-[10px] font-bold tracking-widest text-neutral-600">TIMELINE</span>
           <div className="h-3 w-px bg-white/5" />
           <span className="text-[10px] font-mono text-violet-500/80 bg-violet-500/10 px-1.5 py-0.5 rounded border border-violet-500/20">
-            {formatTime(currentTime)} / {formatTime(duration)}
+            {formatTimecodeOrTime(currentTime)} / {formatTimecodeOrTime(duration)}
           </span>
         </div>
         <div className="flex items-center gap-2">
@@ -700,17 +851,153 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
             <Repeat className="h-3 w-3" />
             <span>{loop ? 'Loop' : 'No Loop'}</span>
           </button>
+          <button
+            onClick={() => timeline.setRecording(!isRecording)}
+            className={`inline-flex h-7 px-2 items-center justify-center gap-1 rounded-full border text-[11px] transition-colors ${
+              isRecording
+                ? 'border-rose-500/50 bg-rose-500/15 text-rose-300'
+                : 'border-white/10 bg-white/[0.04] text-neutral-300 hover:bg-white/[0.1]'
+            }`}
+            title="Record: moving a layer on the canvas adds a position keyframe at the playhead"
+          >
+            <Circle className={`h-2.5 w-2.5 ${isRecording ? 'fill-rose-500 text-rose-500' : ''}`} />
+            <span>Rec</span>
+          </button>
+          <button
+            onClick={() => setIsGraphMode(!isGraphMode)}
+            className={`inline-flex h-7 px-2 items-center justify-center gap-1 rounded-full border text-[11px] transition-colors ${
+              isGraphMode
+                ? 'border-violet-500/50 bg-violet-500/15 text-violet-200'
+                : 'border-white/10 bg-white/[0.04] text-neutral-300 hover:bg-white/[0.1]'
+            }`}
+            title="Graph editor: value and speed curves of the selected layer"
+          >
+            <ChartSpline className="h-3 w-3" />
+            <span>Graph</span>
+          </button>
+          <div className="h-3 w-px bg-white/5" />
+          <button
+            onClick={() => setSnapEnabled(!snapEnabled)}
+            className={`inline-flex h-7 px-2 items-center justify-center gap-1 rounded-full border text-[11px] transition-colors ${
+              snapEnabled
+                ? 'border-violet-500/50 bg-violet-500/15 text-violet-200'
+                : 'border-white/10 bg-white/[0.04] text-neutral-300 hover:bg-white/[0.1]'
+            }`}
+            title="Snap to the playhead, clip and layer edges, markers and beats (hold Alt while dragging to skip)"
+          >
+            <Magnet className="h-3 w-3" />
+            <span>Snap</span>
+          </button>
+          <select
+            value={frameGrid ? 'frames' : 'none'}
+            onChange={(e) => setFrameGrid(e.target.value === 'frames')}
+            disabled={!snapEnabled || quantizeToFrames}
+            className="h-7 rounded-full border border-white/10 bg-white/[0.04] px-2 text-[11px] text-neutral-300 focus:outline-none disabled:opacity-40"
+            title="Snap to the project frame grid (always on while quantizing)"
+          >
+            <option value="none">No grid</option>
+            <option value="frames">Frame grid</option>
+          </select>
+          <button
+            onClick={() => selectedLayerId && timeline.insertGap(selectedLayerId, currentTime, RIPPLE_GAP)}
+            disabled={!selectedLayerId}
+            className="inline-flex h-7 px-2 items-center justify-center gap-1 rounded-full border border-white/10 bg-white/[0.04] text-[11px] text-neutral-300 hover:bg-white/[0.1] transition-colors disabled:opacity-40"
+            title="Ripple insert: push the selected layer's content after the playhead back by 1s (Shift+Delete ripple-deletes a clip)"
+          >
+            <BetweenHorizontalStart className="h-3 w-3" />
+            <span>Gap</span>
+          </button>
+          <div className="h-3 w-px bg-white/5" />
+          <select
+            value={fps}
+            onChange={(e) => timeline.setFps(Number(e.target.value))}
+            className="h-7 rounded-full border border-white/10 bg-white/[0.04] px-2 text-[11px] text-neutral-300 focus:outline-none"
+            title="Project frame rate (arrow keys step one frame)"
+          >
+            {FRAME_RATES.map((rate) => (
+              <option key={rate} value={rate}>
+                {rate} fps
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => timeline.setQuantizeToFrames(!quantizeToFrames)}
+            className={`inline-flex h-7 px-2 items-center justify-center gap-1 rounded-full border text-[11px] transition-colors ${
+              quantizeToFrames
+                ? 'border-violet-500/50 bg-violet-500/15 text-violet-200'
+                : 'border-white/10 bg-white/[0.04] text-neutral-300 hover:bg-white/[0.1]'
+            }`}
+            title="Quantize: the playhead, keyframes and clips land on frame boundaries"
+          >
+            <Film className="h-3 w-3" />
+            <span>Quantize</span>
+          </button>
+          <select
+            value={showFrames ? 'frames' : 'seconds'}
+            onChange={(e) => setShowFrames(e.target.value === 'frames')}
+            className="h-7 rounded-full border border-white/10 bg-white/[0.04] px-2 text-[11px] text-neutral-300 focus:outline-none"
+            title="Ruler units"
+          >
+            <option value="seconds">Seconds</option>
+            <option value="frames">Frames</option>
+          </select>
+          <button
+            onClick={() => zoomFromControls(zoom / 2)}
+            disabled={zoom <= 1}
+            className="inline-flex h-7 w-7 items-center justify-center rounded-full text-neutral-400 hover:bg-white/[0.1] hover:text-white transition-colors disabled:opacity-40"
+            title="Zoom out"
+          >
+            <ZoomOut className="h-3 w-3" />
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={Math.log2(maxZoom)}
+            step={0.01}
+            value={Math.log2(Math.min(zoom, maxZoom))}
+            onChange={(e) => zoomFromControls(2 ** Number(e.target.value))}
+            className="w-24 accent-violet-500"
+            title="Zoom (Ctrl+wheel over the timeline)"
+          />
+          <button
+            onClick={() => zoomFromControls(zoom * 2)}
+            disabled={zoom >= maxZoom}
+            className="inline-flex h-7 w-7 items-center justify-center rounded-full text-neutral-400 hover:bg-white/[0.1] hover:text-white transition-colors disabled:opacity-40"
+            title="Zoom in"
+          >
+            <ZoomIn className="h-3 w-3" />
+          </button>
         </div>
       </div>
 
+      {/* Curve Editor for the selected keyframes */}
+      {isCurveEditorOpen && curveEditorFrame && (
+        <div className="absolute right-4 top-12 z-50">
+          <CurveEditor
+            easing={curveEditorFrame.easing}
+            title={
+              selectedKeyframes.length === 1
+                ? `${selectedKeyframes[0].property} → ${formatTime(selectedKeyframes[0].time)}`
+                : `${selectedKeyframes.length} keyframes`
+            }
+            onChange={(easing) =>
+              selectedKeyframes.forEach((ref) => timeline.setKeyframeEasing(ref.layerId, ref.property, ref.time, easing))
+            }
+            onClose={() => setIsCurveEditorOpen(false)}
+          />
+        </div>
+      )}
+
       <div className="flex flex-1 overflow-hidden min-h-0">
         {/* Full Width Timeline */}
-        <div className="flex-1 flex flex-col overflow-hidden relative min-h-0">
+        <div ref={tracksViewportRef} className="flex-1 flex flex-col overflow-hidden relative min-h-0">
           {/* Playhead */}
-          <div
-            className="absolute top-0 bottom-0 w-[2px] bg-rose-500 z-10 pointer-events-none"
-            style={{ left: `calc(200px + ${(Math.min(currentTime, safeDuration) / safeDuration) * (100 - (200 / (typeof window !== 'undefined' ? window.innerWidth : 1920)) * 100)}%)` }}
-          />
+          {currentTime >= viewLeft && currentTime <= viewLeft + viewSpan && (
+            <div
+              className={`absolute top-0 w-[2px] bg-rose-500 z-10 pointer-events-none ${isGraphMode ? 'h-8' : 'bottom-0'}`}
+              style={{ left: `calc(200px + (100% - 200px) * ${(currentTime - viewLeft) / viewSpan})` }}
+            />
+          )}
 
           {/* Time Ruler */}
           <div className="flex h-8 border-b border-white/5 bg-white/[0.01] shrink-0">
@@ -719,32 +1006,74 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
             </div>
             <div
               ref={timelineAreaRef}
-              className="flex-1 relative cursor-col-resize"
+              className="flex-1 relative cursor-col-resize overflow-hidden"
               onPointerDown={handleScrubStart}
             >
+              {workArea && (
+                <div
+                  className="absolute top-0 bottom-0 bg-sky-500/15 border-x border-sky-400/60 z-[1]"
+                  style={{
+                    left: `${toPercent(workArea.start)}%`,
+                    width: `${spanPercent(workArea.end - workArea.start)}%`,
+                  }}
+                  title={`Work area ${formatTimecodeOrTime(workArea.start)} – ${formatTimecodeOrTime(workArea.end)} (shift+drag to redraw)`}
+                >
+                  {/* In / out handles */}
+                  {(['in', 'out'] as const).map((edge) => (
+                    <div
+                      key={edge}
+                      className={`absolute top-0 bottom-0 w-1.5 cursor-ew-resize hover:bg-sky-400/50 ${edge === 'in' ? 'left-0' : 'right-0'}`}
+                      title={edge === 'in' ? 'Drag the in point (I sets it at the playhead)' : 'Drag the out point (O sets it at the playhead)'}
+                      onPointerDown={(e) => {
+                        e.stopPropagation()
+                        const onMove = (ev: PointerEvent) => timeline.setWorkAreaPoint(edge, timeFromClientX(ev.clientX))
+
+                        const onUp = () => {
+                          window.removeEventListener('pointermove', onMove)
+                          window.removeEventListener('pointerup', onUp)
+                        }
+
+                        window.addEventListener('pointermove', onMove)
+                        window.addEventListener('pointerup', onUp)
+                      }}
+                    />
+                  ))}
+                  <button
+                    onPointerDown={(e) => e.stopPropagation()}
+                    onClick={() => timeline.setWorkArea(null)}
+                    className="absolute -top-0.5 right-2 text-[10px] leading-none text-sky-300 hover:text-white"
+                    title="Clear work area"
+                  >
+                    ×
+                  </button>
+                </div>
+              )}
               <div className="absolute inset-0 pointer-events-none">
                 <div className="flex h-full w-full">
-                  {Array.from({ length: Math.max(2, Math.ceil(safeDuration / 1000) + 1) }).map((_, idx) => {
-                    const left = (idx * 1000) / safeDuration * 100
-                    return (
-                      <div key={idx} className="absolute top-0 bottom-0 border-l border-white/5 text-[10px] text-neutral-500" style={{ left: `${left}%` }}>
-                        <span className="absolute top-1 left-1">{idx}s</span>
-                      </div>
-                    )
-                  })}
+                  {rulerTicks.map((tick) => (
+                    <div key={tick.time} className="absolute top-0 bottom-0 border-l border-white/5 text-[10px] text-neutral-500" style={{ left: `${toPercent(tick.time)}%` }}>
+                      <span className="absolute top-1 left-1 font-mono whitespace-nowrap">{tick.label}</span>
+                    </div>
+                  ))}
                 </div>
               </div>
             </div>
           </div>
 
-          {/* Timeline Tracks */}
+          {/* Graph Editor replaces the tracks for the selected layer */}
+          {isGraphMode ? (
+            <div className="flex-1 min-h-0">
+              <GraphEditor layerId={selectedLayerId || undefined} />
+            </div>
+          ) : (
+          /* Timeline Tracks */
           <div className="flex-1 overflow-y-auto min-h-0">
-            {layers.length === 0 && (
+            {layers.length === 0 && audioTracks.length === 0 && (
               <div className="flex items-center justify-center h-full text-[12px] text-neutral-500">
                 Add a shape to populate the timeline.
               </div>
             )}
-            {orderedLayers.map((layer, idx) => {
+            {layerRows.map(({ layer, index: idx, depth, hasChildren }) => {
               const clips = templateClips.filter((c) => c.layerId === layer.id).sort((a, b) => a.start - b.start)
               const isCollapsed = collapsedLayers[layer.id]
               
@@ -752,8 +1081,8 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
               const minStart = clips.length > 0 ? clips[0].start : 0
               const maxEnd = clips.length > 0 ? clips[clips.length - 1].start + clips[clips.length - 1].duration : 0
               const summaryDuration = maxEnd - minStart
-              const summaryLeft = (minStart / safeDuration) * 100
-              const summaryWidth = Math.max(0, (summaryDuration / safeDuration) * 100)
+              const summaryLeft = toPercent(minStart)
+              const summaryWidth = Math.max(0, spanPercent(summaryDuration))
 
               return (
                 <div
@@ -766,6 +1095,7 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
                   >
                     <div 
                       className="w-[200px] border-r border-white/5 flex items-center px-2 gap-2 cursor-grab active:cursor-grabbing"
+                      style={{ paddingLeft: 8 + depth * 12 }}
                       draggable
                       onDragStart={(e) => {
                         e.stopPropagation()
@@ -812,20 +1142,39 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
                       >
                         {isCollapsed ? <ChevronRight className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
                       </div>
+                      <button
+                        className={`flex-shrink-0 transition-colors ${keyframeRowsOpen[layer.id] ? 'text-fuchsia-400' : 'text-neutral-600 hover:text-neutral-300'}`}
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          setKeyframeRowsOpen((prev) => ({ ...prev, [layer.id]: !prev[layer.id] }))
+                        }}
+                        title="Show keyframes"
+                      >
+                        <Diamond className="h-3 w-3" />
+                      </button>
+                      {hasChildren && (
+                        <button
+                          className="flex-shrink-0 text-amber-400/80 hover:text-amber-300 transition-colors"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            setCollapsedGroups((prev) => ({ ...prev, [layer.id]: !prev[layer.id] }))
+                          }}
+                          title={collapsedGroups[layer.id] ? 'Expand group' : 'Collapse group'}
+                        >
+                          {collapsedGroups[layer.id] ? <Folder className="h-3 w-3" /> : <FolderOpen className="h-3 w-3" />}
+                        </button>
+                      )}
                       <span className="text-[11px] font-medium text-neutral-200 truncate select-none flex-1">
-                        {layer.type === 'text' ? 'Text' : layer.type === 'image' ? 'Image' : (layer.shapeKind ? `${layer.shapeKind.charAt(0).toUpperCase()}${layer.shapeKind.slice(1)}` : 'Layer')} {idx + 1}
+                        {layer.type === 'group' ? 'Group' : layer.type === 'precomp' ? 'Comp' : layer.type === 'text' ? 'Text' : layer.type === 'image' ? 'Image' : (layer.shapeKind ? `${layer.shapeKind.charAt(0).toUpperCase()}${layer.shapeKind.slice(1)}` : 'Layer')} {idx + 1}
                       </span>
                     </div>
-                    <div className="flex-1 relative border-l border-white/5">
+                    <div className="flex-1 relative border-l border-white/5 overflow-hidden">
                       {/* Grid lines for header */}
                       <div className="absolute inset-0 pointer-events-none opacity-20">
                         <div className="flex h-full w-full">
-                          {Array.from({ length: Math.max(2, Math.ceil(safeDuration / 1000) + 1) }).map((_, i) => {
-                            const left = (i * 1000) / safeDuration * 100
-                            return (
-                              <div key={i} className="absolute top-0 bottom-0 border-l border-white/10" style={{ left: `${left}%` }} />
-                            )
-                          })}
+                          {rulerTicks.map((tick) => (
+                            <div key={tick.time} className="absolute top-0 bottom-0 border-l border-white/10" style={{ left: `${toPercent(tick.time)}%` }} />
+                          ))}
                         </div>
                       </div>
                       
@@ -837,8 +1186,8 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
                         const startTime = isOptimistic ? optimisticLayer!.startTime : (track?.startTime ?? 0)
                         const duration = isOptimistic ? optimisticLayer!.duration : (track?.duration ?? 2000)
                         
-                        const left = (startTime / safeDuration) * 100
-                        const width = Math.max(0, (duration / safeDuration) * 100)
+                        const left = toPercent(startTime)
+                        const width = Math.max(0, spanPercent(duration))
                         
                         // Check if locked (has children)
                         const hasClips = clips.length > 0
@@ -852,7 +1201,10 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
                               ${isOptimistic ? 'bg-purple-500/60 border-purple-500/80' : selectedLayerId === layer.id ? 'bg-purple-500/60 border-purple-500' : 'bg-purple-500/40 border-purple-500/50 hover:bg-purple-500/50'}
                             `}
                             style={{ left: `${left}%`, width: `${width}%` }}
-                            onClick={() => onSelectLayer?.(layer.id)}
+                            onClick={() => {
+                              setSelectedKeyframes([])
+                              onSelectLayer?.(layer.id)
+                            }}
                             onPointerDown={(e) => handleLayerDragStart(e, layer.id, startTime, duration)}
                           >
                              {/* Label */}
@@ -876,7 +1228,7 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
                       {clickMarkers
                         .filter((m) => m.layerId === layer.id)
                         .map((marker) => {
-                          const markerLeft = (marker.time / safeDuration) * 100
+                          const markerLeft = toPercent(marker.time)
                           return (
                             <div
                               key={marker.id}
@@ -892,7 +1244,7 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
                                 const baseTime = marker.time
                                 
                                 const onMove = (ev: PointerEvent) => {
-                                  const pxPerMs = rect.width / safeDuration
+                                  const pxPerMs = rect.width / viewSpan
                                   const deltaMs = (ev.clientX - startX) / pxPerMs
                                   const newTime = Math.max(0, Math.min(safeDuration, baseTime + deltaMs))
                                   timeline.updateClickMarker(marker.id, newTime)
@@ -918,8 +1270,8 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
                     const isOptimistic = optimisticClip?.id === clip.id
                     const start = isOptimistic ? optimisticClip!.start : clip.start
                     const duration = isOptimistic ? optimisticClip!.duration : clip.duration
-                    const left = (start / safeDuration) * 100
-                    const width = Math.max(2, (duration / safeDuration) * 100)
+                    const left = toPercent(start)
+                    const width = Math.max(2, spanPercent(duration))
                     const isSelected = clip.id === selectedClipId
                     const clipClasses = [
                       'absolute top-1/2 -translate-y-1/2 h-6 rounded-md border px-2 text-[10px] text-white flex items-center gap-1 shadow-lg overflow-hidden transition-all',
@@ -932,7 +1284,10 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
                         {/* Clip Label Column */}
                         <div 
                           className="w-[200px] border-r border-white/5 flex items-center px-8 cursor-pointer hover:bg-white/[0.04]"
-                          onClick={() => onClipClick?.({ id: clip.id, template: clip.template as string })}
+                          onClick={() => {
+                            setSelectedKeyframes([])
+                            onClipClick?.({ id: clip.id, template: clip.template as string })
+                          }}
                         >
                           <span className="text-[10px] text-neutral-400 truncate capitalize select-none">
                             {clip.template}
@@ -940,16 +1295,13 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
                         </div>
                         
                         {/* Clip Track Area */}
-                        <div className="flex-1 relative cursor-default border-l border-white/5">
+                        <div className="flex-1 relative cursor-default border-l border-white/5 overflow-hidden">
                            {/* Grid lines for clip row */}
                            <div className="absolute inset-0 pointer-events-none opacity-20">
                             <div className="flex h-full w-full">
-                              {Array.from({ length: Math.max(2, Math.ceil(safeDuration / 1000) + 1) }).map((_, i) => {
-                                const left = (i * 1000) / safeDuration * 100
-                                return (
-                                  <div key={i} className="absolute top-0 bottom-0 border-l border-white/10" style={{ left: `${left}%` }} />
-                                )
-                              })}
+                              {rulerTicks.map((tick) => (
+                                <div key={tick.time} className="absolute top-0 bottom-0 border-l border-white/10" style={{ left: `${toPercent(tick.time)}%` }} />
+                              ))}
                             </div>
                           </div>
 
@@ -958,6 +1310,7 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
                             style={{ left: `${left}%`, width: `${width}%` }}
                             onClick={(e) => {
                               e.stopPropagation()
+                              setSelectedKeyframes([])
                               onClipClick?.({ id: clip.id, template: clip.template as string })
                             }}
                             onPointerDown={(e) => startMove(e, clip)}
@@ -978,8 +1331,8 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
                   {!isCollapsed && effectClips
                     .filter((c) => c.layerId === layer.id)
                     .map((clip) => {
-                      const left = (clip.start / safeDuration) * 100
-                      const width = Math.max(2, (clip.duration / safeDuration) * 100)
+                      const left = toPercent(clip.start)
+                      const width = Math.max(2, spanPercent(clip.duration))
                       
                       return (
                         <div key={clip.id} className="flex h-8 border-t border-white/5 hover:bg-white/[0.02] transition-colors">
@@ -991,22 +1344,19 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
                           </div>
                           
                           {/* Effect Track Area */}
-                          <div className="flex-1 relative cursor-default border-l border-white/5">
+                          <div className="flex-1 relative cursor-default border-l border-white/5 overflow-hidden">
                             {/* Grid lines for effect row */}
                             <div className="absolute inset-0 pointer-events-none opacity-20">
                               <div className="flex h-full w-full">
-                                {Array.from({ length: Math.max(2, Math.ceil(safeDuration / 1000) + 1) }).map((_, i) => {
-                                  const gridLeft = (i * 1000) / safeDuration * 100
-                                  return (
-                                    <div key={i} className="absolute top-0 bottom-0 border-l border-white/10" style={{ left: `${gridLeft}%` }} />
-                                  )
-                                })}
+                                {rulerTicks.map((tick) => (
+                                  <div key={tick.time} className="absolute top-0 bottom-0 border-l border-white/10" style={{ left: `${toPercent(tick.time)}%` }} />
+                                ))}
                               </div>
                             </div>
 
-                            {/* Effect Clip Bar */}
+                            {/* Effect Clip Bar (dimmed while bypassed in the effect stack) */}
                             <div
-                              className="absolute top-1/2 -translate-y-1/2 h-6 rounded-md border px-2 text-[10px] text-white flex items-center gap-1 shadow-lg overflow-hidden transition-all bg-gradient-to-r from-purple-500/40 to-purple-600/40 border-purple-500/50 hover:brightness-110 cursor-grab"
+                              className={`absolute top-1/2 -translate-y-1/2 h-6 rounded-md border px-2 text-[10px] text-white flex items-center gap-1 shadow-lg overflow-hidden transition-all bg-gradient-to-r from-purple-500/40 to-purple-600/40 border-purple-500/50 hover:brightness-110 cursor-grab ${isEffectEnabled(clip) ? '' : 'opacity-40'}`}
                               style={{ left: `${left}%`, width: `${width}%` }}
                               onPointerDown={(e) => {
                                 e.stopPropagation()
@@ -1016,7 +1366,7 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
                                 const baseStart = clip.start
                                 
                                 const onMove = (ev: PointerEvent) => {
-                                  const pxPerMs = rect.width / safeDuration
+                                  const pxPerMs = rect.width / viewSpan
                                   const deltaMs = (ev.clientX - startX) / pxPerMs
                                   const newStart = Math.max(0, baseStart + deltaMs)
                                   timeline.updateEffectClip(clip.id, { start: newStart })
@@ -1032,6 +1382,14 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
                               }}
                             >
                               <span className="font-semibold capitalize truncate select-none">✨ {clip.effectType}</span>
+                              {/* Param keyframes, times relative to the clip */}
+                              {getEffectKeyframeTimes(clip).map((time) => (
+                                <div
+                                  key={time}
+                                  className="absolute bottom-0.5 h-1.5 w-1.5 -translate-x-1/2 rotate-45 bg-amber-300/80 pointer-events-none"
+                                  style={{ left: `${(time / Math.max(1, clip.duration)) * 100}%` }}
+                                />
+                              ))}
                               {/* Resize Handle */}
                               <div
                                 className="absolute right-0 top-0 h-full w-3 cursor-col-resize bg-white/15 z-10 hover:bg-white/30 transition-colors"
@@ -1043,7 +1401,7 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
                                   const baseDuration = clip.duration
                                   
                                   const onMove = (ev: PointerEvent) => {
-                                    const pxPerMs = rect.width / safeDuration
+                                    const pxPerMs = rect.width / viewSpan
                                     const deltaMs = (ev.clientX - startX) / pxPerMs
                                     const newDuration = Math.max(100, baseDuration + deltaMs)
                                     timeline.updateEffectClip(clip.id, { duration: newDuration })
@@ -1065,10 +1423,193 @@ export default function TimelinePanel({ layers, layerOrder = [], onReorderLayers
                       )
                     })
                   }
+
+                  {/* Keyframe Rows - one per property; diamonds select / drag, segments open the curve editor */}
+                  {!isCollapsed && keyframeRowsOpen[layer.id] && KEYFRAME_PROPERTIES.map(({ key, label }) => {
+                    const frames = (tracks.find((t) => t.layerId === layer.id)?.[key] ?? []) as TimelineKeyframe<unknown>[]
+                    // Selected keyframes follow the pointer while dragging
+                    const shown = frames
+                      .map((frame) => {
+                        const selected = isKeyframeSelected(layer.id, key, frame.time)
+                        const time = selected && keyframeDragDelta !== null ? Math.max(0, frame.time + keyframeDragDelta) : frame.time
+                        return { frame, selected, time }
+                      })
+                      .sort((a, b) => a.time - b.time)
+
+                    return (
+                      <div key={key} className="flex h-6 border-t border-white/5 hover:bg-white/[0.02] transition-colors">
+                        <div className="w-[200px] border-r border-white/5 flex items-center px-8">
+                          <span className="text-[10px] text-neutral-500 truncate select-none">{label}</span>
+                        </div>
+                        <div className="flex-1 relative cursor-default border-l border-white/5 overflow-hidden">
+                          {shown.slice(1).map(({ frame, time }, i) => {
+                            const prevTime = shown[i].time
+                            return (
+                              <div
+                                key={`${shown[i].frame.time}-${frame.time}`}
+                                className="absolute top-1/2 -translate-y-1/2 h-1.5 rounded-sm bg-white/[0.08] hover:bg-white/[0.16] cursor-pointer transition-colors"
+                                style={{
+                                  left: `${toPercent(prevTime)}%`,
+                                  width: `${spanPercent(time - prevTime)}%`,
+                                }}
+                                title={`${label} ${formatTime(prevTime)} → ${formatTime(time)} (${formatEasing(frame.easing)})`}
+                                onClick={() => {
+                                  setSelectedKeyframes([{ layerId: layer.id, property: key, time: frame.time }])
+                                  setIsCurveEditorOpen(true)
+                                }}
+                              />
+                            )
+                          })}
+                          {shown.map(({ frame, selected, time }) => (
+                            <div
+                              key={frame.time}
+                              className={`absolute top-1/2 w-2.5 h-2.5 border cursor-grab active:cursor-grabbing z-10 ${
+                                selected ? 'bg-fuchsia-400 border-white' : 'bg-neutral-300 border-neutral-500 hover:bg-white'
+                              }`}
+                              style={{ left: `${toPercent(time)}%`, transform: 'translate(-50%, -50%) rotate(45deg)' }}
+                              title={`${label} at ${formatTime(frame.time)} (${formatEasing(frame.easing)})`}
+                              onPointerDown={(e) => handleKeyframePointerDown(e, { layerId: layer.id, property: key, time: frame.time })}
+                              onDoubleClick={() => {
+                                setSelectedKeyframes([{ layerId: layer.id, property: key, time: frame.time }])
+                                setIsCurveEditorOpen(true)
+                              }}
+                            />
+                          ))}
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              )
+            })}
+
+            {/* Audio tracks: waveform with beat markers, drag to move */}
+            {audioTracks.map((audio) => {
+              const peaks = audio.waveform
+              const outline = peaks.length
+                ? [
+                    ...peaks.map((p, i) => `${i},${(0.5 - p / 2).toFixed(3)}`),
+                    ...peaks.map((p, i) => `${i},${(0.5 + p / 2).toFixed(3)}`).reverse(),
+                  ].join(' ')
+                : ''
+              return (
+                <div key={audio.id} className="flex h-10 border-b border-white/5 bg-white/[0.02] hover:bg-white/[0.04] transition-colors">
+                  <div className="w-[200px] border-r border-white/5 flex items-center px-2 gap-2">
+                    <Music className="h-3 w-3 flex-shrink-0 text-emerald-400/80" />
+                    <span className="text-[11px] font-medium text-neutral-200 truncate select-none flex-1" title={audio.name}>
+                      {audio.name}
+                    </span>
+                    <button
+                      className="flex-shrink-0 text-neutral-500 hover:text-neutral-200 transition-colors"
+                      onClick={() => timeline.updateAudioTrack(audio.id, { muted: !audio.muted })}
+                      title={audio.muted ? 'Unmute' : 'Mute'}
+                    >
+                      {audio.muted ? <VolumeX className="h-3 w-3" /> : <Volume2 className="h-3 w-3" />}
+                    </button>
+                    <button
+                      className="flex-shrink-0 text-neutral-600 hover:text-rose-400 transition-colors"
+                      onClick={() => timeline.removeAudioTrack(audio.id)}
+                      title="Remove audio"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </div>
+                  <div className="flex-1 relative border-l border-white/5 overflow-hidden">
+                    <div
+                      className={`absolute top-1 bottom-1 rounded-sm border cursor-grab active:cursor-grabbing ${
+                        audio.muted ? 'bg-neutral-500/10 border-neutral-500/30' : 'bg-emerald-500/15 border-emerald-500/40'
+                      }`}
+                      style={{
+                        left: `${toPercent(audio.start)}%`,
+                        width: `${spanPercent(audio.duration)}%`,
+                      }}
+                      title={`${audio.name} at ${formatTime(audio.start)}`}
+                      onPointerDown={(e) => {
+                        e.stopPropagation()
+                        const rect = timelineAreaRef.current?.getBoundingClientRect()
+                        if (!rect) return
+                        const startX = e.clientX
+                        const baseStart = audio.start
+
+                        const onMove = (ev: PointerEvent) => {
+                          const pxPerMs = rect.width / viewSpan
+                          const deltaMs = (ev.clientX - startX) / pxPerMs
+                          timeline.updateAudioTrack(audio.id, { start: Math.round(baseStart + deltaMs) })
+                        }
+
+                        const onUp = () => {
+                          window.removeEventListener('pointermove', onMove)
+                          window.removeEventListener('pointerup', onUp)
+                        }
+
+                        window.addEventListener('pointermove', onMove)
+                        window.addEventListener('pointerup', onUp)
+                      }}
+                    >
+                      {outline && (
+                        <svg
+                          className={`absolute inset-0 h-full w-full pointer-events-none ${audio.muted ? 'text-neutral-500/40' : 'text-emerald-400/60'}`}
+                          viewBox={`0 0 ${Math.max(1, peaks.length - 1)} 1`}
+                          preserveAspectRatio="none"
+                        >
+                          <polygon points={outline} fill="currentColor" />
+                        </svg>
+                      )}
+                      {audio.beats.map((beat) => (
+                        <div
+                          key={beat}
+                          className="absolute top-0 bottom-0 w-px bg-amber-300/50 pointer-events-none"
+                          style={{ left: `${(beat / Math.max(1, audio.duration)) * 100}%` }}
+                        />
+                      ))}
+                    </div>
+                  </div>
                 </div>
               )
             })}
           </div>
+          )}
+
+          {/* Horizontal scrollbar while zoomed in */}
+          {!isGraphMode && zoom > 1 && (
+            <div className="flex h-3 shrink-0 border-t border-white/5">
+              <div className="w-[200px] border-r border-white/5" />
+              <div
+                className="flex-1 relative"
+                onPointerDown={(e) => {
+                  // Clicking the track jumps the window there
+                  const rect = e.currentTarget.getBoundingClientRect()
+                  const center = ((e.clientX - rect.left) / rect.width) * safeDuration
+                  setViewStart(Math.max(0, Math.min(safeDuration - viewSpan, center - viewSpan / 2)))
+                }}
+              >
+                <div
+                  className="absolute top-0.5 bottom-0.5 rounded-full bg-white/15 hover:bg-white/25 cursor-grab active:cursor-grabbing"
+                  style={{ left: `${(viewLeft / safeDuration) * 100}%`, width: `${(viewSpan / safeDuration) * 100}%` }}
+                  onPointerDown={(e) => {
+                    e.stopPropagation()
+                    const rect = e.currentTarget.parentElement?.getBoundingClientRect()
+                    if (!rect) return
+                    const startX = e.clientX
+                    const baseStart = viewLeft
+
+                    const onMove = (ev: PointerEvent) => {
+                      const deltaMs = ((ev.clientX - startX) / rect.width) * safeDuration
+                      setViewStart(Math.max(0, Math.min(safeDuration - viewSpan, baseStart + deltaMs)))
+                    }
+
+                    const onUp = () => {
+                      window.removeEventListener('pointermove', onMove)
+                      window.removeEventListener('pointerup', onUp)
+                    }
+
+                    window.addEventListener('pointermove', onMove)
+                    window.addEventListener('pointerup', onUp)
+                  }}
+                />
+              </div>
+            </div>
+          )}
         </div>
       </div>
     </div>
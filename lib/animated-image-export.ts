@@ -0,0 +1,108 @@
+/**
+ * Animated Image Export
+ *
+ * GIF and APNG output built on the shared frame stepping in frame-export.
+ * GIF frames are always palette based; APNG keeps full RGBA unless a palette
+ * size is chosen, in which case frames are posterized to shrink the file.
+ */
+
+import { getFrameTimes, renderFrames } from './frame-export'
+import type { FrameExportOptions } from './frame-export'
+import { quantizeFrame } from './color-quantizer'
+import type { DitherMode } from './color-quantizer'
+import { GifEncoder } from './gif-encoder'
+import { ApngEncoder } from './apng-encoder'
+
+export type AnimatedImageFormat = 'gif' | 'apng'
+
+export interface AnimatedImageOptions {
+  format: AnimatedImageFormat
+  // Palette size (2-256); null keeps full color (APNG only)
+  colors: number | null
+  dither: DitherMode
+  // 0 = loop forever, n = play n times
+  loopCount: number
+  // Frames dropped between kept frames (0 = keep all, 1 = every other frame, ...)
+  frameSkip: number
+}
+
+export type AnimatedImageExportOptions = FrameExportOptions & AnimatedImageOptions
+
+export const PALETTE_SIZES = [256, 128, 64, 32, 16]
+
+/**
+ * Frame rate actually written once frame skipping is applied
+ */
+export const getEffectiveFps = (fps: number, frameSkip: number) => fps / (Math.max(0, frameSkip) + 1)
+
+/**
+ * Rough output size (bytes) shown before exporting. Assumes flat motion
+ * graphics, which LZW/deflate compress well; dithering adds noise and costs more.
+ */
+export function estimateAnimatedImageSize(
+  settings: AnimatedImageOptions & { width: number; height: number; fps: number; duration: number }
+): number {
+  const fps = getEffectiveFps(settings.fps, settings.frameSkip)
+  const frames = getFrameTimes(settings.duration, fps).length
+  const pixels = settings.width * settings.height
+  const ditherFactor = settings.dither === 'floyd-steinberg' ? 2.2 : settings.dither === 'ordered' ? 1.6 : 1
+
+  let bitsPerPixel: number
+  if (settings.format === 'gif' || settings.colors !== null) {
+    const colors = settings.colors ?? 256
+    bitsPerPixel = Math.log2(colors) * 0.12 * ditherFactor
+  } else {
+    bitsPerPixel = 32 * 0.08
+  }
+  const paletteBytes = settings.format === 'gif' ? (settings.colors ?? 256) * 3 : 0
+  return Math.round(frames * ((pixels * bitsPerPixel) / 8 + paletteBytes + 32))
+}
+
+/**
+ * Render the composition and encode it as an animated GIF or APNG
+ */
+export async function exportAnimatedImage(options: AnimatedImageExportOptions): Promise<Blob> {
+  const { format, width, height, dither, loopCount } = options
+  const fps = getEffectiveFps(options.fps, options.frameSkip)
+  const frameDuration = 1000 / fps
+  const colors = format === 'gif' ? Math.max(2, Math.min(256, options.colors ?? 256)) : options.colors
+  const frameOptions = { ...options, fps }
+
+  if (format === 'gif') {
+    const encoder = new GifEncoder({ width, height, loopCount })
+    await renderFrames(frameOptions, (canvas, index) => {
+      const pixels = readPixels(canvas, width, height)
+      // GIF delays are whole 1/100s; round cumulative time so the total duration doesn't drift
+      const delay = (Math.round(((index + 1) * frameDuration) / 10) - Math.round((index * frameDuration) / 10)) * 10
+      encoder.addFrame(quantizeFrame(pixels, width, height, colors ?? 256, dither), delay)
+    })
+    return encoder.finish()
+  }
+
+  const frameCount = getFrameTimes(options.duration, fps).length
+  const encoder = new ApngEncoder({ width, height, frameCount, loopCount })
+  await renderFrames(frameOptions, async (canvas) => {
+    const pixels = readPixels(canvas, width, height)
+    if (colors !== null) posterize(pixels, width, height, colors, dither)
+    await encoder.addFrame(pixels, frameDuration)
+  })
+  return encoder.finish()
+}
+
+const readPixels = (canvas: HTMLCanvasElement, width: number, height: number) => {
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Could not read export frame pixels')
+  return ctx.getImageData(0, 0, width, height).data
+}
+
+// Replace RGB values in place with their palette colors (alpha is kept)
+const posterize = (pixels: Uint8ClampedArray, width: number, height: number, colors: number, dither: DitherMode) => {
+  const { palette, indices } = quantizeFrame(pixels, width, height, colors, dither)
+  for (let p = 0; p < indices.length; p++) {
+    if (indices[p] === palette.transparentIndex) continue
+    const [r, g, b] = palette.colors[indices[p]]
+    pixels[p * 4] = r
+    pixels[p * 4 + 1] = g
+    pixels[p * 4 + 2] = b
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * APNG Encoder
+ *
+ * Writes an animated PNG (RGBA, 8 bits per channel) frame by frame.
+ * Scanlines use the Sub filter and are compressed with the browser's
+ * built-in zlib stream (CompressionStream('deflate')).
+ */
+
+import { crc32 } from './crc32'
+
+export interface ApngEncoderOptions {
+  width: number
+  height: number
+  frameCount: number // must be known up front for the acTL chunk
+  // 0 = loop forever, n = play n times
+  loopCount: number
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+
+const chunk = (type: string, data: Uint8Array) => {
+  const out = new Uint8Array(12 + data.length)
+  const view = new DataView(out.buffer)
+  view.setUint32(0, data.length)
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i)
+  out.set(data, 8)
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)))
+  return out
+}
+
+const uint32Bytes = (...values: number[]) => {
+  const out = new Uint8Array(values.length * 4)
+  const view = new DataView(out.buffer)
+  values.forEach((v, i) => view.setUint32(i * 4, v))
+  return out
+}
+
+/**
+ * zlib-compress bytes with CompressionStream
+ */
+const deflate = async (bytes: Uint8Array) => {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new CompressionStream('deflate'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * Whether the browser can compress PNG data
+ */
+export const isApngSupported = () => typeof CompressionStream !== 'undefined'
+
+export class ApngEncoder {
+  private parts: Uint8Array[] = []
+  private width: number
+  private height: number
+  private sequence = 0
+  private frameIndex = 0
+
+  constructor({ width, height, frameCount, loopCount }: ApngEncoderOptions) {
+    this.width = width
+    this.height = height
+
+    this.parts.push(new Uint8Array(PNG_SIGNATURE))
+    const ihdr = new Uint8Array(13)
+    const view = new DataView(ihdr.buffer)
+    view.setUint32(0, width)
+    view.setUint32(4, height)
+    ihdr[8] = 8 // bit depth
+    ihdr[9] = 6 // color type: RGBA
+    this.parts.push(chunk('IHDR', ihdr))
+    this.parts.push(chunk('acTL', uint32Bytes(frameCount, loopCount)))
+  }
+
+  /**
+   * Append an RGBA frame shown for `delay` ms
+   */
+  async addFrame(pixels: Uint8ClampedArray, delay: number) {
+    const { width, height } = this
+    const fctl = new Uint8Array(26)
+    const view = new DataView(fctl.buffer)
+    view.setUint32(0, this.sequence++)
+    view.setUint32(4, width)
+    view.setUint32(8, height)
+    view.setUint32(12, 0) // x offset
+    view.setUint32(16, 0) // y offset
+    view.setUint16(20, Math.max(1, Math.round(delay))) // delay numerator
+    view.setUint16(22, 1000) // delay denominator (ms)
+    fctl[24] = 0 // dispose: none
+    fctl[25] = 0 // blend: source (frame replaces the canvas)
+    this.parts.push(chunk('fcTL', fctl))
+
+    // Sub filter: each byte stores the difference to the pixel on its left
+    const stride = width * 4
+    const raw = new Uint8Array((stride + 1) * height)
+    for (let y = 0; y < height; y++) {
+      const row = y * (stride + 1)
+      raw[row] = 1
+      for (let x = 0; x < stride; x++) {
+        const current = pixels[y * stride + x]
+        const left = x >= 4 ? pixels[y * stride + x - 4] : 0
+        raw[row + 1 + x] = (current - left) & 0xff
+      }
+    }
+    const data = await deflate(raw)
+
+    if (this.frameIndex === 0) {
+      this.parts.push(chunk('IDAT', data))
+    } else {
+      const fdat = new Uint8Array(4 + data.length)
+      new DataView(fdat.buffer).setUint32(0, this.sequence++)
+      fdat.set(data, 4)
+      this.parts.push(chunk('fdAT', fdat))
+    }
+    this.frameIndex++
+  }
+
+  /**
+   * Finish the file and return it as a Blob
+   */
+  finish(): Blob {
+    this.parts.push(chunk('IEND', new Uint8Array(0)))
+    return new Blob(this.parts as BlobPart[], { type: 'image/apng' })
+  }
+}
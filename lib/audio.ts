@@ -0,0 +1,431 @@
+/**
+ * Audio
+ *
+ * Imported audio files placed on the timeline. Files are kept as data URLs so
+ * they travel with the project file; decoding, the waveform overview and the
+ * beat markers are all computed in the browser with Web Audio.
+ *
+ * Preview playback follows the timeline store (play, pause, seek, loop and
+ * playback rate); exporters render the mix offline for an exact time span.
+ *
+ * Audio drivers make layer properties react to a track. They read loudness
+ * envelopes computed once at import, so every render of a given time gives
+ * the same value no matter how playback got there.
+ */
+
+import type { TimelineState } from './timeline-store'
+
+export type AudioBand = 'rms' | 'bass' | 'mid' | 'treble'
+
+export const AUDIO_BANDS: Array<{ key: AudioBand; label: string }> = [
+  { key: 'rms', label: 'Level' },
+  { key: 'bass', label: 'Bass' },
+  { key: 'mid', label: 'Mid' },
+  { key: 'treble', label: 'Treble' },
+]
+
+export interface AudioTrack {
+  id: string
+  name: string
+  src: string // data URL of the imported file
+  start: number // ms on the timeline where the file begins
+  duration: number // ms, length of the file
+  volume: number // 0-1
+  muted?: boolean
+  waveform: number[] // peak level per bucket across the file, 0-1
+  beats: number[] // detected onsets, ms from the start of the file
+  envelopes?: Record<AudioBand, number[]> // RMS per band at ENVELOPE_RATE, 0-1
+}
+
+export type DriverProperty = 'scale' | 'opacity' | 'rotation' | 'glowIntensity' | 'pulseScale'
+
+/**
+ * Maps the level of one band of an audio track onto a numeric layer property
+ */
+export interface AudioDriver {
+  id: string
+  layerId: string
+  audioTrackId: string
+  property: DriverProperty
+  band: AudioBand
+  gain: number // level multiplier before mapping, clipped at full level
+  smoothing: number // 0-0.99, how slowly the level falls back after a hit
+  min: number // property value at silence
+  max: number // property value at full level
+}
+
+// How each property combines with the layer's own animation, and a sensible default range
+export const DRIVER_PROPERTIES: Array<{
+  key: DriverProperty
+  label: string
+  min: number
+  max: number
+  step: number
+  range: [number, number]
+}> = [
+  { key: 'scale', label: 'Scale (x)', min: 0, max: 3, step: 0.05, range: [1, 1.3] },
+  { key: 'opacity', label: 'Opacity (x)', min: 0, max: 1, step: 0.05, range: [0.4, 1] },
+  { key: 'rotation', label: 'Rotation (+deg)', min: -180, max: 180, step: 1, range: [0, 15] },
+  { key: 'glowIntensity', label: 'Glow intensity', min: 0, max: 10, step: 0.1, range: [0, 6] },
+  { key: 'pulseScale', label: 'Pulse scale', min: 0.05, max: 1, step: 0.01, range: [0.05, 0.6] },
+]
+
+export type DrivenValues = Partial<Record<DriverProperty, number>>
+
+export const ENVELOPE_RATE = 50 // envelope samples per second
+const BASS_CUTOFF = 200 // Hz
+const TREBLE_CUTOFF = 4000 // Hz
+
+export const WAVEFORM_BUCKETS = 400
+
+// Onset detection window; ~11ms hops at 44.1kHz
+const ONSET_FRAME_SIZE = 1024
+const ONSET_HOP_SIZE = 512
+// Frames on each side used for the adaptive threshold
+const ONSET_THRESHOLD_RADIUS = 16
+const ONSET_THRESHOLD_SCALE = 1.5
+const MIN_BEAT_SPACING = 100 // ms
+
+// Resync preview playback when the playhead is this far from the audio clock
+const RESYNC_THRESHOLD = 80 // ms
+
+let sharedContext: AudioContext | null = null
+const decodeCache = new Map<string, Promise<AudioBuffer>>()
+
+const getAudioContext = () => {
+  if (!sharedContext) sharedContext = new AudioContext()
+  return sharedContext
+}
+
+/**
+ * Decode a track's file. Results are cached per source, so every caller shares one buffer.
+ */
+export function decodeAudio(src: string): Promise<AudioBuffer> {
+  let pending = decodeCache.get(src)
+  if (!pending) {
+    pending = fetch(src)
+      .then((res) => res.arrayBuffer())
+      .then((data) => getAudioContext().decodeAudioData(data))
+    // A failed decode should be retried next time, not cached
+    pending.catch(() => decodeCache.delete(src))
+    decodeCache.set(src, pending)
+  }
+  return pending
+}
+
+const mixDown = (buffer: AudioBuffer): Float32Array => {
+  const mono = new Float32Array(buffer.length)
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    const data = buffer.getChannelData(ch)
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels
+  }
+  return mono
+}
+
+/**
+ * Peak level of each of `buckets` equal slices of the file, normalized so the loudest is 1
+ */
+export function computePeaks(buffer: AudioBuffer, buckets = WAVEFORM_BUCKETS): number[] {
+  const mono = mixDown(buffer)
+  const size = Math.max(1, Math.floor(mono.length / buckets))
+  const peaks = Array.from({ length: buckets }, (_, b) => {
+    let peak = 0
+    const end = Math.min(mono.length, (b + 1) * size)
+    for (let i = b * size; i < end; i++) peak = Math.max(peak, Math.abs(mono[i]))
+    return peak
+  })
+  const max = Math.max(...peaks, 0)
+  return max > 0 ? peaks.map((p) => Math.round((p / max) * 1000) / 1000) : peaks
+}
+
+/**
+ * Onset (beat) times in ms from the start of the file.
+ * Onset strength is the rise in log energy between analysis frames; a frame
+ * counts when it is a local peak above the surrounding average, and onsets
+ * closer than MIN_BEAT_SPACING keep only the first.
+ */
+export function detectOnsets(buffer: AudioBuffer): number[] {
+  const mono = mixDown(buffer)
+  const frameCount = Math.floor((mono.length - ONSET_FRAME_SIZE) / ONSET_HOP_SIZE) + 1
+  if (frameCount < 3) return []
+
+  const energy = Array.from({ length: frameCount }, (_, f) => {
+    let sum = 0
+    const offset = f * ONSET_HOP_SIZE
+    for (let i = 0; i < ONSET_FRAME_SIZE; i++) sum += mono[offset + i] * mono[offset + i]
+    return Math.log1p((sum / ONSET_FRAME_SIZE) * 1000)
+  })
+  const strength = energy.map((e, f) => (f === 0 ? 0 : Math.max(0, e - energy[f - 1])))
+
+  const msPerFrame = (ONSET_HOP_SIZE / buffer.sampleRate) * 1000
+  const onsets: number[] = []
+  for (let f = 1; f < frameCount - 1; f++) {
+    if (strength[f] <= strength[f - 1] || strength[f] < strength[f + 1]) continue
+    const from = Math.max(0, f - ONSET_THRESHOLD_RADIUS)
+    const to = Math.min(frameCount, f + ONSET_THRESHOLD_RADIUS + 1)
+    let mean = 0
+    for (let i = from; i < to; i++) mean += strength[i]
+    mean /= to - from
+    if (strength[f] < mean * ONSET_THRESHOLD_SCALE + 0.01) continue
+    const time = Math.round(f * msPerFrame)
+    if (onsets.length && time - onsets[onsets.length - 1] < MIN_BEAT_SPACING) continue
+    onsets.push(time)
+  }
+  return onsets
+}
+
+/**
+ * RMS level of the whole signal and of the bass, mid and treble bands, one
+ * value per 1/ENVELOPE_RATE s, each normalized so its loudest window is 1.
+ * Bands are split with one-pole filters in a single pass over the samples.
+ */
+export function computeEnvelopes(buffer: AudioBuffer): Record<AudioBand, number[]> {
+  const mono = mixDown(buffer)
+  const windowSize = Math.max(1, Math.round(buffer.sampleRate / ENVELOPE_RATE))
+  const bassK = 1 - Math.exp((-2 * Math.PI * BASS_CUTOFF) / buffer.sampleRate)
+  const trebleK = 1 - Math.exp((-2 * Math.PI * TREBLE_CUTOFF) / buffer.sampleRate)
+  const envelopes: Record<AudioBand, number[]> = { rms: [], bass: [], mid: [], treble: [] }
+  const sums: Record<AudioBand, number> = { rms: 0, bass: 0, mid: 0, treble: 0 }
+  let low = 0
+  let belowTreble = 0
+
+  for (let i = 0; i < mono.length; i++) {
+    const sample = mono[i]
+    low += bassK * (sample - low)
+    belowTreble += trebleK * (sample - belowTreble)
+    sums.rms += sample * sample
+    sums.bass += low * low
+    sums.mid += (belowTreble - low) * (belowTreble - low)
+    sums.treble += (sample - belowTreble) * (sample - belowTreble)
+    if ((i + 1) % windowSize === 0 || i === mono.length - 1) {
+      const count = (i % windowSize) + 1
+      AUDIO_BANDS.forEach(({ key }) => {
+        envelopes[key].push(Math.sqrt(sums[key] / count))
+        sums[key] = 0
+      })
+    }
+  }
+
+  AUDIO_BANDS.forEach(({ key }) => {
+    const max = envelopes[key].reduce((m, v) => Math.max(m, v), 0)
+    envelopes[key] = envelopes[key].map((v) => (max > 0 ? Math.round((v / max) * 1000) / 1000 : 0))
+  })
+  return envelopes
+}
+
+// Smoothed envelopes, per source array and smoothing amount
+const followerCache = new WeakMap<number[], Map<number, number[]>>()
+
+// Instant attack, exponential release; always run from the start so any time gives the same value
+const followEnvelope = (envelope: number[], smoothing: number): number[] => {
+  if (smoothing <= 0) return envelope
+  let bySmoothing = followerCache.get(envelope)
+  if (!bySmoothing) {
+    bySmoothing = new Map()
+    followerCache.set(envelope, bySmoothing)
+  }
+  let followed = bySmoothing.get(smoothing)
+  if (!followed) {
+    let level = 0
+    followed = envelope.map((v) => {
+      level = Math.max(v, level * smoothing)
+      return level
+    })
+    bySmoothing.set(smoothing, followed)
+  }
+  return followed
+}
+
+/**
+ * Level (0-1) of one band of a track at timeline `time`; 0 outside the file
+ */
+export function sampleAudioLevel(track: AudioTrack, band: AudioBand, smoothing: number, time: number): number {
+  const envelope = track.envelopes?.[band]
+  if (!envelope?.length) return 0
+  const position = ((time - track.start) / 1000) * ENVELOPE_RATE
+  if (position < 0 || position > envelope.length - 1) return 0
+  const followed = followEnvelope(envelope, Math.min(0.99, Math.max(0, smoothing)))
+  const i = Math.floor(position)
+  const next = followed[Math.min(followed.length - 1, i + 1)]
+  return followed[i] + (next - followed[i]) * (position - i)
+}
+
+/**
+ * Values the audio drivers of a layer produce at `time`. Multipliers (scale,
+ * opacity) and rotation offsets from several drivers stack; the others take
+ * the last driver's value. Muted tracks still drive, so a silent guide track works.
+ */
+export function evaluateAudioDrivers(
+  layerId: string,
+  drivers: AudioDriver[],
+  tracks: AudioTrack[],
+  time: number
+): DrivenValues {
+  const values: DrivenValues = {}
+  drivers.forEach((driver) => {
+    if (driver.layerId !== layerId) return
+    const track = tracks.find((t) => t.id === driver.audioTrackId)
+    if (!track) return
+    const level = Math.min(1, Math.max(0, driver.gain * sampleAudioLevel(track, driver.band, driver.smoothing, time)))
+    const value = driver.min + (driver.max - driver.min) * level
+    switch (driver.property) {
+      case 'scale':
+      case 'opacity':
+        values[driver.property] = (values[driver.property] ?? 1) * value
+        break
+      case 'rotation':
+        values.rotation = (values.rotation ?? 0) + value
+        break
+      default:
+        values[driver.property] = value
+    }
+  })
+  return values
+}
+
+/**
+ * Decode an imported file into a track placed at `start`
+ */
+export async function createAudioTrack(file: File, start: number): Promise<AudioTrack> {
+  const src = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read audio file'))
+    reader.readAsDataURL(file)
+  })
+  const buffer = await decodeAudio(src)
+  return {
+    id: crypto.randomUUID(),
+    name: file.name.replace(/\.[^.]+$/, '') || 'Audio',
+    src,
+    start: Math.max(0, Math.round(start)),
+    duration: Math.round(buffer.duration * 1000),
+    volume: 1,
+    waveform: computePeaks(buffer),
+    beats: detectOnsets(buffer),
+    envelopes: computeEnvelopes(buffer),
+  }
+}
+
+/**
+ * Beat times on the timeline (ms) for every audible track, for snapping
+ */
+export function getBeatTimes(tracks: AudioTrack[]): number[] {
+  return tracks.flatMap((track) => (track.muted ? [] : track.beats.map((beat) => track.start + beat)))
+}
+
+/**
+ * Mix every unmuted track over [startTime, startTime + duration) into one buffer
+ */
+export async function renderAudioMix(
+  tracks: AudioTrack[],
+  startTime: number,
+  duration: number,
+  sampleRate = 48000
+): Promise<AudioBuffer> {
+  const length = Math.max(1, Math.ceil((duration / 1000) * sampleRate))
+  const ctx = new OfflineAudioContext(2, length, sampleRate)
+  const buffers = await Promise.all(tracks.map((track) => (track.muted ? null : decodeAudio(track.src))))
+  tracks.forEach((track, i) => {
+    const buffer = buffers[i]
+    if (!buffer) return
+    const source = ctx.createBufferSource()
+    source.buffer = buffer
+    const gain = ctx.createGain()
+    gain.gain.value = track.volume
+    source.connect(gain).connect(ctx.destination)
+    const delay = (track.start - startTime) / 1000
+    source.start(Math.max(0, delay), Math.max(0, -delay))
+  })
+  return ctx.startRendering()
+}
+
+/**
+ * Plays the audio tracks in step with the timeline store. Call `sync` on
+ * every store change; it restarts the sources only when the playhead jumps
+ * (seek, loop), the rate changes or the tracks themselves change.
+ */
+export class AudioPlayer {
+  private sources: AudioBufferSourceNode[] = []
+  private anchor: { contextTime: number; timelineTime: number; rate: number; tracks: AudioTrack[] } | null = null
+  private decoded = new Map<string, AudioBuffer>()
+  // Sources that would not decode; skipped instead of retried on every resync
+  private failed = new Set<string>()
+
+  sync(state: Pick<TimelineState, 'isPlaying' | 'currentTime' | 'playbackRate'>, tracks: AudioTrack[]) {
+    if (!state.isPlaying || !tracks.length) {
+      this.stop()
+      return
+    }
+    const ctx = getAudioContext()
+    if (ctx.state === 'suspended') void ctx.resume()
+
+    if (this.anchor) {
+      const expected = this.anchor.timelineTime + (ctx.currentTime - this.anchor.contextTime) * 1000 * this.anchor.rate
+      const inStep =
+        Math.abs(expected - state.currentTime) < RESYNC_THRESHOLD &&
+        this.anchor.rate === state.playbackRate &&
+        this.anchor.tracks === tracks
+      if (inStep) return
+    }
+    this.start(ctx, state, tracks)
+  }
+
+  stop() {
+    this.sources.forEach((source) => {
+      source.onended = null
+      try {
+        source.stop()
+      } catch {
+        // Never started
+      }
+      source.disconnect()
+    })
+    this.sources = []
+    this.anchor = null
+  }
+
+  private start(
+    ctx: AudioContext,
+    state: Pick<TimelineState, 'currentTime' | 'playbackRate'>,
+    tracks: AudioTrack[]
+  ) {
+    this.stop()
+    const rate = state.playbackRate
+    tracks.forEach((track) => {
+      if (track.muted || this.failed.has(track.src)) return
+      const buffer = this.decoded.get(track.src)
+      if (!buffer) {
+        // Not decoded yet: schedule it and pick it up on the next resync
+        void decodeAudio(track.src)
+          .then((decodedBuffer) => {
+            this.decoded.set(track.src, decodedBuffer)
+            this.anchor = null
+          })
+          .catch((err) => {
+            this.failed.add(track.src)
+            console.error('Failed to decode audio track', track.name, err)
+          })
+        return
+      }
+      const offset = state.currentTime - track.start
+      if (offset >= buffer.duration * 1000) return
+      const source = ctx.createBufferSource()
+      source.buffer = buffer
+      source.playbackRate.value = rate
+      const gain = ctx.createGain()
+      gain.gain.value = track.volume
+      source.connect(gain).connect(ctx.destination)
+      // A track that starts later waits in real time, so scale the gap by the rate
+      source.start(ctx.currentTime + Math.max(0, -offset) / 1000 / rate, Math.max(0, offset) / 1000)
+      this.sources.push(source)
+    })
+    this.anchor = { contextTime: ctx.currentTime, timelineTime: state.currentTime, rate, tracks }
+  }
+
+  dispose() {
+    this.stop()
+    this.decoded.clear()
+    this.failed.clear()
+  }
+}
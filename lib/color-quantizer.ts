@@ -0,0 +1,244 @@
+/**
+ * Color Quantizer
+ *
+ * Median-cut palette generation plus dithered remapping for palette-based
+ * exports (GIF, reduced-color APNG). Works directly on RGBA ImageData bytes.
+ * Pixels with alpha below ALPHA_THRESHOLD are treated as fully transparent
+ * and never take part in the palette.
+ */
+
+export type DitherMode = 'none' | 'floyd-steinberg' | 'ordered'
+
+export interface Palette {
+  colors: Array<[number, number, number]>
+  // Index reserved for transparent pixels, or -1 when the frame is fully opaque
+  transparentIndex: number
+}
+
+export interface IndexedFrame {
+  palette: Palette
+  indices: Uint8Array // one palette index per pixel
+}
+
+export const ALPHA_THRESHOLD = 128
+export const DITHER_MODES: DitherMode[] = ['none', 'floyd-steinberg', 'ordered']
+
+// Histogram works on 5 bits per channel (32 * 32 * 32 bins)
+const BIN_BITS = 5
+const BIN_SHIFT = 8 - BIN_BITS
+const BIN_COUNT = 1 << (BIN_BITS * 3)
+
+const binIndex = (r: number, g: number, b: number) =>
+  ((r >> BIN_SHIFT) << (BIN_BITS * 2)) | ((g >> BIN_SHIFT) << BIN_BITS) | (b >> BIN_SHIFT)
+
+// 4x4 Bayer matrix, values 0..15
+const BAYER_4X4 = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5]
+
+interface ColorBox {
+  bins: number[]
+}
+
+const boxStats = (box: ColorBox, histogram: Uint32Array) => {
+  let rMin = 255, gMin = 255, bMin = 255
+  let rMax = 0, gMax = 0, bMax = 0
+  let count = 0
+  box.bins.forEach((bin) => {
+    const r = (bin >> (BIN_BITS * 2)) & 31
+    const g = (bin >> BIN_BITS) & 31
+    const b = bin & 31
+    rMin = Math.min(rMin, r); rMax = Math.max(rMax, r)
+    gMin = Math.min(gMin, g); gMax = Math.max(gMax, g)
+    bMin = Math.min(bMin, b); bMax = Math.max(bMax, b)
+    count += histogram[bin]
+  })
+  const ranges = [rMax - rMin, gMax - gMin, bMax - bMin]
+  const channel = ranges.indexOf(Math.max(...ranges))
+  return { count, range: ranges[channel], channel }
+}
+
+const channelOf = (bin: number, channel: number) =>
+  channel === 0 ? (bin >> (BIN_BITS * 2)) & 31 : channel === 1 ? (bin >> BIN_BITS) & 31 : bin & 31
+
+/**
+ * Build a palette of at most `maxColors` entries (2-256, including the
+ * transparent slot when the image has transparent pixels).
+ */
+export function buildPalette(pixels: Uint8ClampedArray, maxColors: number): Palette {
+  const histogram = new Uint32Array(BIN_COUNT)
+  const sums = new Float64Array(BIN_COUNT * 3)
+  let hasTransparency = false
+
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i + 3] < ALPHA_THRESHOLD) {
+      hasTransparency = true
+      continue
+    }
+    const bin = binIndex(pixels[i], pixels[i + 1], pixels[i + 2])
+    histogram[bin]++
+    sums[bin * 3] += pixels[i]
+    sums[bin * 3 + 1] += pixels[i + 1]
+    sums[bin * 3 + 2] += pixels[i + 2]
+  }
+
+  const limit = Math.max(1, Math.min(256, maxColors) - (hasTransparency ? 1 : 0))
+  const used: number[] = []
+  for (let bin = 0; bin < BIN_COUNT; bin++) {
+    if (histogram[bin] > 0) used.push(bin)
+  }
+
+  // Median cut: keep splitting the most populous box with any spread left
+  const boxes: ColorBox[] = used.length > 0 ? [{ bins: used }] : []
+  while (boxes.length < limit) {
+    let target = -1
+    let best = 0
+    boxes.forEach((box, i) => {
+      const { count, range } = boxStats(box, histogram)
+      const score = range > 0 ? count * range : 0
+      if (score > best) {
+        best = score
+        target = i
+      }
+    })
+    if (target < 0) break
+
+    const box = boxes[target]
+    const { count, channel } = boxStats(box, histogram)
+    box.bins.sort((a, b) => channelOf(a, channel) - channelOf(b, channel))
+    let running = 0
+    let split = 1
+    for (let i = 0; i < box.bins.length - 1; i++) {
+      running += histogram[box.bins[i]]
+      split = i + 1
+      if (running >= count / 2) break
+    }
+    boxes.splice(target, 1, { bins: box.bins.slice(0, split) }, { bins: box.bins.slice(split) })
+  }
+
+  const colors = boxes.map((box): [number, number, number] => {
+    let r = 0, g = 0, b = 0, n = 0
+    box.bins.forEach((bin) => {
+      r += sums[bin * 3]
+      g += sums[bin * 3 + 1]
+      b += sums[bin * 3 + 2]
+      n += histogram[bin]
+    })
+    return n > 0 ? [Math.round(r / n), Math.round(g / n), Math.round(b / n)] : [0, 0, 0]
+  })
+  if (colors.length === 0) colors.push([0, 0, 0])
+
+  let transparentIndex = -1
+  if (hasTransparency) {
+    transparentIndex = colors.length
+    colors.push([0, 0, 0])
+  }
+  return { colors, transparentIndex }
+}
+
+/**
+ * Nearest palette entry lookup, cached per histogram bin
+ */
+const createMatcher = (palette: Palette) => {
+  const cache = new Int16Array(BIN_COUNT).fill(-1)
+  const opaqueCount = palette.transparentIndex >= 0 ? palette.colors.length - 1 : palette.colors.length
+  return (r: number, g: number, b: number) => {
+    const bin = binIndex(r, g, b)
+    const cached = cache[bin]
+    if (cached >= 0) return cached
+    let best = 0
+    let bestDistance = Infinity
+    for (let i = 0; i < opaqueCount; i++) {
+      const [pr, pg, pb] = palette.colors[i]
+      const distance = (pr - r) * (pr - r) * 2 + (pg - g) * (pg - g) * 4 + (pb - b) * (pb - b) * 3
+      if (distance < bestDistance) {
+        bestDistance = distance
+        best = i
+      }
+    }
+    cache[bin] = best
+    return best
+  }
+}
+
+const clampByte = (value: number) => (value < 0 ? 0 : value > 255 ? 255 : value | 0)
+
+/**
+ * Map every pixel onto the palette with the chosen dithering
+ */
+export function remapPixels(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  palette: Palette,
+  dither: DitherMode
+): Uint8Array {
+  const indices = new Uint8Array(width * height)
+  const match = createMatcher(palette)
+  const opaqueCount = palette.transparentIndex >= 0 ? palette.colors.length - 1 : palette.colors.length
+  // Ordered dither spread shrinks as the palette grows
+  const spread = 255 / Math.max(2, Math.cbrt(opaqueCount))
+  const errors = dither === 'floyd-steinberg' ? new Float32Array(width * height * 3) : null
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x
+      const i = p * 4
+      if (pixels[i + 3] < ALPHA_THRESHOLD && palette.transparentIndex >= 0) {
+        indices[p] = palette.transparentIndex
+        continue
+      }
+
+      let r = pixels[i]
+      let g = pixels[i + 1]
+      let b = pixels[i + 2]
+      if (errors) {
+        r = clampByte(r + errors[p * 3])
+        g = clampByte(g + errors[p * 3 + 1])
+        b = clampByte(b + errors[p * 3 + 2])
+      } else if (dither === 'ordered') {
+        const offset = (BAYER_4X4[(y & 3) * 4 + (x & 3)] / 16 - 0.5) * spread
+        r = clampByte(r + offset)
+        g = clampByte(g + offset)
+        b = clampByte(b + offset)
+      }
+
+      const index = match(r, g, b)
+      indices[p] = index
+
+      if (errors) {
+        const [pr, pg, pb] = palette.colors[index]
+        const er = r - pr
+        const eg = g - pg
+        const eb = b - pb
+        // Floyd-Steinberg weights: right 7/16, down-left 3/16, down 5/16, down-right 1/16
+        const spreadError = (dx: number, dy: number, weight: number) => {
+          const nx = x + dx
+          const ny = y + dy
+          if (nx < 0 || nx >= width || ny >= height) return
+          const n = (ny * width + nx) * 3
+          errors[n] += er * weight
+          errors[n + 1] += eg * weight
+          errors[n + 2] += eb * weight
+        }
+        spreadError(1, 0, 7 / 16)
+        spreadError(-1, 1, 3 / 16)
+        spreadError(0, 1, 5 / 16)
+        spreadError(1, 1, 1 / 16)
+      }
+    }
+  }
+  return indices
+}
+
+/**
+ * Quantize a full RGBA frame to at most `maxColors` colors
+ */
+export function quantizeFrame(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  maxColors: number,
+  dither: DitherMode
+): IndexedFrame {
+  const palette = buildPalette(pixels, maxColors)
+  return { palette, indices: remapPixels(pixels, width, height, palette, dither) }
+}
@@ -0,0 +1,113 @@
+/**
+ * Color
+ *
+ * Conversions between the 0xRRGGBB numbers layers store, CSS hex strings and
+ * the spaces color tracks interpolate in. OKLab keeps perceived lightness
+ * even across a blend (no muddy midpoint between complementary colors); HSL
+ * walks the hue wheel, which suits rainbow-style shifts.
+ */
+
+export type ColorSpace = 'oklab' | 'hsl' | 'rgb'
+
+export const COLOR_SPACES: ColorSpace[] = ['oklab', 'hsl', 'rgb']
+
+type Triplet = [number, number, number]
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v))
+
+const toRgb = (color: number): Triplet => [((color >> 16) & 255) / 255, ((color >> 8) & 255) / 255, (color & 255) / 255]
+
+const fromRgb = ([r, g, b]: Triplet) =>
+  (Math.round(clamp01(r) * 255) << 16) | (Math.round(clamp01(g) * 255) << 8) | Math.round(clamp01(b) * 255)
+
+/**
+ * Parse '#rgb' / '#rrggbb' (with or without #) into 0xRRGGBB. Invalid input gives black.
+ */
+export function hexToColor(hex: string): number {
+  const clean = hex.replace('#', '')
+  const full = clean.length === 3 ? clean.split('').map((c) => c + c).join('') : clean
+  const value = parseInt(full, 16)
+  return Number.isFinite(value) ? value & 0xffffff : 0
+}
+
+export function colorToHex(color: number): string {
+  return `#${(color & 0xffffff).toString(16).padStart(6, '0')}`
+}
+
+const toLinear = (c: number) => (c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4))
+const fromLinear = (c: number) => (c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055)
+
+// https://bottosson.github.io/posts/oklab/
+const rgbToOklab = (rgb: Triplet): Triplet => {
+  const [r, g, b] = rgb.map(toLinear)
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b)
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b)
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b)
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ]
+}
+
+const oklabToRgb = ([L, a, b]: Triplet): Triplet => {
+  const l = Math.pow(L + 0.3963377774 * a + 0.2158037573 * b, 3)
+  const m = Math.pow(L - 0.1055613458 * a - 0.0638541728 * b, 3)
+  const s = Math.pow(L - 0.0894841775 * a - 1.291485548 * b, 3)
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+  ].map((c) => fromLinear(clamp01(c))) as Triplet
+}
+
+const rgbToHsl = ([r, g, b]: Triplet): Triplet => {
+  const max = Math.max(r, g, b)
+  const min = Math.min(r, g, b)
+  const l = (max + min) / 2
+  if (max === min) return [0, 0, l]
+  const d = max - min
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min)
+  const h = max === r ? (g - b) / d + (g < b ? 6 : 0) : max === g ? (b - r) / d + 2 : (r - g) / d + 4
+  return [h * 60, s, l]
+}
+
+const hslToRgb = ([h, s, l]: Triplet): Triplet => {
+  const k = (n: number) => (n + h / 30) % 12
+  const a = s * Math.min(l, 1 - l)
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1))
+  return [f(0), f(8), f(4)]
+}
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t
+
+/**
+ * Blend two 0xRRGGBB colors. `t` is clamped to 0-1, so overshooting easings
+ * hold the end colors instead of leaving the gamut.
+ */
+export function interpolateColor(from: number, to: number, t: number, space: ColorSpace = 'oklab'): number {
+  const k = clamp01(t)
+  if (k === 0) return from
+  if (k === 1) return to
+  const a = toRgb(from)
+  const b = toRgb(to)
+  switch (space) {
+    case 'hsl': {
+      const [h1, s1, l1] = rgbToHsl(a)
+      const [h2, s2, l2] = rgbToHsl(b)
+      // Shortest way around the wheel; a grey end keeps the other end's hue
+      const start = s1 === 0 ? h2 : h1
+      const end = s2 === 0 ? h1 : h2
+      const delta = ((end - start + 540) % 360) - 180
+      return fromRgb(hslToRgb([(start + delta * k + 360) % 360, lerp(s1, s2, k), lerp(l1, l2, k)]))
+    }
+    case 'rgb':
+      return fromRgb([lerp(a[0], b[0], k), lerp(a[1], b[1], k), lerp(a[2], b[2], k)])
+    case 'oklab':
+    default: {
+      const la = rgbToOklab(a)
+      const lb = rgbToOklab(b)
+      return fromRgb(oklabToRgb([lerp(la[0], lb[0], k), lerp(la[1], lb[1], k), lerp(la[2], lb[2], k)]))
+    }
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Effect Stack
+ *
+ * Per-layer effect clips run as an ordered stack: the layer's clips apply in
+ * the order they sit in `effectClips`, each can be bypassed, composited with a
+ * blend mode, and have its numeric params keyframed. Param keyframe times are
+ * relative to the clip start, so they travel with the clip when it moves.
+ */
+
+import { sampleNumberTrack } from './timeline'
+import type { TimelineKeyframe } from './timeline'
+import type { TimelineState } from './timeline-store'
+
+type EffectClip = TimelineState['effectClips'][number]
+
+export type EffectClipType = EffectClip['effectType']
+
+// Numeric clip params that can be keyframed
+export type EffectParamKey =
+  | 'glowIntensity'
+  | 'glowDistance'
+  | 'shadowDistance'
+  | 'shadowBlur'
+  | 'shadowRotation'
+  | 'shadowAlpha'
+  | 'blurStrength'
+  | 'glitchSlices'
+  | 'glitchOffset'
+  | 'pixelSize'
+  | 'adjustGamma'
+  | 'adjustSaturation'
+  | 'adjustContrast'
+  | 'adjustBrightness'
+  | 'adjustRed'
+  | 'adjustGreen'
+  | 'adjustBlue'
+  | 'splitAmount'
+  | 'splitAngle'
+  | 'motionAmount'
+  | 'motionAngle'
+  | 'zoomStrength'
+  | 'zoomInnerRadius'
+  | 'noiseAmount'
+  | 'outlineThickness'
+  | 'outlineAlpha'
+  | 'bloomThreshold'
+  | 'bloomScale'
+  | 'bloomBrightness'
+  | 'bloomBlur'
+  | 'shockAmplitude'
+  | 'shockWavelength'
+  | 'shockSpeed'
+  | 'shockBrightness'
+  | 'crtCurvature'
+  | 'crtLineWidth'
+  | 'crtLineContrast'
+  | 'crtNoise'
+  | 'crtVignetting'
+  | 'particleSpeed'
+
+export type EffectKeyframes = Partial<Record<EffectParamKey, TimelineKeyframe<number>[]>>
+
+export interface EffectParamSpec {
+  key: EffectParamKey
+  label: string
+  min: number
+  max: number
+  step: number
+  default: number
+}
+
+const PARTICLE_PARAMS: EffectParamSpec[] = [
+  { key: 'particleSpeed', label: 'Speed', min: 0.1, max: 3, step: 0.1, default: 1 },
+]
+
+export const EFFECT_PARAMS: Record<EffectClipType, EffectParamSpec[]> = {
+  glow: [
+    { key: 'glowIntensity', label: 'Intensity', min: 0, max: 10, step: 0.1, default: 2 },
+    { key: 'glowDistance', label: 'Distance', min: 1, max: 40, step: 1, default: 15 },
+  ],
+  dropShadow: [
+    { key: 'shadowDistance', label: 'Distance', min: 0, max: 50, step: 1, default: 5 },
+    { key: 'shadowBlur', label: 'Blur', min: 0, max: 20, step: 0.5, default: 2 },
+    { key: 'shadowRotation', label: 'Angle', min: 0, max: 360, step: 1, default: 45 },
+    { key: 'shadowAlpha', label: 'Opacity', min: 0, max: 1, step: 0.05, default: 0.5 },
+  ],
+  blur: [{ key: 'blurStrength', label: 'Strength', min: 0, max: 40, step: 0.5, default: 4 }],
+  glitch: [
+    { key: 'glitchSlices', label: 'Slices', min: 1, max: 20, step: 1, default: 5 },
+    { key: 'glitchOffset', label: 'Offset', min: 0, max: 100, step: 1, default: 10 },
+  ],
+  pixelate: [{ key: 'pixelSize', label: 'Size', min: 2, max: 50, step: 1, default: 10 }],
+  colorAdjust: [
+    { key: 'adjustBrightness', label: 'Brightness', min: 0, max: 3, step: 0.05, default: 1 },
+    { key: 'adjustContrast', label: 'Contrast', min: 0, max: 3, step: 0.05, default: 1 },
+    { key: 'adjustSaturation', label: 'Saturation', min: 0, max: 3, step: 0.05, default: 1 },
+    { key: 'adjustGamma', label: 'Gamma', min: 0.1, max: 3, step: 0.05, default: 1 },
+    { key: 'adjustRed', label: 'Red', min: 0, max: 3, step: 0.05, default: 1 },
+    { key: 'adjustGreen', label: 'Green', min: 0, max: 3, step: 0.05, default: 1 },
+    { key: 'adjustBlue', label: 'Blue', min: 0, max: 3, step: 0.05, default: 1 },
+  ],
+  rgbSplit: [
+    { key: 'splitAmount', label: 'Amount', min: 0, max: 30, step: 0.5, default: 5 },
+    { key: 'splitAngle', label: 'Angle', min: 0, max: 360, step: 1, default: 0 },
+  ],
+  zoomBlur: [
+    { key: 'zoomStrength', label: 'Strength', min: 0, max: 0.5, step: 0.01, default: 0.1 },
+    { key: 'zoomInnerRadius', label: 'Clear Center', min: 0, max: 200, step: 1, default: 0 },
+  ],
+  motionBlur: [
+    { key: 'motionAmount', label: 'Amount', min: 0, max: 80, step: 1, default: 20 },
+    { key: 'motionAngle', label: 'Angle', min: 0, max: 360, step: 1, default: 0 },
+  ],
+  noise: [{ key: 'noiseAmount', label: 'Grain', min: 0, max: 1, step: 0.01, default: 0.3 }],
+  outline: [
+    { key: 'outlineThickness', label: 'Thickness', min: 0, max: 20, step: 0.5, default: 4 },
+    { key: 'outlineAlpha', label: 'Opacity', min: 0, max: 1, step: 0.05, default: 1 },
+  ],
+  bloom: [
+    { key: 'bloomThreshold', label: 'Threshold', min: 0, max: 1, step: 0.01, default: 0.5 },
+    { key: 'bloomScale', label: 'Intensity', min: 0, max: 3, step: 0.05, default: 1 },
+    { key: 'bloomBrightness', label: 'Brightness', min: 0, max: 3, step: 0.05, default: 1 },
+    { key: 'bloomBlur', label: 'Radius', min: 0, max: 20, step: 0.5, default: 8 },
+  ],
+  shockwave: [
+    { key: 'shockAmplitude', label: 'Amplitude', min: 0, max: 100, step: 1, default: 30 },
+    { key: 'shockWavelength', label: 'Wavelength', min: 10, max: 400, step: 5, default: 160 },
+    { key: 'shockSpeed', label: 'Speed', min: 50, max: 2000, step: 10, default: 500 },
+    { key: 'shockBrightness', label: 'Brightness', min: 0, max: 2, step: 0.05, default: 1 },
+  ],
+  crt: [
+    { key: 'crtCurvature', label: 'Curvature', min: 0, max: 10, step: 0.1, default: 1 },
+    { key: 'crtLineWidth', label: 'Line Width', min: 0, max: 5, step: 0.1, default: 1 },
+    { key: 'crtLineContrast', label: 'Line Contrast', min: 0, max: 1, step: 0.01, default: 0.25 },
+    { key: 'crtNoise', label: 'Noise', min: 0, max: 1, step: 0.01, default: 0.3 },
+    { key: 'crtVignetting', label: 'Vignette', min: 0, max: 1, step: 0.01, default: 0.3 },
+  ],
+  sparkles: PARTICLE_PARAMS,
+  confetti: PARTICLE_PARAMS,
+  snow: PARTICLE_PARAMS,
+  smoke: PARTICLE_PARAMS,
+  fireworks: PARTICLE_PARAMS,
+  hearts: PARTICLE_PARAMS,
+  bubbles: PARTICLE_PARAMS,
+}
+
+// Blend modes Pixi composites without extra imports
+export const EFFECT_BLEND_MODES = ['normal', 'add', 'multiply', 'screen'] as const
+
+export type EffectBlendMode = (typeof EFFECT_BLEND_MODES)[number]
+
+export const isEffectEnabled = (clip: EffectClip) => clip.enabled !== false
+
+/**
+ * Value of `key` at `localTime` ms into the clip: its keyframes when it has
+ * any, else the static param, else the default
+ */
+export function sampleEffectParam(clip: EffectClip, key: EffectParamKey, localTime: number): number {
+  const fallback = clip.params[key] ?? EFFECT_PARAMS[clip.effectType].find((p) => p.key === key)?.default ?? 0
+  return sampleNumberTrack(clip.keyframes?.[key], localTime, fallback)
+}
+
+/**
+ * Every time (relative to the clip start) any param of the clip is keyed at
+ */
+export const getEffectKeyframeTimes = (clip: EffectClip) =>
+  [...new Set(Object.values(clip.keyframes ?? {}).flatMap((frames) => frames?.map((f) => f.time) ?? []))].sort((a, b) => a - b)
+
+/**
+ * The effect clips of one layer, in stack order
+ */
+export const getLayerEffectStack = (effectClips: EffectClip[], layerId: string) =>
+  effectClips.filter((c) => c.layerId === layerId)
+
+/**
+ * `effectClips` with one layer's clips rearranged into `orderedIds`; other
+ * layers' clips keep their places
+ */
+export function reorderLayerEffects(effectClips: EffectClip[], layerId: string, orderedIds: string[]): EffectClip[] {
+  const stack = getLayerEffectStack(effectClips, layerId)
+  const ordered = [
+    ...orderedIds.map((id) => stack.find((c) => c.id === id)).filter((c): c is EffectClip => !!c),
+    ...stack.filter((c) => !orderedIds.includes(c.id)),
+  ]
+  let next = 0
+  return effectClips.map((c) => (c.layerId === layerId ? ordered[next++] : c))
+}
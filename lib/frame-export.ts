@@ -0,0 +1,146 @@
+/**
+ * Frame Export
+ *
+ * Shared plumbing for every raster exporter: walks the timeline frame by frame,
+ * asks the canvas to render each one and composites it over the project
+ * background. Encoders (video, gif, png, ...) only deal with finished frames.
+ */
+
+import type { BackgroundSettings } from './history-manager'
+import { evaluateBackground } from './scene-evaluator'
+import { frameToTime } from './timeline'
+import type { BackgroundTracks } from './timeline'
+
+/**
+ * Something that can show the composition at a given time and hand back pixels.
+ * MotionCanvas implements this on top of its Pixi stage.
+ */
+export interface FrameSource {
+  // Move the playhead and resolve once the stage reflects it
+  seek: (time: number) => Promise<void>
+  // Render the stage (without editor chrome) at the requested pixel size
+  capture: (width: number, height: number) => HTMLCanvasElement
+}
+
+export interface ExportProgress {
+  frame: number // frames finished so far
+  totalFrames: number
+}
+
+export interface FrameExportOptions {
+  source: FrameSource
+  fps: number
+  startTime?: number // ms, first frame (defaults to 0)
+  duration: number // ms, rendered span after startTime
+  width: number // px
+  height: number // px
+  background?: BackgroundSettings // omitted = transparent
+  backgroundTracks?: BackgroundTracks // animated background colors
+  signal?: AbortSignal
+  onProgress?: (progress: ExportProgress) => void
+}
+
+export const EXPORT_CANCELLED_MESSAGE = 'Export cancelled'
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new Error(EXPORT_CANCELLED_MESSAGE)
+}
+
+/**
+ * Timestamps (ms) of every frame for a clip of `duration` at `fps`, covering
+ * [0, duration). The end itself is the first frame of the next loop, so it is
+ * left out and looping GIF/APNG output does not show the last pose twice.
+ */
+export function getFrameTimes(duration: number, fps: number): number[] {
+  const totalFrames = Math.max(1, Math.ceil((duration / 1000) * fps - 1e-6))
+  return Array.from({ length: totalFrames }, (_, i) => frameToTime(i, fps))
+}
+
+const hexWithAlpha = (hex: string, alpha: number) => {
+  const clean = hex.replace('#', '')
+  const full = clean.length === 3 ? clean.split('').map((c) => c + c).join('') : clean
+  const num = parseInt(full, 16)
+  return `rgba(${(num >> 16) & 255}, ${(num >> 8) & 255}, ${num & 255}, ${alpha})`
+}
+
+/**
+ * Start and end points of the editor's 135deg background gradient.
+ * Like CSS, the line runs through the center and is long enough that the corners hit 0% and 100%.
+ */
+export function getGradientLine(width: number, height: number) {
+  const angle = (135 * Math.PI) / 180
+  const dirX = Math.sin(angle)
+  const dirY = -Math.cos(angle)
+  const halfLength = (Math.abs(width * dirX) + Math.abs(height * dirY)) / 2
+  return {
+    start: { x: width / 2 - dirX * halfLength, y: height / 2 - dirY * halfLength },
+    end: { x: width / 2 + dirX * halfLength, y: height / 2 + dirY * halfLength },
+  }
+}
+
+/**
+ * Paint the project background the same way the editor's CSS does
+ * (solid color or a 135deg linear gradient).
+ */
+export function paintBackground(ctx: CanvasRenderingContext2D, background: BackgroundSettings, width: number, height: number) {
+  const alpha = Math.max(0, Math.min(1, background.opacity ?? 1))
+  if (background.mode === 'gradient') {
+    const { start, end } = getGradientLine(width, height)
+    const gradient = ctx.createLinearGradient(start.x, start.y, end.x, end.y)
+    gradient.addColorStop(0, hexWithAlpha(background.from, alpha))
+    gradient.addColorStop(1, hexWithAlpha(background.to, alpha))
+    ctx.fillStyle = gradient
+  } else {
+    ctx.fillStyle = hexWithAlpha(background.solid, alpha)
+  }
+  ctx.fillRect(0, 0, width, height)
+}
+
+/**
+ * Render every frame of the composition and hand the composited canvas to `onFrame`.
+ * The same canvas is reused between frames, so copy it if you need to keep pixels.
+ * Throws `Error(EXPORT_CANCELLED_MESSAGE)` when the signal aborts.
+ */
+export async function renderFrames(
+  options: FrameExportOptions,
+  onFrame: (canvas: HTMLCanvasElement, index: number, time: number) => Promise<void> | void
+): Promise<void> {
+  const { source, fps, duration, width, height, background, backgroundTracks, signal, onProgress } = options
+  const startTime = options.startTime ?? 0
+  const frameTimes = getFrameTimes(duration, fps).map((t) => startTime + t)
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Could not create a 2D canvas for export')
+
+  onProgress?.({ frame: 0, totalFrames: frameTimes.length })
+  for (let i = 0; i < frameTimes.length; i++) {
+    throwIfAborted(signal)
+    await source.seek(frameTimes[i])
+    throwIfAborted(signal)
+
+    ctx.clearRect(0, 0, width, height)
+    if (background) paintBackground(ctx, evaluateBackground(background, backgroundTracks, frameTimes[i]), width, height)
+    ctx.drawImage(source.capture(width, height), 0, 0, width, height)
+
+    await onFrame(canvas, i, frameTimes[i])
+    onProgress?.({ frame: i + 1, totalFrames: frameTimes.length })
+  }
+  throwIfAborted(signal)
+}
+
+/**
+ * Trigger a browser download for an export result
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const anchor = document.createElement('a')
+  anchor.href = url
+  anchor.download = filename
+  document.body.appendChild(anchor)
+  anchor.click()
+  anchor.remove()
+  URL.revokeObjectURL(url)
+}
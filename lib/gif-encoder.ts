@@ -0,0 +1,188 @@
+/**
+ * GIF Encoder
+ *
+ * Minimal streaming GIF89a writer. Frames are added one at a time with their
+ * own (local) palette, so memory stays bounded by the compressed output.
+ */
+
+import type { IndexedFrame } from './color-quantizer'
+
+export interface GifEncoderOptions {
+  width: number
+  height: number
+  // 0 = loop forever, n = play n times
+  loopCount: number
+}
+
+const MAX_CODE = 4095
+
+class ByteWriter {
+  private chunks: Uint8Array[] = []
+  private buffer = new Uint8Array(4096)
+  private length = 0
+
+  byte(value: number) {
+    if (this.length === this.buffer.length) this.flush()
+    this.buffer[this.length++] = value & 0xff
+  }
+
+  word(value: number) {
+    this.byte(value)
+    this.byte(value >> 8)
+  }
+
+  bytes(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.byte(values[i])
+  }
+
+  string(value: string) {
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i))
+  }
+
+  flush() {
+    if (this.length > 0) this.chunks.push(this.buffer.slice(0, this.length))
+    this.length = 0
+  }
+
+  toBlob(type: string) {
+    this.flush()
+    return new Blob(this.chunks as BlobPart[], { type })
+  }
+}
+
+/**
+ * LZW-compress palette indices into GIF image data sub-blocks
+ */
+const writeLzw = (out: ByteWriter, indices: Uint8Array, minCodeSize: number) => {
+  const clearCode = 1 << minCodeSize
+  const endCode = clearCode + 1
+  let codeSize = minCodeSize + 1
+  let nextCode = endCode + 1
+  let dictionary = new Map<number, number>()
+
+  // Pack codes LSB-first into 255-byte sub-blocks
+  const block = new Uint8Array(255)
+  let blockLength = 0
+  let bitBuffer = 0
+  let bitCount = 0
+  const emitByte = (value: number) => {
+    block[blockLength++] = value
+    if (blockLength === 255) {
+      out.byte(255)
+      out.bytes(block)
+      blockLength = 0
+    }
+  }
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount
+    bitCount += codeSize
+    while (bitCount >= 8) {
+      emitByte(bitBuffer & 0xff)
+      bitBuffer >>= 8
+      bitCount -= 8
+    }
+  }
+
+  out.byte(minCodeSize)
+  emit(clearCode)
+
+  let prefix = indices[0]
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i]
+    const key = prefix * 256 + k
+    const existing = dictionary.get(key)
+    if (existing !== undefined) {
+      prefix = existing
+      continue
+    }
+
+    emit(prefix)
+    if (nextCode <= MAX_CODE) {
+      dictionary.set(key, nextCode)
+      // Grow the code size once the new code no longer fits
+      if (nextCode === 1 << codeSize && codeSize < 12) codeSize++
+      nextCode++
+    } else {
+      emit(clearCode)
+      dictionary = new Map()
+      codeSize = minCodeSize + 1
+      nextCode = endCode + 1
+    }
+    prefix = k
+  }
+
+  emit(prefix)
+  emit(endCode)
+  if (bitCount > 0) emitByte(bitBuffer & 0xff)
+  if (blockLength > 0) {
+    out.byte(blockLength)
+    out.bytes(block.subarray(0, blockLength))
+  }
+  out.byte(0) // block terminator
+}
+
+export class GifEncoder {
+  private out = new ByteWriter()
+  private width: number
+  private height: number
+
+  constructor({ width, height, loopCount }: GifEncoderOptions) {
+    this.width = width
+    this.height = height
+
+    this.out.string('GIF89a')
+    this.out.word(width)
+    this.out.word(height)
+    this.out.byte(0x00) // no global color table, every frame carries its own
+    this.out.byte(0) // background color index
+    this.out.byte(0) // pixel aspect ratio
+
+    // NETSCAPE2.0 stores repeats after the first play; omitting it plays once
+    if (loopCount !== 1) {
+      this.out.bytes([0x21, 0xff, 0x0b])
+      this.out.string('NETSCAPE2.0')
+      this.out.bytes([0x03, 0x01])
+      this.out.word(loopCount === 0 ? 0 : loopCount - 1)
+      this.out.byte(0)
+    }
+  }
+
+  /**
+   * Append a frame shown for `delay` ms
+   */
+  addFrame(frame: IndexedFrame, delay: number) {
+    const { palette, indices } = frame
+    const tableBits = Math.max(1, Math.ceil(Math.log2(Math.max(2, palette.colors.length))))
+    const hasTransparency = palette.transparentIndex >= 0
+
+    // Graphic Control Extension (delay in 1/100s, disposal + transparency)
+    this.out.bytes([0x21, 0xf9, 0x04])
+    this.out.byte(((hasTransparency ? 2 : 1) << 2) | (hasTransparency ? 1 : 0))
+    this.out.word(Math.max(2, Math.round(delay / 10)))
+    this.out.byte(hasTransparency ? palette.transparentIndex : 0)
+    this.out.byte(0)
+
+    // Image Descriptor with local color table
+    this.out.byte(0x2c)
+    this.out.word(0)
+    this.out.word(0)
+    this.out.word(this.width)
+    this.out.word(this.height)
+    this.out.byte(0x80 | (tableBits - 1))
+
+    for (let i = 0; i < 1 << tableBits; i++) {
+      const color = palette.colors[i] ?? [0, 0, 0]
+      this.out.bytes(color)
+    }
+
+    writeLzw(this.out, indices, Math.max(2, tableBits))
+  }
+
+  /**
+   * Finish the file and return it as a Blob
+   */
+  finish(): Blob {
+    this.out.byte(0x3b)
+    return this.out.toBlob('image/gif')
+  }
+}
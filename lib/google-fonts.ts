@@ -54,6 +54,10 @@ function getDefaultFonts(): GoogleFont[] {
   ]
 }
 
+// Stylesheet that serves every weight the editor offers for a family
+export const getFontStylesheetUrl = (fontFamily: string) =>
+  `https://fonts.googleapis.com/css2?family=${encodeURIComponent(fontFamily)}:wght@400;500;600;700&display=swap`
+
 // Load a font dynamically via CSS and wait for it to be ready
 export async function loadFont(fontFamily: string): Promise<boolean> {
   const linkId = `google-font-${fontFamily.replace(/\s+/g, '-').toLowerCase()}`
@@ -66,7 +70,7 @@ export async function loadFont(fontFamily: string): Promise<boolean> {
     const link = document.createElement('link')
     link.id = linkId
     link.rel = 'stylesheet'
-    link.href = `https://fonts.googleapis.com/css2?family=${encodeURIComponent(fontFamily)}:wght@400;500;600;700&display=swap`
+    link.href = getFontStylesheetUrl(fontFamily)
     document.head.appendChild(link)
   }
   
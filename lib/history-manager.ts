@@ -1,4 +1,5 @@
-import type { Vec2 } from './timeline'
+import type { LayerTracks, Vec2 } from './timeline'
+import type { TimelineState } from './timeline-store'
 
 // Background settings type (from dashboard)
 export interface BackgroundSettings {
@@ -25,7 +26,9 @@ export type ShapeKind =
 // Layer type (from dashboard)
 export interface Layer {
   id: string
-  type: 'shape' | 'image' | 'svg' | 'text'
+  type: 'shape' | 'image' | 'svg' | 'text' | 'group' | 'precomp'
+  parentId?: string
+  parentOrigin?: { x: number; y: number }
   shapeKind: ShapeKind
   x: number
   y: number
@@ -35,6 +38,8 @@ export interface Layer {
   rotation?: number
   opacity?: number
   fillColor: number
+  strokeColor?: number
+  strokeWidth?: number // px, 0 / unset = no stroke
   effects?: any[] // Simplified for now to avoid import issues
   imageUrl?: string  // Base64 data URL for imported images
   svgUrl?: string    // URL to SVG (from Iconify or local)
@@ -44,6 +49,16 @@ export interface Layer {
   fontFamily?: string     // Font family name (e.g. "Inter")
   fontSize?: number       // Font size in pixels
   fontWeight?: number     // Font weight (400, 500, 600, 700)
+  // Counter properties
+  isCounter?: boolean
+  counterStart?: number
+  counterEnd?: number
+  counterPrefix?: string
+  // Pre-comp properties
+  precompId?: string
+  timeOffset?: number
+  timeStretch?: number
+  loop?: boolean
 }
 
 // Template clip type (from timeline store)
@@ -126,6 +141,8 @@ export interface TemplateClip {
 export interface HistorySnapshot {
   // Timeline state
   templateClips: TemplateClip[]
+  tracks: LayerTracks[]
+  effectClips: TimelineState['effectClips']
   
   // Animation parameters (global defaults)
   templateSpeed: number
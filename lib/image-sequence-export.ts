@@ -0,0 +1,119 @@
+/**
+ * Image Sequence Export
+ *
+ * Renders every frame to PNG and zips the result, either as numbered files
+ * or packed into one sprite sheet with a JSON atlas. The atlas follows the
+ * TexturePacker "hash" layout that Pixi, Phaser and most engines load directly.
+ */
+
+import { getFrameTimes, renderFrames } from './frame-export'
+import type { FrameExportOptions } from './frame-export'
+import { ZipWriter } from './zip-writer'
+
+export type ImageSequenceLayout = 'sequence' | 'spritesheet'
+
+export interface ImageSequenceExportOptions extends FrameExportOptions {
+  layout: ImageSequenceLayout
+  name?: string // base name for files inside the archive
+}
+
+// Largest canvas side browsers reliably allocate
+const MAX_SHEET_SIZE = 16384
+
+export interface SpriteSheetLayout {
+  columns: number
+  rows: number
+  width: number
+  height: number
+}
+
+/**
+ * Grid that keeps the sheet as close to square as possible
+ */
+export function getSpriteSheetLayout(frameCount: number, frameWidth: number, frameHeight: number): SpriteSheetLayout {
+  const columns = Math.max(1, Math.min(frameCount, Math.round(Math.sqrt((frameCount * frameHeight) / frameWidth))))
+  const rows = Math.ceil(frameCount / columns)
+  return { columns, rows, width: columns * frameWidth, height: rows * frameHeight }
+}
+
+const frameName = (base: string, index: number) => `${base}_${String(index).padStart(4, '0')}.png`
+
+const canvasToPng = (canvas: HTMLCanvasElement) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    canvas.toBlob(async (blob) => {
+      if (!blob) {
+        reject(new Error('Could not encode PNG frame'))
+        return
+      }
+      resolve(new Uint8Array(await blob.arrayBuffer()))
+    }, 'image/png')
+  })
+
+/**
+ * Render the composition to a zipped PNG sequence or sprite sheet
+ */
+export async function exportImageSequence(options: ImageSequenceExportOptions): Promise<Blob> {
+  const { layout, width, height, fps, duration } = options
+  const base = options.name ?? 'frame'
+  const zip = new ZipWriter()
+
+  if (layout === 'sequence') {
+    await renderFrames(options, async (canvas, index) => {
+      zip.addFile(`${base}/${frameName(base, index)}`, await canvasToPng(canvas))
+    })
+    return zip.finish()
+  }
+
+  const frameCount = getFrameTimes(duration, fps).length
+  const grid = getSpriteSheetLayout(frameCount, width, height)
+  if (grid.width > MAX_SHEET_SIZE || grid.height > MAX_SHEET_SIZE) {
+    throw new Error(
+      `Sprite sheet would be ${grid.width} × ${grid.height} px. Lower the resolution, frame rate or range.`
+    )
+  }
+
+  const sheet = document.createElement('canvas')
+  sheet.width = grid.width
+  sheet.height = grid.height
+  const ctx = sheet.getContext('2d')
+  if (!ctx) throw new Error('Could not create a 2D canvas for the sprite sheet')
+
+  const frames: Record<string, unknown> = {}
+  const names: string[] = []
+  const frameDuration = Math.round(1000 / fps)
+  await renderFrames(options, (canvas, index) => {
+    const x = (index % grid.columns) * width
+    const y = Math.floor(index / grid.columns) * height
+    ctx.drawImage(canvas, x, y)
+
+    const name = frameName(base, index)
+    names.push(name)
+    frames[name] = {
+      frame: { x, y, w: width, h: height },
+      rotated: false,
+      trimmed: false,
+      spriteSourceSize: { x: 0, y: 0, w: width, h: height },
+      sourceSize: { w: width, h: height },
+      duration: frameDuration,
+    }
+  })
+
+  const image = `${base}.png`
+  const atlas = {
+    frames,
+    animations: { [base]: names },
+    meta: {
+      app: 'motionshapes',
+      version: '1.0',
+      image,
+      format: 'RGBA8888',
+      size: { w: grid.width, h: grid.height },
+      scale: '1',
+      fps,
+    },
+  }
+
+  zip.addFile(image, await canvasToPng(sheet))
+  zip.addFile(`${base}.json`, JSON.stringify(atlas, null, 2))
+  return zip.finish()
+}
@@ -0,0 +1,432 @@
+/**
+ * Lottie Export
+ *
+ * Converts a composition into a Lottie (bodymovin) JSON document that plays in
+ * lottie-web, lottie-ios and lottie-android. Keyframes map onto Lottie
+ * keyframes with cubic-bezier easing, path clips and counter / typewriter text
+ * are baked per frame, and anything Lottie cannot express (pixi-filters
+ * effects, per-letter animations, masks, ...) is skipped and reported.
+ */
+
+import type { BackgroundSettings } from './history-manager'
+import type { ProjectComposition } from './project-file'
+import { getGradientLine } from './frame-export'
+import { evaluateCounter, evaluateTypewriter, getAnimatedChannels, toPixels } from './scene-evaluator'
+import { getShapeOutline } from './shape-geometry'
+import { applyEasing, getCubicBezier, sampleLayerTracks } from './timeline'
+import type { LayerTracks, TimelineKeyframe, Vec2 } from './timeline'
+import { ICON_SHAPE_KINDS, describeLayer, getBackgroundWarnings, getRenderOnlyWarnings, sortLayersBackToFront } from './vector-export'
+import type { VectorExportOptions } from './vector-export'
+
+const LOTTIE_VERSION = '5.7.4'
+
+// Lottie property: static value (number, vector or bezier path) or keyframes
+export type LottieProperty =
+  | { a: 0; k: number | number[] | Record<string, unknown> }
+  | { a: 1; k: LottieKeyframe[] }
+
+export interface LottieKeyframe {
+  t: number // frame
+  s: number[]
+  i?: { x: number[]; y: number[] } // in tangent of the next keyframe
+  o?: { x: number[]; y: number[] } // out tangent of this keyframe
+}
+
+export type LottieLayer = Record<string, unknown> & { ind: number; ty: number; nm: string }
+
+export interface LottieAnimation {
+  v: string
+  fr: number
+  ip: number
+  op: number
+  w: number
+  h: number
+  nm: string
+  ddd: 0
+  assets: Array<Record<string, unknown>>
+  fonts: { list: Array<Record<string, unknown>> }
+  layers: LottieLayer[]
+  markers: []
+}
+
+export interface LottieExportResult {
+  animation: LottieAnimation
+  warnings: string[] // one line per feature that was dropped
+}
+
+const FONT_STYLES: Record<number, string> = { 400: 'Regular', 500: 'Medium', 600: 'SemiBold', 700: 'Bold' }
+
+const staticValue = (k: number | number[] | Record<string, unknown>): LottieProperty => ({ a: 0, k })
+
+const colorToRgb = (color: number) => [((color >> 16) & 255) / 255, ((color >> 8) & 255) / 255, (color & 255) / 255]
+
+const hexToRgb = (hex: string) => {
+  const clean = hex.replace('#', '')
+  const full = clean.length === 3 ? clean.split('').map((c) => c + c).join('') : clean
+  return colorToRgb(parseInt(full, 16))
+}
+
+/**
+ * Keyframes to a Lottie property. Our easing lives on the keyframe that ends a
+ * segment, Lottie's on the one that starts it, so each bezier shifts back one.
+ * Easings without a bezier form (elastic, bounce, steps) are baked per frame.
+ */
+const keyframesToProperty = <T,>(
+  frames: TimelineKeyframe<T>[],
+  toValue: (value: T) => number[],
+  msToFrame: (ms: number) => number
+): LottieProperty => {
+  if (frames.length === 0) return staticValue(0)
+  if (frames.length === 1) {
+    const value = toValue(frames[0].value)
+    return staticValue(value.length === 1 ? value[0] : value)
+  }
+  const linear = { o: { x: [0], y: [0] }, i: { x: [1], y: [1] } }
+  return {
+    a: 1,
+    k: frames.flatMap((frame, idx) => {
+      const next = frames[idx + 1]
+      const keyframe: LottieKeyframe = { t: msToFrame(frame.time), s: toValue(frame.value) }
+      if (!next) return [keyframe]
+      const bezier = getCubicBezier(next.easing)
+      if (bezier) {
+        const [x1, y1, x2, y2] = bezier
+        keyframe.o = { x: [x1], y: [y1] }
+        keyframe.i = { x: [x2], y: [y2] }
+        return [keyframe]
+      }
+      const from = keyframe.s
+      const to = toValue(next.value)
+      const count = Math.max(1, Math.ceil(msToFrame(next.time) - keyframe.t))
+      return Array.from({ length: count }, (_, step): LottieKeyframe => {
+        const eased = applyEasing(step / count, next.easing)
+        return {
+          t: keyframe.t + ((msToFrame(next.time) - keyframe.t) * step) / count,
+          s: from.map((v, i) => v + (to[i] - v) * eased),
+          ...linear,
+        }
+      })
+    }),
+  }
+}
+
+/**
+ * Linear keyframes from per-frame samples, dropping samples in the middle of a hold
+ */
+const bakedProperty = (samples: Array<{ t: number; s: number[] }>): LottieProperty => {
+  const same = (a: number[], b: number[]) => a.every((v, i) => Math.abs(v - b[i]) < 1e-3)
+  const kept = samples.filter(
+    (sample, idx) =>
+      idx === 0 ||
+      idx === samples.length - 1 ||
+      !same(sample.s, samples[idx - 1].s) ||
+      !same(sample.s, samples[idx + 1].s)
+  )
+  if (kept.length === 1) return staticValue(kept[0].s)
+  return {
+    a: 1,
+    k: kept.map((sample, idx) =>
+      idx < kept.length - 1 ? { ...sample, o: { x: [0], y: [0] }, i: { x: [1], y: [1] } } : sample
+    ),
+  }
+}
+
+/**
+ * Lottie shape item for one of the built-in shape kinds, centered on 0,0
+ */
+const buildShapeItem = (kind: string, w: number, h: number) => {
+  const outline = getShapeOutline(kind, w, h)
+  switch (outline.type) {
+    case 'rect':
+      return { ty: 'rc', p: staticValue([0, 0]), s: staticValue([w, h]), r: staticValue(outline.radius) }
+    case 'ellipse':
+      return { ty: 'el', p: staticValue([0, 0]), s: staticValue([w, h]) }
+    case 'path':
+      return {
+        ty: 'sh',
+        ks: staticValue({
+          c: true,
+          v: outline.vertices.map((p) => [p.x, p.y]),
+          i: outline.inTangents.map((p) => [p.x, p.y]),
+          o: outline.outTangents.map((p) => [p.x, p.y]),
+        }),
+      }
+  }
+}
+
+const groupTransform = () => ({
+  ty: 'tr',
+  p: staticValue([0, 0]),
+  a: staticValue([0, 0]),
+  s: staticValue([100, 100]),
+  r: staticValue(0),
+  o: staticValue(100),
+})
+
+const buildBackgroundLayer = (
+  background: BackgroundSettings,
+  width: number,
+  height: number,
+  ind: number,
+  ip: number,
+  op: number
+): LottieLayer => {
+  const opacity = staticValue(Math.max(0, Math.min(1, background.opacity ?? 1)) * 100)
+  const common = { ddd: 0, ind, nm: 'Background', sr: 1, ao: 0, ip, op, st: 0, bm: 0 }
+  if (background.mode === 'solid') {
+    return {
+      ...common,
+      ty: 1,
+      sc: `#${hexToRgb(background.solid).map((c) => Math.round(c * 255).toString(16).padStart(2, '0')).join('')}`,
+      sw: width,
+      sh: height,
+      ks: { o: opacity, r: staticValue(0), p: staticValue([0, 0, 0]), a: staticValue([0, 0, 0]), s: staticValue([100, 100, 100]) },
+    }
+  }
+  const { start, end } = getGradientLine(width, height)
+  return {
+    ...common,
+    ty: 4,
+    ks: { o: opacity, r: staticValue(0), p: staticValue([0, 0, 0]), a: staticValue([0, 0, 0]), s: staticValue([100, 100, 100]) },
+    shapes: [
+      {
+        ty: 'gr',
+        nm: 'Background',
+        it: [
+          { ty: 'rc', p: staticValue([width / 2, height / 2]), s: staticValue([width, height]), r: staticValue(0) },
+          {
+            ty: 'gf',
+            o: staticValue(100),
+            r: 1,
+            t: 1, // linear
+            s: staticValue([start.x, start.y]),
+            e: staticValue([end.x, end.y]),
+            g: { p: 2, k: staticValue([0, ...hexToRgb(background.from), 1, ...hexToRgb(background.to)]) },
+          },
+          groupTransform(),
+        ],
+      },
+    ],
+  }
+}
+
+/**
+ * Convert a composition to a Lottie document.
+ * Layers, keyframes and backgrounds become native Lottie data; unsupported
+ * features are left out and listed in `warnings`.
+ */
+export function exportLottie(composition: ProjectComposition, options: VectorExportOptions): LottieExportResult {
+  const { canvas, background, layers, layerOrder, timeline } = composition
+  const { fps, duration } = options
+  const startTime = options.startTime ?? 0
+  const { width, height } = canvas
+  const warnings: string[] = []
+  const warn = (message: string) => {
+    if (!warnings.includes(message)) warnings.push(message)
+  }
+
+  const msToFrame = (ms: number) => Math.round((ms / 1000) * fps * 1000) / 1000
+  const ip = msToFrame(startTime)
+  const op = Math.max(ip + 1, msToFrame(startTime + duration))
+  const frameTimes = (from: number, to: number) => {
+    const times: number[] = []
+    for (let f = Math.floor((from / 1000) * fps); f <= Math.ceil((to / 1000) * fps); f++) times.push((f / fps) * 1000)
+    return times
+  }
+
+  // Lottie lists the topmost layer first, reversed at the end
+  const ordered = sortLayersBackToFront(layers, layerOrder)
+
+  const fonts = new Map<string, Record<string, unknown>>()
+  const assets: Array<Record<string, unknown>> = []
+  const lottieLayers: LottieLayer[] = []
+
+  ordered.forEach((layer) => {
+    const label = describeLayer(layer)
+    const track: LayerTracks | undefined = timeline.tracks.find((t) => t.layerId === layer.id)
+    const templateClips = timeline.templateClips.filter((c) => c.layerId === layer.id)
+
+    if (layer.type === 'svg' || (layer.type === 'shape' && ICON_SHAPE_KINDS.includes(layer.shapeKind))) {
+      warn(`${label}: icons are not supported in Lottie and were skipped`)
+      return
+    }
+    if (layer.type === 'image' && !layer.imageUrl) return
+    // Groups only move their children, which are exported on their own
+    if (layer.type === 'group') {
+      warn(`${label}: groups are not supported in Lottie and were skipped; its layers lose the group transform`)
+      return
+    }
+    if (layer.type === 'precomp') {
+      warn(`${label}: nested compositions are not supported in Lottie and were skipped`)
+      return
+    }
+
+    getRenderOnlyWarnings(layer, timeline, 'Lottie').forEach(warn)
+
+    const layerStart = track?.startTime ?? 0
+    const layerEnd = layerStart + (track?.duration ?? 2000)
+    const channels = getAnimatedChannels(track)
+    const basePos = { x: layer.x ?? 0.5, y: layer.y ?? 0.5 }
+    const hasPanZoom = templateClips.some((c) => c.template === 'pan_zoom')
+    const toPosition = (value: Vec2) => {
+      const raw = hasPanZoom ? { x: basePos.x + value.x, y: basePos.y + value.y } : value
+      return [toPixels(raw.x, width), toPixels(raw.y, height), 0]
+    }
+
+    let position: LottieProperty
+    if (!channels.position || !track) {
+      position = staticValue([toPixels(basePos.x, width), toPixels(basePos.y, height), 0])
+    } else if (track.paths?.length) {
+      // Path clips move at constant speed along the polyline, bake them per frame
+      const end = Math.max(
+        ...(track.position ?? []).map((kf) => kf.time),
+        ...track.paths.map((p) => p.startTime + p.duration)
+      )
+      position = bakedProperty(
+        frameTimes(0, end).map((time) => ({
+          t: msToFrame(time),
+          s: toPosition(sampleLayerTracks(track, time).position),
+        }))
+      )
+    } else {
+      position = keyframesToProperty(track.position ?? [], toPosition, msToFrame)
+    }
+
+    const layerScale = layer.scale ?? 1
+    const scale = channels.scale
+      ? keyframesToProperty(track?.scale ?? [], (v) => [v * layerScale * 100, v * layerScale * 100, 100], msToFrame)
+      : staticValue([layerScale * 100, layerScale * 100, 100])
+    const baseRotation = layer.rotation ?? 0
+    const rotation = channels.rotation
+      ? keyframesToProperty(track?.rotation ?? [], (v) => [baseRotation + (v * 180) / Math.PI], msToFrame)
+      : staticValue(baseRotation)
+    const opacityFrames = track?.opacity ?? []
+    const opacity = channels.opacity
+      ? keyframesToProperty(opacityFrames, (v) => [v * 100], msToFrame)
+      : staticValue(Math.min(1, opacityFrames[0]?.value ?? 1) * 100)
+
+    const ks = { o: opacity, r: rotation, p: position, a: staticValue([0, 0, 0]), s: scale }
+    const common = {
+      ddd: 0,
+      // Numbered over emitted layers only, so the background's index stays unique
+      ind: lottieLayers.length + 1,
+      nm: label,
+      sr: 1,
+      ao: 0,
+      ip: msToFrame(layerStart),
+      op: Math.max(msToFrame(layerStart) + 1, msToFrame(layerEnd)),
+      st: 0,
+      bm: 0,
+    }
+
+    if (layer.type === 'image') {
+      const refId = `image_${assets.length}`
+      assets.push({ id: refId, w: layer.width, h: layer.height, u: '', p: layer.imageUrl, e: 1 })
+      // Image layers are anchored top-left
+      lottieLayers.push({ ...common, ty: 2, refId, ks: { ...ks, a: staticValue([layer.width / 2, layer.height / 2, 0]) } })
+      return
+    }
+
+    if (layer.type === 'text') {
+      const family = layer.fontFamily || 'Inter'
+      const weight = layer.fontWeight || 600
+      const fontName = `${family.replace(/\s+/g, '')}-${FONT_STYLES[weight] ?? weight}`
+      fonts.set(fontName, {
+        fName: fontName,
+        fFamily: family,
+        fStyle: FONT_STYLES[weight] ?? 'Regular',
+        fWeight: String(weight),
+        ascent: 75,
+      })
+      const fontSize = layer.fontSize || 48
+      const lineHeight = fontSize * 1.2
+      const documentFor = (text: string) => ({
+        s: fontSize,
+        f: fontName,
+        t: text.replace(/\n/g, '\r'),
+        j: 2, // centered
+        tr: 0,
+        lh: lineHeight,
+        ls: 0,
+        fc: colorToRgb(layer.fillColor ?? 0xffffff),
+      })
+
+      // Counter and typewriter text change over time: one hold keyframe per change
+      const typewriterClip = templateClips.find((c) => c.template === 'typewriter')
+      const textAt = (time: number) =>
+        layer.isCounter
+          ? `${layer.counterPrefix ?? ''}${evaluateCounter(layer, track, time)}`
+          : typewriterClip
+            ? evaluateTypewriter(layer.text ?? '', typewriterClip, time)
+            : layer.text ?? ''
+      const textKeyframes: Array<{ t: number; s: ReturnType<typeof documentFor> }> = []
+      const times = layer.isCounter || typewriterClip ? frameTimes(layerStart, layerEnd) : [layerStart]
+      times.forEach((time) => {
+        const value = textAt(time)
+        if (textKeyframes[textKeyframes.length - 1]?.s.t !== value.replace(/\n/g, '\r')) {
+          textKeyframes.push({ t: msToFrame(time), s: documentFor(value) })
+        }
+      })
+
+      // Pixi centers the text block, Lottie puts the first baseline on the anchor
+      const lines = (layer.text ?? '').split('\n').length
+      const anchorY = ((lines - 1) * lineHeight) / 2 - fontSize * 0.35
+      lottieLayers.push({
+        ...common,
+        ty: 5,
+        ks: { ...ks, a: staticValue([0, anchorY, 0]) },
+        t: {
+          d: { k: textKeyframes },
+          p: {},
+          m: { g: 1, a: staticValue([0, 0]) },
+          a: [],
+        },
+      })
+      return
+    }
+
+    lottieLayers.push({
+      ...common,
+      ty: 4,
+      ks,
+      shapes: [
+        {
+          ty: 'gr',
+          nm: layer.shapeKind,
+          it: [
+            buildShapeItem(layer.shapeKind, layer.width, layer.height),
+            { ty: 'fl', c: staticValue([...colorToRgb(layer.fillColor), 1]), o: staticValue(100), r: 1 },
+            groupTransform(),
+          ],
+        },
+      ],
+    })
+  })
+
+  if (timeline.clickMarkers.length > 0) {
+    warn('Click markers are not supported in Lottie and were skipped')
+  }
+  getBackgroundWarnings(timeline, 'Lottie').forEach(warn)
+
+  // Topmost first, background at the bottom
+  lottieLayers.reverse()
+  lottieLayers.push(buildBackgroundLayer(background, width, height, lottieLayers.length + 1, ip, op))
+
+  return {
+    animation: {
+      v: LOTTIE_VERSION,
+      fr: fps,
+      ip,
+      op,
+      w: width,
+      h: height,
+      nm: options.name ?? 'MotionShapes',
+      ddd: 0,
+      assets,
+      fonts: { list: [...fonts.values()] },
+      layers: lottieLayers,
+      markers: [],
+    },
+    warnings,
+  }
+}
@@ -1,142 +1,385 @@
 import * as PIXI from 'pixi.js'
+import { PARTICLE_SOURCE_SIZE, pickWeighted } from './particles'
+import type { ParticleBehavior, ParticleConfig, ParticleTexture, SpawnShape, ValueList } from './particles'
 
+// A particle's fixed traits, all drawn from its own seeded stream
 interface Particle {
-  sprite: PIXI.Sprite
-  vx: number
-  vy: number
-  life: number
+  birth: number // seconds since the clip started
   maxLife: number
-  rotation: number
-  rotationSpeed: number
+  x: number // spawn point
+  y: number
+  dirX: number // unit vector of the moveSpeed direction
+  dirY: number
+  speedMult: number
+  scaleMult: number
+  tint: number | null // picked by colorStatic
+  rotationStart: number // radians
+  rotationSpeed: number // radians/s
+  phase: number // offsets the wind sway per particle
+  sourcePick: number // 0-1, which source texture it draws with
 }
 
-export class SimpleParticleEmitter {
+/**
+ * A loaded particle source (see `ParticleSource`). These keep their own
+ * colors, so the preset's color behaviors don't tint them.
+ */
+export interface SourceTexture {
+  texture: PIXI.Texture
+  weight: number
+}
+
+// A value list with colors unpacked to rgb
+interface NumberList {
+  steps: { time: number; value: number[] }[]
+  isStepped: boolean
+}
+
+const toNumberList = <T>(list: ValueList<T>, parse: (value: T) => number[]): NumberList => ({
+  steps: [...list.list].sort((a, b) => a.time - b.time).map((s) => ({ time: s.time, value: parse(s.value) })),
+  isStepped: !!list.isStepped,
+})
+
+const parseHex = (hex: string) => {
+  const n = parseInt(hex.replace('#', ''), 16) || 0
+  return [(n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff]
+}
+
+const sampleList = ({ steps, isStepped }: NumberList, t: number): number[] => {
+  if (t <= steps[0].time) return steps[0].value
+  for (let i = 1; i < steps.length; i++) {
+    const next = steps[i]
+    if (t > next.time) continue
+    const prev = steps[i - 1]
+    if (isStepped) return prev.value
+    const f = next.time > prev.time ? (t - prev.time) / (next.time - prev.time) : 1
+    return prev.value.map((v, k) => v + (next.value[k] - v) * f)
+  }
+  return steps[steps.length - 1].value
+}
+
+// mulberry32: tiny, fast and plenty random for particles
+const createRandom = (seed: number) => {
+  let a = seed >>> 0
+  const next = () => {
+    a = (a + 0x6d2b79f5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+  return (min = 0, max = 1) => min + next() * (max - min)
+}
+
+type Random = ReturnType<typeof createRandom>
+
+const mixSeed = (seed: number, wave: number, index: number) =>
+  Math.imul(seed ^ Math.imul(wave + 1, 0x9e3779b1) ^ Math.imul(index + 1, 0x85ebca6b), 0xc2b2ae35) >>> 0
+
+// Forces and drag are integrated in fixed steps from birth, so a particle
+// lands in the same place whatever the frame rate or seek order
+const SIM_STEP = 1 / 60
+
+const DEG = Math.PI / 180
+
+/**
+ * Draws a `ParticleConfig` (see ./particles) as it looks `time` seconds into
+ * its effect clip. Every wave and particle is derived from `seed`, so `seek`
+ * rebuilds the same frame for the same time whether playing, scrubbing
+ * backwards or exporting.
+ */
+export class ParticleEmitter {
   private container: PIXI.Container
-  private particles: Particle[] = []
-  private elapsed: number = 0
+  private config: ParticleConfig
+  private seed: number
+  private sprites: PIXI.Sprite[] = []
   private texture: PIXI.Texture
-  public frequency: number
-  public maxParticles: number
-  public particleLifetime: number
+  private sources: SourceTexture[] = []
+  private alpha: NumberList | null = null
+  private scale: NumberList | null = null
+  private color: NumberList | null = null
+  private speed: NumberList | null = null
+  private scaleMinMult = 1
+  private speedMinMult = 1
+  private staticColors: number[] = []
+  private direction = { min: 0, max: 360 }
+  private rotation: Extract<ParticleBehavior, { type: 'rotation' }>['config'] | null = null
+  private spawnShape: SpawnShape = { type: 'point' }
+  private gravity = { x: 0, y: 0 }
+  private dragAmount = 0
+  private wind = { x: 0, y: 0, gust: 0, gustFrequency: 0 }
   public speedMultiplier: number = 1
   public destroyed: boolean = false
-  private type: 'sparkles' | 'confetti'
 
-  constructor(
-    container: PIXI.Container,
-    type: 'sparkles' | 'confetti',
-    texture: PIXI.Texture
-  ) {
+  constructor(container: PIXI.Container, config: ParticleConfig, texture: PIXI.Texture, seed: number) {
     this.container = container
-    this.type = type
+    this.config = config
     this.texture = texture
-    
-    if (type === 'sparkles') {
-      this.frequency = 0.008
-      this.maxParticles = 100
-      this.particleLifetime = 1
-    } else {
-      this.frequency = 0.05
-      this.maxParticles = 50
-      this.particleLifetime = 3
-    }
+    this.seed = seed >>> 0
+
+    config.behaviors.forEach((behavior) => {
+      switch (behavior.type) {
+        case 'alpha':
+          this.alpha = toNumberList(behavior.config.alpha, (v) => [v])
+          break
+        case 'scale':
+          this.scale = toNumberList(behavior.config.scale, (v) => [v])
+          this.scaleMinMult = behavior.config.minMult ?? 1
+          break
+        case 'color':
+          this.color = toNumberList(behavior.config.color, parseHex)
+          break
+        case 'colorStatic':
+          this.staticColors = behavior.config.colors.map((c) => parseInt(c.replace('#', ''), 16) || 0)
+          break
+        case 'moveSpeed':
+          this.speed = toNumberList(behavior.config.speed, (v) => [v])
+          this.speedMinMult = behavior.config.minMult ?? 1
+          break
+        case 'direction':
+          this.direction = { min: behavior.config.minAngle, max: behavior.config.maxAngle }
+          break
+        case 'rotation':
+          this.rotation = behavior.config
+          break
+        case 'spawnShape':
+          this.spawnShape = behavior.config
+          break
+        case 'gravity':
+          this.gravity = { x: behavior.config.x ?? 0, y: behavior.config.y }
+          break
+        case 'drag':
+          this.dragAmount = behavior.config.amount
+          break
+        case 'wind':
+          this.wind = {
+            x: behavior.config.x,
+            y: behavior.config.y ?? 0,
+            gust: behavior.config.gust ?? 0,
+            gustFrequency: behavior.config.gustFrequency ?? 0,
+          }
+          break
+        case 'textureSingle':
+          // Drawn by createParticleTexture, passed in as `texture`
+          break
+      }
+    })
+  }
+
+  /**
+   * Draw particles with these textures instead of the built-in one; each
+   * particle keeps its pick when the list changes weights or finishes loading
+   */
+  setSources(sources: SourceTexture[]) {
+    this.sources = sources
   }
 
   updateOwnerPos(x: number, y: number) {
     this.container.position.set(x, y)
   }
 
-  update(dt: number) {
+  /**
+   * Show the particles alive `time` seconds after the clip start
+   */
+  seek(time: number) {
     if (this.destroyed) return
 
-    this.elapsed += dt
-
-    // Spawn new particles
-    const spawnCount = Math.floor(this.elapsed / this.frequency)
-    if (spawnCount > 0) {
-      this.elapsed = this.elapsed % this.frequency
-      for (let i = 0; i < spawnCount; i++) {
-        if (this.particles.length < this.maxParticles) {
-          this.spawnParticle()
-        }
+    const { frequency, emitterLifetime, lifetime, maxParticles, addAtBack } = this.config
+    const alive: { p: Particle; age: number }[] = []
+    if (time >= 0) {
+      // Waves fire at 0, frequency, 2 * frequency... Only those young enough to
+      // still have live particles matter.
+      const interval = frequency > 0 ? frequency : 0
+      const lastEmit = emitterLifetime < 0 ? time : Math.min(time, emitterLifetime)
+      const lastWave = interval ? Math.floor(lastEmit / interval + 1e-9) : 0
+      const firstWave = interval ? Math.max(0, Math.ceil((time - lifetime.max) / interval - 1e-9)) : 0
+      for (let wave = firstWave; wave <= lastWave; wave++) {
+        this.waveParticles(wave, wave * interval).forEach((p) => {
+          const age = time - p.birth
+          if (age >= 0 && age < p.maxLife) alive.push({ p, age })
+        })
       }
     }
+    // Over the cap the oldest give way
+    const shown = alive.slice(Math.max(0, alive.length - maxParticles))
+    if (addAtBack) shown.reverse()
 
-    // Update existing particles
-    for (let i = this.particles.length - 1; i >= 0; i--) {
-      const p = this.particles[i]
-      p.life += dt
+    while (this.sprites.length < shown.length) {
+      const sprite = new PIXI.Sprite(this.texture)
+      sprite.anchor.set(0.5)
+      this.container.addChild(sprite)
+      this.sprites.push(sprite)
+    }
+    this.sprites.forEach((sprite, i) => {
+      const entry = shown[i]
+      sprite.visible = !!entry
+      if (entry) this.place(sprite, entry.p, entry.age)
+    })
+  }
 
-      if (p.life >= p.maxLife) {
-        this.container.removeChild(p.sprite)
-        p.sprite.destroy()
-        this.particles.splice(i, 1)
-        continue
-      }
+  // The particles one wave spawns, or none when spawnChance skips it
+  private waveParticles(wave: number, birth: number): Particle[] {
+    const random = createRandom(mixSeed(this.seed, wave, -1))
+    if (random() > this.config.spawnChance) return []
+    const spread = this.config.waveSpread ?? 0
+    const angle = random(0, Math.PI * 2)
+    const distance = random(0, spread)
+    const originX = this.config.pos.x + Math.cos(angle) * distance
+    const originY = this.config.pos.y + Math.sin(angle) * distance
 
-      // Update position
-      p.sprite.x += p.vx * dt * this.speedMultiplier
-      p.sprite.y += p.vy * dt * this.speedMultiplier
-      p.sprite.rotation += p.rotationSpeed * dt
-
-      // Update alpha (fade out)
-      const lifeRatio = p.life / p.maxLife
-      if (this.type === 'sparkles') {
-        p.sprite.alpha = 1 - lifeRatio
-        p.sprite.scale.set(0.5 * (1 - lifeRatio))
-      } else {
-        p.sprite.alpha = lifeRatio < 0.8 ? 1 : (1 - lifeRatio) / 0.2
-      }
+    const particles: Particle[] = []
+    for (let i = 0; i < this.config.particlesPerWave; i++) {
+      particles.push(this.createParticle(createRandom(mixSeed(this.seed, wave, i)), birth, originX, originY))
     }
+    return particles
   }
 
-  private spawnParticle() {
-    const sprite = new PIXI.Sprite(this.texture)
-    sprite.anchor.set(0.5)
-    
-    if (this.type === 'sparkles') {
-      sprite.tint = Math.random() > 0.5 ? 0xffffff : 0xffff00
-      sprite.scale.set(0.5)
-      const angle = Math.random() * Math.PI * 2
-      const speed = 100 + Math.random() * 100
-      
-      this.particles.push({
-        sprite,
-        vx: Math.cos(angle) * speed,
-        vy: Math.sin(angle) * speed,
-        life: 0,
-        maxLife: this.particleLifetime,
-        rotation: 0,
-        rotationSpeed: (Math.random() - 0.5) * 4
-      })
-    } else {
-      // Confetti
-      const colors = [0xff0000, 0x00ff00, 0x0000ff, 0xffff00, 0xff00ff, 0x00ffff]
-      sprite.tint = colors[Math.floor(Math.random() * colors.length)]
-      sprite.scale.set(0.4)
-      const angle = Math.random() * Math.PI * 2
-      const speed = 200 + Math.random() * 100
-      
-      this.particles.push({
-        sprite,
-        vx: Math.cos(angle) * speed,
-        vy: Math.sin(angle) * speed + 50, // Slight downward bias
-        life: 0,
-        maxLife: this.particleLifetime,
-        rotation: Math.random() * Math.PI * 2,
-        rotationSpeed: (Math.random() - 0.5) * 6
-      })
+  private spawnOffset(random: Random): { x: number; y: number } {
+    const shape = this.spawnShape
+    if (shape.type === 'rect') {
+      return { x: shape.x + random(0, shape.w), y: shape.y + random(0, shape.h) }
+    }
+    if (shape.type === 'circle') {
+      const angle = random(0, Math.PI * 2)
+      const inner = shape.innerRadius ?? 0
+      // sqrt keeps the fill even across the area
+      const r = Math.sqrt(random(inner * inner, shape.radius * shape.radius))
+      return { x: Math.cos(angle) * r, y: Math.sin(angle) * r }
+    }
+    return { x: 0, y: 0 }
+  }
+
+  private createParticle(random: Random, birth: number, originX: number, originY: number): Particle {
+    const offset = this.spawnOffset(random)
+    const angle = random(this.direction.min, this.direction.max) * DEG
+    return {
+      birth,
+      maxLife: random(this.config.lifetime.min, this.config.lifetime.max),
+      x: originX + offset.x,
+      y: originY + offset.y,
+      dirX: Math.cos(angle),
+      dirY: Math.sin(angle),
+      speedMult: random(this.speedMinMult, 1),
+      scaleMult: random(this.scaleMinMult, 1),
+      tint: this.staticColors.length ? this.staticColors[Math.floor(random(0, this.staticColors.length))] : null,
+      rotationStart: this.rotation ? random(this.rotation.minStart, this.rotation.maxStart) * DEG : 0,
+      rotationSpeed: this.rotation ? random(this.rotation.minSpeed, this.rotation.maxSpeed) * DEG : 0,
+      phase: random(),
+      sourcePick: random(),
+    }
+  }
+
+  // Position, rotation and look of a particle `age` seconds after its birth
+  private place(sprite: PIXI.Sprite, p: Particle, age: number) {
+    let x = p.x
+    let y = p.y
+    let vx = 0 // px/s gathered from gravity and wind
+    let vy = 0
+    let drag = 1 // remaining share of the moveSpeed after drag
+    const stepDrag = Math.max(0, 1 - this.dragAmount * SIM_STEP)
+    for (let t = 0; t < age; t += SIM_STEP) {
+      const dt = Math.min(SIM_STEP, age - t)
+      const sway = this.wind.gust * Math.sin(((p.birth + t) * this.wind.gustFrequency + p.phase) * Math.PI * 2)
+      vx = (vx + (this.gravity.x + this.wind.x + sway) * dt) * stepDrag
+      vy = (vy + (this.gravity.y + this.wind.y) * dt) * stepDrag
+      drag *= stepDrag
+      const speed = this.speed ? sampleList(this.speed, t / p.maxLife)[0] * p.speedMult * drag : 0
+      x += (p.dirX * speed + vx) * dt * this.speedMultiplier
+      y += (p.dirY * speed + vy) * dt * this.speedMultiplier
     }
+    sprite.position.set(x, y)
+
+    const source = pickWeighted(this.sources, p.sourcePick)
+    sprite.texture = source?.texture ?? this.texture
+    const size = source ? PARTICLE_SOURCE_SIZE / Math.max(1, source.texture.width, source.texture.height) : 1
+
+    const accel = this.rotation ? this.rotation.accel * DEG : 0
+    sprite.rotation = p.rotationStart + p.rotationSpeed * age + 0.5 * accel * age * age
 
-    this.container.addChild(sprite)
+    const lifeRatio = age / p.maxLife
+    sprite.alpha = this.alpha ? sampleList(this.alpha, lifeRatio)[0] : 1
+    sprite.scale.set((this.scale ? sampleList(this.scale, lifeRatio)[0] * p.scaleMult : 1) * size)
+    if (source) {
+      sprite.tint = 0xffffff
+    } else if (p.tint !== null) {
+      sprite.tint = p.tint
+    } else if (this.color) {
+      const [r, g, b] = sampleList(this.color, lifeRatio)
+      sprite.tint = (Math.round(r) << 16) | (Math.round(g) << 8) | Math.round(b)
+    } else {
+      sprite.tint = 0xffffff
+    }
   }
 
   destroy() {
     this.destroyed = true
-    this.particles.forEach(p => {
-      this.container.removeChild(p.sprite)
-      p.sprite.destroy()
+    this.sprites.forEach(sprite => {
+      this.container.removeChild(sprite)
+      sprite.destroy()
     })
-    this.particles = []
+    this.sprites = []
+  }
+}
+
+/**
+ * White sprite for a particle texture kind, tinted per particle by the emitter
+ */
+export function createParticleTexture(renderer: PIXI.Renderer, kind: ParticleTexture): PIXI.Texture {
+  const graphics = new PIXI.Graphics()
+  switch (kind) {
+    case 'soft':
+      // Stacked translucent discs fake a radial falloff
+      for (let r = 8; r > 0; r -= 2) graphics.circle(0, 0, r).fill({ color: 0xffffff, alpha: 0.25 })
+      break
+    case 'square':
+      graphics.rect(-4, -3, 8, 6).fill(0xffffff)
+      break
+    case 'star': {
+      const points: number[] = []
+      for (let i = 0; i < 10; i++) {
+        const r = i % 2 === 0 ? 6 : 2.5
+        const a = (i * Math.PI) / 5 - Math.PI / 2
+        points.push(Math.cos(a) * r, Math.sin(a) * r)
+      }
+      graphics.poly(points).fill(0xffffff)
+      break
+    }
+    case 'heart':
+      graphics
+        .moveTo(0, 6)
+        .bezierCurveTo(-8, 0, -6, -7, 0, -3)
+        .bezierCurveTo(6, -7, 8, 0, 0, 6)
+        .fill(0xffffff)
+      break
+    case 'ring':
+      graphics.circle(0, 0, 6).stroke({ color: 0xffffff, width: 1.5 })
+      graphics.circle(-2, -2, 1.5).fill({ color: 0xffffff, alpha: 0.8 })
+      break
+    default:
+      graphics.circle(0, 0, 4).fill(0xffffff)
   }
+  const texture = renderer.generateTexture(graphics)
+  graphics.destroy()
+  return texture
+}
+
+/**
+ * Texture of an emoji or a letter, for particle sources
+ */
+export function createTextParticleTexture(
+  renderer: PIXI.Renderer,
+  text: string,
+  style: { fontFamily?: string; fontWeight?: number; fill?: number } = {}
+): PIXI.Texture {
+  const label = new PIXI.Text({
+    text,
+    style: {
+      fontFamily: style.fontFamily ?? 'sans-serif',
+      fontWeight: String(style.fontWeight ?? 400) as PIXI.TextStyleFontWeight,
+      fontSize: PARTICLE_SOURCE_SIZE * 2,
+      fill: style.fill ?? 0xffffff,
+    },
+  })
+  const texture = renderer.generateTexture(label)
+  label.destroy()
+  return texture
 }
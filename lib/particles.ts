@@ -1,4 +1,60 @@
-export const sparklesConfig = {
+/**
+ * Particle Presets
+ *
+ * Particle effects are plain data: emission settings plus a list of
+ * behaviors (values over each particle's life, spawn shape, forces, texture)
+ * that `ParticleEmitter` in ./particle-emitter interprets. Continuous effects
+ * emit small waves often; bursts emit big waves at long intervals. Waves fire
+ * every `frequency` seconds from the clip start, so the emitter can rebuild
+ * any moment from its seed.
+ */
+
+export interface ValueStep<T> {
+  value: T
+  time: number // 0-1 over the particle's life
+}
+
+export interface ValueList<T> {
+  list: ValueStep<T>[]
+  isStepped?: boolean // hold each value instead of blending to the next
+}
+
+// Built-in particle sprites
+export type ParticleTexture = 'circle' | 'soft' | 'square' | 'star' | 'heart' | 'ring'
+
+export type SpawnShape =
+  | { type: 'point' }
+  | { type: 'circle'; radius: number; innerRadius?: number } // a ring when innerRadius > 0
+  | { type: 'rect'; x: number; y: number; w: number; h: number } // relative to the emitter
+
+export type ParticleBehavior =
+  | { type: 'alpha'; config: { alpha: ValueList<number> } }
+  | { type: 'scale'; config: { scale: ValueList<number>; minMult?: number } }
+  | { type: 'color'; config: { color: ValueList<string> } } // hex without '#'
+  | { type: 'colorStatic'; config: { colors: string[] } } // one picked per particle
+  | { type: 'moveSpeed'; config: { speed: ValueList<number>; minMult?: number } } // px/s
+  | { type: 'direction'; config: { minAngle: number; maxAngle: number } } // degrees, 0 = right, 90 = down
+  | { type: 'rotation'; config: { accel: number; minSpeed: number; maxSpeed: number; minStart: number; maxStart: number } } // degrees
+  | { type: 'spawnShape'; config: SpawnShape }
+  | { type: 'gravity'; config: { x?: number; y: number } } // px/s²
+  | { type: 'drag'; config: { amount: number } } // share of velocity lost per second
+  | { type: 'wind'; config: { x: number; y?: number; gust?: number; gustFrequency?: number } } // px/s², gust sways x by up to that much
+  | { type: 'textureSingle'; config: { texture: ParticleTexture } }
+
+export interface ParticleConfig {
+  lifetime: { min: number; max: number } // seconds
+  frequency: number // seconds between waves
+  spawnChance: number // 0-1 chance each wave fires
+  particlesPerWave: number
+  emitterLifetime: number // seconds of emission, -1 for as long as the clip runs
+  maxParticles: number
+  pos: { x: number; y: number } // offset from the layer
+  addAtBack: boolean
+  waveSpread?: number // px, each wave starts from a random point this far from the emitter
+  behaviors: ParticleBehavior[]
+}
+
+export const sparklesConfig: ParticleConfig = {
   lifetime: { min: 0.5, max: 1 },
   frequency: 0.008,
   spawnChance: 1,
@@ -8,71 +64,16 @@ export const sparklesConfig = {
   pos: { x: 0, y: 0 },
   addAtBack: false,
   behaviors: [
-    {
-      type: 'alpha',
-      config: {
-        alpha: {
-          list: [
-            { value: 0.8, time: 0 },
-            { value: 0.1, time: 1 }
-          ],
-        },
-      }
-    },
-    {
-      type: 'scale',
-      config: {
-        scale: {
-          list: [
-            { value: 0.5, time: 0 },
-            { value: 0.1, time: 1 }
-          ],
-        },
-      }
-    },
-    {
-      type: 'color',
-      config: {
-        color: {
-          list: [
-            { value: "ffffff", time: 0 },
-            { value: "ffff00", time: 1 }
-          ],
-        },
-      }
-    },
-    {
-      type: 'moveSpeed',
-      config: {
-        speed: {
-          list: [
-            { value: 200, time: 0 },
-            { value: 100, time: 1 }
-          ],
-          isStepped: false
-        },
-      }
-    },
-    {
-      type: 'rotation',
-      config: {
-        accel: 0,
-        minSpeed: 0,
-        maxSpeed: 200,
-        minStart: 0,
-        maxStart: 360
-      }
-    },
-    {
-      type: 'textureSingle',
-      config: {
-        texture: 'particle' // Will be replaced with actual texture
-      }
-    }
+    { type: 'alpha', config: { alpha: { list: [{ value: 0.8, time: 0 }, { value: 0.1, time: 1 }] } } },
+    { type: 'scale', config: { scale: { list: [{ value: 0.5, time: 0 }, { value: 0.1, time: 1 }] } } },
+    { type: 'color', config: { color: { list: [{ value: 'ffffff', time: 0 }, { value: 'ffff00', time: 1 }] } } },
+    { type: 'moveSpeed', config: { speed: { list: [{ value: 200, time: 0 }, { value: 100, time: 1 }], isStepped: false } } },
+    { type: 'rotation', config: { accel: 0, minSpeed: 0, maxSpeed: 200, minStart: 0, maxStart: 360 } },
+    { type: 'textureSingle', config: { texture: 'star' } },
   ],
-};
+}
 
-export const confettiConfig = {
+export const confettiConfig: ParticleConfig = {
   lifetime: { min: 2, max: 4 },
   frequency: 0.05,
   spawnChance: 1,
@@ -82,69 +83,195 @@ export const confettiConfig = {
   pos: { x: 0, y: 0 },
   addAtBack: false,
   behaviors: [
-    {
-      type: 'alpha',
-      config: {
-        alpha: {
-          list: [
-            { value: 1, time: 0 },
-            { value: 1, time: 0.8 },
-            { value: 0, time: 1 }
-          ],
-        },
-      }
-    },
-    {
-      type: 'scale',
-      config: {
-        scale: {
-          list: [
-            { value: 0.4, time: 0 },
-            { value: 0.4, time: 1 }
-          ],
-        },
-      }
-    },
-    {
-      type: 'color',
-      config: {
-        color: {
-          list: [
-            { value: "ff0000", time: 0 },
-            { value: "00ff00", time: 0.33 },
-            { value: "0000ff", time: 0.66 },
-            { value: "ffff00", time: 1 }
-          ],
-        },
-      }
-    },
-    {
-      type: 'moveSpeed',
-      config: {
-        speed: {
-          list: [
-            { value: 300, time: 0 },
-            { value: 50, time: 1 }
-          ],
-          isStepped: false
-        },
-      }
-    },
-    {
-      type: 'rotation',
-      config: {
-        accel: 0,
-        minSpeed: 50,
-        maxSpeed: 200,
-        minStart: 0,
-        maxStart: 360
-      }
-    },
-    {
-      type: 'textureSingle',
-      config: {
-        texture: 'particle' // Will be replaced
-      }
-    }
+    { type: 'alpha', config: { alpha: { list: [{ value: 1, time: 0 }, { value: 1, time: 0.8 }, { value: 0, time: 1 }] } } },
+    { type: 'scale', config: { scale: { list: [{ value: 0.4, time: 0 }, { value: 0.4, time: 1 }] } } },
+    { type: 'colorStatic', config: { colors: ['ff0000', '00ff00', '0000ff', 'ffff00', 'ff00ff', '00ffff'] } },
+    { type: 'moveSpeed', config: { speed: { list: [{ value: 300, time: 0 }, { value: 50, time: 1 }], isStepped: false } } },
+    { type: 'rotation', config: { accel: 0, minSpeed: 50, maxSpeed: 200, minStart: 0, maxStart: 360 } },
+    { type: 'gravity', config: { y: 120 } },
+    { type: 'textureSingle', config: { texture: 'square' } },
+  ],
+}
+
+export const snowConfig: ParticleConfig = {
+  lifetime: { min: 3, max: 5 },
+  frequency: 0.04,
+  spawnChance: 1,
+  particlesPerWave: 1,
+  emitterLifetime: -1,
+  maxParticles: 300,
+  pos: { x: 0, y: -150 },
+  addAtBack: true,
+  behaviors: [
+    { type: 'alpha', config: { alpha: { list: [{ value: 0, time: 0 }, { value: 0.9, time: 0.1 }, { value: 0.9, time: 0.85 }, { value: 0, time: 1 }] } } },
+    { type: 'scale', config: { scale: { list: [{ value: 0.5, time: 0 }, { value: 0.5, time: 1 }] }, minMult: 0.4 } },
+    { type: 'color', config: { color: { list: [{ value: 'ffffff', time: 0 }, { value: 'e0f2fe', time: 1 }] } } },
+    { type: 'moveSpeed', config: { speed: { list: [{ value: 60, time: 0 }, { value: 60, time: 1 }] }, minMult: 0.5 } },
+    { type: 'direction', config: { minAngle: 80, maxAngle: 100 } },
+    { type: 'spawnShape', config: { type: 'rect', x: -200, y: 0, w: 400, h: 10 } },
+    { type: 'wind', config: { x: 15, gust: 25, gustFrequency: 0.4 } },
+    { type: 'textureSingle', config: { texture: 'soft' } },
+  ],
+}
+
+export const smokeConfig: ParticleConfig = {
+  lifetime: { min: 1.5, max: 2.5 },
+  frequency: 0.05,
+  spawnChance: 1,
+  particlesPerWave: 1,
+  emitterLifetime: -1,
+  maxParticles: 120,
+  pos: { x: 0, y: 0 },
+  addAtBack: true,
+  behaviors: [
+    { type: 'alpha', config: { alpha: { list: [{ value: 0, time: 0 }, { value: 0.35, time: 0.2 }, { value: 0, time: 1 }] } } },
+    { type: 'scale', config: { scale: { list: [{ value: 1, time: 0 }, { value: 4, time: 1 }] }, minMult: 0.6 } },
+    { type: 'color', config: { color: { list: [{ value: 'a3a3a3', time: 0 }, { value: '525252', time: 1 }] } } },
+    { type: 'moveSpeed', config: { speed: { list: [{ value: 70, time: 0 }, { value: 20, time: 1 }] }, minMult: 0.6 } },
+    { type: 'direction', config: { minAngle: 250, maxAngle: 290 } },
+    { type: 'rotation', config: { accel: 0, minSpeed: -30, maxSpeed: 30, minStart: 0, maxStart: 360 } },
+    { type: 'spawnShape', config: { type: 'circle', radius: 12 } },
+    { type: 'wind', config: { x: 20, gust: 15, gustFrequency: 0.3 } },
+    { type: 'textureSingle', config: { texture: 'soft' } },
+  ],
+}
+
+export const fireworksConfig: ParticleConfig = {
+  lifetime: { min: 0.8, max: 1.4 },
+  frequency: 0.9,
+  spawnChance: 1,
+  particlesPerWave: 60,
+  emitterLifetime: -1,
+  maxParticles: 400,
+  pos: { x: 0, y: -80 },
+  addAtBack: false,
+  waveSpread: 120,
+  behaviors: [
+    { type: 'alpha', config: { alpha: { list: [{ value: 1, time: 0 }, { value: 1, time: 0.6 }, { value: 0, time: 1 }] } } },
+    { type: 'scale', config: { scale: { list: [{ value: 0.6, time: 0 }, { value: 0.2, time: 1 }] } } },
+    { type: 'color', config: { color: { list: [{ value: 'fff7ae', time: 0 }, { value: 'f97316', time: 0.5 }, { value: 'db2777', time: 1 }] } } },
+    { type: 'moveSpeed', config: { speed: { list: [{ value: 260, time: 0 }, { value: 260, time: 1 }] }, minMult: 0.7 } },
+    { type: 'gravity', config: { y: 140 } },
+    { type: 'drag', config: { amount: 1.6 } },
+    { type: 'textureSingle', config: { texture: 'circle' } },
   ],
-};
+}
+
+export const heartsConfig: ParticleConfig = {
+  lifetime: { min: 1.5, max: 2.5 },
+  frequency: 0.15,
+  spawnChance: 1,
+  particlesPerWave: 1,
+  emitterLifetime: -1,
+  maxParticles: 60,
+  pos: { x: 0, y: 0 },
+  addAtBack: false,
+  behaviors: [
+    { type: 'alpha', config: { alpha: { list: [{ value: 0, time: 0 }, { value: 1, time: 0.15 }, { value: 1, time: 0.7 }, { value: 0, time: 1 }] } } },
+    { type: 'scale', config: { scale: { list: [{ value: 0.4, time: 0 }, { value: 0.9, time: 1 }] }, minMult: 0.6 } },
+    { type: 'colorStatic', config: { colors: ['f43f5e', 'ec4899', 'fb7185', 'e11d48'] } },
+    { type: 'moveSpeed', config: { speed: { list: [{ value: 90, time: 0 }, { value: 60, time: 1 }] }, minMult: 0.7 } },
+    { type: 'direction', config: { minAngle: 255, maxAngle: 285 } },
+    { type: 'rotation', config: { accel: 0, minSpeed: -20, maxSpeed: 20, minStart: -15, maxStart: 15 } },
+    { type: 'spawnShape', config: { type: 'circle', radius: 25 } },
+    { type: 'wind', config: { x: 0, gust: 40, gustFrequency: 0.8 } },
+    { type: 'textureSingle', config: { texture: 'heart' } },
+  ],
+}
+
+export const bubblesConfig: ParticleConfig = {
+  lifetime: { min: 2, max: 3.5 },
+  frequency: 0.12,
+  spawnChance: 1,
+  particlesPerWave: 1,
+  emitterLifetime: -1,
+  maxParticles: 80,
+  pos: { x: 0, y: 40 },
+  addAtBack: false,
+  behaviors: [
+    { type: 'alpha', config: { alpha: { list: [{ value: 0, time: 0 }, { value: 0.8, time: 0.1 }, { value: 0.8, time: 0.9 }, { value: 0, time: 1 }] } } },
+    { type: 'scale', config: { scale: { list: [{ value: 0.6, time: 0 }, { value: 1.4, time: 1 }] }, minMult: 0.4 } },
+    { type: 'color', config: { color: { list: [{ value: 'bae6fd', time: 0 }, { value: 'e0f2fe', time: 1 }] } } },
+    { type: 'moveSpeed', config: { speed: { list: [{ value: 70, time: 0 }, { value: 90, time: 1 }] }, minMult: 0.6 } },
+    { type: 'direction', config: { minAngle: 260, maxAngle: 280 } },
+    { type: 'spawnShape', config: { type: 'rect', x: -60, y: 0, w: 120, h: 10 } },
+    { type: 'wind', config: { x: 0, gust: 30, gustFrequency: 1.2 } },
+    { type: 'textureSingle', config: { texture: 'ring' } },
+  ],
+}
+
+/**
+ * Where a clip's particle sprites come from instead of the preset's built-in
+ * texture. With several sources each particle picks one, favouring higher
+ * `weight`s.
+ */
+export type ParticleSource =
+  | { kind: 'image'; layerId: string; weight: number } // an imported image layer
+  | { kind: 'icon'; icon: string; color?: string; weight: number } // Iconify name like "mdi:heart", color as hex
+  | { kind: 'emoji'; emoji: string; weight: number }
+  | { kind: 'glyph'; layerId: string; letter: string; weight: number } // drawn in the text layer's font and color
+
+export type ParticleSourceKind = ParticleSource['kind']
+
+export const PARTICLE_SOURCE_KINDS: { key: ParticleSourceKind; label: string }[] = [
+  { key: 'image', label: 'Image' },
+  { key: 'icon', label: 'Icon' },
+  { key: 'emoji', label: 'Emoji' },
+  { key: 'glyph', label: 'Letter' },
+]
+
+// px, longest side of a source sprite before the preset's scale behavior
+export const PARTICLE_SOURCE_SIZE = 48
+
+/**
+ * Item picked by `r` (0-1) with odds proportional to `weight`
+ */
+export function pickWeighted<T extends { weight: number }>(items: T[], r: number): T | undefined {
+  const total = items.reduce((sum, item) => sum + Math.max(0, item.weight), 0)
+  if (total <= 0) return items[0]
+  let target = r * total
+  for (const item of items) {
+    target -= Math.max(0, item.weight)
+    if (target < 0) return item
+  }
+  return items[items.length - 1]
+}
+
+/** Effect clip types rendered as particles, in the order the effects panel lists them */
+export const PARTICLE_EFFECT_TYPES = ['sparkles', 'confetti', 'snow', 'smoke', 'fireworks', 'hearts', 'bubbles'] as const
+
+export type ParticleEffectType = (typeof PARTICLE_EFFECT_TYPES)[number]
+
+export const PARTICLE_PRESETS: Record<ParticleEffectType, ParticleConfig> = {
+  sparkles: sparklesConfig,
+  confetti: confettiConfig,
+  snow: snowConfig,
+  smoke: smokeConfig,
+  fireworks: fireworksConfig,
+  hearts: heartsConfig,
+  bubbles: bubblesConfig,
+}
+
+export const isParticleEffect = (effectType: string): effectType is ParticleEffectType =>
+  (PARTICLE_EFFECT_TYPES as readonly string[]).includes(effectType)
+
+/**
+ * Stable 32-bit seed for an id (FNV-1a), so each effect clip gets its own
+ * particle layout that stays the same across reloads
+ */
+export function seedFromId(id: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < id.length; i++) {
+    hash ^= id.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Sprite a config draws its particles with
+ */
+export function getParticleTexture(config: ParticleConfig): ParticleTexture {
+  const behavior = config.behaviors.find((b) => b.type === 'textureSingle')
+  return behavior?.type === 'textureSingle' ? behavior.config.texture : 'circle'
+}
@@ -0,0 +1,124 @@
+/**
+ * Pre-comps
+ *
+ * A pre-comp is a named set of layers saved together with their slice of the
+ * timeline. Dropped into a composition it becomes a single 'precomp' layer;
+ * the scene evaluator samples the inner timeline at the layer's own mapped
+ * time (offset, stretch, loop) and places the inner layers under it.
+ *
+ * Saved pre-comps live in a browser-local library so they can be reused
+ * across projects; project files embed the ones they use.
+ */
+
+import type { Layer } from './history-manager'
+import type { ScenePrecomp } from './scene-evaluator'
+import type { LayerTracks } from './timeline'
+import { getContentDuration } from './timeline-store'
+import type { TimelineState } from './timeline-store'
+
+export const PRECOMP_LIBRARY_KEY = 'precompLibrary'
+
+export interface Precomp {
+  id: string
+  name: string
+  duration: number // ms, one pass of the inner timeline
+  layers: Layer[]
+  layerOrder: string[] // layer ids, back to front
+  tracks: LayerTracks[]
+  templateClips: TimelineState['templateClips']
+  effectClips: TimelineState['effectClips']
+}
+
+export type PrecompSource = Pick<Precomp, 'layers' | 'layerOrder' | 'tracks' | 'templateClips' | 'effectClips'>
+
+/**
+ * Snapshot `layerIds`, everything parented to them and their timeline data
+ */
+export function createPrecomp(name: string, layerIds: string[], source: PrecompSource): Precomp {
+  const ids = new Set(layerIds)
+  // Saving a group saves its contents too
+  let grew = true
+  while (grew) {
+    grew = false
+    source.layers.forEach((layer) => {
+      if (layer.parentId && ids.has(layer.parentId) && !ids.has(layer.id)) {
+        ids.add(layer.id)
+        grew = true
+      }
+    })
+  }
+
+  // Links to parents that stay behind are dropped
+  const layers = source.layers
+    .filter((layer) => ids.has(layer.id))
+    .map((layer) =>
+      layer.parentId && !ids.has(layer.parentId) ? { ...layer, parentId: undefined, parentOrigin: undefined } : { ...layer }
+    )
+  const tracks = source.tracks.filter((t) => ids.has(t.layerId))
+  const templateClips = source.templateClips.filter((c) => ids.has(c.layerId))
+
+  return {
+    id: crypto.randomUUID(),
+    name: name.trim() || 'Composition',
+    duration: getContentDuration({ tracks, templateClips, clickMarkers: [] }),
+    layers,
+    layerOrder: source.layerOrder.filter((id) => ids.has(id)),
+    tracks,
+    templateClips,
+    effectClips: source.effectClips.filter((c) => ids.has(c.layerId)),
+  }
+}
+
+/**
+ * Ids of the pre-comps `layers` place, directly or through other pre-comps
+ */
+export function getUsedPrecompIds(layers: Array<{ precompId?: string }>, precomps: Precomp[]): string[] {
+  const used = new Set<string>()
+  const visit = (list: Array<{ precompId?: string }>) => {
+    list.forEach((layer) => {
+      if (!layer.precompId || used.has(layer.precompId)) return
+      used.add(layer.precompId)
+      const precomp = precomps.find((p) => p.id === layer.precompId)
+      if (precomp) visit(precomp.layers)
+    })
+  }
+  visit(layers)
+  return [...used]
+}
+
+/**
+ * Scene evaluator input for every pre-comp, layers sorted back to front
+ */
+export function toScenePrecomps(precomps: Precomp[]): Record<string, ScenePrecomp> {
+  return Object.fromEntries(
+    precomps.map((precomp) => {
+      const orderMap = new Map(precomp.layerOrder.map((id, idx) => [id, idx]))
+      const layers = [...precomp.layers].sort(
+        (a, b) => (orderMap.get(a.id) ?? Infinity) - (orderMap.get(b.id) ?? Infinity)
+      )
+      return [precomp.id, { ...precomp, layers }]
+    })
+  )
+}
+
+/**
+ * Library saved in this browser, newest last. Unreadable data gives an empty library.
+ */
+export function loadPrecompLibrary(): Precomp[] {
+  try {
+    const saved = localStorage.getItem(PRECOMP_LIBRARY_KEY)
+    const parsed: unknown = saved ? JSON.parse(saved) : []
+    return Array.isArray(parsed) ? (parsed as Precomp[]) : []
+  } catch {
+    return []
+  }
+}
+
+export function savePrecompLibrary(precomps: Precomp[]) {
+  try {
+    localStorage.setItem(PRECOMP_LIBRARY_KEY, JSON.stringify(precomps))
+  } catch (err) {
+    // Quota errors (large embedded images) only cost the library, not the project
+    console.error('Failed to save pre-comp library:', err)
+  }
+}
@@ -1,4 +1,4 @@
-import { TimelineKeyframe, Vec2 } from '@/lib/timeline'
+import { Easing, TimelineKeyframe, Vec2 } from '@/lib/timeline'
 
 export type TemplateId =
   | 'roll' | 'jump' | 'pop' | 'path' | 'shake' | 'pulse' | 'spin' | 'counter' | 'pan_zoom'
@@ -11,7 +11,11 @@ export type TemplateId =
 export interface PresetResult {
   position?: TimelineKeyframe<Vec2>[]
   scale?: TimelineKeyframe<number>[]
+  scaleX?: TimelineKeyframe<number>[]
+  scaleY?: TimelineKeyframe<number>[]
   rotation?: TimelineKeyframe<number>[]
+  skewX?: TimelineKeyframe<number>[]
+  skewY?: TimelineKeyframe<number>[]
   opacity?: TimelineKeyframe<number>[]
   maskScale?: TimelineKeyframe<number>[]
   duration: number
@@ -115,12 +119,19 @@ const jumpPreset = (height: number = 0.25, initialVelocity: number = 1.5): Prese
       { time: duration * 0.5, value: { x: 0, y: -clampedHeight }, easing: 'easeOutQuad' },
       { time: duration, value: { x: 0, y: 0 }, easing: 'easeInQuad' },
     ],
-    scale: [
+    // squash & stretch: stretch on take-off, round at the apex, squash on landing
+    scaleX: [
+      { time: 0, value: 1 },
+      { time: duration * 0.2, value: 0.9, easing: 'easeOutQuad' },
+      { time: duration * 0.5, value: 1, easing: 'easeInOutQuad' },
+      { time: duration * 0.85, value: 1.15, easing: 'easeInQuad' },
+      { time: duration, value: 1, easing: 'easeOutQuad' },
+    ],
+    scaleY: [
       { time: 0, value: 1 },
-      { time: duration * 0.2, value: 0.95, easing: 'easeOutQuad' },
-      { time: duration * 0.5, value: 1.05, easing: 'easeOutQuad' },
-      // landing squish
-      { time: duration * 0.85, value: 0.93, easing: 'easeInQuad' },
+      { time: duration * 0.2, value: 1.1, easing: 'easeOutQuad' },
+      { time: duration * 0.5, value: 1, easing: 'easeInOutQuad' },
+      { time: duration * 0.85, value: 0.85, easing: 'easeInQuad' },
       { time: duration, value: 1, easing: 'easeOutQuad' },
     ],
     meta: { jumpHeight: height },
@@ -143,16 +154,16 @@ const popPreset = (peakScale: number = 1.6, wobble: boolean = false, speed: numb
     duration,
     scale: [
       { time: 0, value: 1 },
-      { time: duration * 0.5, value: peakScale, easing: 'easeOutQuad' as any },
+      { time: duration * 0.5, value: peakScale, easing: 'easeOutQuad' },
       ...(collapse
         ? [
-            { time: burstStart, value: wobble ? wobbleScale : peakScale, easing: (wobble ? 'easeOutBack' : 'easeOutQuad') as any },
-            { time: burstEnd, value: 0, easing: 'easeInQuad' as any },
+            { time: burstStart, value: wobble ? wobbleScale : peakScale, easing: (wobble ? 'easeOutBack' : 'easeOutQuad') as Easing },
+            { time: burstEnd, value: 0, easing: 'easeInQuad' as const },
           ]
         : [
-            { time: burstStart, value: wobble ? wobbleScale : peakScale, easing: (wobble ? 'easeOutBack' : 'easeOutQuad') as any },
+            { time: burstStart, value: wobble ? wobbleScale : peakScale, easing: (wobble ? 'easeOutBack' : 'easeOutQuad') as Easing },
             // hold scale at peak; only opacity will drop
-            { time: burstEnd, value: peakScale, easing: 'linear' as any },
+            { time: burstEnd, value: peakScale, easing: 'linear' as const },
           ]),
     ],
     opacity: [
@@ -160,11 +171,11 @@ const popPreset = (peakScale: number = 1.6, wobble: boolean = false, speed: numb
       ...(collapse
         ? [
             { time: burstStart, value: 1 },
-            { time: burstEnd, value: 0, easing: 'easeInQuad' as any },
+            { time: burstEnd, value: 0, easing: 'easeInQuad' as const },
           ]
         : [
             { time: burstStart, value: 1 },
-            { time: burstEnd, value: 0, easing: 'easeInQuad' as any },
+            { time: burstEnd, value: 0, easing: 'easeInQuad' as const },
           ]),
     ],
     meta: { popScale: peakScale, wobble, collapse },
@@ -249,8 +260,8 @@ export const ANIMATION_BASE_DURATION = 1500
 const fadeInPreset = (duration: number = ANIMATION_BASE_DURATION): PresetResult => ({
   duration,
   opacity: [
-    { time: 0, value: 0, easing: 'easeInOutQuad' as any },
-    { time: duration, value: 1, easing: 'easeInOutQuad' as any },
+    { time: 0, value: 0, easing: 'easeInOutQuad' },
+    { time: duration, value: 1, easing: 'easeInOutQuad' },
   ]
 })
 
@@ -258,21 +269,21 @@ const slideInPreset = (duration: number = ANIMATION_BASE_DURATION): PresetResult
   duration,
   // Shape slides in during first 50%, opacity fades in over full duration
   position: [
-    { time: 0, value: { x: -0.2, y: 0 }, easing: 'easeOutQuad' as any },
-    { time: duration * 0.5, value: { x: 0, y: 0 }, easing: 'easeOutQuad' as any },
-    { time: duration, value: { x: 0, y: 0 }, easing: 'easeOutQuad' as any },
+    { time: 0, value: { x: -0.2, y: 0 }, easing: 'easeOutQuad' },
+    { time: duration * 0.5, value: { x: 0, y: 0 }, easing: 'easeOutQuad' },
+    { time: duration, value: { x: 0, y: 0 }, easing: 'easeOutQuad' },
   ],
   opacity: [
-    { time: 0, value: 0, easing: 'easeInOutQuad' as any },
-    { time: duration, value: 1, easing: 'easeInOutQuad' as any },
+    { time: 0, value: 0, easing: 'easeInOutQuad' },
+    { time: duration, value: 1, easing: 'easeInOutQuad' },
   ]
 })
 
 const growInPreset = (duration: number = ANIMATION_BASE_DURATION): PresetResult => ({
   duration,
   scale: [
-    { time: 0, value: 0, easing: 'easeOutBack' as any },
-    { time: duration, value: 1, easing: 'easeOutBack' as any },
+    { time: 0, value: 0, easing: 'easeOutBack' },
+    { time: duration, value: 1, easing: 'easeOutBack' },
   ],
   opacity: [
     { time: 0, value: 0 },
@@ -283,8 +294,8 @@ const growInPreset = (duration: number = ANIMATION_BASE_DURATION): PresetResult
 const shrinkInPreset = (duration: number = ANIMATION_BASE_DURATION): PresetResult => ({
   duration,
   scale: [
-    { time: 0, value: 2, easing: 'easeOutExpo' as any },
-    { time: duration, value: 1, easing: 'easeOutExpo' as any },
+    { time: 0, value: 2, easing: 'easeOutExpo' },
+    { time: duration, value: 1, easing: 'easeOutExpo' },
   ],
   opacity: [
     { time: 0, value: 0 },
@@ -295,12 +306,12 @@ const shrinkInPreset = (duration: number = ANIMATION_BASE_DURATION): PresetResul
 const spinInPreset = (duration: number = ANIMATION_BASE_DURATION): PresetResult => ({
   duration,
   rotation: [
-    { time: 0, value: -Math.PI * 2, easing: 'easeOutBack' as any },
-    { time: duration, value: 0, easing: 'easeOutBack' as any },
+    { time: 0, value: -Math.PI * 2, easing: 'easeOutBack' },
+    { time: duration, value: 0, easing: 'easeOutBack' },
   ],
   scale: [
-    { time: 0, value: 0, easing: 'easeOutBack' as any },
-    { time: duration, value: 1, easing: 'easeOutBack' as any },
+    { time: 0, value: 0, easing: 'easeOutBack' },
+    { time: duration, value: 1, easing: 'easeOutBack' },
   ],
   opacity: [
     { time: 0, value: 0 },
@@ -311,28 +322,28 @@ const spinInPreset = (duration: number = ANIMATION_BASE_DURATION): PresetResult
 const twistInPreset = (duration: number = ANIMATION_BASE_DURATION): PresetResult => ({
   duration,
   rotation: [
-    { time: 0, value: -Math.PI / 2, easing: 'easeInOutQuad' as any }, // -90deg
-    { time: duration, value: 0, easing: 'easeInOutQuad' as any },
+    { time: 0, value: -Math.PI / 2, easing: 'easeInOutQuad' }, // -90deg
+    { time: duration, value: 0, easing: 'easeInOutQuad' },
   ],
   scale: [
-    { time: 0, value: 0, easing: 'easeInOutQuad' as any },
-    { time: duration, value: 1, easing: 'easeInOutQuad' as any },
+    { time: 0, value: 0, easing: 'easeInOutQuad' },
+    { time: duration, value: 1, easing: 'easeInOutQuad' },
   ],
   opacity: [
-    { time: 0, value: 0, easing: 'easeInOutQuad' as any },
-    { time: duration, value: 1, easing: 'easeInOutQuad' as any },
+    { time: 0, value: 0, easing: 'easeInOutQuad' },
+    { time: duration, value: 1, easing: 'easeInOutQuad' },
   ]
 })
 
 const moveScaleInPreset = (duration: number = ANIMATION_BASE_DURATION): PresetResult => ({
   duration,
   position: [
-    { time: 0, value: { x: 0, y: 0.2 }, easing: 'easeOutBack' as any },
-    { time: duration, value: { x: 0, y: 0 }, easing: 'easeOutBack' as any },
+    { time: 0, value: { x: 0, y: 0.2 }, easing: 'easeOutBack' },
+    { time: duration, value: { x: 0, y: 0 }, easing: 'easeOutBack' },
   ],
   scale: [
-    { time: 0, value: 0.5, easing: 'easeOutBack' as any },
-    { time: duration, value: 1, easing: 'easeOutBack' as any },
+    { time: 0, value: 0.5, easing: 'easeOutBack' },
+    { time: duration, value: 1, easing: 'easeOutBack' },
   ],
   opacity: [
     { time: 0, value: 0 },
@@ -344,8 +355,8 @@ const moveScaleInPreset = (duration: number = ANIMATION_BASE_DURATION): PresetRe
 const fadeOutPreset = (duration: number = ANIMATION_BASE_DURATION): PresetResult => ({
   duration,
   opacity: [
-    { time: 0, value: 1, easing: 'easeInQuad' as any },
-    { time: duration, value: 0, easing: 'easeInQuad' as any },
+    { time: 0, value: 1, easing: 'easeInQuad' },
+    { time: duration, value: 0, easing: 'easeInQuad' },
   ]
 })
 
@@ -353,9 +364,9 @@ const slideOutPreset = (duration: number = ANIMATION_BASE_DURATION): PresetResul
   duration,
   // Shape stays in place for first 50%, then slides out during second half
   position: [
-    { time: 0, value: { x: 0, y: 0 }, easing: 'easeInQuad' as any },
-    { time: duration * 0.5, value: { x: 0, y: 0 }, easing: 'easeInQuad' as any },
-    { time: duration, value: { x: 0.2, y: 0 }, easing: 'easeInQuad' as any },
+    { time: 0, value: { x: 0, y: 0 }, easing: 'easeInQuad' },
+    { time: duration * 0.5, value: { x: 0, y: 0 }, easing: 'easeInQuad' },
+    { time: duration, value: { x: 0.2, y: 0 }, easing: 'easeInQuad' },
   ],
   // Opacity fades over the full duration
   opacity: [
@@ -367,8 +378,8 @@ const slideOutPreset = (duration: number = ANIMATION_BASE_DURATION): PresetResul
 const growOutPreset = (duration: number = ANIMATION_BASE_DURATION): PresetResult => ({
   duration,
   scale: [
-    { time: 0, value: 1, easing: 'easeInBack' as any },
-    { time: duration, value: 2, easing: 'easeInBack' as any },
+    { time: 0, value: 1, easing: 'easeInBack' },
+    { time: duration, value: 2, easing: 'easeInBack' },
   ],
   opacity: [
     { time: duration * 0.5, value: 1 },
@@ -379,8 +390,8 @@ const growOutPreset = (duration: number = ANIMATION_BASE_DURATION): PresetResult
 const shrinkOutPreset = (duration: number = ANIMATION_BASE_DURATION): PresetResult => ({
   duration,
   scale: [
-    { time: 0, value: 1, easing: 'easeInBack' as any },
-    { time: duration, value: 0, easing: 'easeInBack' as any },
+    { time: 0, value: 1, easing: 'easeInBack' },
+    { time: duration, value: 0, easing: 'easeInBack' },
   ],
   opacity: [
     { time: duration * 0.8, value: 1 },
@@ -391,12 +402,12 @@ const shrinkOutPreset = (duration: number = ANIMATION_BASE_DURATION): PresetResu
 const spinOutPreset = (duration: number = ANIMATION_BASE_DURATION): PresetResult => ({
   duration,
   rotation: [
-    { time: 0, value: 0, easing: 'easeInBack' as any },
-    { time: duration, value: Math.PI * 2, easing: 'easeInBack' as any },
+    { time: 0, value: 0, easing: 'easeInBack' },
+    { time: duration, value: Math.PI * 2, easing: 'easeInBack' },
   ],
   scale: [
-    { time: 0, value: 1, easing: 'easeInBack' as any },
-    { time: duration, value: 0, easing: 'easeInBack' as any },
+    { time: 0, value: 1, easing: 'easeInBack' },
+    { time: duration, value: 0, easing: 'easeInBack' },
   ],
   opacity: [
     { time: duration * 0.8, value: 1 },
@@ -407,28 +418,28 @@ const spinOutPreset = (duration: number = ANIMATION_BASE_DURATION): PresetResult
 const twistOutPreset = (duration: number = ANIMATION_BASE_DURATION): PresetResult => ({
   duration,
   rotation: [
-    { time: 0, value: 0, easing: 'easeInOutQuad' as any },
-    { time: duration, value: Math.PI / 2, easing: 'easeInOutQuad' as any }, // +90deg
+    { time: 0, value: 0, easing: 'easeInOutQuad' },
+    { time: duration, value: Math.PI / 2, easing: 'easeInOutQuad' }, // +90deg
   ],
   scale: [
-    { time: 0, value: 1, easing: 'easeInOutQuad' as any },
-    { time: duration, value: 2, easing: 'easeInOutQuad' as any },
+    { time: 0, value: 1, easing: 'easeInOutQuad' },
+    { time: duration, value: 2, easing: 'easeInOutQuad' },
   ],
   opacity: [
-    { time: 0, value: 1, easing: 'easeInOutQuad' as any },
-    { time: duration, value: 0, easing: 'easeInOutQuad' as any },
+    { time: 0, value: 1, easing: 'easeInOutQuad' },
+    { time: duration, value: 0, easing: 'easeInOutQuad' },
   ]
 })
 
 const moveScaleOutPreset = (duration: number = ANIMATION_BASE_DURATION): PresetResult => ({
   duration,
   position: [
-    { time: 0, value: { x: 0, y: 0 }, easing: 'easeInBack' as any },
-    { time: duration, value: { x: 0, y: 0.2 }, easing: 'easeInBack' as any },
+    { time: 0, value: { x: 0, y: 0 }, easing: 'easeInBack' },
+    { time: duration, value: { x: 0, y: 0.2 }, easing: 'easeInBack' },
   ],
   scale: [
-    { time: 0, value: 1, easing: 'easeInBack' as any },
-    { time: duration, value: 0.5, easing: 'easeInBack' as any },
+    { time: 0, value: 1, easing: 'easeInBack' },
+    { time: duration, value: 0.5, easing: 'easeInBack' },
   ],
   opacity: [
     { time: duration * 0.8, value: 1 },
@@ -477,12 +488,12 @@ const panZoomPreset = (
   const targetScale = Math.max(1.1, Math.min(intensity, 4)) // Clamp between 1.1 and 4
   
   // Determine easing function
-  const getEasing = (easingType: string) => {
+  const getEasing = (easingType: string): Easing => {
     switch (easingType) {
-      case 'linear': return 'linear' as any
-      case 'smooth': return 'easeInOutCubic' as any
+      case 'linear': return 'linear'
+      case 'smooth': return 'easeInOutCubic'
       case 'ease-in-out': 
-      default: return 'easeInOutQuad' as any
+      default: return 'easeInOutQuad'
     }
   }
   const animEasing = getEasing(easing)
@@ -498,7 +509,7 @@ const panZoomPreset = (
       // Zoom in complete: offset to center target rectangle
       { time: zoomInEnd, value: { x: offsetX, y: offsetY }, easing: animEasing },
       // Hold: stay at offset
-      { time: holdEnd, value: { x: offsetX, y: offsetY }, easing: 'linear' as any },
+      { time: holdEnd, value: { x: offsetX, y: offsetY }, easing: 'linear' },
       // Zoom out complete: back to normal
       { time: duration, value: { x: 0, y: 0 }, easing: animEasing },
     ],
@@ -508,7 +519,7 @@ const panZoomPreset = (
       // Zoom in complete: scaled up
       { time: zoomInEnd, value: targetScale, easing: animEasing },
       // Hold: stay scaled
-      { time: holdEnd, value: targetScale, easing: 'linear' as any },
+      { time: holdEnd, value: targetScale, easing: 'linear' },
       // Zoom out complete: back to normal
       { time: duration, value: 1, easing: animEasing },
     ],
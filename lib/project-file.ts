@@ -0,0 +1,511 @@
+/**
+ * Project File Format
+ *
+ * A saved composition is a single JSON document:
+ *
+ *   {
+ *     format: 'motionshapes-project',
+ *     version: 8,
+ *     savedAt: '2025-01-01T00:00:00.000Z',
+ *     canvas: { width, height },        // viewport size in px
+ *     background: BackgroundSettings,   // solid / gradient backdrop
+ *     layers: Layer[],                  // shapes, images, svgs, text and counters
+ *     layerOrder: string[],             // layer ids, back to front
+ *     precomps?: Precomp[],             // saved compositions placed by 'precomp' layers
+ *     timeline: {
+ *       duration, loop, playbackRate,
+ *       fps?, quantizeToFrames?,        // project frame rate, playhead/edits on frames
+ *       tracks: LayerTracks[],          // keyframes + path clips per layer
+ *       backgroundTracks?,              // animated background colors
+ *       templateClips, effectClips, clickMarkers,
+ *       audioTracks?,                   // imported audio, embedded as data URLs
+ *       audioDrivers?,                  // audio level -> layer property mappings
+ *     },
+ *   }
+ *
+ * Files written by older versions are upgraded one version at a time through
+ * PROJECT_MIGRATIONS, then validated before anything touches app state.
+ */
+
+import { AUDIO_BANDS, DRIVER_PROPERTIES } from './audio'
+import type { AudioDriver, AudioTrack } from './audio'
+import type { BackgroundSettings, Layer } from './history-manager'
+import { COLOR_SPACES } from './color'
+import { EFFECT_BLEND_MODES } from './effects'
+import { PARTICLE_EFFECT_TYPES, PARTICLE_SOURCE_KINDS } from './particles'
+import { DEFAULT_FPS, EASING_PRESETS } from './timeline'
+import type { Precomp } from './precomp'
+import type { BackgroundTracks, LayerTracks } from './timeline'
+import type { TimelineState } from './timeline-store'
+
+export const PROJECT_FILE_FORMAT = 'motionshapes-project'
+export const PROJECT_FILE_VERSION = 8
+export const PROJECT_FILE_EXTENSION = '.motion.json'
+
+export interface ProjectTimeline {
+  duration: number
+  loop: boolean
+  playbackRate: number
+  fps?: number
+  quantizeToFrames?: boolean
+  tracks: LayerTracks[]
+  backgroundTracks?: BackgroundTracks
+  templateClips: TimelineState['templateClips']
+  effectClips: TimelineState['effectClips']
+  clickMarkers: TimelineState['clickMarkers']
+  audioTracks?: AudioTrack[]
+  audioDrivers?: AudioDriver[]
+}
+
+export interface ProjectFile {
+  format: typeof PROJECT_FILE_FORMAT
+  version: number
+  savedAt: string
+  canvas: { width: number; height: number }
+  background: BackgroundSettings
+  layers: Layer[]
+  layerOrder: string[]
+  precomps?: Precomp[]
+  timeline: ProjectTimeline
+}
+
+// Everything needed to write a project (savedAt/format/version are filled in)
+export type ProjectComposition = Omit<ProjectFile, 'format' | 'version' | 'savedAt'>
+
+type RawProject = Record<string, unknown>
+
+// A version that only added optional fields: the older document is already valid
+const additive = (project: RawProject) => project
+
+const withTimeline = (project: RawProject, update: (timeline: RawProject) => RawProject): RawProject =>
+  isRecord(project.timeline) ? { ...project, timeline: update(project.timeline) } : project
+
+/**
+ * Upgrade steps keyed by the version they upgrade FROM.
+ * PROJECT_MIGRATIONS[n] turns a version n document into version n + 1.
+ *
+ *   2  easing curves, color tracks and color spaces, scaleX/scaleY/skew/anchor tracks
+ *   3  group layers and parenting
+ *   4  pre-comps and pre-comp layers
+ *   5  audio tracks and audio drivers
+ *   6  project frame rate and frame quantizing
+ *   7  particle presets and particle sources
+ *   8  effect stack (bypass, blend modes, keyframed params) and filter effect types
+ */
+export const PROJECT_MIGRATIONS: Record<number, (project: RawProject) => RawProject> = {
+  1: additive,
+  2: additive,
+  3: additive,
+  4: (project) => withTimeline(project, (timeline) => ({ audioTracks: [], audioDrivers: [], ...timeline })),
+  // Files from before the fps setting played at the default rate
+  5: (project) => withTimeline(project, (timeline) => ({ fps: DEFAULT_FPS, quantizeToFrames: false, ...timeline })),
+  6: additive,
+  7: additive,
+}
+
+const LAYER_TYPES = ['shape', 'image', 'svg', 'text', 'group', 'precomp']
+const BACKGROUND_MODES = ['solid', 'gradient']
+const EFFECT_TYPES = [
+  'glow',
+  'dropShadow',
+  'blur',
+  'glitch',
+  'pixelate',
+  'colorAdjust',
+  'rgbSplit',
+  'zoomBlur',
+  'motionBlur',
+  'noise',
+  'outline',
+  'bloom',
+  'shockwave',
+  'crt',
+  ...PARTICLE_EFFECT_TYPES,
+]
+const KEYFRAME_TRACKS = [
+  'position',
+  'scale',
+  'scaleX',
+  'scaleY',
+  'rotation',
+  'skewX',
+  'skewY',
+  'anchor',
+  'opacity',
+  'maskScale',
+  'fillColor',
+  'strokeColor',
+] as const
+const BACKGROUND_TRACKS = ['solid', 'from', 'to'] as const
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value)
+
+const fail = (path: string, message: string): never => {
+  throw new Error(`Invalid project file: ${path} ${message}`)
+}
+
+const expectRecord = (value: unknown, path: string) =>
+  isRecord(value) ? value : fail(path, 'must be an object')
+
+const expectArray = (value: unknown, path: string) =>
+  Array.isArray(value) ? value : fail(path, 'must be an array')
+
+const expectNumber = (value: unknown, path: string) =>
+  isFiniteNumber(value) ? value : fail(path, 'must be a finite number')
+
+const expectString = (value: unknown, path: string) =>
+  typeof value === 'string' ? value : fail(path, 'must be a string')
+
+const expectOneOf = (value: unknown, options: string[], path: string) =>
+  typeof value === 'string' && options.includes(value) ? value : fail(path, `must be one of ${options.join(', ')}`)
+
+const validateBackground = (value: unknown): BackgroundSettings => {
+  const bg = expectRecord(value, 'background')
+  expectOneOf(bg.mode, BACKGROUND_MODES, 'background.mode')
+  expectString(bg.solid, 'background.solid')
+  expectString(bg.from, 'background.from')
+  expectString(bg.to, 'background.to')
+  expectNumber(bg.opacity, 'background.opacity')
+  return bg as unknown as BackgroundSettings
+}
+
+// Drawing fields group and pre-comp layers carry only as placeholders
+const CONTAINER_LAYER_DEFAULTS = { shapeKind: 'square', width: 100, height: 100, scale: 1, fillColor: 0xffffff }
+
+const validateLayer = (value: unknown, path: string): Layer => {
+  const raw = expectRecord(value, path)
+  expectString(raw.id, `${path}.id`)
+  expectOneOf(raw.type, LAYER_TYPES, `${path}.type`)
+  const isContainer = raw.type === 'group' || raw.type === 'precomp'
+  const layer = isContainer ? { ...CONTAINER_LAYER_DEFAULTS, ...raw } : raw
+  expectString(layer.shapeKind, `${path}.shapeKind`)
+  ;(['x', 'y', 'width', 'height', 'scale', 'fillColor'] as const).forEach((key) => {
+    expectNumber(layer[key], `${path}.${key}`)
+  })
+  if (layer.parentId !== undefined) expectString(layer.parentId, `${path}.parentId`)
+  if (layer.parentOrigin !== undefined) {
+    const origin = expectRecord(layer.parentOrigin, `${path}.parentOrigin`)
+    expectNumber(origin.x, `${path}.parentOrigin.x`)
+    expectNumber(origin.y, `${path}.parentOrigin.y`)
+  }
+  if (layer.type === 'precomp') {
+    expectString(layer.precompId, `${path}.precompId`)
+    ;(['timeOffset', 'timeStretch'] as const).forEach((key) => {
+      if (layer[key] !== undefined) expectNumber(layer[key], `${path}.${key}`)
+    })
+  }
+  return layer as unknown as Layer
+}
+
+const validateEasing = (value: unknown, path: string) => {
+  if (typeof value === 'string') return expectOneOf(value, EASING_PRESETS, path)
+  const easing = expectRecord(value, path)
+  expectOneOf(easing.type, ['cubicBezier', 'steps'], `${path}.type`)
+  if (easing.type === 'steps') {
+    expectNumber(easing.count, `${path}.count`)
+    expectOneOf(easing.position, ['start', 'end'], `${path}.position`)
+  } else {
+    ;(['x1', 'y1', 'x2', 'y2'] as const).forEach((key) => expectNumber(easing[key], `${path}.${key}`))
+  }
+}
+
+const validateKeyframes = (value: unknown, path: string) => {
+  expectArray(value, path).forEach((frame, i) => {
+    const kf = expectRecord(frame, `${path}[${i}]`)
+    expectNumber(kf.time, `${path}[${i}].time`)
+    if (kf.value === undefined) fail(`${path}[${i}].value`, 'is required')
+    if (kf.easing !== undefined) validateEasing(kf.easing, `${path}[${i}].easing`)
+  })
+}
+
+const validateTrack = (value: unknown, path: string): LayerTracks => {
+  const track = expectRecord(value, path)
+  expectString(track.layerId, `${path}.layerId`)
+  if (track.startTime !== undefined) expectNumber(track.startTime, `${path}.startTime`)
+  if (track.duration !== undefined) expectNumber(track.duration, `${path}.duration`)
+  KEYFRAME_TRACKS.forEach((key) => {
+    if (track[key] !== undefined) validateKeyframes(track[key], `${path}.${key}`)
+  })
+  if (track.colorSpace !== undefined) expectOneOf(track.colorSpace, COLOR_SPACES, `${path}.colorSpace`)
+  if (track.paths !== undefined) {
+    expectArray(track.paths, `${path}.paths`).forEach((clip, i) => {
+      const p = expectRecord(clip, `${path}.paths[${i}]`)
+      expectString(p.id, `${path}.paths[${i}].id`)
+      expectNumber(p.startTime, `${path}.paths[${i}].startTime`)
+      expectNumber(p.duration, `${path}.paths[${i}].duration`)
+      expectArray(p.points, `${path}.paths[${i}].points`)
+      if (p.easing !== undefined) validateEasing(p.easing, `${path}.paths[${i}].easing`)
+    })
+  }
+  return track as unknown as LayerTracks
+}
+
+const validateBackgroundTracks = (value: unknown): BackgroundTracks => {
+  const tracks = expectRecord(value, 'timeline.backgroundTracks')
+  BACKGROUND_TRACKS.forEach((key) => {
+    if (tracks[key] !== undefined) validateKeyframes(tracks[key], `timeline.backgroundTracks.${key}`)
+  })
+  if (tracks.colorSpace !== undefined) {
+    expectOneOf(tracks.colorSpace, COLOR_SPACES, 'timeline.backgroundTracks.colorSpace')
+  }
+  return tracks as unknown as BackgroundTracks
+}
+
+const validateTemplateClips = (value: unknown, path: string) =>
+  expectArray(value, path).map((clip, i) => {
+    const c = expectRecord(clip, `${path}[${i}]`)
+    expectString(c.id, `${path}[${i}].id`)
+    expectString(c.layerId, `${path}[${i}].layerId`)
+    expectString(c.template, `${path}[${i}].template`)
+    expectNumber(c.start, `${path}[${i}].start`)
+    expectNumber(c.duration, `${path}[${i}].duration`)
+    if (c.parameters !== undefined) expectRecord(c.parameters, `${path}[${i}].parameters`)
+    return c as unknown as ProjectTimeline['templateClips'][number]
+  })
+
+const validateEffectClips = (value: unknown, path: string) =>
+  expectArray(value, path).map((clip, i) => {
+    const c = expectRecord(clip, `${path}[${i}]`)
+    expectString(c.id, `${path}[${i}].id`)
+    expectString(c.layerId, `${path}[${i}].layerId`)
+    expectOneOf(c.effectType, EFFECT_TYPES, `${path}[${i}].effectType`)
+    expectNumber(c.start, `${path}[${i}].start`)
+    expectNumber(c.duration, `${path}[${i}].duration`)
+    const params = expectRecord(c.params, `${path}[${i}].params`)
+    if (c.enabled !== undefined && typeof c.enabled !== 'boolean') fail(`${path}[${i}].enabled`, 'must be a boolean')
+    if (c.blendMode !== undefined) expectOneOf(c.blendMode, [...EFFECT_BLEND_MODES], `${path}[${i}].blendMode`)
+    if (c.keyframes !== undefined) {
+      Object.entries(expectRecord(c.keyframes, `${path}[${i}].keyframes`)).forEach(([key, frames]) => {
+        if (frames !== undefined) validateKeyframes(frames, `${path}[${i}].keyframes.${key}`)
+      })
+    }
+    if (params.particleSources !== undefined) {
+      expectArray(params.particleSources, `${path}[${i}].params.particleSources`).forEach((source, j) => {
+        const sourcePath = `${path}[${i}].params.particleSources[${j}]`
+        const s = expectRecord(source, sourcePath)
+        expectOneOf(s.kind, PARTICLE_SOURCE_KINDS.map((k) => k.key), `${sourcePath}.kind`)
+        expectNumber(s.weight, `${sourcePath}.weight`)
+        if (s.kind === 'image' || s.kind === 'glyph') expectString(s.layerId, `${sourcePath}.layerId`)
+        if (s.kind === 'icon') expectString(s.icon, `${sourcePath}.icon`)
+        if (s.kind === 'emoji') expectString(s.emoji, `${sourcePath}.emoji`)
+        if (s.kind === 'glyph') expectString(s.letter, `${sourcePath}.letter`)
+      })
+    }
+    return c as unknown as ProjectTimeline['effectClips'][number]
+  })
+
+const validateAudioTracks = (value: unknown): AudioTrack[] =>
+  expectArray(value, 'timeline.audioTracks').map((track, i) => {
+    const path = `timeline.audioTracks[${i}]`
+    const t = expectRecord(track, path)
+    expectString(t.id, `${path}.id`)
+    expectString(t.name, `${path}.name`)
+    expectString(t.src, `${path}.src`)
+    expectNumber(t.start, `${path}.start`)
+    expectNumber(t.duration, `${path}.duration`)
+    expectNumber(t.volume, `${path}.volume`)
+    expectArray(t.waveform, `${path}.waveform`).forEach((peak, j) => expectNumber(peak, `${path}.waveform[${j}]`))
+    expectArray(t.beats, `${path}.beats`).forEach((beat, j) => expectNumber(beat, `${path}.beats[${j}]`))
+    if (t.envelopes !== undefined) {
+      const envelopes = expectRecord(t.envelopes, `${path}.envelopes`)
+      AUDIO_BANDS.forEach(({ key }) => expectArray(envelopes[key], `${path}.envelopes.${key}`))
+    }
+    return t as unknown as AudioTrack
+  })
+
+const validateAudioDrivers = (value: unknown): AudioDriver[] =>
+  expectArray(value, 'timeline.audioDrivers').map((driver, i) => {
+    const path = `timeline.audioDrivers[${i}]`
+    const d = expectRecord(driver, path)
+    expectString(d.id, `${path}.id`)
+    expectString(d.layerId, `${path}.layerId`)
+    expectString(d.audioTrackId, `${path}.audioTrackId`)
+    expectOneOf(d.property, DRIVER_PROPERTIES.map((p) => p.key), `${path}.property`)
+    expectOneOf(d.band, AUDIO_BANDS.map((b) => b.key), `${path}.band`)
+    expectNumber(d.gain, `${path}.gain`)
+    expectNumber(d.smoothing, `${path}.smoothing`)
+    expectNumber(d.min, `${path}.min`)
+    expectNumber(d.max, `${path}.max`)
+    return d as unknown as AudioDriver
+  })
+
+const validateTimeline = (value: unknown): ProjectTimeline => {
+  const timeline = expectRecord(value, 'timeline')
+  const clickMarkers = expectArray(timeline.clickMarkers, 'timeline.clickMarkers').map((marker, i) => {
+    const path = `timeline.clickMarkers[${i}]`
+    const m = expectRecord(marker, path)
+    expectString(m.id, `${path}.id`)
+    expectString(m.layerId, `${path}.layerId`)
+    expectNumber(m.time, `${path}.time`)
+    return m
+  })
+
+  return {
+    duration: expectNumber(timeline.duration, 'timeline.duration'),
+    loop: typeof timeline.loop === 'boolean' ? timeline.loop : false,
+    playbackRate: isFiniteNumber(timeline.playbackRate) ? timeline.playbackRate : 1,
+    ...(isFiniteNumber(timeline.fps) && timeline.fps > 0 && { fps: timeline.fps }),
+    ...(typeof timeline.quantizeToFrames === 'boolean' && { quantizeToFrames: timeline.quantizeToFrames }),
+    tracks: expectArray(timeline.tracks, 'timeline.tracks').map((t, i) => validateTrack(t, `timeline.tracks[${i}]`)),
+    ...(timeline.backgroundTracks !== undefined && {
+      backgroundTracks: validateBackgroundTracks(timeline.backgroundTracks),
+    }),
+    templateClips: validateTemplateClips(timeline.templateClips, 'timeline.templateClips'),
+    effectClips: validateEffectClips(timeline.effectClips, 'timeline.effectClips'),
+    clickMarkers: clickMarkers as unknown as ProjectTimeline['clickMarkers'],
+    ...(timeline.audioTracks !== undefined && { audioTracks: validateAudioTracks(timeline.audioTracks) }),
+    ...(timeline.audioDrivers !== undefined && { audioDrivers: validateAudioDrivers(timeline.audioDrivers) }),
+  }
+}
+
+const validatePrecomp = (value: unknown, index: number): Precomp => {
+  const path = `precomps[${index}]`
+  const precomp = expectRecord(value, path)
+  expectString(precomp.id, `${path}.id`)
+  expectString(precomp.name, `${path}.name`)
+  return {
+    id: precomp.id as string,
+    name: precomp.name as string,
+    duration: expectNumber(precomp.duration, `${path}.duration`),
+    layers: expectArray(precomp.layers, `${path}.layers`).map((l, i) => validateLayer(l, `${path}.layers[${i}]`)),
+    layerOrder: expectArray(precomp.layerOrder, `${path}.layerOrder`).map((id, i) =>
+      expectString(id, `${path}.layerOrder[${i}]`)
+    ),
+    tracks: expectArray(precomp.tracks, `${path}.tracks`).map((t, i) => validateTrack(t, `${path}.tracks[${i}]`)),
+    templateClips: validateTemplateClips(precomp.templateClips, `${path}.templateClips`),
+    effectClips: validateEffectClips(precomp.effectClips, `${path}.effectClips`),
+  }
+}
+
+/**
+ * Run every migration between the document's version and the current one.
+ */
+export function migrateProject(raw: RawProject): RawProject {
+  const version = expectNumber(raw.version, 'version')
+  if (version > PROJECT_FILE_VERSION) {
+    throw new Error(
+      `Project file version ${version} is newer than this editor supports (${PROJECT_FILE_VERSION})`
+    )
+  }
+
+  let project = raw
+  for (let v = version; v < PROJECT_FILE_VERSION; v++) {
+    const migrate = PROJECT_MIGRATIONS[v]
+    if (!migrate) {
+      throw new Error(`No migration available for project file version ${v}`)
+    }
+    project = { ...migrate(project), version: v + 1 }
+  }
+  return project
+}
+
+/**
+ * Build a project document from the current editor state
+ */
+export function createProjectFile(composition: ProjectComposition): ProjectFile {
+  return {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    canvas: { width: composition.canvas.width, height: composition.canvas.height },
+    background: { ...composition.background },
+    layers: composition.layers.map((layer) => ({ ...layer })),
+    layerOrder: [...composition.layerOrder],
+    ...(composition.precomps?.length && { precomps: composition.precomps }),
+    timeline: {
+      duration: composition.timeline.duration,
+      loop: composition.timeline.loop,
+      playbackRate: composition.timeline.playbackRate,
+      ...(composition.timeline.fps !== undefined && { fps: composition.timeline.fps }),
+      ...(composition.timeline.quantizeToFrames && { quantizeToFrames: true }),
+      tracks: composition.timeline.tracks,
+      ...(composition.timeline.backgroundTracks && { backgroundTracks: composition.timeline.backgroundTracks }),
+      templateClips: composition.timeline.templateClips,
+      effectClips: composition.timeline.effectClips,
+      clickMarkers: composition.timeline.clickMarkers,
+      ...(composition.timeline.audioTracks?.length && { audioTracks: composition.timeline.audioTracks }),
+      ...(composition.timeline.audioDrivers?.length && { audioDrivers: composition.timeline.audioDrivers }),
+    },
+  }
+}
+
+/**
+ * Serialize the current editor state to a JSON string
+ */
+export function serializeProject(composition: ProjectComposition): string {
+  return JSON.stringify(createProjectFile(composition), null, 2)
+}
+
+/**
+ * Parse, migrate and validate a project document.
+ * Throws an Error describing the first problem found.
+ */
+export function parseProject(input: string | unknown): ProjectFile {
+  let data: unknown = input
+  if (typeof input === 'string') {
+    try {
+      data = JSON.parse(input)
+    } catch {
+      throw new Error('Invalid project file: not valid JSON')
+    }
+  }
+
+  const raw = expectRecord(data, 'root')
+  if (raw.format !== PROJECT_FILE_FORMAT) {
+    fail('format', `must be "${PROJECT_FILE_FORMAT}"`)
+  }
+
+  const project = migrateProject(raw)
+  const canvas = expectRecord(project.canvas, 'canvas')
+  const layers = expectArray(project.layers, 'layers').map((l, i) => validateLayer(l, `layers[${i}]`))
+  const precomps = project.precomps === undefined ? [] : expectArray(project.precomps, 'precomps').map(validatePrecomp)
+  // Pre-comp layers (at any depth) must find their composition in the file
+  const precompIds = new Set(precomps.map((p) => p.id))
+  ;[layers, ...precomps.map((p) => p.layers)].forEach((list) => {
+    list.forEach((layer) => {
+      if (layer.precompId && !precompIds.has(layer.precompId)) {
+        fail(`precompId "${layer.precompId}"`, 'does not match any saved pre-comp')
+      }
+    })
+  })
+  const layerIds = new Set(layers.map((l) => l.id))
+  // A parent that is not in the file leaves the child at the top level, and a
+  // parent loop is cut where it closes
+  const layersById = new Map(layers.map((l) => [l.id, l]))
+  layers.forEach((layer) => {
+    if (layer.parentId && !layerIds.has(layer.parentId)) delete layer.parentId
+    const seen = new Set([layer.id])
+    for (let id = layer.parentId; id; id = layersById.get(id)?.parentId) {
+      if (seen.has(id)) {
+        delete layer.parentId
+        break
+      }
+      seen.add(id)
+    }
+  })
+
+  // Keep order consistent with the layers that actually exist
+  const savedOrder = expectArray(project.layerOrder, 'layerOrder')
+    .map((id, i) => expectString(id, `layerOrder[${i}]`))
+    .filter((id) => layerIds.has(id))
+  const layerOrder = [...savedOrder, ...layers.map((l) => l.id).filter((id) => !savedOrder.includes(id))]
+
+  return {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    savedAt: typeof project.savedAt === 'string' ? project.savedAt : new Date().toISOString(),
+    canvas: {
+      width: expectNumber(canvas.width, 'canvas.width'),
+      height: expectNumber(canvas.height, 'canvas.height'),
+    },
+    background: validateBackground(project.background),
+    layers,
+    layerOrder,
+    ...(precomps.length > 0 && { precomps }),
+    timeline: validateTimeline(project.timeline),
+  }
+}
@@ -0,0 +1,1042 @@
+/**
+ * Scene Evaluator
+ *
+ * Pure "what does the composition look like at time t" module.
+ * Takes the dashboard layers plus the timeline store data and returns a
+ * render description per layer (transform, opacity, mask, filters, text,
+ * counter value). It never touches PIXI or the DOM, so MotionCanvas and the
+ * exporters can share it and it can run in Node.
+ */
+
+import { evaluateAudioDrivers } from './audio'
+import type { AudioDriver, AudioTrack, DrivenValues } from './audio'
+import { colorToHex, hexToColor } from './color'
+import { isEffectEnabled, sampleEffectParam } from './effects'
+import type { EffectBlendMode, EffectParamKey } from './effects'
+import type { BackgroundSettings } from './history-manager'
+import { seedFromId } from './particles'
+import type { ParticleEffectType, ParticleSource } from './particles'
+import { DEFAULT_LAYER_STATE, sampleColorTrack, sampleTimeline } from './timeline'
+import type { BackgroundTracks, LayerTracks, SampledLayerState, Vec2 } from './timeline'
+import { PULSE_BASE_SCALE } from './presets'
+import type { TimelineState } from './timeline-store'
+
+type TemplateClip = TimelineState['templateClips'][number]
+type EffectClip = TimelineState['effectClips'][number]
+
+// Structural subset of a dashboard layer that affects rendering
+export interface SceneLayer {
+  id: string
+  type?: 'shape' | 'image' | 'svg' | 'text' | 'group' | 'precomp'
+  parentId?: string
+  parentOrigin?: { x: number; y: number } // parent position when linked, same units as x/y
+  shapeKind: string
+  x: number
+  y: number
+  width: number
+  height: number
+  scale?: number
+  rotation?: number // degrees
+  fillColor: number
+  strokeColor?: number
+  strokeWidth?: number
+  text?: string
+  isCounter?: boolean
+  counterStart?: number
+  counterEnd?: number
+  counterPrefix?: string
+  // Pre-comp layers
+  precompId?: string
+  timeOffset?: number // ms after the layer's bar start where the inner timeline begins
+  timeStretch?: number // playback length factor, 2 = half speed
+  loop?: boolean // repeat the inner timeline instead of holding its last frame
+}
+
+// A saved composition placed by 'precomp' layers
+export interface ScenePrecomp {
+  layers: SceneLayer[] // back to front
+  tracks: LayerTracks[]
+  templateClips: TemplateClip[]
+  effectClips: EffectClip[]
+  duration: number // ms
+}
+
+export interface SceneInput {
+  layers: SceneLayer[] // back to front
+  tracks: LayerTracks[]
+  templateClips: TemplateClip[]
+  effectClips: EffectClip[]
+  viewport: { width: number; height: number }
+  precomps?: Record<string, ScenePrecomp>
+  audioTracks?: AudioTrack[]
+  audioDrivers?: AudioDriver[]
+}
+
+export type FilterDescriptor = (
+  | { type: 'glow'; distance: number; outerStrength: number; color: number }
+  | { type: 'dropShadow'; distance: number; blur: number; rotation: number; alpha: number; color: number }
+  | { type: 'blur'; strength: number }
+  | { type: 'glitch'; slices: number; offset: number; seed: number }
+  | { type: 'pixelate'; size: number }
+  | {
+      type: 'colorAdjust'
+      gamma: number
+      saturation: number
+      contrast: number
+      brightness: number
+      red: number
+      green: number
+      blue: number
+    }
+  | { type: 'rgbSplit'; amount: number; angle: number } // px, degrees
+  | { type: 'zoomBlur'; strength: number; innerRadius: number }
+  | { type: 'motionBlur'; amount: number; angle: number } // px, degrees
+  | { type: 'noise'; amount: number; seed: number }
+  | { type: 'outline'; thickness: number; color: number; alpha: number }
+  | { type: 'bloom'; threshold: number; scale: number; brightness: number; blur: number }
+  | { type: 'shockwave'; amplitude: number; wavelength: number; speed: number; brightness: number; time: number } // time in s
+  | {
+      type: 'crt'
+      curvature: number
+      lineWidth: number
+      lineContrast: number
+      noise: number
+      vignetting: number
+      seed: number
+      time: number
+    }
+) & { blendMode?: EffectBlendMode } // unset = normal
+
+export interface EmitterDescriptor {
+  clipId: string
+  effectType: ParticleEffectType
+  localTime: number // ms since the effect clip started
+  seed: number
+  particleSpeed?: number
+  particleCount?: number
+  sources: ParticleSource[]
+  blendMode?: EffectBlendMode
+}
+
+export interface MaskFrame {
+  kind: 'center' | 'top'
+  x: number // px, mask origin
+  y: number
+  width: number // px, unscaled rect size
+  height: number
+  pivotY: number
+  rotation: number // radians (layer rotation + mask angle)
+  scaleX: number
+  scaleY: number
+}
+
+export interface LetterFrame {
+  char: string // may differ from the source char while scrambling
+  scale: number
+  alpha: number
+}
+
+export interface TextFrame {
+  value: string // visible text (typewriter / counter applied)
+  letters?: LetterFrame[] // per-letter state when a split-text animation is active
+}
+
+export interface LayerFrame {
+  layerId: string
+  zIndex: number
+  alive: boolean // inside the layer's visibility bar
+  x: number // px, already offset so the layer turns and scales around its anchor
+  y: number // px
+  scale: number
+  scaleX: number // scale times the per-axis squash & stretch
+  scaleY: number
+  rotation: number // radians
+  skewX: number // radians
+  skewY: number
+  opacity: number
+  fillColor: number // sampled from the fill color track, else the layer's color
+  strokeColor?: number
+  offCanvas: boolean
+  transitionBlur: number // blur strength from transition_blur, 0 when inactive
+  mask: MaskFrame | null
+  filters: FilterDescriptor[] // from effect clips only, see collectFilters
+  emitters: EmitterDescriptor[]
+  text?: TextFrame
+  counterValue?: number
+}
+
+/**
+ * Everything a layer inherits from its parent chain at one instant. Children
+ * live in the parent's space: their offset from the parent's resting position
+ * is carried through the parent's current transform.
+ */
+export interface ParentTransform {
+  x: number // px, where the parent's origin ended up
+  y: number
+  originX: number // px, the child's parentOrigin
+  originY: number
+  scaleX: number
+  scaleY: number
+  rotation: number // radians
+  skewX: number
+  skewY: number
+  opacity: number
+  alive: boolean
+}
+
+export interface SceneFrame {
+  time: number
+  layers: LayerFrame[]
+}
+
+const TRANSITION_TEMPLATES = ['transition_fade', 'transition_slide', 'transition_zoom', 'transition_blur']
+const SCRAMBLE_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!@#$%&*<>?'
+const LETTER_STAGGER = 80 // ms per letter
+const LETTER_DURATION = 1000
+const OFF_CANVAS_BLUR = 4
+const MAX_PRECOMP_DEPTH = 8
+const TRANSITION_MAX_BLUR = 15
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v))
+
+/**
+ * Normalized coordinates are stored as 0-1 (up to 4 for off-canvas), anything else is px
+ */
+export const toPixels = (value: number, size: number) => (value <= 4 ? value * size : value)
+
+// Elastic ease-out used by the bounce text animations
+const elasticOut = (x: number) => {
+  const c4 = (2 * Math.PI) / 3
+  return x === 0 ? 0 : x === 1 ? 1 : Math.pow(2, -10 * x) * Math.sin((x * 10 - 0.75) * c4) + 1
+}
+
+/**
+ * Whether the playhead is inside the layer's visibility bar
+ */
+export function isLayerAlive(track: LayerTracks | undefined, time: number): boolean {
+  const start = track?.startTime ?? 0
+  const duration = track?.duration ?? 2000
+  return time >= start && time <= start + duration
+}
+
+/**
+ * Counter value driven by the layer's visibility bar (spring-like settle)
+ */
+export function evaluateCounter(layer: SceneLayer, track: LayerTracks | undefined, time: number): number {
+  const start = track?.startTime ?? 0
+  const duration = track?.duration ?? 2000
+  const startValue = layer.counterStart ?? 0
+  const endValue = layer.counterEnd ?? 100
+  if (time < start) return startValue
+  if (time > start + duration) return endValue
+
+  // Critically damped spring approximation: 1 - (1 + k*t) * e^(-k*t)
+  const rawProgress = (time - start) / duration
+  const k = 4.5
+  const t = rawProgress * 3.6
+  const eased = clamp01(1 - (1 + (k * t) / 5) * Math.exp((-k * t) / 2))
+  return Math.round(startValue + (endValue - startValue) * eased)
+}
+
+/**
+ * Visible text for a typewriter clip, including the blinking cursor
+ */
+export function evaluateTypewriter(fullText: string, clip: TemplateClip, time: number): string {
+  const clipStart = clip.start ?? 0
+  const clipDuration = clip.duration ?? 2000
+  if (time < clipStart) return ''
+  if (time >= clipStart + clipDuration) return fullText
+
+  const progress = (time - clipStart) / clipDuration
+  const visible = fullText.substring(0, Math.floor(progress * fullText.length))
+  const showCursor = clip.parameters?.showCursor !== false
+  const cursor = showCursor && Math.floor(time / 500) % 2 === 0 ? '|' : ''
+  return visible + cursor
+}
+
+/**
+ * Per-letter scale/alpha/char for bounce_in, bounce_out and scramble clips
+ */
+export function evaluateLetters(
+  chars: string[],
+  layerId: string,
+  templateClips: TemplateClip[],
+  time: number
+): LetterFrame[] | undefined {
+  const bounceIn = templateClips.find((c) => c.layerId === layerId && c.template === 'bounce_in')
+  const bounceOut = templateClips.find((c) => c.layerId === layerId && c.template === 'bounce_out')
+  const scramble = templateClips.find((c) => c.layerId === layerId && c.template === 'scramble')
+  if (!bounceIn && !bounceOut && !scramble) return undefined
+
+  return chars.map((original, i) => {
+    let scale = 1
+    let alpha = 1
+    let char = original
+
+    if (bounceIn) {
+      const relativeTime = time - ((bounceIn.start ?? 0) + i * LETTER_STAGGER)
+      const progress = clamp01(relativeTime / LETTER_DURATION)
+      if (relativeTime < 0) {
+        scale = 0
+        alpha = 0
+      } else {
+        scale *= elasticOut(progress)
+        alpha *= Math.min(1, progress * 10) // fade in over the first 10%
+      }
+    }
+
+    if (bounceOut) {
+      const relativeTime = time - ((bounceOut.start ?? 0) + i * LETTER_STAGGER)
+      const progress = clamp01(relativeTime / LETTER_DURATION)
+      if (relativeTime >= 0) {
+        if (progress >= 1) {
+          scale = 0
+          alpha = 0
+        } else {
+          // abs() keeps the elastic overshoot from flipping the glyph
+          scale *= Math.abs(1 - elasticOut(progress))
+          alpha *= 1 - progress
+        }
+      }
+    }
+
+    if (scramble) {
+      const start = scramble.start ?? 0
+      const clipDuration = scramble.duration ?? 2000
+      const count = Math.max(1, chars.length)
+      // Last letter settles exactly at the clip end, after a short empty lead-in
+      const initialDelay = Math.max(50, clipDuration * 0.05)
+      const availableTime = clipDuration - initialDelay
+      const scrambleDuration = Math.max(80, (availableTime * 0.25) / count)
+      const stagger = count > 1 ? (availableTime - scrambleDuration) / (count - 1) : availableTime - scrambleDuration
+      const letterStart = start + initialDelay + i * stagger
+      const letterSettle = letterStart + scrambleDuration
+      const scrambleSpeed = Math.max(30, scrambleDuration / 6)
+
+      if (time < letterStart) {
+        scale = 0
+        alpha = 0
+      } else if (time < letterSettle) {
+        const cycleIndex = Math.floor(time / scrambleSpeed)
+        char = SCRAMBLE_CHARS[(cycleIndex + i * 7) % SCRAMBLE_CHARS.length]
+      }
+    }
+
+    return { char, scale, alpha }
+  })
+}
+
+/**
+ * Filters and particle emitters for the effect clips active at `time`, in
+ * effect stack order with bypassed clips left out. Params are sampled from
+ * their keyframes; `driven` carries audio driver values that override them.
+ */
+export function evaluateEffects(
+  layerId: string,
+  effectClips: EffectClip[],
+  time: number,
+  alive: boolean,
+  driven: DrivenValues = {}
+): { filters: FilterDescriptor[]; emitters: EmitterDescriptor[] } {
+  const filters: FilterDescriptor[] = []
+  const emitters: EmitterDescriptor[] = []
+  if (!alive) return { filters, emitters }
+
+  effectClips
+    .filter(
+      (clip) => clip.layerId === layerId && isEffectEnabled(clip) && time >= clip.start && time <= clip.start + clip.duration
+    )
+    .forEach((clip) => {
+      const localTime = time - clip.start
+      const param = (key: EffectParamKey) => sampleEffectParam(clip, key, localTime)
+      const blendMode = clip.blendMode
+      switch (clip.effectType) {
+        case 'glow':
+          filters.push({
+            type: 'glow',
+            distance: param('glowDistance'),
+            outerStrength: driven.glowIntensity ?? param('glowIntensity'),
+            color: clip.params.glowColor ?? 0xffffff,
+            blendMode,
+          })
+          break
+        case 'dropShadow':
+          filters.push({
+            type: 'dropShadow',
+            distance: param('shadowDistance'),
+            blur: param('shadowBlur'),
+            rotation: param('shadowRotation'),
+            alpha: param('shadowAlpha'),
+            color: 0x000000,
+            blendMode,
+          })
+          break
+        case 'blur':
+          filters.push({ type: 'blur', strength: param('blurStrength'), blendMode })
+          break
+        case 'glitch':
+          // Seed changes every 50ms so the glitch jitters but repeats for a given time
+          filters.push({
+            type: 'glitch',
+            slices: Math.round(param('glitchSlices')),
+            offset: param('glitchOffset'),
+            seed: (Math.floor(time / 50) * 0.618034) % 1,
+            blendMode,
+          })
+          break
+        case 'pixelate':
+          filters.push({ type: 'pixelate', size: param('pixelSize'), blendMode })
+          break
+        case 'colorAdjust':
+          filters.push({
+            type: 'colorAdjust',
+            gamma: param('adjustGamma'),
+            saturation: param('adjustSaturation'),
+            contrast: param('adjustContrast'),
+            brightness: param('adjustBrightness'),
+            red: param('adjustRed'),
+            green: param('adjustGreen'),
+            blue: param('adjustBlue'),
+            blendMode,
+          })
+          break
+        case 'rgbSplit':
+          filters.push({ type: 'rgbSplit', amount: param('splitAmount'), angle: param('splitAngle'), blendMode })
+          break
+        case 'zoomBlur':
+          filters.push({
+            type: 'zoomBlur',
+            strength: param('zoomStrength'),
+            innerRadius: param('zoomInnerRadius'),
+            blendMode,
+          })
+          break
+        case 'motionBlur':
+          filters.push({ type: 'motionBlur', amount: param('motionAmount'), angle: param('motionAngle'), blendMode })
+          break
+        case 'noise':
+          // Grain re-rolls every 40ms, same repeatable seeding as glitch
+          filters.push({
+            type: 'noise',
+            amount: param('noiseAmount'),
+            seed: (Math.floor(time / 40) * 0.618034) % 1,
+            blendMode,
+          })
+          break
+        case 'outline':
+          filters.push({
+            type: 'outline',
+            thickness: param('outlineThickness'),
+            color: clip.params.outlineColor ?? 0xffffff,
+            alpha: param('outlineAlpha'),
+            blendMode,
+          })
+          break
+        case 'bloom':
+          filters.push({
+            type: 'bloom',
+            threshold: param('bloomThreshold'),
+            scale: param('bloomScale'),
+            brightness: param('bloomBrightness'),
+            blur: param('bloomBlur'),
+            blendMode,
+          })
+          break
+        case 'shockwave':
+          // The ring starts at the layer center when the clip does
+          filters.push({
+            type: 'shockwave',
+            amplitude: param('shockAmplitude'),
+            wavelength: param('shockWavelength'),
+            speed: param('shockSpeed'),
+            brightness: param('shockBrightness'),
+            time: localTime / 1000,
+            blendMode,
+          })
+          break
+        case 'crt':
+          filters.push({
+            type: 'crt',
+            curvature: param('crtCurvature'),
+            lineWidth: param('crtLineWidth'),
+            lineContrast: param('crtLineContrast'),
+            noise: param('crtNoise'),
+            vignetting: param('crtVignetting'),
+            seed: (Math.floor(time / 40) * 0.618034) % 1,
+            time: localTime / 1000,
+            blendMode,
+          })
+          break
+        default:
+          emitters.push({
+            clipId: clip.id,
+            effectType: clip.effectType,
+            localTime,
+            seed: seedFromId(clip.id),
+            particleSpeed: param('particleSpeed'),
+            particleCount: clip.params.particleCount,
+            sources: clip.params.particleSources ?? [],
+            blendMode,
+          })
+          break
+      }
+    })
+
+  return { filters, emitters }
+}
+
+/**
+ * Opacity/scale/slide/blur contributed by unified transition clips.
+ * A layer is affected as the "from" layer (fades out) or the "to" layer (fades in).
+ */
+export function evaluateTransitions(layerId: string, templateClips: TemplateClip[], time: number) {
+  let opacity = 1
+  let scale = 1
+  let slideOffsetY: number | null = null // -1..1 in layer heights
+  let blur = 0
+
+  templateClips.forEach((clip) => {
+    if (!TRANSITION_TEMPLATES.includes(clip.template)) return
+    const clipStart = clip.start ?? 0
+    const clipDuration = clip.duration ?? 1000
+    if (time < clipStart || time > clipStart + clipDuration) return
+    const progress = clamp01((time - clipStart) / clipDuration)
+
+    if (clip.layerId === layerId) {
+      if (clip.template === 'transition_fade') {
+        opacity *= 1 - progress
+      } else if (clip.template === 'transition_zoom') {
+        scale *= 1 - progress * 0.5
+        opacity *= 1 - progress
+      } else if (clip.template === 'transition_slide') {
+        slideOffsetY = -progress
+      } else if (clip.template === 'transition_blur') {
+        blur = progress * TRANSITION_MAX_BLUR
+        opacity *= 1 - progress
+      }
+    }
+
+    if (clip.parameters?.transitionToLayerId === layerId) {
+      if (clip.template === 'transition_fade') {
+        opacity *= progress
+      } else if (clip.template === 'transition_zoom') {
+        scale *= 0.5 + progress * 0.5
+        opacity *= progress
+      } else if (clip.template === 'transition_slide') {
+        slideOffsetY = 1 - progress
+      } else if (clip.template === 'transition_blur') {
+        blur = (1 - progress) * TRANSITION_MAX_BLUR
+        opacity *= progress
+      }
+    }
+  })
+
+  return { opacity, scale, slideOffsetY, blur }
+}
+
+const evaluateMask = (
+  layer: SceneLayer,
+  state: SampledLayerState,
+  templateClips: TemplateClip[],
+  x: number,
+  y: number,
+  rotation: number
+): MaskFrame | null => {
+  const maskScale = state.maskScale
+  if (typeof maskScale !== 'number') return null
+
+  const maskCenterClip = templateClips.find(
+    (c) => c.layerId === layer.id && (c.template === 'mask_center' || c.template === 'mask_center_out')
+  )
+  const maskTopClip = templateClips.find(
+    (c) => c.layerId === layer.id && (c.template === 'mask_top' || c.template === 'mask_top_out')
+  )
+  const activeClip = maskCenterClip || maskTopClip
+  const angle = ((activeClip?.parameters?.maskAngle ?? 0) * Math.PI) / 180
+
+  // Diagonal masks need to be larger to cover the corners (√2 at 45°)
+  const rotationFactor = Math.abs(Math.cos(angle)) + Math.abs(Math.sin(angle))
+  const layerWidth = layer.width || 100
+  const layerHeight = layer.height || 100
+  const width = layerWidth * 1.2 * rotationFactor
+  const height = layerHeight * 1.2 * rotationFactor
+
+  if (maskTopClip) {
+    // Reveal from one edge: the pivot sits on the top edge of the rect
+    const offset = (layerHeight / 2) * state.scale * rotationFactor
+    return {
+      kind: 'top',
+      x: x + Math.sin(angle) * offset,
+      y: y - Math.cos(angle) * offset,
+      width,
+      height,
+      pivotY: -height / 2,
+      rotation: rotation + angle,
+      scaleX: state.scale,
+      scaleY: maskScale * state.scale,
+    }
+  }
+
+  return {
+    kind: 'center',
+    x,
+    y,
+    width,
+    height,
+    pivotY: 0,
+    rotation: rotation + angle,
+    scaleX: state.scale,
+    scaleY: maskScale * state.scale,
+  }
+}
+
+interface Transform2D {
+  scaleX: number
+  scaleY: number
+  rotation: number
+  skewX: number
+  skewY: number
+}
+
+// Same linear part as a Pixi container transform (scale, then skew and rotation)
+const applyTransform = ({ scaleX, scaleY, rotation, skewX, skewY }: Transform2D, x: number, y: number) => ({
+  x: Math.cos(rotation + skewY) * scaleX * x - Math.sin(rotation - skewX) * scaleY * y,
+  y: Math.sin(rotation + skewY) * scaleX * x + Math.cos(rotation - skewX) * scaleY * y,
+})
+
+/**
+ * Offset that makes `current` pivot around the anchor while the layer keeps
+ * its resting place: the anchor point (px from the layer center) lands where
+ * it sits under the static transform.
+ */
+const anchorOffset = (anchor: Vec2, rest: Transform2D, current: Transform2D) => {
+  if (anchor.x === 0 && anchor.y === 0) return { x: 0, y: 0 }
+  const atRest = applyTransform(rest, anchor.x, anchor.y)
+  const now = applyTransform(current, anchor.x, anchor.y)
+  return { x: atRest.x - now.x, y: atRest.y - now.y }
+}
+
+interface Matrix2D {
+  a: number
+  b: number
+  c: number
+  d: number
+}
+
+const toMatrix = (t: Transform2D): Matrix2D => {
+  const col1 = applyTransform(t, 1, 0)
+  const col2 = applyTransform(t, 0, 1)
+  return { a: col1.x, b: col1.y, c: col2.x, d: col2.y }
+}
+
+// Decomposed the way Pixi does it: plain rotation when the skews cancel out
+const fromMatrix = ({ a, b, c, d }: Matrix2D): Transform2D => {
+  const skewX = -Math.atan2(-c, d)
+  const skewY = Math.atan2(b, a)
+  const delta = Math.abs(skewX + skewY)
+  const scaleX = Math.hypot(a, b)
+  const scaleY = Math.hypot(c, d)
+  if (delta < 1e-5 || Math.abs(Math.PI * 2 - delta) < 1e-5) {
+    return { scaleX, scaleY, rotation: skewY, skewX: 0, skewY: 0 }
+  }
+  return { scaleX, scaleY, rotation: 0, skewX, skewY }
+}
+
+const multiply = (m: Matrix2D, n: Matrix2D): Matrix2D => ({
+  a: m.a * n.a + m.c * n.b,
+  b: m.b * n.a + m.d * n.b,
+  c: m.a * n.c + m.c * n.d,
+  d: m.b * n.c + m.d * n.d,
+})
+
+const toWorld = (parent: ParentTransform, x: number, y: number) => {
+  const offset = applyTransform(parent, x - parent.originX, y - parent.originY)
+  return { x: parent.x + offset.x, y: parent.y + offset.y }
+}
+
+/**
+ * Inverse of the parent mapping: the position (px) a child has to store so it
+ * lands on `x`/`y` on the canvas. Used when dragging parented layers.
+ */
+export function toParentSpace(parent: ParentTransform, x: number, y: number) {
+  const { a, b, c, d } = toMatrix(parent)
+  const det = a * d - b * c
+  if (Math.abs(det) < 1e-9) return { x: parent.originX, y: parent.originY }
+  const dx = x - parent.x
+  const dy = y - parent.y
+  return { x: parent.originX + (d * dx - c * dy) / det, y: parent.originY + (a * dy - b * dx) / det }
+}
+
+// Carry a frame evaluated in its parent's space onto the canvas
+const inheritTransform = (
+  frame: LayerFrame,
+  parent: ParentTransform,
+  viewport: SceneInput['viewport']
+): LayerFrame => {
+  const { x, y } = toWorld(parent, frame.x, frame.y)
+  const alive = frame.alive && parent.alive
+  const { mask } = frame
+  return {
+    ...frame,
+    ...fromMatrix(multiply(toMatrix(parent), toMatrix(frame))),
+    x,
+    y,
+    alive,
+    scale: frame.scale * Math.sqrt(Math.abs(parent.scaleX * parent.scaleY)),
+    opacity: alive ? frame.opacity * parent.opacity : 0,
+    offCanvas: x < 0 || x > viewport.width || y < 0 || y > viewport.height,
+    mask: mask && {
+      ...mask,
+      ...toWorld(parent, mask.x, mask.y),
+      rotation: mask.rotation + parent.rotation,
+      scaleX: mask.scaleX * parent.scaleX,
+      scaleY: mask.scaleY * parent.scaleY,
+    },
+  }
+}
+
+/**
+ * Ids of every layer above `layerId` in the parent chain, nearest first
+ */
+export function getAncestorIds(layers: Array<{ id: string; parentId?: string }>, layerId: string): string[] {
+  const ancestors: string[] = []
+  let parentId = layers.find((l) => l.id === layerId)?.parentId
+  while (parentId && parentId !== layerId && !ancestors.includes(parentId)) {
+    ancestors.push(parentId)
+    parentId = layers.find((l) => l.id === parentId)?.parentId
+  }
+  return ancestors
+}
+
+/**
+ * Composed transform of every parent above `layer`, or null when it has none.
+ * Layers without a track (typically fresh groups) use their static props.
+ */
+export function getParentTransform(
+  layer: SceneLayer,
+  input: SceneInput,
+  time: number,
+  sampled?: Record<string, SampledLayerState>,
+  seen = new Set<string>()
+): ParentTransform | null {
+  const parent = layer.parentId ? input.layers.find((l) => l.id === layer.parentId) : undefined
+  // A parent loop (only possible in a hand-edited file) is cut where it closes
+  if (!parent || seen.has(parent.id)) return null
+  seen.add(layer.id)
+
+  const states = sampled ?? sampleTimeline(input.tracks, time)
+  const local = evaluateLocalFrame(parent, 0, input, time, states[parent.id] ?? DEFAULT_LAYER_STATE)
+  const grand = getParentTransform(parent, input, time, states, seen)
+  const frame = grand ? inheritTransform(local, grand, input.viewport) : local
+  const origin = layer.parentOrigin ?? { x: parent.x ?? 0.5, y: parent.y ?? 0.5 }
+
+  return {
+    x: frame.x,
+    y: frame.y,
+    originX: toPixels(origin.x, input.viewport.width),
+    originY: toPixels(origin.y, input.viewport.height),
+    scaleX: frame.scaleX,
+    scaleY: frame.scaleY,
+    rotation: frame.rotation,
+    skewX: frame.skewX,
+    skewY: frame.skewY,
+    opacity: frame.opacity,
+    alive: frame.alive,
+  }
+}
+
+/**
+ * Which transform channels are driven by the timeline. Only treat a channel as
+ * animated when it has real keyframes, otherwise the static layer props win.
+ */
+export function getAnimatedChannels(track: LayerTracks | undefined) {
+  const positionFrames = track?.position ?? []
+  const scaleFrames = track?.scale ?? []
+  return {
+    position: positionFrames.some((kf) => kf.time > 0) || positionFrames.length > 1 || (track?.paths?.length ?? 0) > 0,
+    scale: scaleFrames.length > 1 || scaleFrames.some((kf) => kf.time !== 0 || Math.abs(kf.value - 1) > 1e-4),
+    rotation: (track?.rotation?.length ?? 0) > 1,
+    opacity: (track?.opacity?.length ?? 0) > 1,
+  }
+}
+
+// A pulse clip bakes its swing into scale keyframes; a pulseScale driver rescales that swing
+const drivePulse = (
+  layerId: string,
+  scale: number,
+  templateClips: TemplateClip[],
+  time: number,
+  driven: DrivenValues
+) => {
+  if (driven.pulseScale === undefined) return scale
+  const pulse = templateClips.find(
+    (c) => c.layerId === layerId && c.template === 'pulse' && time >= c.start && time <= c.start + c.duration
+  )
+  if (!pulse) return scale
+  const baked = pulse.parameters?.pulseScale ?? PULSE_BASE_SCALE
+  return baked > 0 ? 1 + ((scale - 1) * driven.pulseScale) / baked : scale
+}
+
+/**
+ * Evaluate a single layer. `sampled` can be passed in when the caller already
+ * ran sampleTimeline for this time.
+ */
+export function evaluateLayer(
+  layer: SceneLayer,
+  zIndex: number,
+  input: SceneInput,
+  time: number,
+  sampled?: Record<string, SampledLayerState>
+): LayerFrame | null {
+  const states = sampled ?? sampleTimeline(input.tracks, time)
+  const state = states[layer.id]
+  if (!state) return null
+  const frame = evaluateLocalFrame(layer, zIndex, input, time, state)
+  const parent = getParentTransform(layer, input, time, states)
+  return parent ? inheritTransform(frame, parent, input.viewport) : frame
+}
+
+// The layer on its own, in its parent's space
+function evaluateLocalFrame(
+  layer: SceneLayer,
+  zIndex: number,
+  input: SceneInput,
+  time: number,
+  state: SampledLayerState
+): LayerFrame {
+  const { width: screenWidth, height: screenHeight } = input.viewport
+  const track = input.tracks.find((t) => t.layerId === layer.id)
+  const alive = isLayerAlive(track, time)
+
+  const {
+    position: hasPositionAnim,
+    scale: hasScaleAnim,
+    rotation: hasRotationAnim,
+    opacity: hasOpacityAnim,
+  } = getAnimatedChannels(track)
+
+  // pan_zoom stores offsets relative to the base position
+  const basePos = { x: layer.x ?? 0.5, y: layer.y ?? 0.5 }
+  const hasPanZoom = input.templateClips.some((c) => c.layerId === layer.id && c.template === 'pan_zoom')
+  const rawPos = hasPositionAnim
+    ? hasPanZoom
+      ? { x: basePos.x + state.position.x, y: basePos.y + state.position.y }
+      : state.position
+    : basePos
+  const x = toPixels(rawPos.x, screenWidth)
+  let y = toPixels(rawPos.y, screenHeight)
+  const offCanvas = x < 0 || x > screenWidth || y < 0 || y > screenHeight
+
+  const driven = evaluateAudioDrivers(layer.id, input.audioDrivers ?? [], input.audioTracks ?? [], time)
+  const baseScale = (hasScaleAnim ? drivePulse(layer.id, state.scale, input.templateClips, time, driven) : 1) *
+    (layer.scale ?? 1) *
+    (driven.scale ?? 1)
+  const staticRotation = ((layer.rotation ?? 0) * Math.PI) / 180
+  const rotation = staticRotation + (hasRotationAnim ? state.rotation : 0) + ((driven.rotation ?? 0) * Math.PI) / 180
+
+  const transition = alive ? evaluateTransitions(layer.id, input.templateClips, time) : null
+  const transitionOpacity = state.opacity * (transition?.opacity ?? 1) * Math.max(0, driven.opacity ?? 1)
+  const opacity = !alive ? 0 : hasOpacityAnim ? transitionOpacity : Math.min(1, transitionOpacity)
+
+  // Mask follows the layer before any slide offset is applied
+  const mask = evaluateMask(layer, state, input.templateClips, x, y, rotation)
+  if (transition && transition.slideOffsetY !== null) {
+    y += transition.slideOffsetY * (layer.height || 100) * state.scale
+  }
+
+  const { filters, emitters } = evaluateEffects(layer.id, input.effectClips, time, alive, driven)
+
+  const scale = baseScale * (transition?.scale ?? 1)
+  const transform: Transform2D = {
+    scaleX: scale * state.scaleX,
+    scaleY: scale * state.scaleY,
+    rotation,
+    skewX: state.skewX,
+    skewY: state.skewY,
+  }
+  const restScale = layer.scale ?? 1
+  const pivot = anchorOffset(
+    { x: (state.anchor.x - 0.5) * (layer.width || 100), y: (state.anchor.y - 0.5) * (layer.height || 100) },
+    { scaleX: restScale, scaleY: restScale, rotation: staticRotation, skewX: 0, skewY: 0 },
+    transform
+  )
+
+  const frame: LayerFrame = {
+    layerId: layer.id,
+    zIndex,
+    alive,
+    x: x + pivot.x,
+    y: y + pivot.y,
+    scale,
+    ...transform,
+    opacity,
+    fillColor: state.fillColor ?? layer.fillColor,
+    strokeColor: state.strokeColor ?? layer.strokeColor,
+    offCanvas,
+    transitionBlur: transition?.blur ?? 0,
+    mask,
+    filters,
+    emitters,
+  }
+
+  if (layer.type === 'text') {
+    if (layer.isCounter) {
+      const value = evaluateCounter(layer, track, time)
+      frame.counterValue = value
+      frame.text = { value: `${layer.counterPrefix ?? ''}${value}` }
+    } else {
+      const fullText = layer.text ?? ''
+      const typewriterClip = input.templateClips.find((c) => c.layerId === layer.id && c.template === 'typewriter')
+      frame.text = {
+        value: typewriterClip ? evaluateTypewriter(fullText, typewriterClip, time) : fullText,
+        letters: evaluateLetters(fullText.replace(/\n/g, '').split(''), layer.id, input.templateClips, time),
+      }
+    }
+  }
+
+  return frame
+}
+
+/**
+ * Full filter chain for a frame: effect clips, then transition and off-canvas blur
+ */
+export function collectFilters(frame: LayerFrame): FilterDescriptor[] {
+  const filters = [...frame.filters]
+  if (frame.transitionBlur > 0) filters.push({ type: 'blur', strength: frame.transitionBlur })
+  if (frame.offCanvas) filters.push({ type: 'blur', strength: OFF_CANVAS_BLUR })
+  return filters
+}
+
+/**
+ * Background settings at `time`, with any animated colors sampled in
+ */
+export function evaluateBackground(
+  background: BackgroundSettings,
+  tracks: BackgroundTracks | undefined,
+  time: number
+): BackgroundSettings {
+  if (!tracks) return background
+  const sample = (key: 'solid' | 'from' | 'to') =>
+    tracks[key]?.length
+      ? colorToHex(sampleColorTrack(tracks[key], time, hexToColor(background[key]), tracks.colorSpace))
+      : background[key]
+  return { ...background, solid: sample('solid'), from: sample('from'), to: sample('to') }
+}
+
+/**
+ * Id of an inner layer placed by a pre-comp layer, unique across instances
+ */
+export const precompLayerId = (instanceId: string, innerId: string) => `${instanceId}/${innerId}`
+
+/**
+ * Inner time (ms) of a pre-comp layer at composition time `time`. Before the
+ * start and (unless looping) after the end the first / last frame holds.
+ */
+export function getPrecompTime(layer: SceneLayer, track: LayerTracks | undefined, duration: number, time: number): number {
+  const stretch = layer.timeStretch && layer.timeStretch > 0 ? layer.timeStretch : 1
+  const local = (time - (track?.startTime ?? 0) - (layer.timeOffset ?? 0)) / stretch
+  if (local <= 0 || duration <= 0) return 0
+  return layer.loop ? local % duration : Math.min(local, duration)
+}
+
+/**
+ * Inner layers of a pre-comp layer at `time`, already carried through the
+ * pre-comp layer's transform. Their zIndex stays between `zIndex` and the
+ * next outer layer so the pre-comp sorts as one layer.
+ */
+export function evaluatePrecomp(
+  layer: SceneLayer,
+  zIndex: number,
+  input: SceneInput,
+  time: number,
+  sampled?: Record<string, SampledLayerState>
+): LayerFrame[] {
+  return evaluatePrecompFrames(layer, zIndex, 1, input, time, sampled ?? sampleTimeline(input.tracks, time), 0)
+}
+
+function evaluatePrecompFrames(
+  layer: SceneLayer,
+  zIndex: number,
+  zSpan: number,
+  input: SceneInput,
+  time: number,
+  sampled: Record<string, SampledLayerState>,
+  depth: number
+): LayerFrame[] {
+  const precomp = layer.precompId ? input.precomps?.[layer.precompId] : undefined
+  // A pre-comp that contains itself (hand-edited file) stops nesting at some point
+  if (!precomp || depth >= MAX_PRECOMP_DEPTH) return []
+  const own = evaluateLayer(layer, zIndex, input, time, sampled)
+  if (!own) return []
+
+  const { width, height } = input.viewport
+  // The pre-comp's center sits at the layer's position
+  const parent: ParentTransform = {
+    x: own.x,
+    y: own.y,
+    originX: width / 2,
+    originY: height / 2,
+    scaleX: own.scaleX,
+    scaleY: own.scaleY,
+    rotation: own.rotation,
+    skewX: own.skewX,
+    skewY: own.skewY,
+    opacity: own.opacity,
+    alive: own.alive,
+  }
+  const track = input.tracks.find((t) => t.layerId === layer.id)
+  const innerTime = getPrecompTime(layer, track, precomp.duration, time)
+  const innerInput: SceneInput = { ...precomp, viewport: input.viewport, precomps: input.precomps }
+  const innerSampled = sampleTimeline(precomp.tracks, innerTime)
+  const step = zSpan / (precomp.layers.length + 1)
+
+  return precomp.layers.flatMap((inner, idx) => {
+    const innerZ = zIndex + (idx + 1) * step
+    const frames =
+      inner.type === 'precomp'
+        ? evaluatePrecompFrames(inner, innerZ, step, innerInput, innerTime, innerSampled, depth + 1)
+        : [evaluateLayer(inner, innerZ, innerInput, innerTime, innerSampled)].filter((f): f is LayerFrame => !!f)
+    return frames.map((frame) => ({
+      ...inheritTransform(frame, parent, input.viewport),
+      layerId: precompLayerId(layer.id, frame.layerId),
+    }))
+  })
+}
+
+/**
+ * Layers to draw for `layers`: the layers themselves followed by the inner
+ * layers of every pre-comp (recursively), renamed with precompLayerId
+ */
+export function flattenPrecompLayers<T extends { id: string; type?: string; precompId?: string }>(
+  layers: T[],
+  precomps: Record<string, { layers: T[] }>,
+  depth = 0
+): T[] {
+  if (depth >= MAX_PRECOMP_DEPTH) return layers
+  const inner = layers.flatMap((layer) => {
+    const precomp = layer.type === 'precomp' && layer.precompId ? precomps[layer.precompId] : undefined
+    if (!precomp) return []
+    return flattenPrecompLayers(precomp.layers, precomps, depth + 1).map((l) => ({
+      ...l,
+      id: precompLayerId(layer.id, l.id),
+    }))
+  })
+  return [...layers, ...inner]
+}
+
+/**
+ * Evaluate every layer of the composition at `time` (ms)
+ */
+export function evaluateScene(input: SceneInput, time: number): SceneFrame {
+  const sampled = sampleTimeline(input.tracks, time)
+  const layers: LayerFrame[] = []
+  input.layers.forEach((layer, idx) => {
+    if (layer.type === 'precomp') {
+      layers.push(...evaluatePrecomp(layer, idx, input, time, sampled))
+      return
+    }
+    const frame = evaluateLayer(layer, idx, input, time, sampled)
+    if (frame) layers.push(frame)
+  })
+  return { time, layers }
+}
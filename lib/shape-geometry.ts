@@ -0,0 +1,139 @@
+/**
+ * Shape Geometry
+ *
+ * Outlines of the built-in shape kinds, centered on 0,0. MotionCanvas traces
+ * them into Pixi graphics and the vector exporters (Lottie, SVG, CSS) convert
+ * them to their own path formats, so every output draws the same shape.
+ */
+
+import type { Vec2 } from './timeline'
+
+export type ShapeOutline =
+  | { type: 'ellipse'; width: number; height: number }
+  | { type: 'rect'; width: number; height: number; radius: number }
+  // Closed cubic bezier path; tangents are relative to their vertex (zero = straight line)
+  | { type: 'path'; vertices: Vec2[]; inTangents: Vec2[]; outTangents: Vec2[] }
+
+export type PathOutline = Extract<ShapeOutline, { type: 'path' }>
+
+// Anything with canvas-style path commands (Pixi Graphics, CanvasRenderingContext2D)
+export interface PathTarget {
+  moveTo(x: number, y: number): unknown
+  lineTo(x: number, y: number): unknown
+  bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): unknown
+  closePath(): unknown
+}
+
+const straightPath = (vertices: Vec2[]): PathOutline => ({
+  type: 'path',
+  vertices,
+  inTangents: vertices.map(() => ({ x: 0, y: 0 })),
+  outTangents: vertices.map(() => ({ x: 0, y: 0 })),
+})
+
+/**
+ * Outline for a shape kind at the given size. Unknown kinds fall back to an ellipse.
+ */
+export function getShapeOutline(kind: string, width: number, height: number): ShapeOutline {
+  const w = width
+  const h = height
+  switch (kind) {
+    case 'square':
+      return { type: 'rect', width: w, height: h, radius: 0 }
+    case 'pill':
+      return { type: 'rect', width: w, height: h, radius: Math.min(w, h) / 2 }
+    case 'triangle':
+      return straightPath([
+        { x: -w / 2, y: h / 2 },
+        { x: w / 2, y: h / 2 },
+        { x: 0, y: -h / 2 },
+      ])
+    case 'star': {
+      // 5 spikes starting at the top, inner radius at half the outer one
+      const points: Vec2[] = []
+      for (let i = 0; i < 10; i++) {
+        const angle = (Math.PI / 2) * 3 + (i * Math.PI) / 5
+        const radius = i % 2 === 0 ? 1 : 0.5
+        points.push({ x: Math.cos(angle) * (w / 2) * radius, y: Math.sin(angle) * (h / 2) * radius })
+      }
+      return straightPath(points)
+    }
+    case 'heart':
+      // Two lobes meeting at the top notch, tip at the bottom
+      return {
+        type: 'path',
+        vertices: [
+          { x: 0, y: -h * 0.25 },
+          { x: -w / 2, y: -h * 0.2 },
+          { x: 0, y: h / 2 },
+          { x: w / 2, y: -h * 0.2 },
+        ],
+        inTangents: [
+          { x: 0, y: -h * 0.25 },
+          { x: 0, y: -h * 0.3 },
+          { x: 0, y: 0 },
+          { x: 0, y: h * 0.25 },
+        ],
+        outTangents: [
+          { x: 0, y: -h * 0.25 },
+          { x: 0, y: h * 0.25 },
+          { x: 0, y: 0 },
+          { x: 0, y: -h * 0.3 },
+        ],
+      }
+    case 'circle':
+    default:
+      return { type: 'ellipse', width: w, height: h }
+  }
+}
+
+const isStraight = (outline: PathOutline, from: number, to: number) => {
+  const out = outline.outTangents[from]
+  const inc = outline.inTangents[to]
+  return out.x === 0 && out.y === 0 && inc.x === 0 && inc.y === 0
+}
+
+/**
+ * Replay a path outline as moveTo / lineTo / bezierCurveTo commands
+ */
+export function tracePathOutline(target: PathTarget, outline: PathOutline) {
+  const { vertices, inTangents, outTangents } = outline
+  if (vertices.length === 0) return
+  target.moveTo(vertices[0].x, vertices[0].y)
+  vertices.forEach((from, i) => {
+    const j = (i + 1) % vertices.length
+    const to = vertices[j]
+    if (isStraight(outline, i, j)) {
+      if (j !== 0) target.lineTo(to.x, to.y)
+    } else {
+      target.bezierCurveTo(
+        from.x + outTangents[i].x,
+        from.y + outTangents[i].y,
+        to.x + inTangents[j].x,
+        to.y + inTangents[j].y,
+        to.x,
+        to.y
+      )
+    }
+  })
+  target.closePath()
+}
+
+const round = (v: number) => Math.round(v * 100) / 100
+
+/**
+ * SVG path data (`d` attribute) for a path outline
+ */
+export function toSvgPathData(outline: PathOutline): string {
+  const commands: string[] = []
+  tracePathOutline(
+    {
+      moveTo: (x, y) => commands.push(`M${round(x)} ${round(y)}`),
+      lineTo: (x, y) => commands.push(`L${round(x)} ${round(y)}`),
+      bezierCurveTo: (...args) => commands.push(`C${args.map(round).join(' ')}`),
+      closePath: () => commands.push('Z'),
+    },
+    outline
+  )
+  return commands.join('')
+}
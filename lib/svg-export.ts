@@ -0,0 +1,552 @@
+/**
+ * SVG / CSS Export
+ *
+ * Writes the composition as a standalone animated SVG (SMIL) or as an HTML page
+ * animated with CSS @keyframes. Both come from the same per-layer plan:
+ * keyframes become timed stops with cubic-bezier timing, path clips become a
+ * motion path (animateMotion / offset-path) and the layer bar toggles
+ * visibility. Render-only features are skipped and reported like in Lottie.
+ */
+
+import type { BackgroundSettings, Layer } from './history-manager'
+import type { ProjectComposition } from './project-file'
+import { getGradientLine } from './frame-export'
+import { getFontStylesheetUrl } from './google-fonts'
+import { getAnimatedChannels, toPixels } from './scene-evaluator'
+import { getShapeOutline, toSvgPathData } from './shape-geometry'
+import { DEFAULT_LAYER_STATE, getCubicBezier, sampleNumberTrack, sampleVec2Track } from './timeline'
+import type { Bezier, PathClip, TimelineKeyframe, Vec2 } from './timeline'
+import { ICON_SHAPE_KINDS, describeLayer, getBackgroundWarnings, getRenderOnlyWarnings, sortLayersBackToFront } from './vector-export'
+import type { VectorExportOptions } from './vector-export'
+
+export interface VectorMarkupResult {
+  markup: string
+  warnings: string[] // one line per feature that was dropped
+}
+
+// One keyframe of an exported channel; `timing` eases the segment that starts here
+interface Stop {
+  offset: number // 0-1 across the exported span
+  value: number[]
+  timing: Bezier
+}
+
+type Channel = { value: number[] } | { stops: Stop[] }
+
+interface LayerPlan {
+  id: string
+  layer: Layer
+  position: Channel // px, or distance along motionPath when set
+  motionPath?: { d: string; length: number }
+  rotation: Channel // degrees
+  scale: Channel
+  opacity: Channel
+  visibility: Array<{ offset: number; visible: boolean }> | null // null = visible throughout
+  text?: string
+}
+
+interface Span {
+  start: number // ms
+  end: number
+  step: number // sampling interval for baked segments
+}
+
+interface CompositionPlan {
+  layers: LayerPlan[]
+  warnings: string[]
+  duration: number
+  loop: boolean
+}
+
+const LINEAR: Bezier = [0, 0, 1, 1]
+
+// SMIL keySplines must stay inside the unit square, so overshooting curves are baked
+const fitsUnitSquare = (timing: Bezier) => timing.every((v) => v >= 0 && v <= 1)
+
+const round = (value: number, digits = 2) => {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const colorToHex = (color: number) => `#${(color & 0xffffff).toString(16).padStart(6, '0')}`
+
+const isAnimated = (channel: Channel): channel is { stops: Stop[] } => 'stops' in channel
+
+const firstValue = (channel: Channel) => (isAnimated(channel) ? channel.stops[0].value : channel.value)
+
+/**
+ * Timed stops for a keyframed channel inside the span. Whole keyframe segments
+ * keep their easing as a bezier; segments cut by the span edges or with an
+ * easing the target can't express are sampled every `span.step` ms.
+ */
+const buildStops = (
+  frames: TimelineKeyframe<unknown>[],
+  sample: (time: number) => number[],
+  span: Span,
+  canEase: (timing: Bezier) => boolean
+): Stop[] => {
+  const { start, end, step } = span
+  const toOffset = (time: number) => (time - start) / (end - start)
+  const first = frames[0]?.time ?? 0
+  const last = frames[frames.length - 1]?.time ?? 0
+  const times = [start, ...frames.map((f) => f.time).filter((t) => t > start && t < end), end]
+
+  const stops: Stop[] = []
+  for (let i = 0; i < times.length - 1; i++) {
+    const a = times[i]
+    const b = times[i + 1]
+    const from = frames.find((f) => f.time === a)
+    const to = frames.find((f) => f.time === b)
+    const timing = getCubicBezier(to?.easing)
+    if (b <= first || a >= last) {
+      // Holding before the first or after the last keyframe
+      stops.push({ offset: toOffset(a), value: sample(a), timing: LINEAR })
+    } else if (from && to && timing && canEase(timing)) {
+      stops.push({ offset: toOffset(a), value: sample(a), timing })
+    } else {
+      const count = Math.max(1, Math.ceil((b - a) / step))
+      for (let j = 0; j < count; j++) {
+        const t = a + ((b - a) * j) / count
+        stops.push({ offset: toOffset(t), value: sample(t), timing: LINEAR })
+      }
+    }
+  }
+  stops.push({ offset: 1, value: sample(end), timing: LINEAR })
+  return stops
+}
+
+/**
+ * One polyline through every path clip, plus distance keyframes along it.
+ * Between clips the layer holds, then jumps to the next clip's start in 1ms.
+ */
+const buildMotionPath = (clips: PathClip[], width: number, height: number) => {
+  const points: Vec2[] = []
+  const keyframes: TimelineKeyframe<number>[] = []
+  let length = 0
+  const addPoint = (point: Vec2) => {
+    const prev = points[points.length - 1]
+    if (prev) length += Math.hypot(point.x - prev.x, point.y - prev.y)
+    points.push(point)
+  }
+
+  ;[...clips]
+    .sort((a, b) => a.startTime - b.startTime)
+    .forEach((clip) => {
+      const clipPoints = clip.points
+        .filter((p) => p && typeof p.x === 'number' && typeof p.y === 'number')
+        .map((p) => ({ x: toPixels(p.x, width), y: toPixels(p.y, height) }))
+      if (clipPoints.length === 0) return
+
+      const previous = keyframes[keyframes.length - 1]
+      const startTime = previous ? Math.max(clip.startTime, previous.time + 1) : clip.startTime
+      if (previous && startTime - 1 > previous.time) keyframes.push({ time: startTime - 1, value: previous.value })
+      addPoint(clipPoints[0])
+      keyframes.push({ time: startTime, value: length })
+      clipPoints.slice(1).forEach(addPoint)
+      keyframes.push({ time: Math.max(startTime + 1, clip.startTime + clip.duration), value: length, easing: clip.easing })
+    })
+
+  const d = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${round(p.x)} ${round(p.y)}`).join('')
+  return { d, length, keyframes }
+}
+
+/**
+ * Work out every layer's channels for one target format
+ */
+const planComposition = (
+  composition: ProjectComposition,
+  options: VectorExportOptions,
+  formatName: string,
+  canEase: (timing: Bezier) => boolean
+): CompositionPlan => {
+  const { canvas, layers, layerOrder, timeline } = composition
+  const { width, height } = canvas
+  const start = options.startTime ?? 0
+  const span: Span = { start, end: start + Math.max(1, options.duration), step: 1000 / options.fps }
+  const toOffset = (time: number) => (time - span.start) / (span.end - span.start)
+  const warnings: string[] = []
+  const warn = (message: string) => {
+    if (!warnings.includes(message)) warnings.push(message)
+  }
+
+  const plans: LayerPlan[] = []
+  sortLayersBackToFront(layers, layerOrder).forEach((layer) => {
+    const label = describeLayer(layer)
+    if (layer.type === 'svg' || (layer.type === 'shape' && ICON_SHAPE_KINDS.includes(layer.shapeKind))) {
+      warn(`${label}: icons are not supported in ${formatName} and were skipped`)
+      return
+    }
+    if (layer.type === 'image' && !layer.imageUrl) return
+    // Groups only move their children, which are exported on their own
+    if (layer.type === 'group') return
+    if (layer.type === 'precomp') {
+      warn(`${label}: nested compositions are not supported in ${formatName} and were skipped`)
+      return
+    }
+
+    const track = timeline.tracks.find((t) => t.layerId === layer.id)
+    const layerStart = track?.startTime ?? 0
+    const layerEnd = layerStart + (track?.duration ?? 2000)
+    if (layerEnd < span.start || layerStart > span.end) return
+    getRenderOnlyWarnings(layer, timeline, formatName).forEach(warn)
+
+    const channels = getAnimatedChannels(track)
+    const templateClips = timeline.templateClips.filter((c) => c.layerId === layer.id)
+    const basePos = { x: layer.x ?? 0.5, y: layer.y ?? 0.5 }
+    const hasPanZoom = templateClips.some((c) => c.template === 'pan_zoom')
+    const toPosition = (value: Vec2) => {
+      const raw = hasPanZoom ? { x: basePos.x + value.x, y: basePos.y + value.y } : value
+      return [toPixels(raw.x, width), toPixels(raw.y, height)]
+    }
+
+    const plan: LayerPlan = {
+      id: `ms-layer-${plans.length}`,
+      layer,
+      position: { value: [toPixels(basePos.x, width), toPixels(basePos.y, height)] },
+      rotation: { value: [layer.rotation ?? 0] },
+      scale: { value: [layer.scale ?? 1] },
+      opacity: { value: [Math.min(1, track?.opacity?.[0]?.value ?? 1)] },
+      visibility: null,
+    }
+
+    if (track && channels.position) {
+      if (track.paths?.length) {
+        const motion = buildMotionPath(track.paths, width, height)
+        plan.motionPath = { d: motion.d, length: motion.length }
+        plan.position = {
+          stops: buildStops(motion.keyframes, (t) => [sampleNumberTrack(motion.keyframes, t, 0)], span, canEase),
+        }
+        if ((track.position?.length ?? 0) > 1) {
+          warn(`${label}: keyframed position outside path clips is not supported in ${formatName} and was skipped`)
+        }
+      } else {
+        plan.position = {
+          stops: buildStops(
+            track.position ?? [],
+            (t) => toPosition(sampleVec2Track(track.position, t, DEFAULT_LAYER_STATE.position)),
+            span,
+            canEase
+          ),
+        }
+      }
+    }
+    if (track && channels.rotation) {
+      const base = layer.rotation ?? 0
+      plan.rotation = {
+        stops: buildStops(
+          track.rotation ?? [],
+          (t) => [base + (sampleNumberTrack(track.rotation, t, 0) * 180) / Math.PI],
+          span,
+          canEase
+        ),
+      }
+    }
+    if (track && channels.scale) {
+      const base = layer.scale ?? 1
+      plan.scale = { stops: buildStops(track.scale ?? [], (t) => [sampleNumberTrack(track.scale, t, 1) * base], span, canEase) }
+    }
+    if (track && channels.opacity) {
+      plan.opacity = { stops: buildStops(track.opacity ?? [], (t) => [sampleNumberTrack(track.opacity, t, 1)], span, canEase) }
+    }
+
+    if (layerStart > span.start || layerEnd < span.end) {
+      plan.visibility = [{ offset: 0, visible: layerStart <= span.start }]
+      if (layerStart > span.start) plan.visibility.push({ offset: toOffset(layerStart), visible: true })
+      if (layerEnd < span.end) plan.visibility.push({ offset: toOffset(layerEnd), visible: false })
+    }
+
+    if (layer.type === 'text') {
+      if (layer.isCounter) {
+        plan.text = `${layer.counterPrefix ?? ''}${layer.counterEnd ?? 100}`
+        warn(`${label}: counters are not supported in ${formatName} and show their final value`)
+      } else {
+        plan.text = layer.text ?? ''
+        if (templateClips.some((c) => c.template === 'typewriter')) {
+          warn(`${label}: typewriter animation is not supported in ${formatName} and shows the full text`)
+        }
+      }
+    }
+
+    plans.push(plan)
+  })
+
+  if (timeline.clickMarkers.length > 0) {
+    warn(`Click markers are not supported in ${formatName} and were skipped`)
+  }
+  getBackgroundWarnings(timeline, formatName).forEach(warn)
+
+  return { layers: plans, warnings, duration: span.end - span.start, loop: timeline.loop }
+}
+
+/**
+ * Shape as SVG markup centered on 0,0
+ */
+const shapeMarkup = (layer: Layer) => {
+  const { width: w, height: h } = layer
+  const fill = colorToHex(layer.fillColor)
+  const outline = getShapeOutline(layer.shapeKind, w, h)
+  switch (outline.type) {
+    case 'ellipse':
+      return `<ellipse rx="${round(w / 2)}" ry="${round(h / 2)}" fill="${fill}"/>`
+    case 'rect':
+      return `<rect x="${round(-w / 2)}" y="${round(-h / 2)}" width="${round(w)}" height="${round(h)}" rx="${round(outline.radius)}" fill="${fill}"/>`
+    case 'path':
+      return `<path d="${toSvgPathData(outline)}" fill="${fill}"/>`
+  }
+}
+
+const fontFamiliesOf = (plans: LayerPlan[]) =>
+  [...new Set(plans.filter((p) => p.layer.type === 'text').map((p) => p.layer.fontFamily || 'Inter'))]
+
+const backgroundFill = (background: BackgroundSettings) =>
+  background.mode === 'gradient' ? 'url(#ms-background)' : background.solid
+
+const smilTiming = (plan: CompositionPlan) =>
+  `dur="${round(plan.duration)}ms" begin="0s" repeatCount="${plan.loop ? 'indefinite' : '1'}" fill="freeze"`
+
+// values (or keyPoints) / keyTimes / calcMode / keySplines for a set of stops
+const smilKeys = (stops: Stop[], format: (value: number[]) => string, valuesAttribute = 'values') => {
+  const spline = stops.some((s) => s.timing !== LINEAR)
+  const keySplines = stops
+    .slice(0, -1)
+    .map((s) => s.timing.join(' '))
+    .join(';')
+  return [
+    `${valuesAttribute}="${stops.map((s) => format(s.value)).join(';')}"`,
+    `keyTimes="${stops.map((s) => round(s.offset, 6)).join(';')}"`,
+    spline ? `calcMode="spline" keySplines="${keySplines}"` : 'calcMode="linear"',
+  ].join(' ')
+}
+
+const svgTransformAnimation = (type: string, channel: Channel, timing: string) =>
+  isAnimated(channel)
+    ? `<animateTransform attributeName="transform" type="${type}" ${smilKeys(channel.stops, (v) => v.map((n) => round(n, 3)).join(' '))} ${timing}/>`
+    : ''
+
+const svgLayerContent = (layer: Layer, text?: string) => {
+  if (layer.type === 'image') {
+    return `<image href="${escapeXml(layer.imageUrl ?? '')}" x="${round(-layer.width / 2)}" y="${round(-layer.height / 2)}" width="${round(layer.width)}" height="${round(layer.height)}"/>`
+  }
+  if (layer.type === 'text') {
+    const fontSize = layer.fontSize || 48
+    const lines = (text ?? '').split('\n')
+    const tspans = lines
+      .map((line, i) => {
+        const dy = i === 0 ? -((lines.length - 1) / 2) * 1.2 : 1.2
+        return `<tspan x="0" dy="${round(dy, 3)}em">${escapeXml(line)}</tspan>`
+      })
+      .join('')
+    return `<text text-anchor="middle" dominant-baseline="central" font-family="${escapeXml(layer.fontFamily || 'Inter')}" font-size="${fontSize}" font-weight="${layer.fontWeight || 600}" fill="${colorToHex(layer.fillColor ?? 0xffffff)}">${tspans}</text>`
+  }
+  return shapeMarkup(layer)
+}
+
+const svgLayer = (layerPlan: LayerPlan, timing: string) => {
+  const { position, motionPath, rotation, scale, opacity, visibility } = layerPlan
+  const [x, y] = firstValue(position)
+
+  let positionAttr = ''
+  let positionAnimation = ''
+  if (motionPath && isAnimated(position)) {
+    const length = Math.max(1e-6, motionPath.length)
+    const motionStops = position.stops.map((s) => ({ ...s, value: [Math.min(1, Math.max(0, s.value[0] / length))] }))
+    const keys = smilKeys(motionStops, (v) => String(round(v[0], 6)), 'keyPoints')
+    positionAnimation = `<animateMotion path="${motionPath.d}" ${keys} ${timing}/>`
+  } else {
+    positionAttr = ` transform="translate(${round(x)} ${round(y)})"`
+    positionAnimation = svgTransformAnimation('translate', position, timing)
+  }
+
+  let visibilityAttr = ''
+  let visibilityAnimation = ''
+  if (visibility) {
+    const state = (visible: boolean) => (visible ? 'visible' : 'hidden')
+    visibilityAttr = ` visibility="${state(visibility[0].visible)}"`
+    visibilityAnimation = `<animate attributeName="visibility" values="${visibility.map((v) => state(v.visible)).join(';')}" keyTimes="${visibility.map((v) => round(v.offset, 6)).join(';')}" calcMode="discrete" ${timing}/>`
+  }
+
+  const opacityAnimation = isAnimated(opacity)
+    ? `<animate attributeName="opacity" ${smilKeys(opacity.stops, (v) => String(round(v[0], 4)))} ${timing}/>`
+    : ''
+
+  return [
+    `<g id="${layerPlan.id}"${positionAttr}${visibilityAttr}>${positionAnimation}${visibilityAnimation}`,
+    `<g transform="rotate(${round(firstValue(rotation)[0], 3)})">${svgTransformAnimation('rotate', rotation, timing)}`,
+    `<g transform="scale(${round(firstValue(scale)[0], 4)})" opacity="${round(firstValue(opacity)[0], 4)}">${svgTransformAnimation('scale', scale, timing)}${opacityAnimation}`,
+    svgLayerContent(layerPlan.layer, layerPlan.text),
+    '</g></g></g>',
+  ].join('\n')
+}
+
+/**
+ * Standalone SVG animated with SMIL (plays in browsers when opened or used in <img>)
+ */
+export function exportAnimatedSvg(composition: ProjectComposition, options: VectorExportOptions): VectorMarkupResult {
+  const plan = planComposition(composition, options, 'SVG', fitsUnitSquare)
+  const { canvas, background } = composition
+  const { width, height } = canvas
+  const timing = smilTiming(plan)
+
+  const defs: string[] = []
+  if (background.mode === 'gradient') {
+    const { start, end } = getGradientLine(width, height)
+    defs.push(
+      `<linearGradient id="ms-background" gradientUnits="userSpaceOnUse" x1="${round(start.x)}" y1="${round(start.y)}" x2="${round(end.x)}" y2="${round(end.y)}">` +
+        `<stop offset="0" stop-color="${background.from}"/><stop offset="1" stop-color="${background.to}"/></linearGradient>`
+    )
+  }
+  const fonts = fontFamiliesOf(plan.layers)
+  const style = fonts.length
+    ? `<style>${fonts.map((family) => `@import url('${escapeXml(getFontStylesheetUrl(family))}');`).join('')}</style>\n`
+    : ''
+
+  const markup = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<title>${escapeXml(options.name ?? 'MotionShapes')}</title>`,
+    style + (defs.length ? `<defs>${defs.join('')}</defs>` : ''),
+    `<rect width="${width}" height="${height}" fill="${backgroundFill(background)}" opacity="${round(Math.max(0, Math.min(1, background.opacity ?? 1)), 3)}"/>`,
+    ...plan.layers.map((layerPlan) => svgLayer(layerPlan, timing)),
+    '</svg>',
+  ].join('\n')
+
+  return { markup, warnings: plan.warnings }
+}
+
+const cssTiming = (timing: Bezier) =>
+  timing === LINEAR ? 'linear' : `cubic-bezier(${timing.map((v) => round(v, 4)).join(', ')})`
+
+const cssPercent = (offset: number) => `${round(offset * 100, 4)}%`
+
+// @keyframes block for a channel; `declare` turns a value into CSS declarations
+const cssKeyframes = (name: string, stops: Stop[], declare: (value: number[]) => string) =>
+  [
+    `@keyframes ${name} {`,
+    ...stops.map(
+      (s, i) =>
+        `  ${cssPercent(s.offset)} { ${declare(s.value)}${i < stops.length - 1 ? ` animation-timing-function: ${cssTiming(s.timing)};` : ''} }`
+    ),
+    '}',
+  ].join('\n')
+
+const cssLayerContent = (layer: Layer, text?: string) => {
+  const { width: w, height: h } = layer
+  const box = `left: ${round(-w / 2)}px; top: ${round(-h / 2)}px;`
+  if (layer.type === 'image') {
+    return `<img src="${escapeXml(layer.imageUrl ?? '')}" width="${round(w)}" height="${round(h)}" style="${box}" alt="">`
+  }
+  if (layer.type === 'text') {
+    const style = [
+      `width: ${layer.width || 400}px;`,
+      `font-family: '${escapeXml(layer.fontFamily || 'Inter')}';`,
+      `font-size: ${layer.fontSize || 48}px;`,
+      `font-weight: ${layer.fontWeight || 600};`,
+      `color: ${colorToHex(layer.fillColor ?? 0xffffff)};`,
+    ].join(' ')
+    return `<div class="ms-text" style="${style}">${escapeXml(text ?? '')}</div>`
+  }
+  return `<svg width="${round(w)}" height="${round(h)}" viewBox="${round(-w / 2)} ${round(-h / 2)} ${round(w)} ${round(h)}" style="${box}">${shapeMarkup(layer)}</svg>`
+}
+
+/**
+ * HTML page animated with CSS @keyframes; path clips use offset-path
+ */
+export function exportCssAnimation(composition: ProjectComposition, options: VectorExportOptions): VectorMarkupResult {
+  const plan = planComposition(composition, options, 'CSS', () => true)
+  const { canvas, background } = composition
+  const iterations = plan.loop ? 'infinite' : '1'
+  const animation = (name: string, timing = 'linear') => `${name} ${round(plan.duration)}ms ${timing} 0s ${iterations} both`
+
+  const rules: string[] = []
+  const keyframes: string[] = []
+  const body: string[] = []
+
+  plan.layers.forEach((layerPlan) => {
+    const { id, position, motionPath, rotation, scale, opacity, visibility } = layerPlan
+    const outer: string[] = []
+    const outerAnimations: string[] = []
+    const inner: string[] = []
+    const innerAnimations: string[] = []
+
+    // Each channel is a static declaration plus an optional @keyframes animation
+    const addChannel = (
+      target: 'outer' | 'inner',
+      channel: Channel,
+      suffix: string,
+      declare: (value: number[]) => string
+    ) => {
+      ;(target === 'outer' ? outer : inner).push(declare(firstValue(channel)))
+      if (!isAnimated(channel)) return
+      keyframes.push(cssKeyframes(`${id}-${suffix}`, channel.stops, declare))
+      ;(target === 'outer' ? outerAnimations : innerAnimations).push(animation(`${id}-${suffix}`))
+    }
+
+    if (motionPath) {
+      outer.push(`offset-path: path('${motionPath.d}');`, 'offset-rotate: 0deg;')
+      addChannel('outer', position, 'position', ([d]) => `offset-distance: ${round(d)}px;`)
+    } else {
+      addChannel('outer', position, 'position', ([x, y]) => `translate: ${round(x)}px ${round(y)}px;`)
+    }
+    addChannel('inner', rotation, 'rotation', ([r]) => `rotate: ${round(r, 3)}deg;`)
+    addChannel('inner', scale, 'scale', ([s]) => `scale: ${round(s, 4)};`)
+    addChannel('inner', opacity, 'opacity', ([o]) => `opacity: ${round(o, 4)};`)
+
+    if (visibility) {
+      const state = (visible: boolean) => `visibility: ${visible ? 'visible' : 'hidden'};`
+      outer.push(state(visibility[0].visible))
+      keyframes.push(
+        [
+          `@keyframes ${id}-visibility {`,
+          ...visibility.map((v) => `  ${cssPercent(v.offset)} { ${state(v.visible)} }`),
+          '}',
+        ].join('\n')
+      )
+      outerAnimations.push(animation(`${id}-visibility`, 'step-end'))
+    }
+
+    if (outerAnimations.length) outer.push(`animation: ${outerAnimations.join(', ')};`)
+    if (innerAnimations.length) inner.push(`animation: ${innerAnimations.join(', ')};`)
+    rules.push(`#${id} { ${outer.join(' ')} }`, `#${id} > .ms-body { ${inner.join(' ')} }`)
+    body.push(
+      `<div class="ms-layer" id="${id}"><div class="ms-body">${cssLayerContent(layerPlan.layer, layerPlan.text)}</div></div>`
+    )
+  })
+
+  const backgroundCss =
+    background.mode === 'gradient'
+      ? `background: linear-gradient(135deg, ${background.from}, ${background.to});`
+      : `background: ${background.solid};`
+  const fontLinks = fontFamiliesOf(plan.layers).map(
+    (family) => `<link rel="stylesheet" href="${escapeXml(getFontStylesheetUrl(family))}">`
+  )
+
+  const markup = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(options.name ?? 'MotionShapes')}</title>
+${fontLinks.join('\n')}
+<style>
+body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; background: #111; }
+.ms-stage { position: relative; width: ${canvas.width}px; height: ${canvas.height}px; overflow: hidden; }
+.ms-background { position: absolute; inset: 0; ${backgroundCss} opacity: ${round(Math.max(0, Math.min(1, background.opacity ?? 1)), 3)}; }
+.ms-layer { position: absolute; left: 0; top: 0; }
+.ms-body > svg, .ms-body > img { position: absolute; overflow: visible; }
+.ms-text { position: absolute; transform: translate(-50%, -50%); text-align: center; white-space: pre-wrap; overflow-wrap: break-word; }
+${rules.join('\n')}
+${keyframes.join('\n')}
+</style>
+</head>
+<body>
+<div class="ms-stage">
+<div class="ms-background"></div>
+${body.join('\n')}
+</div>
+</body>
+</html>
+`
+
+  return { markup, warnings: plan.warnings }
+}
@@ -0,0 +1,62 @@
+/**
+ * Timeline Ruler
+ *
+ * Tick placement and labels for the zoomable timeline ruler. Ticks step in
+ * "nice" intervals picked so labels stay readable at any zoom, either in
+ * seconds or in whole frames at a given fps.
+ */
+
+export const MIN_TICK_PX = 64
+
+const SECOND_STEPS = [10, 20, 50, 100, 200, 500, 1000, 2000, 5000, 10000, 15000, 30000, 60000, 120000, 300000, 600000]
+const FRAME_STEPS = [1, 2, 5, 10]
+const SECOND_MULTIPLES = [1, 2, 5, 10, 15, 30, 60, 120, 300, 600]
+
+export interface RulerTick {
+  time: number // ms
+  label: string
+}
+
+/**
+ * `MM:SS:FF` at `fps`, the frame counterpart of the `MM:SS:cc` seconds view
+ */
+export function formatTimecode(ms: number, fps: number): string {
+  const totalFrames = Math.floor((Math.max(0, ms) * fps) / 1000 + 1e-6)
+  const framesPerSecond = Math.round(fps)
+  const totalSeconds = Math.floor(totalFrames / framesPerSecond)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  const frames = totalFrames % framesPerSecond
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}:${String(frames).padStart(2, '0')}`
+}
+
+// Tick interval in ms: the smallest nice step at least MIN_TICK_PX wide
+const pickStep = (pxPerMs: number, fps: number) => {
+  const steps = fps > 0
+    ? [...FRAME_STEPS.filter((f) => f < fps), ...SECOND_MULTIPLES.map((s) => s * fps)].map((frames) => (frames * 1000) / fps)
+    : SECOND_STEPS
+  return steps.find((step) => step * pxPerMs >= MIN_TICK_PX) ?? steps[steps.length - 1]
+}
+
+const formatSeconds = (ms: number, step: number) => {
+  const decimals = step >= 1000 ? 0 : step >= 100 ? 1 : 2
+  return `${(ms / 1000).toFixed(decimals)}s`
+}
+
+/**
+ * Labelled ticks across the visible window [`viewStart`, `viewStart + viewSpan`]
+ * drawn `width` px wide
+ */
+export function getRulerTicks(viewStart: number, viewSpan: number, width: number, fps: number): RulerTick[] {
+  if (viewSpan <= 0) return []
+  const step = pickStep(width / viewSpan, fps)
+  const ticks: RulerTick[] = []
+  // Index-based so frame steps don't drift
+  const first = Math.ceil(viewStart / step - 1e-6)
+  const last = Math.floor((viewStart + viewSpan) / step + 1e-6)
+  for (let i = Math.max(0, first); i <= last; i++) {
+    const time = i * step
+    ticks.push({ time, label: fps > 0 ? formatTimecode(time, fps) : formatSeconds(time, step) })
+  }
+  return ticks
+}
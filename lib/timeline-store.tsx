@@ -3,19 +3,55 @@
 import { createContext, useContext, useMemo, useSyncExternalStore } from 'react'
 import type { ReactNode } from 'react'
 import {
+  BackgroundTracks,
+  Easing,
   LayerTracks,
   PathClip,
   SampledLayerState,
   TimelineKeyframe,
   Vec2,
+  DEFAULT_FPS,
   DEFAULT_LAYER_STATE,
+  frameToTime,
   sampleTimeline,
   sampleLayerTracks,
+  placeKeyframeTime,
+  snapToFrame,
+  timeToFrame,
   upsertKeyframe,
 } from '@/lib/timeline'
+import { DRIVER_PROPERTIES } from '@/lib/audio'
+import type { AudioDriver, AudioTrack, DriverProperty } from '@/lib/audio'
+import type { ColorSpace } from '@/lib/color'
+import type { ParticleEffectType, ParticleSource } from '@/lib/particles'
+import { reorderLayerEffects } from '@/lib/effects'
+import type { EffectBlendMode, EffectKeyframes, EffectParamKey } from '@/lib/effects'
 import { PRESET_BUILDERS, TemplateId, rollDistanceForDuration, jumpHeightForDuration, popSpeedForDuration } from '@/lib/presets'
 
-type TimelineState = {
+// Keyframe tracks that can be edited one keyframe at a time
+export type KeyframeProperty = keyof Pick<
+  LayerTracks,
+  | 'position'
+  | 'scale'
+  | 'scaleX'
+  | 'scaleY'
+  | 'rotation'
+  | 'skewX'
+  | 'skewY'
+  | 'anchor'
+  | 'opacity'
+  | 'fillColor'
+  | 'strokeColor'
+>
+
+// A single keyframe, identified by its time on a layer's property track
+export interface KeyframeRef {
+  layerId: string
+  property: KeyframeProperty
+  time: number
+}
+
+export type TimelineState = {
   tracks: LayerTracks[]
   duration: number
   currentTime: number
@@ -23,6 +59,9 @@ type TimelineState = {
   loop: boolean
   playbackRate: number
   lastTick?: number
+  // Project frame rate; with quantizing on the playhead and edited times sit on its frame boundaries
+  fps: number
+  quantizeToFrames: boolean
   templateSpeed: number
   rollDistance: number
   jumpHeight: number
@@ -89,6 +128,12 @@ type TimelineState = {
       transitionType?: 'fade' | 'slide' | 'zoom' | 'blur'
     }
   }>
+  // In/out work area set on the ruler: playback loops inside it and exporters render only this span by default
+  workArea: { start: number; end: number } | null
+  // Record mode: moving a layer on the canvas writes a position keyframe at the playhead
+  isRecording: boolean
+  // Animated background colors (solid fill and gradient stops), sampled at the playhead
+  backgroundTracks: BackgroundTracks
   // Click markers for click animation effect
   clickMarkers: Array<{
     id: string
@@ -99,31 +144,269 @@ type TimelineState = {
   effectClips: Array<{
     id: string
     layerId: string
-    effectType: 'glow' | 'dropShadow' | 'blur' | 'glitch' | 'pixelate' | 'sparkles' | 'confetti'
+    effectType:
+      | 'glow'
+      | 'dropShadow'
+      | 'blur'
+      | 'glitch'
+      | 'pixelate'
+      | 'colorAdjust'
+      | 'rgbSplit'
+      | 'zoomBlur'
+      | 'motionBlur'
+      | 'noise'
+      | 'outline'
+      | 'bloom'
+      | 'shockwave'
+      | 'crt'
+      | ParticleEffectType
     start: number       // ms
     duration: number    // ms
+    enabled?: boolean   // false = bypassed in the layer's effect stack
+    blendMode?: EffectBlendMode
+    keyframes?: EffectKeyframes // param tracks, times relative to start
     params: {
       // Glow params
       glowColor?: number
       glowIntensity?: number
       glowDistance?: number
+      // Drop shadow params
+      shadowDistance?: number
+      shadowBlur?: number
+      shadowRotation?: number
+      shadowAlpha?: number
       // Blur params
       blurStrength?: number
+      // Glitch / pixelate params
+      glitchSlices?: number
+      glitchOffset?: number
+      pixelSize?: number
+      // Color adjustment params (1 = unchanged)
+      adjustGamma?: number
+      adjustSaturation?: number
+      adjustContrast?: number
+      adjustBrightness?: number
+      adjustRed?: number
+      adjustGreen?: number
+      adjustBlue?: number
+      // RGB split / motion / zoom blur params
+      splitAmount?: number
+      splitAngle?: number
+      motionAmount?: number
+      motionAngle?: number
+      zoomStrength?: number
+      zoomInnerRadius?: number
+      // Noise params
+      noiseAmount?: number
+      // Outline params
+      outlineColor?: number
+      outlineThickness?: number
+      outlineAlpha?: number
+      // Bloom params
+      bloomThreshold?: number
+      bloomScale?: number
+      bloomBrightness?: number
+      bloomBlur?: number
+      // Shockwave params
+      shockAmplitude?: number
+      shockWavelength?: number
+      shockSpeed?: number
+      shockBrightness?: number
+      // CRT params
+      crtCurvature?: number
+      crtLineWidth?: number
+      crtLineContrast?: number
+      crtNoise?: number
+      crtVignetting?: number
       // Confetti/Particles params
       particleCount?: number
       particleSpeed?: number
+      particleSources?: ParticleSource[] // custom sprites, picked by weight
     }
   }>
+  // Imported audio files; the content runs at least until the last one ends
+  audioTracks: AudioTrack[]
+  // Audio-reactive drivers: band level of an audio track mapped onto a layer property
+  audioDrivers: AudioDriver[]
 }
 
 export type TimelineStore = ReturnType<typeof createTimelineStore>
 
+// Every keyframe track on a layer, for edits that move a whole stretch of time
+const TIMED_TRACKS = [
+  'position',
+  'scale',
+  'scaleX',
+  'scaleY',
+  'rotation',
+  'skewX',
+  'skewY',
+  'anchor',
+  'opacity',
+  'maskScale',
+  'fillColor',
+  'strokeColor',
+] as const
+
+/**
+ * Move everything on one layer at or after `from` by `delta` ms: template and
+ * effect clips, click markers, keyframes and path clips. The layer bar grows
+ * or shrinks with it. The base keyframes at time 0 never move.
+ */
+const shiftLayerContent = (state: TimelineState, layerId: string, from: number, delta: number): TimelineState => {
+  const shift = (time: number) => Math.max(0, time + delta)
+  return {
+    ...state,
+    templateClips: state.templateClips.map((c) =>
+      c.layerId === layerId && c.start >= from ? { ...c, start: shift(c.start) } : c
+    ),
+    effectClips: state.effectClips.map((c) =>
+      c.layerId === layerId && c.start >= from ? { ...c, start: shift(c.start) } : c
+    ),
+    clickMarkers: state.clickMarkers
+      .map((m) => (m.layerId === layerId && m.time >= from ? { ...m, time: shift(m.time) } : m))
+      .sort((a, b) => a.time - b.time),
+    tracks: state.tracks.map((track) => {
+      if (track.layerId !== layerId) return track
+      const shiftedFrames = Object.fromEntries(
+        TIMED_TRACKS.filter((key) => track[key]).map((key) => [
+          key,
+          (track[key] as TimelineKeyframe<unknown>[]).map((f) =>
+            f.time > 0 && f.time >= from ? { ...f, time: shift(f.time) } : f
+          ),
+        ])
+      )
+      const next: LayerTracks = {
+        ...track,
+        ...shiftedFrames,
+        paths: track.paths?.map((p) => (p.startTime >= from ? { ...p, startTime: shift(p.startTime) } : p)),
+      }
+      const start = track.startTime ?? 0
+      const duration = track.duration ?? 2000
+      if (start >= from) next.startTime = shift(start)
+      else if (start + duration > from) next.duration = Math.max(100, duration + delta)
+      return next
+    }),
+  }
+}
+
+/**
+ * Move every clip edge, layer bar, marker, keyframe and path clip onto the
+ * nearest frame boundary at `fps`. Keyframes landing on the same frame merge.
+ */
+const quantizeContent = (state: TimelineState, fps: number): TimelineState => {
+  const snap = (time: number) => snapToFrame(time, fps)
+  // Start and end both land on frames; spans never collapse below one frame
+  const snapSpan = (start: number, duration: number) => {
+    const snappedStart = snap(start)
+    return { start: snappedStart, duration: Math.max(snap(1000 / fps), snap(start + duration) - snappedStart) }
+  }
+  return {
+    ...state,
+    templateClips: state.templateClips.map((c) => ({ ...c, ...snapSpan(c.start, c.duration) })),
+    effectClips: state.effectClips.map((c) => ({
+      ...c,
+      ...snapSpan(c.start, c.duration),
+      keyframes: c.keyframes && Object.fromEntries(
+        Object.entries(c.keyframes).filter(([, frames]) => frames?.length).map(([key, frames]) => [
+          key,
+          frames!.reduce<TimelineKeyframe<number>[]>((acc, f) => upsertKeyframe(acc, { ...f, time: snap(f.time) }), []),
+        ])
+      ),
+    })),
+    clickMarkers: state.clickMarkers.map((m) => ({ ...m, time: snap(m.time) })),
+    tracks: state.tracks.map((track) => {
+      const snappedFrames = Object.fromEntries(
+        TIMED_TRACKS.filter((key) => track[key]).map((key) => [
+          key,
+          (track[key] as TimelineKeyframe<unknown>[]).reduce<TimelineKeyframe<unknown>[]>(
+            (acc, f) => upsertKeyframe(acc, { ...f, time: snap(f.time) }),
+            []
+          ),
+        ])
+      )
+      const bar = snapSpan(track.startTime ?? 0, track.duration ?? 2000)
+      return {
+        ...track,
+        ...snappedFrames,
+        startTime: bar.start,
+        duration: bar.duration,
+        paths: track.paths?.map((p) => {
+          const span = snapSpan(p.startTime, p.duration)
+          return { ...p, startTime: span.start, duration: span.duration }
+        }),
+      }
+    }),
+  }
+}
+
 const clampTime = (time: number, duration: number) => {
   const safeTime = Number.isFinite(time) ? time : 0
   const safeDuration = Number.isFinite(duration) ? duration : 0
   return Math.max(0, Math.min(safeTime, safeDuration))
 }
 
+/**
+ * Clamped playhead time. While quantizing it is the start time of the nearest
+ * frame (or of the frame it falls in, for playback), so a frame number always
+ * maps to the identical sample time.
+ */
+const quantizePlayhead = (state: TimelineState, time: number, nearest = true) => {
+  const clamped = clampTime(time, state.duration)
+  if (!state.quantizeToFrames) return clamped
+  const frame = nearest ? Math.round((clamped * state.fps) / 1000) : timeToFrame(clamped, state.fps)
+  return frameToTime(Math.min(frame, timeToFrame(state.duration, state.fps)), state.fps)
+}
+
+/**
+ * Where playback (and export) should stop: the end of the last keyframe, clip,
+ * path, layer bar, click marker or audio track. We want to stop at the end of the
+ * clips, not the full timeline view duration. With no content, allow 5 seconds of
+ * free movement.
+ */
+export const getContentDuration = (
+  state: Pick<TimelineState, 'tracks' | 'templateClips' | 'clickMarkers'> & Partial<Pick<TimelineState, 'audioTracks'>>
+) => {
+  // Last keyframe on any timed track (each track is kept sorted by time)
+  const tracksEnd = state.tracks.reduce((max, t) => {
+    const times = TIMED_TRACKS.map((key) => {
+      const frames = t[key] as TimelineKeyframe<unknown>[] | undefined
+      return frames?.length ? frames[frames.length - 1].time : 0
+    })
+    return Math.max(max, ...times)
+  }, 0)
+  const clipsEnd = state.templateClips.reduce((max, c) => Math.max(max, (c.start ?? 0) + (c.duration ?? 0)), 0)
+  const pathsEnd = state.tracks.reduce(
+    (max, t) => (t.paths ?? []).reduce((m, p) => Math.max(m, p.startTime + p.duration), max),
+    0
+  )
+
+  // Include layer visibility bars (shape bars) - the purple parent bars
+  const layersEnd = state.tracks.reduce((max, t) => Math.max(max, (t.startTime ?? 0) + (t.duration ?? 0)), 0)
+
+  // Include click markers in content duration
+  const clickMarkersEnd = state.clickMarkers.reduce((max, m) => Math.max(max, m.time), 0)
+
+  // A soundtrack longer than the animation is played (and exported) to its end
+  const audioTracks = state.audioTracks ?? []
+  const audioEnd = audioTracks.reduce((max, a) => Math.max(max, a.start + a.duration), 0)
+
+  const hasLayers = state.tracks.length > 0
+  const hasClips = state.templateClips.length > 0 || tracksEnd > 0 || pathsEnd > 0 || hasLayers || audioTracks.length > 0
+  return hasClips
+    ? Math.max(100, tracksEnd, clipsEnd, pathsEnd, layersEnd, clickMarkersEnd, audioEnd)
+    : Math.max(5000, clickMarkersEnd + 500)
+}
+
+/**
+ * The span playback runs over: the work area when one is set, else 0 to the
+ * content duration
+ */
+export const getPlaybackRange = (
+  state: Pick<TimelineState, 'tracks' | 'templateClips' | 'clickMarkers' | 'workArea'> &
+    Partial<Pick<TimelineState, 'audioTracks'>>
+) => state.workArea ?? { start: 0, end: getContentDuration(state) }
+
 const defaultState: TimelineState = {
   tracks: [],
   duration: 5000, // 5 seconds minimum for free playhead movement
@@ -131,6 +414,8 @@ const defaultState: TimelineState = {
   isPlaying: false,
   loop: false,
   playbackRate: 1,
+  fps: DEFAULT_FPS,
+  quantizeToFrames: false,
   templateSpeed: 1,
   rollDistance: 0.2,
   jumpHeight: 0.25,
@@ -146,8 +431,13 @@ const defaultState: TimelineState = {
   spinSpeed: 1,
   spinDirection: 1,
   templateClips: [],
+  workArea: null,
+  isRecording: false,
+  backgroundTracks: {},
   clickMarkers: [],
   effectClips: [],
+  audioTracks: [],
+  audioDrivers: [],
 }
 
 export function createTimelineStore(initialState?: Partial<TimelineState>) {
@@ -171,6 +461,8 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
     templateClips: initialState?.templateClips ?? defaultState.templateClips,
     clickMarkers: initialState?.clickMarkers ?? defaultState.clickMarkers,
     effectClips: initialState?.effectClips ?? defaultState.effectClips,
+    audioTracks: initialState?.audioTracks ?? defaultState.audioTracks,
+    audioDrivers: initialState?.audioDrivers ?? defaultState.audioDrivers,
   }
 
   const listeners = new Set<() => void>()
@@ -251,7 +543,7 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
 
   const setKeyframe = <T,>(
     layerId: string,
-    key: keyof Pick<LayerTracks, 'position' | 'scale' | 'rotation' | 'opacity'>,
+    key: KeyframeProperty,
     frame: TimelineKeyframe<T>
   ) => {
     ensureTrack(layerId)
@@ -269,6 +561,136 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
     }))
   }
 
+  // Easing of the segment that ends at the keyframe at `time`
+  const setKeyframeEasing = (layerId: string, key: KeyframeProperty | 'maskScale', time: number, easing: Easing) => {
+    setState((prev) => ({
+      ...prev,
+      tracks: prev.tracks.map((track) =>
+        track.layerId === layerId && track[key]
+          ? {
+              ...track,
+              [key]: (track[key] as TimelineKeyframe<unknown>[]).map((frame) =>
+                frame.time === time ? { ...frame, easing } : frame
+              ),
+            }
+          : track
+      ),
+    }))
+  }
+
+  // Apply `update` to every property track touched by `refs`, passing the times selected on it
+  const updateKeyframeTracks = (
+    refs: KeyframeRef[],
+    update: (frames: TimelineKeyframe<unknown>[], times: Set<number>) => TimelineKeyframe<unknown>[]
+  ) => {
+    setState((prev) => {
+      const next = {
+        ...prev,
+        tracks: prev.tracks.map((track) => {
+          const touched = refs.filter((ref) => ref.layerId === track.layerId)
+          if (touched.length === 0) return track
+          let nextTrack = track
+          new Set(touched.map((ref) => ref.property)).forEach((key) => {
+            const times = new Set(touched.filter((ref) => ref.property === key).map((ref) => ref.time))
+            nextTrack = { ...nextTrack, [key]: update((track[key] as TimelineKeyframe<unknown>[]) ?? [], times) }
+          })
+          return nextTrack
+        }),
+      }
+      // Keyframes moved past the end extend the timeline
+      return { ...next, duration: Math.max(prev.duration, getContentDuration(next)) }
+    })
+  }
+
+  // Shift keyframes in time; moved keyframes replace any they land on
+  const moveKeyframes = (refs: KeyframeRef[], delta: number) => {
+    updateKeyframeTracks(refs, (frames, times) => {
+      const moved = frames
+        .filter((frame) => times.has(frame.time))
+        .map((frame) => ({ ...frame, time: placeKeyframeTime(frame.time + delta, state.fps, state.quantizeToFrames) }))
+      return moved.reduce((acc, frame) => upsertKeyframe(acc, frame), frames.filter((frame) => !times.has(frame.time)))
+    })
+  }
+
+  const removeKeyframes = (refs: KeyframeRef[]) => {
+    updateKeyframeTracks(refs, (frames, times) => frames.filter((frame) => !times.has(frame.time)))
+  }
+
+  // Insert copies of keyframes (e.g. a paste) into one layer's tracks
+  const insertKeyframes = (layerId: string, entries: Array<{ property: KeyframeProperty; frame: TimelineKeyframe<unknown> }>) => {
+    ensureTrack(layerId)
+    setState((prev) => {
+      const next = {
+        ...prev,
+        tracks: prev.tracks.map((track) => {
+          if (track.layerId !== layerId) return track
+          return entries.reduce(
+            (acc, { property, frame }) => ({
+              ...acc,
+              [property]: upsertKeyframe((acc[property] as TimelineKeyframe<unknown>[]) ?? [], frame),
+            }),
+            track
+          )
+        }),
+      }
+      // A paste past the end extends the timeline
+      return { ...next, duration: Math.max(prev.duration, getContentDuration(next)) }
+    })
+  }
+
+  /**
+   * Record-mode position write. The first recorded move on a still layer keeps
+   * its old position as the time 0 keyframe so the layer animates from there.
+   */
+  const recordPositionKeyframe = (layerId: string, time: number, value: Vec2, previous: Vec2) => {
+    ensureTrack(layerId)
+    setState((prev) => ({
+      ...prev,
+      tracks: prev.tracks.map((track) => {
+        if (track.layerId !== layerId) return track
+        const frames = track.position ?? []
+        const animated = frames.length > 1 || frames.some((frame) => frame.time > 0)
+        const base = animated ? frames : [{ time: 0, value: previous }]
+        return { ...track, position: upsertKeyframe(base, { time: Math.round(time), value }) }
+      }),
+    }))
+  }
+
+  const setRecording = (isRecording: boolean) => {
+    setState((prev) => ({ ...prev, isRecording }))
+  }
+
+  // Space the layer's color tracks blend in
+  const setColorSpace = (layerId: string, colorSpace: ColorSpace) => {
+    ensureTrack(layerId)
+    setState((prev) => ({
+      ...prev,
+      tracks: prev.tracks.map((track) => (track.layerId === layerId ? { ...track, colorSpace } : track)),
+    }))
+  }
+
+  const setBackgroundKeyframe = (key: 'solid' | 'from' | 'to', frame: TimelineKeyframe<number>) => {
+    setState((prev) => ({
+      ...prev,
+      backgroundTracks: {
+        ...prev.backgroundTracks,
+        [key]: upsertKeyframe(prev.backgroundTracks[key] ?? [], frame),
+      },
+    }))
+  }
+
+  const setBackgroundColorSpace = (colorSpace: ColorSpace) => {
+    setState((prev) => ({ ...prev, backgroundTracks: { ...prev.backgroundTracks, colorSpace } }))
+  }
+
+  const clearBackgroundTrack = (key: 'solid' | 'from' | 'to') => {
+    setState((prev) => {
+      const backgroundTracks = { ...prev.backgroundTracks }
+      delete backgroundTracks[key]
+      return { ...prev, backgroundTracks }
+    })
+  }
+
   const getMaxPathEnd = (tracks: LayerTracks[]) => {
     let maxEnd = 0
     tracks.forEach((t) => {
@@ -386,7 +808,7 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
 
   const updateEffectClip = (
     clipId: string,
-    updates: Partial<Pick<TimelineState['effectClips'][number], 'start' | 'duration' | 'params'>>
+    updates: Partial<Pick<TimelineState['effectClips'][number], 'start' | 'duration' | 'params' | 'enabled' | 'blendMode'>>
   ) => {
     setState((prev) => ({
       ...prev,
@@ -398,6 +820,44 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
     }))
   }
 
+  // Restack one layer's effects; the first id applies first
+  const reorderEffectClips = (layerId: string, orderedIds: string[]) => {
+    setState((prev) => ({ ...prev, effectClips: reorderLayerEffects(prev.effectClips, layerId, orderedIds) }))
+  }
+
+  // Rewrite one param track of an effect clip; an emptied track is dropped
+  const updateEffectKeyframes = (
+    clipId: string,
+    key: EffectParamKey,
+    update: (frames: TimelineKeyframe<number>[]) => TimelineKeyframe<number>[]
+  ) => {
+    setState((prev) => ({
+      ...prev,
+      effectClips: prev.effectClips.map((c) => {
+        if (c.id !== clipId) return c
+        const frames = update(c.keyframes?.[key] ?? [])
+        const keyframes = { ...c.keyframes, [key]: frames }
+        // An emptied track is dropped so the param goes back to its static value
+        if (!frames.length) delete keyframes[key]
+        return { ...c, keyframes }
+      }),
+    }))
+  }
+
+  // Key an effect param `time` ms into its clip (frame-snapped while quantizing)
+  const setEffectKeyframe = (clipId: string, key: EffectParamKey, time: number, value: number) => {
+    const frameTime = placeKeyframeTime(time, state.fps, state.quantizeToFrames)
+    updateEffectKeyframes(clipId, key, (frames) => upsertKeyframe(frames, { time: frameTime, value }))
+  }
+
+  const removeEffectKeyframe = (clipId: string, key: EffectParamKey, time: number) => {
+    updateEffectKeyframes(clipId, key, (frames) => frames.filter((f) => f.time !== time))
+  }
+
+  const clearEffectKeyframes = (clipId: string, key: EffectParamKey) => {
+    updateEffectKeyframes(clipId, key, () => [])
+  }
+
   const updateLayer = (
     layerId: string,
     updates: { startTime?: number; duration?: number }
@@ -729,7 +1189,11 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
           ...track,
           position: [],
           scale: [],
+          scaleX: [],
+          scaleY: [],
           rotation: [],
+          skewX: [],
+          skewY: [],
           opacity: [],
           maskScale: [],
           paths: []
@@ -760,6 +1224,7 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
                const baseRotation = 0
                const baseOpacity = layerBase?.opacity ?? DEFAULT_LAYER_STATE.opacity
                clipBaseState = {
+                 ...DEFAULT_LAYER_STATE,
                  position: basePosition,
                  scale: baseScaleFromLayer,
                  rotation: baseRotation,
@@ -800,6 +1265,7 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
           const restoredOpacity = shouldRestoreFromPop && lastPopStartState ? lastPopStartState.opacity : sampledFromNew.opacity
 
           clipBaseState = {
+            ...sampledFromNew,
             position: sampledFromNew.position,
             scale: restoredScale,
             rotation: sampledFromNew.rotation,
@@ -1089,6 +1555,10 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
             rotation: mergeKeyframes(newTrack.rotation ?? [], mergedRotation, isInOutAnimation ? undefined : clipBaseState.rotation, isInOutAnimation ? 'replace' : 'add'),
             opacity: mergeKeyframes(newTrack.opacity ?? [], preset.opacity, isInOutAnimation ? undefined : clipBaseState.opacity, isInOutAnimation ? 'replace' : 'multiply'),
             maskScale: mergeKeyframes(newTrack.maskScale ?? [], preset.maskScale, undefined, 'replace'),
+            scaleX: mergeKeyframes(newTrack.scaleX ?? [], preset.scaleX, undefined, 'replace'),
+            scaleY: mergeKeyframes(newTrack.scaleY ?? [], preset.scaleY, undefined, 'replace'),
+            skewX: mergeKeyframes(newTrack.skewX ?? [], preset.skewX, undefined, 'replace'),
+            skewY: mergeKeyframes(newTrack.skewY ?? [], preset.skewY, undefined, 'replace'),
           }
           
            // Update prevClipEnd for next iteration
@@ -1396,7 +1866,11 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
           ...track,
           position: trimFrames(track.position),
           scale: trimFrames(track.scale),
+          scaleX: trimFrames(track.scaleX),
+          scaleY: trimFrames(track.scaleY),
           rotation: trimFrames(track.rotation),
+          skewX: trimFrames(track.skewX),
+          skewY: trimFrames(track.skewY),
           opacity: trimFrames(track.opacity),
         }
         
@@ -1489,6 +1963,14 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
             clipId: newClipId, // Tag with clip ID for deletion
           })) ?? []
 
+        // Squash/stretch and skew are plain multipliers/offsets, no base to merge with
+        const mapDeformFrames = (frames: TimelineKeyframe<number>[] | undefined) =>
+          frames?.map((f) => ({
+            ...f,
+            time: startOffset + scaleTime(f.time),
+            clipId: newClipId,
+          })) ?? []
+
         const mappedRotation =
           preset.rotation?.map((f: TimelineKeyframe<number>) => ({
             ...normalizeNumberFrame(f, baseState.rotation, true),
@@ -1540,6 +2022,10 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
           rotation: mergeFrames(clearedTrack.rotation, mappedRotation).sort((a, b) => a.time - b.time),
           opacity: finalOpacity,
           maskScale: mergeFrames(clearedTrack.maskScale, mappedMaskScale).sort((a, b) => a.time - b.time),
+          scaleX: mergeFrames(clearedTrack.scaleX, mapDeformFrames(preset.scaleX)).sort((a, b) => a.time - b.time),
+          scaleY: mergeFrames(clearedTrack.scaleY, mapDeformFrames(preset.scaleY)).sort((a, b) => a.time - b.time),
+          skewX: mergeFrames(clearedTrack.skewX, mapDeformFrames(preset.skewX)).sort((a, b) => a.time - b.time),
+          skewY: mergeFrames(clearedTrack.skewY, mapDeformFrames(preset.skewY)).sort((a, b) => a.time - b.time),
         }
       })
 
@@ -1678,7 +2164,11 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
           ...track,
           position: [],
           scale: [],
+          scaleX: [],
+          scaleY: [],
           rotation: [],
+          skewX: [],
+          skewY: [],
           opacity: [],
           maskScale: [],
           paths: []
@@ -1702,6 +2192,7 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
               if (isFirstAnimation) {
                 // This is the very first animation, use default state with provided layer scale
                 clipBaseState = {
+                  ...DEFAULT_LAYER_STATE,
                   position: layerBase?.position ?? DEFAULT_LAYER_STATE.position,
                   scale: layerBase?.scale ?? baseScale,
                   rotation: layerBase?.rotation ?? DEFAULT_LAYER_STATE.rotation,
@@ -1756,6 +2247,7 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
              const restoredOpacity = shouldRestoreFromPop && lastPopStartState ? lastPopStartState.opacity : sampledFromNew.opacity
 
              clipBaseState = {
+               ...sampledFromNew,
                position: sampledFromNew.position,
                scale: restoredScale,
                rotation: sampledFromNew.rotation,
@@ -1999,6 +2491,10 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
               rotation: mergeKeyframes(newTrack.rotation ?? [], mergedRotation, isInOutAnimation ? undefined : clipBaseState.rotation, isInOutAnimation ? 'replace' : 'add'),
               opacity: mergeKeyframes(newTrack.opacity ?? [], preset.opacity, isInOutAnimation ? undefined : clipBaseState.opacity, isInOutAnimation ? 'replace' : 'multiply'),
               maskScale: mergeKeyframes(newTrack.maskScale ?? [], preset.maskScale, undefined, 'replace'),
+              scaleX: mergeKeyframes(newTrack.scaleX ?? [], preset.scaleX, undefined, 'replace'),
+              scaleY: mergeKeyframes(newTrack.scaleY ?? [], preset.scaleY, undefined, 'replace'),
+              skewX: mergeKeyframes(newTrack.skewX ?? [], preset.skewX, undefined, 'replace'),
+              skewY: mergeKeyframes(newTrack.skewY ?? [], preset.skewY, undefined, 'replace'),
             }
             
            prevClipEnd = end
@@ -2150,7 +2646,11 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
           ...track,
           position: filterKeyframes(track.position),
           scale: filterKeyframes(track.scale),
+          scaleX: filterKeyframes(track.scaleX),
+          scaleY: filterKeyframes(track.scaleY),
           rotation: filterKeyframes(track.rotation),
+          skewX: filterKeyframes(track.skewX),
+          skewY: filterKeyframes(track.skewY),
           opacity: filterKeyframes(track.opacity),
           // Paths don't have clipId, keep them as is for now
           paths: track.paths,
@@ -2188,15 +2688,72 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
     })
   }
 
+  /**
+   * Remove a clip and pull the rest of its layer back over the gap it leaves.
+   * Clips still covering part of the removed span keep the gap that far open.
+   */
+  const rippleRemoveTemplateClip = (
+    clipId: string,
+    layerBase?: { position?: Vec2; scale?: number; rotation?: number; opacity?: number }
+  ) => {
+    const clip = state.templateClips.find((c) => c.id === clipId)
+    if (!clip) return
+    const clipEnd = clip.start + clip.duration
+    const gapStart = state.templateClips
+      .filter((c) => c.layerId === clip.layerId && c.id !== clipId && c.start < clipEnd)
+      .reduce((max, c) => Math.max(max, Math.min(clipEnd, c.start + c.duration)), clip.start)
+    removeTemplateClip(clipId, layerBase)
+    if (clipEnd - gapStart > 0) {
+      setState((prev) => shiftLayerContent(prev, clip.layerId, clipEnd, gapStart - clipEnd))
+    }
+  }
+
+  // Open an empty stretch of `duration` ms on one layer, pushing later content back
+  const insertGap = (layerId: string, at: number, duration: number) => {
+    if (duration <= 0) return
+    setState((prev) => {
+      const next = shiftLayerContent(prev, layerId, at, duration)
+      return { ...next, duration: Math.max(prev.duration, getContentDuration(next)) }
+    })
+  }
+
   const setCurrentTime = (time: number) => {
     setState((prev) => ({
       ...prev,
-      currentTime: clampTime(time, prev.duration),
+      currentTime: quantizePlayhead(prev, time),
       isPlaying: false,
       lastTick: undefined,
     }))
   }
 
+  // Step the playhead by whole frames at the project fps (arrow keys)
+  const stepFrames = (count: number) => {
+    setState((prev) => {
+      const lastFrame = timeToFrame(prev.duration, prev.fps)
+      const frame = Math.max(0, Math.min(lastFrame, timeToFrame(prev.currentTime, prev.fps) + count))
+      return { ...prev, currentTime: frameToTime(frame, prev.fps), isPlaying: false, lastTick: undefined }
+    })
+  }
+
+  const setFps = (fps: number) => {
+    if (!Number.isFinite(fps) || fps <= 0) return
+    setState((prev) => {
+      const next = { ...prev, fps }
+      if (!prev.quantizeToFrames) return next
+      const quantized = quantizeContent(next, fps)
+      return { ...quantized, currentTime: quantizePlayhead(quantized, prev.currentTime) }
+    })
+  }
+
+  // Turning quantizing on moves existing content onto frames as well
+  const setQuantizeToFrames = (quantizeToFrames: boolean) => {
+    setState((prev) => {
+      if (!quantizeToFrames) return { ...prev, quantizeToFrames }
+      const quantized = quantizeContent({ ...prev, quantizeToFrames }, prev.fps)
+      return { ...quantized, currentTime: quantizePlayhead(quantized, prev.currentTime) }
+    })
+  }
+
   const setDuration = (duration: number) => {
     setState((prev) => ({
       ...prev,
@@ -2205,6 +2762,104 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
     }))
   }
 
+  const setWorkArea = (range: { start: number; end: number } | null) => {
+    setState((prev) => {
+      if (!range) return { ...prev, workArea: null }
+      const place = (time: number) => (prev.quantizeToFrames ? snapToFrame(time, prev.fps) : time)
+      const start = place(Math.max(0, Math.min(range.start, range.end)))
+      const end = place(Math.max(range.start, range.end))
+      return { ...prev, workArea: end - start > 0 ? { start, end } : null }
+    })
+  }
+
+  // Move the work area's in or out point, keeping the other end (content start / end when unset).
+  // Ignored when it would cross the other end.
+  const setWorkAreaPoint = (edge: 'in' | 'out', time: number) => {
+    const { workArea } = state
+    const start = edge === 'in' ? time : workArea?.start ?? 0
+    const end = edge === 'out' ? time : workArea?.end ?? getContentDuration(state)
+    if (end > start) setWorkArea({ start, end })
+  }
+
+  const addAudioTrack = (track: AudioTrack) => {
+    setState((prev) => {
+      const next = { ...prev, audioTracks: [...prev.audioTracks, track] }
+      return { ...next, duration: Math.max(prev.duration, getContentDuration(next)) }
+    })
+  }
+
+  const updateAudioTrack = (
+    trackId: string,
+    updates: Partial<Pick<AudioTrack, 'name' | 'start' | 'volume' | 'muted'>>
+  ) => {
+    setState((prev) => {
+      const next = {
+        ...prev,
+        audioTracks: prev.audioTracks.map((t) =>
+          t.id === trackId
+            ? {
+                ...t,
+                ...updates,
+                start: Math.max(0, updates.start ?? t.start),
+                volume: Math.max(0, Math.min(1, updates.volume ?? t.volume)),
+              }
+            : t
+        ),
+      }
+      // Moving a track later can run it past the timeline end
+      return { ...next, duration: Math.max(prev.duration, getContentDuration(next)) }
+    })
+  }
+
+  const removeAudioTrack = (trackId: string) => {
+    setState((prev) => ({
+      ...prev,
+      audioTracks: prev.audioTracks.filter((t) => t.id !== trackId),
+      audioDrivers: prev.audioDrivers.filter((d) => d.audioTrackId !== trackId),
+    }))
+  }
+
+  const addAudioDriver = (layerId: string, audioTrackId: string, property: DriverProperty = 'scale') => {
+    const [min, max] = DRIVER_PROPERTIES.find((p) => p.key === property)?.range ?? [0, 1]
+    const driver: AudioDriver = {
+      id: `driver-${layerId}-${Date.now()}`,
+      layerId,
+      audioTrackId,
+      property,
+      band: 'rms',
+      gain: 1,
+      smoothing: 0.85,
+      min,
+      max,
+    }
+    setState((prev) => ({ ...prev, audioDrivers: [...prev.audioDrivers, driver] }))
+    return driver.id
+  }
+
+  const updateAudioDriver = (driverId: string, updates: Partial<Omit<AudioDriver, 'id' | 'layerId'>>) => {
+    setState((prev) => ({
+      ...prev,
+      audioDrivers: prev.audioDrivers.map((d) => {
+        if (d.id !== driverId) return d
+        const next = { ...d, ...updates }
+        // Switching property resets the range to one that makes sense for it
+        if (updates.property && updates.property !== d.property && updates.min === undefined && updates.max === undefined) {
+          const range = DRIVER_PROPERTIES.find((p) => p.key === updates.property)?.range
+          if (range) [next.min, next.max] = range
+        }
+        return {
+          ...next,
+          gain: Math.max(0, next.gain),
+          smoothing: Math.max(0, Math.min(0.99, next.smoothing)),
+        }
+      }),
+    }))
+  }
+
+  const removeAudioDriver = (driverId: string) => {
+    setState((prev) => ({ ...prev, audioDrivers: prev.audioDrivers.filter((d) => d.id !== driverId) }))
+  }
+
   const setLoop = (loop: boolean) => {
     setState((prev) => ({
       ...prev,
@@ -2306,6 +2961,9 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
     }))
   }
 
+  // Running time during playback; the playhead shows it snapped to frames while quantizing
+  let playClock: { time: number; shown: number } | null = null
+
   const stopTicker = () => {
     if (rafId !== null && typeof cancelAnimationFrame !== 'undefined') {
       cancelAnimationFrame(rafId)
@@ -2318,48 +2976,29 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
       if (!prev.isPlaying) return prev
       const lastTick = prev.lastTick ?? timestamp
       const deltaMs = (timestamp - lastTick) * prev.playbackRate
-      let nextTime = prev.currentTime + deltaMs
+      // Advance the unquantized clock unless the playhead was moved since the last tick
+      const clock = playClock && playClock.shown === prev.currentTime ? playClock.time : prev.currentTime
+      let nextTime = clock + deltaMs
       let playing: boolean = prev.isPlaying
 
-      // Calculate actual content duration to loop/stop correctly
-      // We want to loop at the end of the clips, not the full timeline view duration (which is min 4000ms)
-      const tracksEnd = prev.tracks.reduce((max, t) => {
-        const times: number[] = []
-        if (t.position?.length) times.push(t.position[t.position.length - 1].time)
-        if (t.scale?.length) times.push(t.scale[t.scale.length - 1].time)
-        if (t.rotation?.length) times.push(t.rotation[t.rotation.length - 1].time)
-        if (t.opacity?.length) times.push(t.opacity[t.opacity.length - 1].time)
-        return Math.max(max, times.length ? Math.max(...times) : 0)
-      }, 0)
-      const clipsEnd = prev.templateClips.reduce((max, c) => Math.max(max, (c.start ?? 0) + (c.duration ?? 0)), 0)
-      const pathsEnd = getMaxPathEnd(prev.tracks)
-      
-      // Include layer visibility bars (shape bars) - the purple parent bars
-      const layersEnd = prev.tracks.reduce((max, t) => Math.max(max, (t.startTime ?? 0) + (t.duration ?? 0)), 0)
-      
-      // Include click markers in content duration
-      const clickMarkersEnd = prev.clickMarkers.reduce((max, m) => Math.max(max, m.time), 0)
-      
-      // If there are shape bars, stop at the end of the last bar
-      // If there are no bars, allow 5 seconds of free movement
-      const hasLayers = prev.tracks.length > 0
-      const hasClips = prev.templateClips.length > 0 || tracksEnd > 0 || pathsEnd > 0 || hasLayers
-      const contentDuration = hasClips 
-        ? Math.max(100, tracksEnd, clipsEnd, pathsEnd, layersEnd, clickMarkersEnd)  // Stop at content end (including bars)
-        : Math.max(5000, clickMarkersEnd + 500)  // 5s free movement or until click markers
-
-      if (nextTime >= contentDuration) {
-        if (prev.loop && contentDuration > 0) {
-          nextTime = nextTime % contentDuration
+      // Loop/stop at the end of the work area, or of the content when none is set
+      const { start: loopStart, end: loopEnd } = getPlaybackRange(prev)
+
+      if (nextTime >= loopEnd) {
+        if (prev.loop && loopEnd > loopStart) {
+          nextTime = loopStart + ((nextTime - loopStart) % (loopEnd - loopStart))
         } else {
-          nextTime = contentDuration
+          nextTime = loopEnd
           playing = false
         }
       }
 
+      const shown = prev.quantizeToFrames ? quantizePlayhead(prev, nextTime, false) : nextTime
+      playClock = { time: nextTime, shown }
+
       return {
         ...prev,
-        currentTime: nextTime,
+        currentTime: shown,
         isPlaying: playing,
         lastTick: timestamp,
       }
@@ -2376,29 +3015,11 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
     setState((prev) => {
       let newTime = prev.currentTime
       
-      // If starting to play and playhead is at the end, reset to 0
+      // If starting to play at (or near) the end, or outside the work area, restart from its beginning
       if (playing) {
-        // Calculate content end (same logic as tick function)
-        const tracksEnd = prev.tracks.reduce((max, t) => {
-          const times: number[] = []
-          if (t.position?.length) times.push(t.position[t.position.length - 1].time)
-          if (t.scale?.length) times.push(t.scale[t.scale.length - 1].time)
-          if (t.rotation?.length) times.push(t.rotation[t.rotation.length - 1].time)
-          if (t.opacity?.length) times.push(t.opacity[t.opacity.length - 1].time)
-          return Math.max(max, times.length ? Math.max(...times) : 0)
-        }, 0)
-        const clipsEnd = prev.templateClips.reduce((max, c) => Math.max(max, (c.start ?? 0) + (c.duration ?? 0)), 0)
-        const pathsEnd = getMaxPathEnd(prev.tracks)
-        const layersEnd = prev.tracks.reduce((max, t) => Math.max(max, (t.startTime ?? 0) + (t.duration ?? 0)), 0)
-        const hasLayers = prev.tracks.length > 0
-        const hasClips = prev.templateClips.length > 0 || tracksEnd > 0 || pathsEnd > 0 || hasLayers
-        const contentDuration = hasClips 
-          ? Math.max(100, tracksEnd, clipsEnd, pathsEnd, layersEnd)
-          : 5000
-        
-        // If at or near the end, reset to 0
-        if (prev.currentTime >= contentDuration - 50) {
-          newTime = 0
+        const { start, end } = getPlaybackRange(prev)
+        if (prev.currentTime >= end - 50 || (prev.workArea && prev.currentTime < start)) {
+          newTime = start
         }
       }
       
@@ -2428,6 +3049,41 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
     setState(() => defaultState)
   }
 
+  // Replace the whole composition (used when opening a saved project file)
+  const loadComposition = (
+    composition: Pick<
+      TimelineState,
+      'tracks' | 'templateClips' | 'effectClips' | 'clickMarkers' | 'duration' | 'loop' | 'playbackRate'
+    > & {
+      backgroundTracks?: BackgroundTracks
+      audioTracks?: AudioTrack[]
+      audioDrivers?: AudioDriver[]
+      fps?: number
+      quantizeToFrames?: boolean
+    }
+  ) => {
+    stopTicker()
+    setState((prev) => ({
+      ...prev,
+      tracks: composition.tracks,
+      templateClips: composition.templateClips,
+      effectClips: composition.effectClips,
+      clickMarkers: composition.clickMarkers,
+      backgroundTracks: composition.backgroundTracks ?? {},
+      audioTracks: composition.audioTracks ?? [],
+      audioDrivers: composition.audioDrivers ?? [],
+      duration: Math.max(0, composition.duration),
+      loop: composition.loop,
+      playbackRate: Math.max(0.1, composition.playbackRate),
+      fps: composition.fps ?? DEFAULT_FPS,
+      quantizeToFrames: composition.quantizeToFrames ?? false,
+      workArea: null,
+      currentTime: 0,
+      isPlaying: false,
+      lastTick: undefined,
+    }))
+  }
+
   const sampleAt = (time?: number) => {
     const target = typeof time === 'number' ? time : state.currentTime
     return sampleTimeline(state.tracks, target)
@@ -2479,6 +3135,7 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
 
     const nextTracks: LayerTracks[] = []
     let clipsEnd = 0
+    const unownedFrames = <T,>(frames: TimelineKeyframe<T>[] | undefined) => (frames ?? []).filter((f) => !f.clipId)
 
     Object.entries(clipsByLayer).forEach(([layerId, clips]) => {
       const sorted = [...clips].sort((a, b) => (a.start ?? 0) - (b.start ?? 0))
@@ -2490,6 +3147,8 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
       const baseRot = 0
       const baseOpacity = layerBase?.opacity ?? baseFromClip?.opacity ?? DEFAULT_LAYER_STATE.opacity
 
+      // Tracks no template writes to are kept from the current composition
+      const existing = state.tracks.find((t) => t.layerId === layerId)
       let track: LayerTracks = {
         layerId,
         position: [{ time: 0, value: basePos }],
@@ -2497,7 +3156,19 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
         rotation: [{ time: 0, value: baseRot }],
         opacity: [{ time: 0, value: baseOpacity }],
         maskScale: [],
-        paths: [],
+        // Motion paths and the layer's lifespan aren't preset-built; a moved group carries its children with it
+        paths: existing?.paths ?? [],
+        ...(existing?.startTime !== undefined && { startTime: existing.startTime }),
+        ...(existing?.duration !== undefined && { duration: existing.duration }),
+        ...(existing?.anchor && { anchor: existing.anchor }),
+        ...(existing?.fillColor && { fillColor: existing.fillColor }),
+        ...(existing?.strokeColor && { strokeColor: existing.strokeColor }),
+        ...(existing?.colorSpace && { colorSpace: existing.colorSpace }),
+        // Hand-set keyframes aren't tagged with a clip, so no preset will rebuild them
+        scaleX: unownedFrames(existing?.scaleX),
+        scaleY: unownedFrames(existing?.scaleY),
+        skewX: unownedFrames(existing?.skewX),
+        skewY: unownedFrames(existing?.skewY),
       }
 
       const addFrames = <T,>(arr: TimelineKeyframe<T>[] | undefined, frames: TimelineKeyframe<T>[]) => [
@@ -2528,6 +3199,7 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
         } else {
           // Subsequent clips: sample the track at this clip's start time
           const sample = sampleLayerTracks(track, start, {
+            ...DEFAULT_LAYER_STATE,
             position: basePos,
             scale: baseScale,
             rotation: baseRot,
@@ -2640,6 +3312,7 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
           (frames ?? []).map((f) => ({
             ...f,
             time: start + (Number.isFinite(f.time) ? (f.time as number) : 0),
+            clipId: clip.id,
           }))
 
         track = {
@@ -2649,6 +3322,10 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
           rotation: addFrames(track.rotation, shift(built.rotation)),
           opacity: addFrames(track.opacity, shift(built.opacity)),
           maskScale: addFrames(track.maskScale, shift(built.maskScale)),
+          scaleX: addFrames(track.scaleX, shift(built.scaleX)),
+          scaleY: addFrames(track.scaleY, shift(built.scaleY)),
+          skewX: addFrames(track.skewX, shift(built.skewX)),
+          skewY: addFrames(track.skewY, shift(built.skewY)),
           // Paths are not part of PresetResult, they're handled separately
         }
       })
@@ -2664,13 +3341,24 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
         rotation: sortFrames(ensureZero(track.rotation ?? [], baseRot)),
         opacity: sortFrames(ensureZero(track.opacity ?? [], baseOpacity)),
         maskScale: sortFrames(track.maskScale ?? []), // Don't force zero keyframe for mask if empty
+        scaleX: sortFrames(track.scaleX ?? []),
+        scaleY: sortFrames(track.scaleY ?? []),
+        skewX: sortFrames(track.skewX ?? []),
+        skewY: sortFrames(track.skewY ?? []),
       }
 
       nextTracks.push(track)
     })
 
+    // Layers no template drives (pre-comps, groups, hand-keyed shapes) keep their current track
+    state.tracks.forEach((t) => {
+      if (!clipsByLayer[t.layerId]) nextTracks.push(t)
+    })
+
     const pathsEnd = getMaxPathEnd(nextTracks)
-    const nextDuration = Math.max(clipsEnd, pathsEnd, 4000)
+    // Kept tracks (and group lifespans) may run past the last clip
+    const layersEnd = getContentDuration({ ...state, tracks: nextTracks, templateClips: clipsToRebuild })
+    const nextDuration = Math.max(clipsEnd, pathsEnd, layersEnd, 4000)
 
     return { tracks: nextTracks, duration: nextDuration }
   }
@@ -2694,9 +3382,16 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
     selectClip,
     addTemplateClip,
     removeTemplateClip,
+    rippleRemoveTemplateClip,
+    insertGap,
     setCurrentTime,
+    stepFrames,
+    setFps,
+    setQuantizeToFrames,
     setDuration,
     setLoop,
+    setWorkArea,
+    setWorkAreaPoint,
     setPlaybackRate,
     setRollDistance,
     setJumpHeight,
@@ -2723,6 +3418,23 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
       setKeyframe(layerId, 'rotation', frame),
     setOpacityKeyframe: (layerId: string, frame: TimelineKeyframe<number>) =>
       setKeyframe(layerId, 'opacity', frame),
+    setScaleXYKeyframe: (layerId: string, axis: 'scaleX' | 'scaleY', frame: TimelineKeyframe<number>) =>
+      setKeyframe(layerId, axis, frame),
+    setSkewKeyframe: (layerId: string, axis: 'skewX' | 'skewY', frame: TimelineKeyframe<number>) =>
+      setKeyframe(layerId, axis, frame),
+    setAnchorKeyframe: (layerId: string, frame: TimelineKeyframe<Vec2>) => setKeyframe(layerId, 'anchor', frame),
+    setColorKeyframe: (layerId: string, key: 'fillColor' | 'strokeColor', frame: TimelineKeyframe<number>) =>
+      setKeyframe(layerId, key, frame),
+    setColorSpace,
+    setBackgroundKeyframe,
+    setBackgroundColorSpace,
+    clearBackgroundTrack,
+    setKeyframeEasing,
+    moveKeyframes,
+    removeKeyframes,
+    insertKeyframes,
+    recordPositionKeyframe,
+    setRecording,
     addPathClip,
     removePathClip,
     updatePathClip,
@@ -2734,9 +3446,21 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
     addEffectClip,
     removeEffectClip,
     updateEffectClip,
+    reorderEffectClips,
+    setEffectKeyframe,
+    removeEffectKeyframe,
+    clearEffectKeyframes,
     effectClips: state.effectClips,
+    // Audio tracks
+    addAudioTrack,
+    updateAudioTrack,
+    removeAudioTrack,
+    addAudioDriver,
+    updateAudioDriver,
+    removeAudioDriver,
     replaceTracks,
     applyPresetToLayer,
+    loadComposition,
     clear,
     sampleAt,
     updateLayer,
@@ -2744,6 +3468,8 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
     // Undo/Redo: Get snapshotable state
     getSnapshot: () => ({
       templateClips: state.templateClips,
+      tracks: state.tracks,
+      effectClips: state.effectClips,
       templateSpeed: state.templateSpeed,
       rollDistance: state.rollDistance,
       jumpHeight: state.jumpHeight,
@@ -2764,6 +3490,8 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
     // Undo/Redo: Restore from snapshot
     restoreSnapshot: (snapshot: Partial<{
       templateClips: typeof state.templateClips
+      tracks: LayerTracks[]
+      effectClips: typeof state.effectClips
       templateSpeed: number
       rollDistance: number
       jumpHeight: number
@@ -2792,7 +3520,21 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
       })
 
       const clips = snapshot.templateClips ?? state.templateClips
-      const { tracks, duration } = buildTracksFromClips(clips, layerBaseMap)
+      // Saved tracks carry hand-set keyframes the preset builders can't reproduce
+      const { tracks, duration } = snapshot.tracks
+        ? {
+            tracks: snapshot.tracks,
+            duration: Math.max(
+              getContentDuration({
+                tracks: snapshot.tracks,
+                templateClips: clips,
+                clickMarkers: snapshot.clickMarkers ?? state.clickMarkers,
+                audioTracks: state.audioTracks,
+              }),
+              4000
+            ),
+          }
+        : buildTracksFromClips(clips, layerBaseMap)
 
       setState((prev) => ({
         ...prev,
@@ -2812,6 +3554,7 @@ export function createTimelineStore(initialState?: Partial<TimelineState>) {
         spinSpeed: snapshot.spinSpeed ?? prev.spinSpeed,
         spinDirection: snapshot.spinDirection ?? prev.spinDirection,
         clickMarkers: snapshot.clickMarkers ?? prev.clickMarkers,
+        effectClips: snapshot.effectClips ?? prev.effectClips,
         tracks,
         duration,
         currentTime: clampTime(prev.currentTime, duration),
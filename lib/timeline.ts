@@ -1,11 +1,41 @@
 // Timeline domain model and pure helpers for keyframe-based interpolation.
 
-export type Easing =
+import { interpolateColor } from './color'
+import type { ColorSpace } from './color'
+
+const EASING_FAMILIES = ['Quad', 'Cubic', 'Quart', 'Expo', 'Sine', 'Back', 'Elastic', 'Bounce'] as const
+
+type EasingFamily = (typeof EASING_FAMILIES)[number]
+
+export type EasingPreset =
   | 'linear'
-  | 'easeInQuad'
-  | 'easeOutQuad'
-  | 'easeInOutQuad'
-  | 'easeOutBack'
+  | `easeIn${EasingFamily}`
+  | `easeOut${EasingFamily}`
+  | `easeInOut${EasingFamily}`
+
+export interface CubicBezierEasing {
+  type: 'cubicBezier'
+  x1: number // x1 / x2 stay within 0-1, y1 / y2 may overshoot
+  y1: number
+  x2: number
+  y2: number
+}
+
+export interface StepsEasing {
+  type: 'steps'
+  count: number
+  position: 'start' | 'end' // jump at the start or the end of each step, like CSS steps()
+}
+
+export type Easing = EasingPreset | CubicBezierEasing | StepsEasing
+
+export type Bezier = [number, number, number, number]
+
+/** Every named easing, in the order the curve editor lists them */
+export const EASING_PRESETS: EasingPreset[] = [
+  'linear',
+  ...EASING_FAMILIES.flatMap((family) => [`easeIn${family}`, `easeOut${family}`, `easeInOut${family}`] as EasingPreset[]),
+]
 
 export interface Vec2 {
   x: number
@@ -33,49 +63,179 @@ export interface LayerTracks {
   duration?: number // ms - The lifespan of the layer
   position?: TimelineKeyframe<Vec2>[]
   scale?: TimelineKeyframe<number>[]
+  scaleX?: TimelineKeyframe<number>[] // per-axis multipliers on top of scale (squash & stretch)
+  scaleY?: TimelineKeyframe<number>[]
   rotation?: TimelineKeyframe<number>[]
+  skewX?: TimelineKeyframe<number>[] // radians, like rotation
+  skewY?: TimelineKeyframe<number>[]
+  anchor?: TimelineKeyframe<Vec2>[] // pivot for rotation/scale/skew, 0-1 across the layer box
   opacity?: TimelineKeyframe<number>[]
   maskScale?: TimelineKeyframe<number>[] // Controls the scale of the circle mask
+  fillColor?: TimelineKeyframe<number>[] // 0xRRGGBB; the text color on text layers
+  strokeColor?: TimelineKeyframe<number>[] // 0xRRGGBB, drawn when the layer has a stroke width
+  colorSpace?: ColorSpace // how the color tracks blend, defaults to oklab
   paths?: PathClip[]
 }
 
+// Animated colors of the project background (0xRRGGBB keyframes)
+export interface BackgroundTracks {
+  solid?: TimelineKeyframe<number>[]
+  from?: TimelineKeyframe<number>[] // gradient start
+  to?: TimelineKeyframe<number>[] // gradient end
+  colorSpace?: ColorSpace
+}
+
 export interface SampledLayerState {
   position: Vec2
   scale: number
+  scaleX: number
+  scaleY: number
   rotation: number
+  skewX: number
+  skewY: number
+  anchor: Vec2 // 0.5, 0.5 = layer center
   opacity: number
   maskScale?: number // If defined, apply a circle mask scaled by this value
+  fillColor?: number // Only set when the layer has fill color keyframes
+  strokeColor?: number
   activePathId?: string
 }
 
 export const DEFAULT_LAYER_STATE: SampledLayerState = {
   position: { x: 0.5, y: 0.5 },
   scale: 1,
+  scaleX: 1,
+  scaleY: 1,
   rotation: 0,
+  skewX: 0,
+  skewY: 0,
+  anchor: { x: 0.5, y: 0.5 },
   opacity: 1,
   maskScale: undefined,
 }
 
+// CSS cubic-bezier(x1, y1, x2, y2) equivalents of the named easings. These
+// are close fits of the curves in EASE_IN; elastic and bounce have none.
+const PRESET_CUBIC_BEZIER: Partial<Record<EasingPreset, Bezier>> = {
+  linear: [0, 0, 1, 1],
+  easeInQuad: [0.11, 0, 0.5, 0],
+  easeOutQuad: [0.5, 1, 0.89, 1],
+  easeInOutQuad: [0.45, 0, 0.55, 1],
+  easeInCubic: [0.32, 0, 0.67, 0],
+  easeOutCubic: [0.33, 1, 0.68, 1],
+  easeInOutCubic: [0.65, 0, 0.35, 1],
+  easeInQuart: [0.5, 0, 0.75, 0],
+  easeOutQuart: [0.25, 1, 0.5, 1],
+  easeInOutQuart: [0.76, 0, 0.24, 1],
+  easeInExpo: [0.7, 0, 0.84, 0],
+  easeOutExpo: [0.16, 1, 0.3, 1],
+  easeInOutExpo: [0.87, 0, 0.13, 1],
+  easeInSine: [0.12, 0, 0.39, 0],
+  easeOutSine: [0.61, 1, 0.88, 1],
+  easeInOutSine: [0.37, 0, 0.63, 1],
+  easeInBack: [0.36, 0, 0.66, -0.56],
+  easeOutBack: [0.34, 1.56, 0.64, 1],
+  easeInOutBack: [0.68, -0.6, 0.32, 1.6],
+}
+
+/**
+ * CSS cubic-bezier(x1, y1, x2, y2) equivalent of an easing, used by the vector
+ * exporters. Returns null for curves a single bezier can't describe (elastic,
+ * bounce, steps), which callers have to sample instead.
+ */
+export function getCubicBezier(easing: Easing = 'linear'): Bezier | null {
+  if (typeof easing === 'string') return PRESET_CUBIC_BEZIER[easing] ?? null
+  if (easing.type === 'cubicBezier') return [easing.x1, easing.y1, easing.x2, easing.y2]
+  return null
+}
+
 const clamp01 = (v: number) => Math.min(1, Math.max(0, v))
 
-const applyEasing = (t: number, easing: Easing = 'linear') => {
-  switch (easing) {
-    case 'easeInQuad':
-      return t * t
-    case 'easeOutQuad':
-      return 1 - (1 - t) * (1 - t)
-    case 'easeInOutQuad':
-      return t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2
-    case 'easeOutBack': {
-      const c1 = 1.70158
-      const c3 = c1 + 1
-      return 1 + c3 * Math.pow(t - 1, 3) + c1 * Math.pow(t - 1, 2)
-    }
+const BACK_C1 = 1.70158
+const BACK_C3 = BACK_C1 + 1
+
+const bounceOut = (t: number) => {
+  const n1 = 7.5625
+  const d1 = 2.75
+  if (t < 1 / d1) return n1 * t * t
+  if (t < 2 / d1) return n1 * (t -= 1.5 / d1) * t + 0.75
+  if (t < 2.5 / d1) return n1 * (t -= 2.25 / d1) * t + 0.9375
+  return n1 * (t -= 2.625 / d1) * t + 0.984375
+}
+
+// Ease-in curve of each family; the Out and InOut variants mirror it
+const EASE_IN: Record<EasingFamily, (t: number) => number> = {
+  Quad: (t) => t * t,
+  Cubic: (t) => t * t * t,
+  Quart: (t) => t * t * t * t,
+  Expo: (t) => (t === 0 ? 0 : Math.pow(2, 10 * t - 10)),
+  Sine: (t) => 1 - Math.cos((t * Math.PI) / 2),
+  Back: (t) => BACK_C3 * t * t * t - BACK_C1 * t * t,
+  Elastic: (t) =>
+    t === 0 || t === 1 ? t : -Math.pow(2, 10 * t - 10) * Math.sin((t * 10 - 10.75) * ((2 * Math.PI) / 3)),
+  Bounce: (t) => 1 - bounceOut(1 - t),
+}
+
+const applyPreset = (t: number, preset: EasingPreset) => {
+  const match = /^ease(InOut|In|Out)(\w+)$/.exec(preset)
+  const easeIn = match ? EASE_IN[match[2] as EasingFamily] : undefined
+  if (!match || !easeIn) return t
+  switch (match[1]) {
+    case 'In':
+      return easeIn(t)
+    case 'Out':
+      return 1 - easeIn(1 - t)
     default:
-      return t
+      return t < 0.5 ? easeIn(2 * t) / 2 : 1 - easeIn(2 - 2 * t) / 2
   }
 }
 
+/**
+ * Progress along a cubic-bezier curve: solves x(s) = t for the curve parameter
+ * (Newton steps, bisection fallback) and returns y(s)
+ */
+const solveCubicBezier = (t: number, x1: number, y1: number, x2: number, y2: number) => {
+  const curve = (s: number, p1: number, p2: number) =>
+    3 * (1 - s) * (1 - s) * s * p1 + 3 * (1 - s) * s * s * p2 + s * s * s
+  const slope = (s: number, p1: number, p2: number) =>
+    3 * (1 - s) * (1 - s) * p1 + 6 * (1 - s) * s * (p2 - p1) + 3 * s * s * (1 - p2)
+
+  let s = t
+  for (let i = 0; i < 8; i++) {
+    const error = curve(s, x1, x2) - t
+    if (Math.abs(error) < 1e-6) return curve(s, y1, y2)
+    const d = slope(s, x1, x2)
+    if (Math.abs(d) < 1e-6) break
+    s -= error / d
+  }
+  let lo = 0
+  let hi = 1
+  s = t
+  for (let i = 0; i < 30; i++) {
+    const x = curve(s, x1, x2)
+    if (Math.abs(x - t) < 1e-6) break
+    if (x < t) lo = s
+    else hi = s
+    s = (lo + hi) / 2
+  }
+  return curve(s, y1, y2)
+}
+
+/**
+ * Eased progress for a linear progress t (0-1). Back, elastic and custom
+ * bezier curves may leave the 0-1 range.
+ */
+export function applyEasing(t: number, easing: Easing = 'linear'): number {
+  if (typeof easing === 'string') return applyPreset(t, easing)
+  if (easing.type === 'cubicBezier') {
+    if (t <= 0 || t >= 1) return t
+    return solveCubicBezier(t, clamp01(easing.x1), easing.y1, clamp01(easing.x2), easing.y2)
+  }
+  const count = Math.max(1, Math.round(easing.count))
+  const jumps = Math.floor(t * count) + (easing.position === 'start' ? 1 : 0)
+  return t >= 1 ? 1 : Math.min(1, jumps / count)
+}
+
 const interpolateNumber = (a: number, b: number, t: number) => a + (b - a) * t
 
 const interpolateVec2 = (a: Vec2, b: Vec2, t: number): Vec2 => ({
@@ -124,6 +284,20 @@ export const sampleNumberTrack = (
   return interpolateNumber(prev.value, next.value, eased)
 }
 
+export const sampleColorTrack = (
+  frames: TimelineKeyframe<number>[] | undefined,
+  time: number,
+  fallback: number,
+  space: ColorSpace = 'oklab'
+): number => {
+  if (!frames || frames.length === 0) return fallback
+  if (frames.length === 1) return frames[0].value
+  const { prev, next } = findSegment(frames, time)
+  if (prev.time === next.time) return prev.value
+  const t = clamp01((time - prev.time) / (next.time - prev.time))
+  return interpolateColor(prev.value, next.value, applyEasing(t, next.easing ?? 'linear'), space)
+}
+
 export const sampleVec2Track = (
   frames: TimelineKeyframe<Vec2>[] | undefined,
   time: number,
@@ -175,7 +349,12 @@ export const sampleLayerTracks = (
 ): SampledLayerState => {
   const pos = sampleVec2Track(layer.position, time, defaults.position)
   const scale = sampleNumberTrack(layer.scale, time, defaults.scale)
+  const scaleX = sampleNumberTrack(layer.scaleX, time, defaults.scaleX)
+  const scaleY = sampleNumberTrack(layer.scaleY, time, defaults.scaleY)
   const rotation = sampleNumberTrack(layer.rotation, time, defaults.rotation)
+  const skewX = sampleNumberTrack(layer.skewX, time, defaults.skewX)
+  const skewY = sampleNumberTrack(layer.skewY, time, defaults.skewY)
+  const anchor = sampleVec2Track(layer.anchor, time, defaults.anchor)
   const opacity = sampleNumberTrack(layer.opacity, time, defaults.opacity)
   const maskScale = sampleNumberTrack(layer.maskScale, time, defaults.maskScale ?? 0) // Default to 0 if undefined? No, fallback handles it.
 
@@ -195,9 +374,16 @@ export const sampleLayerTracks = (
   return {
     position: pathResult ?? pos,
     scale,
+    scaleX,
+    scaleY,
     rotation,
+    skewX,
+    skewY,
+    anchor,
     opacity,
     maskScale: layer.maskScale && layer.maskScale.length > 0 ? maskScale : undefined, // Only set if track has actual keyframes
+    fillColor: layer.fillColor?.length ? sampleColorTrack(layer.fillColor, time, 0, layer.colorSpace) : undefined,
+    strokeColor: layer.strokeColor?.length ? sampleColorTrack(layer.strokeColor, time, 0, layer.colorSpace) : undefined,
     activePathId,
   }
 }
@@ -213,3 +399,23 @@ export const sampleTimeline = (
   })
   return result
 }
+
+/** Project frame rates */
+export const FRAME_RATES = [24, 25, 30, 60]
+export const DEFAULT_FPS = 30
+
+/** Frame `time` (ms) falls in at `fps`; the epsilon keeps a frame's own start time on that frame */
+export const timeToFrame = (time: number, fps: number) => Math.floor((time * fps) / 1000 + 1e-6)
+
+/**
+ * Start time (ms) of `frame` at `fps`. Always computed the same way, so the
+ * preview and every export sample a given frame number at the identical time.
+ */
+export const frameToTime = (frame: number, fps: number) => (frame * 1000) / fps
+
+/** Nearest frame boundary, at exactly the time the playhead and exports use for that frame */
+export const snapToFrame = (time: number, fps: number) => frameToTime(Math.round((time * fps) / 1000), fps)
+
+/** Where an edited keyframe lands: the nearest frame while quantizing, otherwise the whole millisecond */
+export const placeKeyframeTime = (time: number, fps: number, quantize: boolean) =>
+  Math.max(0, quantize ? snapToFrame(time, fps) : Math.round(time))
@@ -0,0 +1,92 @@
+/**
+ * Vector Export
+ *
+ * Shared pieces for exporters that convert the composition data instead of
+ * rendering pixels (Lottie, SVG, CSS): layer order, layer names and the
+ * features that only exist in the Pixi renderer.
+ */
+
+import type { Layer } from './history-manager'
+import type { ProjectTimeline } from './project-file'
+
+export interface VectorExportOptions {
+  fps: number // keyframe rate for anything that has to be baked
+  startTime?: number // ms, defaults to 0
+  duration: number // ms, exported span after startTime
+  name?: string
+}
+
+// Shape kinds drawn from /icons/*.svg, which a standalone file cannot reference
+export const ICON_SHAPE_KINDS = ['like', 'comment', 'share', 'cursor']
+
+// Templates that only exist at render time and never become keyframes
+const RENDER_ONLY_TEMPLATES: Record<string, string> = {
+  mask_center: 'mask reveal',
+  mask_top: 'mask reveal',
+  mask_center_out: 'mask reveal',
+  mask_top_out: 'mask reveal',
+  bounce_in: 'per-letter text animation',
+  bounce_out: 'per-letter text animation',
+  scramble: 'per-letter text animation',
+  transition_fade: 'transition',
+  transition_slide: 'transition',
+  transition_zoom: 'transition',
+  transition_blur: 'transition',
+}
+
+/**
+ * Layers back to front, following layerOrder (unlisted layers go on top)
+ */
+export function sortLayersBackToFront(layers: Layer[], layerOrder: string[]): Layer[] {
+  const orderMap = new Map(layerOrder.map((id, idx) => [id, idx]))
+  return [...layers].sort((a, b) => (orderMap.get(a.id) ?? Infinity) - (orderMap.get(b.id) ?? Infinity))
+}
+
+/**
+ * Human readable layer name for warnings and exported layer names
+ */
+export function describeLayer(layer: Layer): string {
+  if (layer.type === 'text') return `Text "${(layer.text ?? '').replace(/\s+/g, ' ').slice(0, 24)}"`
+  return `${layer.type === 'shape' ? layer.shapeKind : layer.type} layer`
+}
+
+/**
+ * Warnings for the effect clips and render-only templates on a layer
+ */
+export function getRenderOnlyWarnings(layer: Layer, timeline: ProjectTimeline, formatName: string): string[] {
+  const label = describeLayer(layer)
+  const warnings = timeline.effectClips
+    .filter((c) => c.layerId === layer.id)
+    .map((clip) => `${label}: ${clip.effectType} effect is not supported in ${formatName} and was skipped`)
+  timeline.templateClips
+    .filter((c) => c.layerId === layer.id)
+    .forEach((clip) => {
+      const feature = RENDER_ONLY_TEMPLATES[clip.template]
+      if (feature) warnings.push(`${label}: ${feature} (${clip.template}) is not supported in ${formatName} and was skipped`)
+    })
+  if (layer.parentId) {
+    warnings.push(`${label}: parenting is not supported in ${formatName}, exported without the parent's transform`)
+  }
+  if ((layer.strokeWidth ?? 0) > 0) warnings.push(`${label}: stroke is not supported in ${formatName} and was skipped`)
+  const track = timeline.tracks.find((t) => t.layerId === layer.id)
+  if ([track?.scaleX, track?.scaleY, track?.skewX, track?.skewY, track?.anchor].some((frames) => frames?.length)) {
+    warnings.push(`${label}: squash, skew and anchor animation is not supported in ${formatName} and was skipped`)
+  }
+  if (timeline.audioDrivers?.some((d) => d.layerId === layer.id)) {
+    warnings.push(`${label}: audio-reactive animation is not supported in ${formatName} and was skipped`)
+  }
+  if (track?.fillColor?.length || track?.strokeColor?.length) {
+    warnings.push(`${label}: color animation is not supported in ${formatName}, exported with the layer's static color`)
+  }
+  return warnings
+}
+
+/**
+ * Warnings for composition-level features that are exported statically
+ */
+export function getBackgroundWarnings(timeline: ProjectTimeline, formatName: string): string[] {
+  const tracks = timeline.backgroundTracks
+  return tracks?.solid?.length || tracks?.from?.length || tracks?.to?.length
+    ? [`Background color animation is not supported in ${formatName}, exported with the static background`]
+    : []
+}
@@ -0,0 +1,199 @@
+/**
+ * Video Export
+ *
+ * Encodes the rendered frames to WebM or MP4 with MediaRecorder.
+ * Frames are pushed one at a time through a canvas capture stream; the
+ * recorder is only running while a frame is on screen, so slow renders
+ * never stretch or drop frames in the output.
+ *
+ * With a soundtrack the recording has to run in real time: every frame is
+ * rendered to a compressed still first, then the stills are played back on
+ * the audio clock while the mix plays through once, uninterrupted.
+ */
+
+import { EXPORT_CANCELLED_MESSAGE, renderFrames } from './frame-export'
+import type { FrameExportOptions } from './frame-export'
+
+export type VideoFormat = 'webm' | 'mp4'
+
+export interface VideoExportOptions extends FrameExportOptions {
+  format: VideoFormat
+  bitrate?: number // bits per second
+  audio?: AudioBuffer // mixed soundtrack, starting at startTime
+}
+
+// Preferred codecs first; the browser picks the first one it can record
+const MIME_CANDIDATES: Record<VideoFormat, string[]> = {
+  webm: ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'],
+  mp4: ['video/mp4;codecs=avc1.42E01E', 'video/mp4;codecs=avc1', 'video/mp4'],
+}
+
+// Same, with an audio codec; the plain container types above also accept audio
+const AUDIO_MIME_CANDIDATES: Record<VideoFormat, string[]> = {
+  webm: ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus'],
+  mp4: ['video/mp4;codecs=avc1.42E01E,mp4a.40.2', 'video/mp4;codecs=avc1,mp4a.40.2'],
+}
+
+const DEFAULT_BITS_PER_PIXEL = 0.15
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+// Stills are kept between the render and the playback pass, so they're stored compressed
+const canvasToStill = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) {
+          reject(new Error('Could not encode video frame'))
+          return
+        }
+        resolve(blob)
+      },
+      'image/webp',
+      0.95
+    )
+  })
+
+/**
+ * First MediaRecorder mime type the browser supports for a format, if any
+ */
+export function getVideoMimeType(format: VideoFormat, withAudio = false): string | null {
+  if (typeof MediaRecorder === 'undefined') return null
+  const candidates = withAudio ? [...AUDIO_MIME_CANDIDATES[format], ...MIME_CANDIDATES[format]] : MIME_CANDIDATES[format]
+  return candidates.find((type) => MediaRecorder.isTypeSupported(type)) ?? null
+}
+
+/**
+ * Video formats this browser can record
+ */
+export function getSupportedVideoFormats(): VideoFormat[] {
+  return (['webm', 'mp4'] as const).filter((format) => getVideoMimeType(format) !== null)
+}
+
+/**
+ * Render the composition and encode it as a video Blob
+ */
+export async function exportVideo(options: VideoExportOptions): Promise<Blob> {
+  const { format, fps, width, height, audio } = options
+  const mimeType = getVideoMimeType(format, Boolean(audio))
+  if (!mimeType) {
+    throw new Error(`This browser cannot record ${format.toUpperCase()} video`)
+  }
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Could not create a 2D canvas for export')
+
+  // captureStream(0) only emits a frame when requestFrame() is called
+  const stream = canvas.captureStream(0)
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack
+
+  // The audio track has to be on the stream before the recorder is created
+  const audioContext = audio ? new AudioContext({ sampleRate: audio.sampleRate }) : null
+  const audioDestination = audioContext?.createMediaStreamDestination()
+  audioDestination?.stream.getAudioTracks().forEach((t) => stream.addTrack(t))
+  const recorder = new MediaRecorder(stream, {
+    mimeType,
+    videoBitsPerSecond: options.bitrate ?? Math.round(width * height * fps * DEFAULT_BITS_PER_PIXEL),
+  })
+
+  const chunks: Blob[] = []
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data)
+  }
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve()
+  })
+
+  try {
+    if (audio && audioContext && audioDestination) {
+      await recordWithAudio(options, audio, audioContext, audioDestination, recorder, ctx, track)
+    } else {
+      const frameDuration = 1000 / fps
+      recorder.start()
+      recorder.pause()
+      await renderFrames(options, async (frame) => {
+        ctx.clearRect(0, 0, width, height)
+        ctx.drawImage(frame, 0, 0)
+        recorder.resume()
+        track.requestFrame()
+        // Keep the frame on the recorder's clock for exactly one frame duration
+        await wait(frameDuration)
+        recorder.pause()
+      })
+    }
+  } finally {
+    if (recorder.state !== 'inactive') {
+      recorder.stop()
+      await stopped
+    }
+    stream.getTracks().forEach((t) => t.stop())
+    await audioContext?.close()
+  }
+
+  return new Blob(chunks, { type: mimeType.split(';')[0] })
+}
+
+/**
+ * Record the frames alongside a soundtrack. The mix plays as a single source
+ * and each frame goes on screen when the audio clock reaches its time, so the
+ * sound is never cut up and the picture can't drift from it.
+ */
+async function recordWithAudio(
+  options: VideoExportOptions,
+  audio: AudioBuffer,
+  audioContext: AudioContext,
+  destination: MediaStreamAudioDestinationNode,
+  recorder: MediaRecorder,
+  ctx: CanvasRenderingContext2D,
+  track: CanvasCaptureMediaStreamTrack
+) {
+  const { width, height, fps, signal } = options
+  const startTime = options.startTime ?? 0
+
+  // Rendering can be slower than real time, so all frames are rendered up front
+  const stills: { blob: Blob; offset: number }[] = []
+  await renderFrames(options, async (frame, _index, time) => {
+    stills.push({ blob: await canvasToStill(frame), offset: (time - startTime) / 1000 })
+  })
+  if (stills.length === 0) return
+
+  await audioContext.resume()
+  const showFrame = (bitmap: ImageBitmap) => {
+    ctx.clearRect(0, 0, width, height)
+    ctx.drawImage(bitmap, 0, 0)
+    bitmap.close()
+    track.requestFrame()
+  }
+  const waitForAudio = async (time: number) => {
+    while (audioContext.currentTime < time) {
+      await wait((time - audioContext.currentTime) * 1000)
+    }
+  }
+
+  const source = audioContext.createBufferSource()
+  source.buffer = audio
+  source.connect(destination)
+
+  // Decode one frame ahead so it's ready when its time comes
+  let next = createImageBitmap(stills[0].blob)
+  let audioStart = 0
+  for (let i = 0; i < stills.length; i++) {
+    if (signal?.aborted) throw new Error(EXPORT_CANCELLED_MESSAGE)
+    const bitmap = await next
+    if (i + 1 < stills.length) next = createImageBitmap(stills[i + 1].blob)
+    if (i === 0) {
+      recorder.start()
+      audioStart = audioContext.currentTime
+      source.start(audioStart)
+    } else {
+      await waitForAudio(audioStart + stills[i].offset)
+    }
+    showFrame(bitmap)
+  }
+  // Hold the last frame for its own duration
+  await waitForAudio(audioStart + stills[stills.length - 1].offset + 1 / fps)
+  source.stop()
+}
@@ -0,0 +1,95 @@
+/**
+ * Zip Writer
+ *
+ * Builds an uncompressed (STORE) zip archive in memory. Exports only pack
+ * already-compressed data (PNG, JSON is small), so deflating again buys nothing.
+ */
+
+import { crc32 } from './crc32'
+
+interface ZipEntry {
+  name: Uint8Array
+  data: Uint8Array
+  crc: number
+  offset: number
+}
+
+const encoder = new TextEncoder()
+
+// MS-DOS date/time fields used by the zip headers
+const dosDateTime = (date: Date) => {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2)
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  return { time, day }
+}
+
+export class ZipWriter {
+  private entries: ZipEntry[] = []
+  private parts: Uint8Array[] = []
+  private offset = 0
+  private stamp = dosDateTime(new Date())
+
+  /**
+   * Add a file; `name` may contain folders ("frames/frame_0001.png")
+   */
+  addFile(name: string, data: Uint8Array | string) {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data
+    const entry: ZipEntry = { name: encoder.encode(name), data: bytes, crc: crc32(bytes), offset: this.offset }
+
+    const header = new Uint8Array(30 + entry.name.length)
+    const view = new DataView(header.buffer)
+    view.setUint32(0, 0x04034b50, true) // local file header signature
+    view.setUint16(4, 20, true) // version needed
+    view.setUint16(6, 0x0800, true) // UTF-8 names
+    view.setUint16(8, 0, true) // method: store
+    view.setUint16(10, this.stamp.time, true)
+    view.setUint16(12, this.stamp.day, true)
+    view.setUint32(14, entry.crc, true)
+    view.setUint32(18, bytes.length, true)
+    view.setUint32(22, bytes.length, true)
+    view.setUint16(26, entry.name.length, true)
+    header.set(entry.name, 30)
+
+    this.parts.push(header, bytes)
+    this.offset += header.length + bytes.length
+    this.entries.push(entry)
+  }
+
+  /**
+   * Write the central directory and return the archive
+   */
+  finish(): Blob {
+    const directoryOffset = this.offset
+    let directorySize = 0
+    this.entries.forEach((entry) => {
+      const record = new Uint8Array(46 + entry.name.length)
+      const view = new DataView(record.buffer)
+      view.setUint32(0, 0x02014b50, true) // central directory signature
+      view.setUint16(4, 20, true) // version made by
+      view.setUint16(6, 20, true) // version needed
+      view.setUint16(8, 0x0800, true)
+      view.setUint16(10, 0, true)
+      view.setUint16(12, this.stamp.time, true)
+      view.setUint16(14, this.stamp.day, true)
+      view.setUint32(16, entry.crc, true)
+      view.setUint32(20, entry.data.length, true)
+      view.setUint32(24, entry.data.length, true)
+      view.setUint16(28, entry.name.length, true)
+      view.setUint32(42, entry.offset, true)
+      record.set(entry.name, 46)
+      this.parts.push(record)
+      directorySize += record.length
+    })
+
+    const end = new Uint8Array(22)
+    const view = new DataView(end.buffer)
+    view.setUint32(0, 0x06054b50, true) // end of central directory signature
+    view.setUint16(8, this.entries.length, true)
+    view.setUint16(10, this.entries.length, true)
+    view.setUint32(12, directorySize, true)
+    view.setUint32(16, directoryOffset, true)
+    this.parts.push(end)
+
+    return new Blob(this.parts as BlobPart[], { type: 'application/zip' })
+  }
+}